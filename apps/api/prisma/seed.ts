@@ -137,14 +137,44 @@ async function main() {
   ]);
   console.log('✅ Created contacts:', contacts.length);
 
+  // Create the default sales pipeline
+  const pipeline = await prisma.pipeline.create({
+    data: {
+      orgId: org.id,
+      name: 'Sales',
+      isDefault: true,
+      stages: {
+        create: [
+          { orgId: org.id, name: 'Lead', type: 'open', probability: 10, position: 0, color: 'bg-gray-100' },
+          { orgId: org.id, name: 'Qualified', type: 'open', probability: 25, position: 1, color: 'bg-blue-100' },
+          { orgId: org.id, name: 'Proposal', type: 'open', probability: 50, position: 2, color: 'bg-yellow-100' },
+          { orgId: org.id, name: 'Won', type: 'won', probability: 100, position: 3, color: 'bg-green-100' },
+          { orgId: org.id, name: 'Lost', type: 'lost', probability: 0, position: 4, color: 'bg-red-100' },
+        ],
+      },
+    },
+    include: { stages: true },
+  });
+  const stage = (name: string) => {
+    const match = pipeline.stages.find(s => s.name === name)!;
+    return {
+      pipelineId: pipeline.id,
+      stageId: match.id,
+      probability: match.probability,
+      closedAt: match.type === 'open' ? null : new Date(),
+    };
+  };
+  console.log('✅ Created pipeline:', pipeline.name);
+
   // Create deals across different stages
   const deals = await Promise.all([
     prisma.deal.create({
       data: {
         orgId: org.id,
+        ownerId: user.id,
         contactId: contacts[0].id,
         title: 'Enterprise CRM Implementation',
-        stage: 'proposal',
+        ...stage('Proposal'),
         valueCents: 5000000, // $50,000
         currency: 'USD',
       },
@@ -152,9 +182,10 @@ async function main() {
     prisma.deal.create({
       data: {
         orgId: org.id,
+        ownerId: user.id,
         contactId: contacts[1].id,
         title: 'Small Business Package',
-        stage: 'qualified',
+        ...stage('Qualified'),
         valueCents: 500000, // $5,000
         currency: 'USD',
       },
@@ -162,9 +193,10 @@ async function main() {
     prisma.deal.create({
       data: {
         orgId: org.id,
+        ownerId: user.id,
         contactId: contacts[2].id,
         title: 'Startup Basic Plan',
-        stage: 'lead',
+        ...stage('Lead'),
         valueCents: 100000, // $1,000
         currency: 'USD',
       },
@@ -172,9 +204,10 @@ async function main() {
     prisma.deal.create({
       data: {
         orgId: org.id,
+        ownerId: user.id,
         contactId: contacts[3].id,
         title: 'Renewal - Premium Package',
-        stage: 'won',
+        ...stage('Won'),
         valueCents: 1200000, // $12,000
         currency: 'USD',
       },
@@ -182,9 +215,10 @@ async function main() {
     prisma.deal.create({
       data: {
         orgId: org.id,
+        ownerId: user.id,
         contactId: contacts[4].id,
         title: 'Enterprise Migration',
-        stage: 'lost',
+        ...stage('Lost'),
         valueCents: 3000000, // $30,000
         currency: 'USD',
       },
@@ -192,6 +226,19 @@ async function main() {
   ]);
   console.log('✅ Created deals:', deals.length);
 
+  // Record each deal entering its stage
+  await prisma.dealStageChange.createMany({
+    data: deals.map((deal) => ({
+      orgId: org.id,
+      dealId: deal.id,
+      pipelineId: deal.pipelineId,
+      toStageId: deal.stageId,
+      ownerId: deal.ownerId,
+      changedBy: user.id,
+      changedAt: deal.createdAt,
+    })),
+  });
+
   // Create future appointments
   const now = new Date();
   const appointments = await Promise.all([
@@ -342,6 +389,49 @@ async function main() {
   ]);
   console.log('✅ Created activities:', activities.length);
 
+  // Create sample tasks, one of them overdue
+  const tasks = await Promise.all([
+    prisma.task.create({
+      data: {
+        orgId: org.id,
+        title: 'Follow up on enterprise proposal',
+        priority: 'high',
+        dueAt: new Date(now.getTime() + 2 * 24 * 60 * 60 * 1000),
+        assigneeId: user.id,
+        createdBy: user.id,
+        contactId: contacts[0].id,
+        dealId: deals[0].id,
+      },
+    }),
+    prisma.task.create({
+      data: {
+        orgId: org.id,
+        title: 'Send pricing sheet',
+        priority: 'normal',
+        dueAt: new Date(now.getTime() - 24 * 60 * 60 * 1000),
+        assigneeId: user.id,
+        createdBy: user.id,
+        contactId: contacts[1].id,
+      },
+    }),
+  ]);
+  console.log('✅ Created tasks:', tasks.length);
+
+  // Create default lead scoring rules
+  const leadScoreRules = await prisma.leadScoreRule.createMany({
+    data: [
+      { orgId: org.id, type: 'has_email', points: 5 },
+      { orgId: org.id, type: 'has_phone', points: 5 },
+      { orgId: org.id, type: 'tag', points: 15, config: { tag: 'vip' } },
+      { orgId: org.id, type: 'inbound_recency', points: 20, config: { withinDays: 7 } },
+      { orgId: org.id, type: 'inbound_count', points: 2, config: { withinDays: 30, maxPoints: 20 } },
+      { orgId: org.id, type: 'appointment_completed', points: 10, config: { maxPoints: 30 } },
+      { orgId: org.id, type: 'deal_value', points: 1, config: { perCents: 100000, maxPoints: 25 } },
+      { orgId: org.id, type: 'decay', points: -5, config: { everyDays: 14 } },
+    ],
+  });
+  console.log('✅ Created lead score rules:', leadScoreRules.count);
+
   // Create sample daily metrics for the last 7 days
   const dailyMetrics = [];
   for (let i = 6; i >= 0; i--) {
@@ -370,6 +460,7 @@ async function main() {
   console.log(`   - Appointments: ${appointments.length}`);
   console.log(`   - Automations: ${automations.length}`);
   console.log(`   - Activities: ${activities.length}`);
+  console.log(`   - Tasks: ${tasks.length}`);
   console.log(`   - Daily Metrics: ${dailyMetrics.length}`);
 }
 
@@ -0,0 +1,50 @@
+-- Full-text search vectors for GET /api/crm/search.
+--
+-- Prisma cannot express generated columns, so the schema declares `search_vector`
+-- as a plain tsvector column and this script redefines it as a stored generated
+-- column. Run it after `prisma migrate dev` / `prisma migrate deploy`:
+--
+--   pnpm --filter @clientflow/api prisma:search
+--
+-- It is idempotent. Index names match the ones Prisma creates for
+-- @@index([searchVector], type: Gin) so migrations do not report drift.
+--
+-- Names, emails, phones and locations use the 'simple' configuration so they are
+-- not stemmed; free text uses 'english'. SearchService queries each table with the
+-- same configuration its column was built with.
+
+BEGIN;
+
+ALTER TABLE contacts DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE contacts ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(first_name, '') || ' ' || coalesce(last_name, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(email, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(phone, '')), 'B')
+) STORED;
+CREATE INDEX IF NOT EXISTS contacts_search_vector_idx ON contacts USING GIN (search_vector);
+
+ALTER TABLE deals DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE deals ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('english', coalesce(title, ''))
+) STORED;
+CREATE INDEX IF NOT EXISTS deals_search_vector_idx ON deals USING GIN (search_vector);
+
+ALTER TABLE activities DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE activities ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('english', coalesce(content, ''))
+) STORED;
+CREATE INDEX IF NOT EXISTS activities_search_vector_idx ON activities USING GIN (search_vector);
+
+ALTER TABLE messages DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE messages ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('english', coalesce(body, ''))
+) STORED;
+CREATE INDEX IF NOT EXISTS messages_search_vector_idx ON messages USING GIN (search_vector);
+
+ALTER TABLE appointments DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE appointments ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('simple', coalesce(location, ''))
+) STORED;
+CREATE INDEX IF NOT EXISTS appointments_search_vector_idx ON appointments USING GIN (search_vector);
+
+COMMIT;
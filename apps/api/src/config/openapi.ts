@@ -73,10 +73,14 @@ const DealSchema = z.object({
   id: z.string().uuid(),
   orgId: z.string().uuid(),
   contactId: z.string().uuid(),
+  pipelineId: z.string().uuid(),
+  stageId: z.string().uuid(),
+  ownerId: z.string().uuid().nullable(),
   title: z.string(),
-  stage: z.enum(['lead', 'qualified', 'proposal', 'won', 'lost']),
   valueCents: z.number(),
   currency: z.string().default('USD'),
+  probability: z.number().int().min(0).max(100),
+  closedAt: z.string().datetime().nullable(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
 });
@@ -84,7 +88,10 @@ const DealSchema = z.object({
 const CreateDealSchema = z.object({
   contactId: z.string().uuid(),
   title: z.string().min(1),
-  stage: z.enum(['lead', 'qualified', 'proposal', 'won', 'lost']).default('lead'),
+  pipelineId: z.string().uuid().optional(),
+  stageId: z.string().uuid().optional(),
+  probability: z.number().int().min(0).max(100).optional(),
+  ownerId: z.string().uuid().nullable().optional(),
   valueCents: z.number().min(0),
   currency: z.string().default('USD'),
 });
@@ -349,7 +356,9 @@ router.openapi({
     query: z.object({
       page: z.number().min(1).default(1),
       limit: z.number().min(1).max(100).default(20),
-      stage: z.enum(['lead', 'qualified', 'proposal', 'won', 'lost']).optional(),
+      pipelineId: z.string().uuid().optional(),
+      stageId: z.string().uuid().optional(),
+      status: z.enum(['open', 'won', 'lost']).optional(),
       contactId: z.string().uuid().optional(),
     }),
   },
@@ -65,13 +65,14 @@ const corsOptions = {
     'Accept', 
     'X-Requested-With',
     'X-Request-ID',
+    'If-Match',
     'X-Twilio-Signature',
     'X-Goog-Signature',
     'X-Goog-Timestamp',
     'X-SMS-Signature',
     'X-Review-Signature'
   ],
-  exposedHeaders: ['X-Request-ID', 'RateLimit-Remaining', 'RateLimit-Reset'],
+  exposedHeaders: ['X-Request-ID', 'ETag', 'RateLimit-Remaining', 'RateLimit-Reset'],
 };
 
 app.use(cors(corsOptions));
@@ -23,6 +23,8 @@ import automationsRouter from './routes/automations';
 import healthRouter from './routes/health';
 import messagesRouter from './routes/messages';
 import slaRouter from './routes/sla';
+import publicQuotesRouter from './routes/quotes';
+import auditLogsRouter from './routes/auditLogs';
 
 const PORT = process.env.PORT || 4000;
 
@@ -52,6 +54,8 @@ app.use('/api/crm', crmRouter);
 app.use('/api/automations', automationsRouter);
 app.use('/api', messagesRouter);
 app.use('/api', slaRouter);
+app.use('/api/public/quotes', publicQuotesRouter);
+app.use('/api/audit-logs', auditLogsRouter);
 app.use('/', healthRouter);
 
 // API documentation endpoint
@@ -66,18 +70,137 @@ app.get('/api', (req, res) => {
         'GET /ready': 'Readiness check',
       },
       crm: {
-        'GET /api/crm/contacts': 'List contacts',
+        'GET /api/crm/contacts': 'List contacts (sortBy=leadScore, minLeadScore filter)',
         'POST /api/crm/contacts': 'Create contact',
-        'GET /api/crm/contacts/:id': 'Get contact',
-        'PUT /api/crm/contacts/:id': 'Update contact',
-        'DELETE /api/crm/contacts/:id': 'Delete contact',
+        'GET /api/crm/contacts/:id': 'Get contact; the ETag header carries its version',
+        'PUT /api/crm/contacts/:id': 'Update contact; send If-Match to get a 409 with the current contact if it changed',
+        'DELETE /api/crm/contacts/:id': 'Move contact and its deals, activities and appointments to the trash',
+        'GET /api/crm/contacts/duplicates': 'List likely duplicate contacts',
+        'POST /api/crm/contacts/duplicates/scan': 'Queue a duplicate scan',
+        'POST /api/crm/contacts/duplicates/:id/dismiss': 'Dismiss a duplicate candidate',
+        'GET /api/crm/contacts/:id/duplicates': 'Find duplicates of a contact',
+        'GET /api/crm/contacts/:id/score': 'Lead score with a per-rule breakdown',
+        'GET /api/crm/contacts/:id/timeline': 'Merged activity, message, appointment, deal, call and review history',
+        'POST /api/crm/contacts/:id/merge': 'Merge duplicates into a contact',
+        'POST /api/crm/contacts/imports': 'Upload a CSV/XLSX contact import',
+        'GET /api/crm/contacts/imports': 'List contact imports',
+        'GET /api/crm/contacts/imports/:id': 'Get contact import progress',
+        'POST /api/crm/contacts/imports/:id/dry-run': 'Validate a contact import without writing',
+        'POST /api/crm/contacts/imports/:id/start': 'Queue a contact import',
+        'GET /api/crm/contacts/imports/:id/errors': 'Download contact import error report',
+        'GET /api/crm/contacts/export': 'Export contacts as CSV, optionally for a segment',
+        'GET /api/crm/contacts/:id/consent': 'Get per-channel consent and the consent ledger for a contact',
+        'POST /api/crm/contacts/:id/consent': 'Record an opt-in or opt-out for a contact channel',
+        'GET /api/crm/conversations': 'List inbox conversations by status, channel, assignee or unread',
+        'GET /api/crm/conversations/:id': 'Get a conversation with its messages',
+        'PUT /api/crm/conversations/:id': 'Update conversation status, assignee or priority',
+        'POST /api/crm/conversations/:id/read': 'Mark a conversation read',
+        'POST /api/crm/conversations/:id/reply': 'Reply to a conversation over its channel',
+        'GET /api/crm/messages/:id/delivery': 'Get the delivery status and provider callback history of a message',
+        'GET /api/crm/templates': 'List message templates by channel',
+        'GET /api/crm/templates/variables': 'List the variables templates can use',
+        'GET /api/crm/templates/:id': 'Get a message template with its current content',
+        'GET /api/crm/templates/:id/versions': 'List every saved version of a message template',
+        'POST /api/crm/templates': 'Create a message template',
+        'PUT /api/crm/templates/:id': 'Update a message template; content changes save a new version',
+        'POST /api/crm/templates/:id/preview': 'Render a message template for a contact, appointment or deal',
+        'POST /api/crm/templates/:id/restore': 'Restore an archived message template',
+        'DELETE /api/crm/templates/:id': 'Archive a message template',
+        'GET /api/crm/scheduled-messages': 'List scheduled messages by status, channel, contact or send time',
+        'GET /api/crm/scheduled-messages/:id': 'Get a scheduled message',
+        'POST /api/crm/scheduled-messages/:id/cancel': 'Cancel a pending scheduled message',
+        'GET /api/crm/quiet-hours': 'Get the organization timezone and quiet hours',
+        'PUT /api/crm/quiet-hours': 'Update the organization timezone and quiet hours',
+        'GET /api/crm/messaging/providers': 'Get the SMS and email providers in use and those available',
+        'PUT /api/crm/messaging/providers': 'Pick the organization SMS and email providers, or null for the default',
+        'GET /api/crm/consent/suppressions': 'List outbound messages blocked by consent',
+        'POST /api/crm/contacts/:id/privacy/export': 'Download everything held about a contact as a zip',
+        'POST /api/crm/contacts/:id/privacy/erase': 'Erase personal data held about a contact with a verified completion report',
+        'GET /api/crm/privacy/requests': 'List data subject export and erasure requests',
+        'GET /api/crm/privacy/requests/:id': 'Get a privacy request report and check it against its hash',
+        'GET /api/crm/accounts': 'List accounts with rollups',
+        'GET /api/crm/accounts/:id': 'Get account with contacts, deals and rollups',
+        'POST /api/crm/accounts': 'Create account',
+        'PUT /api/crm/accounts/:id': 'Update account',
+        'DELETE /api/crm/accounts/:id': 'Delete account (contacts and deals are kept)',
+        'GET /api/crm/trash': 'List trashed contacts and deals',
+        'POST /api/crm/trash/:entity/:id/restore': 'Restore a trashed contact or deal with what was trashed along with it',
+        'GET /api/crm/segments': 'List saved segments',
+        'GET /api/crm/segments/fields': 'List fields and operators usable in segment filters',
+        'POST /api/crm/segments/preview': 'Preview contacts matching a filter',
+        'GET /api/crm/segments/:id': 'Get segment',
+        'GET /api/crm/segments/:id/contacts': 'List contacts in a segment',
+        'POST /api/crm/segments': 'Create segment',
+        'PUT /api/crm/segments/:id': 'Update segment',
+        'DELETE /api/crm/segments/:id': 'Delete segment',
+        'POST /api/crm/broadcasts': 'Queue an SMS or email broadcast to a segment',
+        'GET /api/crm/pipelines': 'List pipelines with stages',
+        'GET /api/crm/pipelines/:id': 'Get pipeline',
+        'POST /api/crm/pipelines': 'Create pipeline',
+        'PUT /api/crm/pipelines/:id': 'Update pipeline',
+        'DELETE /api/crm/pipelines/:id': 'Delete pipeline',
+        'POST /api/crm/pipelines/:id/stages': 'Add pipeline stage',
+        'POST /api/crm/pipelines/:id/stages/reorder': 'Reorder pipeline stages',
+        'PUT /api/crm/pipelines/:id/stages/:stageId': 'Update pipeline stage',
+        'DELETE /api/crm/pipelines/:id/stages/:stageId': 'Delete pipeline stage',
         'GET /api/crm/deals': 'List deals',
         'POST /api/crm/deals': 'Create deal',
-        'PUT /api/crm/deals/:id': 'Update deal',
-        'DELETE /api/crm/deals/:id': 'Delete deal',
+        'PUT /api/crm/deals/:id': 'Update deal; send If-Match to get a 409 with the current deal if it changed',
+        'DELETE /api/crm/deals/:id': 'Move deal to the trash',
+        'GET /api/crm/deals/:id/stage-history': 'List deal stage transitions',
+        'GET /api/crm/deals/:id/line-items': 'List deal line items with totals',
+        'PUT /api/crm/deals/:id/line-items': 'Replace deal line items and re-derive the deal value',
+        'POST /api/crm/deals/:id/line-items': 'Add a line item, optionally priced from a service',
+        'PUT /api/crm/deals/:id/line-items/:itemId': 'Update deal line item',
+        'DELETE /api/crm/deals/:id/line-items/:itemId': 'Remove deal line item',
+        'GET /api/crm/deals/:id/quotes': 'List quote versions for a deal',
+        'POST /api/crm/deals/:id/quotes': 'Generate a new quote version as a PDF',
+        'GET /api/crm/appointments/:id': 'Get appointment; the ETag header carries its version',
+        'PUT /api/crm/appointments/:id': 'Update appointment; honours If-Match like contacts and deals',
+        'GET /api/crm/quotes/:id': 'Get quote',
+        'GET /api/crm/quotes/:id/pdf': 'Download quote PDF',
+        'POST /api/crm/quotes/:id/send': 'Email quote with a signed accept/decline link',
+        'GET /api/crm/tasks': 'List tasks, or my/overdue tasks with view=mine|overdue',
+        'GET /api/crm/tasks/:id': 'Get task',
+        'POST /api/crm/tasks': 'Create task',
+        'PUT /api/crm/tasks/:id': 'Update task',
+        'POST /api/crm/tasks/:id/complete': 'Complete task',
+        'POST /api/crm/tasks/:id/reopen': 'Reopen task',
+        'DELETE /api/crm/tasks/:id': 'Delete task',
+        'GET /api/crm/scoring/rules': 'List lead scoring rules',
+        'POST /api/crm/scoring/rules': 'Create lead scoring rule',
+        'PUT /api/crm/scoring/rules/:id': 'Update lead scoring rule',
+        'DELETE /api/crm/scoring/rules/:id': 'Delete lead scoring rule',
+        'POST /api/crm/scoring/recompute': 'Queue a lead score recompute for the org',
+        'GET /api/crm/assignment/rules': 'List lead assignment rules',
+        'POST /api/crm/assignment/rules': 'Create lead assignment rule',
+        'PUT /api/crm/assignment/rules/:id': 'Update lead assignment rule',
+        'DELETE /api/crm/assignment/rules/:id': 'Delete lead assignment rule',
+        'GET /api/crm/branding': 'Get organization branding used on quotes',
+        'PUT /api/crm/branding': 'Update organization branding',
+        'GET /api/crm/currency': 'Get organization base currency',
+        'PUT /api/crm/currency': 'Change organization base currency',
+        'GET /api/crm/fx-rates': 'List FX rates',
+        'POST /api/crm/fx-rates': 'Set FX rate for a currency and date',
+        'POST /api/crm/fx-rates/import': 'Import FX rates from CSV or XLSX',
+        'DELETE /api/crm/fx-rates/:id': 'Delete FX rate',
+        'GET /api/crm/search': 'Full-text search across contacts, deals, activities, messages and appointments',
+        'GET /api/crm/analytics/pipelines': 'Stage conversion, time in stage and velocity by pipeline and owner',
+        'GET /api/crm/analytics/messages/delivery': 'Delivery, bounce and open rates per channel for outbound messages',
+        'GET /api/crm/analytics/revenue/services': 'Won revenue broken down by service',
+        'GET /api/crm/custom-fields': 'List custom field definitions',
+        'POST /api/crm/custom-fields': 'Create custom field definition',
+        'PUT /api/crm/custom-fields/:id': 'Update custom field definition',
+        'DELETE /api/crm/custom-fields/:id': 'Delete custom field definition',
+      },
+      quotes: {
+        'GET /api/public/quotes/:token': 'View a quote from its signed link',
+        'GET /api/public/quotes/:token/pdf': 'Download a quote PDF from its signed link',
+        'POST /api/public/quotes/:token/accept': 'Accept a quote; the deal moves to won',
+        'POST /api/public/quotes/:token/decline': 'Decline a quote',
       },
       messages: {
-        'POST /api/messages/outbound': 'Send SMS or email messages',
+        'POST /api/messages/outbound': 'Send SMS or email messages, or a library template by templateId; sendAt or quiet hours schedule it instead; opted-out recipients are refused',
       },
       appointments: {
         'GET /api/appointments?window=next_24h': 'Get appointments in next 24 hours',
@@ -93,14 +216,20 @@ app.get('/api', (req, res) => {
         'GET /api/automations/presets': 'Get automation presets',
         'POST /api/automations/test': 'Test automation',
       },
+      auditLogs: {
+        'GET /api/audit-logs': 'List audit entries for create, update and delete requests; filter by resource, user, action and date',
+        'GET /api/audit-logs?format=csv': 'Export filtered audit entries as CSV',
+      },
       webhooks: {
         'POST /api/webhooks/stripe': 'Stripe webhook',
         'POST /api/webhooks/twilio': 'Twilio webhook',
+        'POST /api/webhooks/twilio-status': 'Twilio delivery status callback',
+        'POST /api/webhooks/sendgrid-events': 'SendGrid event webhook for delivery, open and bounce events',
         'POST /api/webhooks/sendgrid-inbound': 'SendGrid inbound webhook',
         'POST /api/webhooks/gcal': 'Google Calendar webhook',
       },
     },
-    authentication: 'Bearer token required for all endpoints (except webhooks)',
+    authentication: 'Bearer token required for all endpoints (except webhooks and signed public quote links)',
   });
 });
 
@@ -0,0 +1,137 @@
+import { Request, Response, NextFunction } from 'express';
+import Sentry from '../config/sentry';
+import logger from './logger';
+import { AuditEntry, AuditService, diffValues } from '../services/audit';
+
+const MUTATIONS: Record<string, string> = {
+  POST: 'create',
+  PUT: 'update',
+  PATCH: 'update',
+  DELETE: 'delete',
+};
+
+const ID_SEGMENT = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface AuditTrailOptions {
+  // For routers mounted on a single resource, e.g. /api/services. Otherwise the
+  // first path segment is the resource.
+  resourceType?: string;
+  // POST routes that do not change anything, e.g. previews and inbound webhooks
+  skip?: RegExp[];
+}
+
+interface AuditTarget {
+  resourceType: string;
+  resourceId: string | null;
+  action: string;
+}
+
+/**
+ * Maps a route path to what was changed:
+ *   POST   /contacts                     -> contacts, create
+ *   PATCH  /contacts/:id                 -> contacts, update
+ *   POST   /contacts/:id/merge           -> contacts, merge
+ *   DELETE /deals/:id/line-items/:itemId -> deals, line_items.delete
+ */
+function auditTarget(path: string, verb: string, resourceType?: string): AuditTarget | null {
+  const segments = path.split('/').filter(Boolean);
+  const nouns = segments.filter(segment => !ID_SEGMENT.test(segment)).map(segment => segment.replace(/-/g, '_'));
+  const resource = resourceType ?? nouns.shift();
+  if (!resource) return null;
+
+  const endsWithId = segments.length > 0 && ID_SEGMENT.test(segments[segments.length - 1]);
+  const action = nouns.length === 0 ? verb : endsWithId ? [...nouns, verb].join('.') : nouns.join('.');
+
+  return {
+    resourceType: resource,
+    resourceId: segments.find(segment => ID_SEGMENT.test(segment)) ?? null,
+    action,
+  };
+}
+
+/**
+ * Writes an audit log entry for every successful create, update and delete on
+ * the router, with the actor, IP, user agent and the fields that changed. Mount
+ * it after auth so the actor and org are known; routers on Supabase businesses,
+ * which carry no org, are recorded under the business. The response has gone out by
+ * the time the entry is written, so a failed write is logged and reported to
+ * Sentry instead of failing the request.
+ */
+export function auditTrail(options: AuditTrailOptions = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const verb = MUTATIONS[req.method];
+    if (!verb || options.skip?.some(pattern => pattern.test(req.path))) {
+      return next();
+    }
+
+    const target = auditTarget(req.path, verb, options.resourceType);
+    if (!target) {
+      return next();
+    }
+
+    const before = target.resourceId ? await AuditService.snapshot(target.resourceType, target.resourceId) : null;
+
+    let responseBody: any;
+    const json = res.json.bind(res);
+    res.json = (body: any) => {
+      responseBody = body;
+      return json(body);
+    };
+
+    res.on('finish', async () => {
+      if (res.statusCode < 200 || res.statusCode >= 300) return;
+
+      const orgId: string | undefined = (req as any).orgId;
+      const businessId: string | undefined = (req as any).businessId;
+      if (!orgId && !businessId) return;
+
+      const data = responseBody?.data ?? responseBody;
+      const resourceId = target.resourceId ?? (typeof data?.id === 'string' ? data.id : null);
+      const after = target.resourceId ? await AuditService.snapshot(target.resourceType, target.resourceId) : null;
+
+      // Sub-resource changes leave the parent record as it was, so fall back to
+      // what the route returned
+      const changes = diffValues(before, after);
+      const unchanged = changes.oldValues === null && changes.newValues === null;
+
+      const entry: AuditEntry = {
+        orgId: orgId ?? null,
+        businessId: businessId ?? null,
+        userId: (req as any).userId ?? (req as any).user?.id ?? null,
+        action: target.action,
+        resourceType: target.resourceType,
+        resourceId,
+        oldValues: changes.oldValues,
+        newValues: unchanged && verb !== 'delete' ? data ?? req.body : changes.newValues,
+        ip: req.ip,
+        userAgent: req.get('user-agent') ?? null,
+        metadata: {
+          method: req.method,
+          path: req.originalUrl.split('?')[0],
+          statusCode: res.statusCode,
+          requestId: (req as any).requestId,
+        },
+      };
+
+      try {
+        await AuditService.record(entry);
+      } catch (error) {
+        logger.error('Failed to write audit log', {
+          orgId,
+          businessId,
+          action: entry.action,
+          resourceType: entry.resourceType,
+          resourceId,
+          requestId: (req as any).requestId,
+          error: error instanceof Error ? error.message : error,
+        });
+        Sentry.captureException(error, {
+          tags: { component: 'audit' },
+          extra: { action: entry.action, resourceType: entry.resourceType, resourceId },
+        });
+      }
+    });
+
+    next();
+  };
+}
@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
+import { STATUS_CODES } from 'http';
 import { CustomError, isCustomError, formatErrorResponse, ERROR_CODES } from '../utils/errors';
 import { logger, logError } from '../utils/logger';
 import { ZodError } from 'zod';
@@ -210,6 +211,20 @@ export const asyncHandler = (fn: Function) => {
   };
 }; 
 
+// Sends client errors raised by the service layer; returns false for anything else
+export const sendServiceError = (res: Response, error: unknown) => {
+  if (error instanceof CustomError && error.statusCode < 500) {
+    res.status(error.statusCode).json({
+      error: STATUS_CODES[error.statusCode],
+      message: error.message,
+      details: error.details,
+    });
+    return true;
+  }
+
+  return false;
+};
+
 // Graceful shutdown signal handler
 export const gracefulShutdown = (server: any) => {
   return (signal: string) => {
@@ -53,6 +53,30 @@ export const fileUploadConfig = {
 // Multer instance for call recording uploads
 export const uploadRecordingMulter = multer(fileUploadConfig);
 
+// File upload configuration for contact imports
+export const spreadsheetUploadConfig = {
+  storage: multer.memoryStorage(),
+  
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB max for CSV/XLSX imports
+    files: 1,
+  },
+  
+  fileFilter: (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+    const ext = path.extname(file.originalname).toLowerCase();
+    const validExtensions = ['.csv', '.xlsx', '.xls'];
+    
+    if (!validExtensions.includes(ext)) {
+      return cb(new Error('Invalid file type. Only CSV and XLSX files are allowed.'));
+    }
+    
+    cb(null, true);
+  }
+};
+
+// Multer instance for contact import uploads
+export const uploadSpreadsheetMulter = multer(spreadsheetUploadConfig);
+
 // Twilio signature verification middleware
 export function verifyTwilioSignature(req: Request, res: Response, next: NextFunction) {
   try {
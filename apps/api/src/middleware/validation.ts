@@ -120,4 +120,10 @@ export const validateParams = (schema: ZodSchema) => {
       });
     }
   };
-};
\ No newline at end of file
+};
+/** Validates one part of the request against a schema; the body unless told otherwise */
+export const validation = (schema: ZodSchema, part: 'body' | 'query' | 'params' = 'body') => {
+  if (part === 'query') return validateQuery(schema);
+  if (part === 'params') return validateParams(schema);
+  return validateBody(schema);
+};
@@ -65,6 +65,88 @@ export const snapshotsQueue = new Queue('snapshots', {
   },
 });
 
+export const duplicatesQueue = new Queue('duplicates', {
+  connection: redisConnection,
+  defaultJobOptions: {
+    removeOnComplete: 50,
+    removeOnFail: 25,
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 2000,
+    },
+  },
+});
+
+export const importsQueue = new Queue('imports', {
+  connection: redisConnection,
+  defaultJobOptions: {
+    removeOnComplete: 50,
+    removeOnFail: 25,
+    // Not retried: a partially applied import would be re-run against contacts it already wrote
+    attempts: 1,
+  },
+});
+
+export const broadcastsQueue = new Queue('broadcasts', {
+  connection: redisConnection,
+  defaultJobOptions: {
+    removeOnComplete: 50,
+    removeOnFail: 25,
+    // Not retried: contacts reached before a failure would be messaged twice
+    attempts: 1,
+  },
+});
+
+export const tasksQueue = new Queue('tasks', {
+  connection: redisConnection,
+  defaultJobOptions: {
+    removeOnComplete: 50,
+    removeOnFail: 25,
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 2000,
+    },
+  },
+});
+
+export const scoringQueue = new Queue('scoring', {
+  connection: redisConnection,
+  defaultJobOptions: {
+    removeOnComplete: 50,
+    removeOnFail: 25,
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 2000,
+    },
+  },
+});
+
+export const retentionQueue = new Queue('retention', {
+  connection: redisConnection,
+  defaultJobOptions: {
+    removeOnComplete: 50,
+    removeOnFail: 25,
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 2000,
+    },
+  },
+});
+
+// Sending is not idempotent, so scheduled messages are not retried
+export const scheduledMessagesQueue = new Queue('scheduled-messages', {
+  connection: redisConnection,
+  defaultJobOptions: {
+    removeOnComplete: 100,
+    removeOnFail: 50,
+    attempts: 1,
+  },
+});
+
 // Queue event handlers
 const setupQueueEvents = (queue: Queue, queueName: string) => {
   queue.on('waiting', (job) => {
@@ -103,6 +185,13 @@ setupQueueEvents(remindersQueue, 'reminders');
 setupQueueEvents(nurtureQueue, 'nurture');
 setupQueueEvents(dunningQueue, 'dunning');
 setupQueueEvents(snapshotsQueue, 'snapshots');
+setupQueueEvents(duplicatesQueue, 'duplicates');
+setupQueueEvents(importsQueue, 'imports');
+setupQueueEvents(broadcastsQueue, 'broadcasts');
+setupQueueEvents(tasksQueue, 'tasks');
+setupQueueEvents(scoringQueue, 'scoring');
+setupQueueEvents(retentionQueue, 'retention');
+setupQueueEvents(scheduledMessagesQueue, 'scheduled-messages');
 
 // Queue management functions
 export const getQueueStats = async () => {
@@ -111,6 +200,13 @@ export const getQueueStats = async () => {
     nurtureQueue.getJobCounts(),
     dunningQueue.getJobCounts(),
     snapshotsQueue.getJobCounts(),
+    duplicatesQueue.getJobCounts(),
+    importsQueue.getJobCounts(),
+    broadcastsQueue.getJobCounts(),
+    tasksQueue.getJobCounts(),
+    scoringQueue.getJobCounts(),
+    retentionQueue.getJobCounts(),
+    scheduledMessagesQueue.getJobCounts(),
   ]);
 
   return {
@@ -118,6 +214,13 @@ export const getQueueStats = async () => {
     nurture: stats[1],
     dunning: stats[2],
     snapshots: stats[3],
+    duplicates: stats[4],
+    imports: stats[5],
+    broadcasts: stats[6],
+    tasks: stats[7],
+    scoring: stats[8],
+    retention: stats[9],
+    scheduledMessages: stats[10],
   };
 };
 
@@ -127,6 +230,13 @@ export const pauseAllQueues = async () => {
     nurtureQueue.pause(),
     dunningQueue.pause(),
     snapshotsQueue.pause(),
+    duplicatesQueue.pause(),
+    importsQueue.pause(),
+    broadcastsQueue.pause(),
+    tasksQueue.pause(),
+    scoringQueue.pause(),
+    retentionQueue.pause(),
+    scheduledMessagesQueue.pause(),
   ]);
 };
 
@@ -136,6 +246,13 @@ export const resumeAllQueues = async () => {
     nurtureQueue.resume(),
     dunningQueue.resume(),
     snapshotsQueue.resume(),
+    duplicatesQueue.resume(),
+    importsQueue.resume(),
+    broadcastsQueue.resume(),
+    tasksQueue.resume(),
+    scoringQueue.resume(),
+    retentionQueue.resume(),
+    scheduledMessagesQueue.resume(),
   ]);
 };
 
@@ -145,6 +262,13 @@ export const clearAllQueues = async () => {
     nurtureQueue.obliterate({ force: true }),
     dunningQueue.obliterate({ force: true }),
     snapshotsQueue.obliterate({ force: true }),
+    duplicatesQueue.obliterate({ force: true }),
+    importsQueue.obliterate({ force: true }),
+    broadcastsQueue.obliterate({ force: true }),
+    tasksQueue.obliterate({ force: true }),
+    scoringQueue.obliterate({ force: true }),
+    retentionQueue.obliterate({ force: true }),
+    scheduledMessagesQueue.obliterate({ force: true }),
   ]);
 };
 
@@ -155,6 +279,13 @@ export const closeAllQueues = async () => {
     nurtureQueue.close(),
     dunningQueue.close(),
     snapshotsQueue.close(),
+    duplicatesQueue.close(),
+    importsQueue.close(),
+    broadcastsQueue.close(),
+    tasksQueue.close(),
+    scoringQueue.close(),
+    retentionQueue.close(),
+    scheduledMessagesQueue.close(),
   ]);
 };
 
@@ -2,10 +2,13 @@ import { Router, Request, Response } from 'express';
 import { requireOrg } from '../lib/tenancy';
 import { createRequestLogger } from '../config/logger';
 import { PrismaClient } from '@prisma/client';
+import { auditTrail } from '../middleware/audit';
 
 const router = Router();
 const prisma = new PrismaClient();
 
+router.use(auditTrail());
+
 router.get('/appointments', requireOrg, async (req: Request, res: Response) => {
   const logger = createRequestLogger(req);
   const orgId = (req as any).orgId as string;
@@ -20,6 +23,7 @@ router.get('/appointments', requireOrg, async (req: Request, res: Response) => {
       const appointments = await prisma.appointment.findMany({
         where: {
           orgId,
+          deletedAt: null,
           startsAt: {
             gte: now,
             lte: tomorrow,
@@ -73,6 +77,7 @@ router.get('/appointments', requireOrg, async (req: Request, res: Response) => {
       const appointments = await prisma.appointment.findMany({
         where: {
           orgId,
+          deletedAt: null,
           status: 'completed',
           updatedAt: {
             gte: oneDayAgo,
@@ -119,7 +124,7 @@ router.get('/appointments', requireOrg, async (req: Request, res: Response) => {
 
     const [appointments, total] = await Promise.all([
       prisma.appointment.findMany({
-        where: { orgId },
+        where: { orgId, deletedAt: null },
         include: {
           contact: {
             select: {
@@ -138,7 +143,7 @@ router.get('/appointments', requireOrg, async (req: Request, res: Response) => {
         take: limit,
       }),
       prisma.appointment.count({
-        where: { orgId },
+        where: { orgId, deletedAt: null },
       }),
     ]);
 
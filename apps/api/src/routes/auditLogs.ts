@@ -0,0 +1,64 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { auth, getAuthContext, requireRole } from '../middleware/auth';
+import { validation } from '../middleware/validation';
+import { createRequestLogger } from '../config/logger';
+import { AuditService } from '../services/audit';
+import { sendServiceError } from '../middleware/errorHandler';
+
+const router = Router();
+
+const AuditLogQuerySchema = z.object({
+  resourceType: z.string().trim().min(1).max(100).optional(),
+  resourceId: z.string().uuid().optional(),
+  userId: z.string().uuid().optional(),
+  action: z.string().trim().min(1).max(100).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  format: z.enum(['json', 'csv']).default('json'),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(50),
+});
+
+router.use(auth);
+router.use(requireRole(['owner', 'admin']));
+
+router.get('/', validation(AuditLogQuerySchema, 'query'), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { format, page, limit, ...filters } = req.query as any;
+
+  try {
+    if (format === 'csv') {
+      const { fileName, csv, count } = await AuditService.exportCsv(orgId, filters);
+
+      logger.info('Audit logs exported', { orgId, count });
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(csv);
+      return;
+    }
+
+    const { logs, total } = await AuditService.list(orgId, { ...filters, page, limit });
+
+    res.json({
+      data: logs,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get audit logs', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get audit logs',
+    });
+  }
+});
+
+export default router;
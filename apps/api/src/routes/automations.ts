@@ -3,13 +3,20 @@ import { requireOrg, optionalOrg } from '../lib/tenancy';
 import { z } from 'zod';
 import { createRequestLogger } from '../config/logger';
 import { PrismaClient } from '@prisma/client';
-import { sendSms } from '../services/comms/twilio';
-import { sendEmail } from '../services/comms/sendgrid';
 import { normalizePhone, normalizeEmail } from '../lib/tenancy';
+import { SegmentService } from '../services/segments';
+import { LeadScoringService } from '../services/leadScoring';
+import { AssignmentService } from '../services/assignment';
+import { ConsentService } from '../services/consent';
+import { InboxService } from '../services/inbox';
+import { NotFoundError } from '../utils/errors';
+import { auditTrail } from '../middleware/audit';
 
 const router = Router();
 const prisma = new PrismaClient();
 
+router.use(auditTrail({ skip: [/^\/automations\/(sms|email)_inbound$/] }));
+
 // SMS Inbound Proxy
 router.post('/automations/sms_inbound', optionalOrg, async (req: Request, res: Response) => {
   const logger = createRequestLogger(req);
@@ -32,24 +39,8 @@ router.post('/automations/sms_inbound', optionalOrg, async (req: Request, res: R
       messageSid: MessageSid,
     });
 
-    // Store inbound message
-    await prisma.message.create({
-      data: {
-        orgId,
-        direction: 'inbound',
-        channel: 'sms',
-        toAddr: To,
-        fromAddr: From,
-        body: Body,
-        meta: {
-          messageSid: MessageSid,
-          messageStatus: MessageStatus,
-          source: 'n8n',
-        },
-      },
-    });
-
     // Upsert contact
+    let contactId: string | undefined;
     const normalizedPhone = normalizePhone(From);
     if (normalizedPhone) {
       const existingContact = await prisma.contact.findFirst({
@@ -59,8 +50,10 @@ router.post('/automations/sms_inbound', optionalOrg, async (req: Request, res: R
         },
       });
 
-      if (!existingContact) {
-        await prisma.contact.create({
+      if (existingContact) {
+        contactId = existingContact.id;
+      } else {
+        const contact = await prisma.contact.create({
           data: {
             orgId,
             firstName: 'SMS',
@@ -69,9 +62,29 @@ router.post('/automations/sms_inbound', optionalOrg, async (req: Request, res: R
             tags: ['sms-inbound'],
           },
         });
+        contactId = contact.id;
+        await AssignmentService.assignLead(orgId, contact.id, 'sms');
       }
     }
 
+    // Store inbound message
+    await InboxService.recordMessage(orgId, {
+      contactId,
+      direction: 'inbound',
+      channel: 'sms',
+      toAddr: To,
+      fromAddr: From,
+      body: Body,
+      providerMessageId: MessageSid,
+      meta: {
+        messageSid: MessageSid,
+        messageStatus: MessageStatus,
+        source: 'n8n',
+      },
+    });
+    await ConsentService.handleInboundKeyword(orgId, 'sms', From, Body, contactId ?? null);
+    await LeadScoringService.queueRecompute(orgId, contactId);
+
     res.json({ 
       success: true, 
       messageId: MessageSid,
@@ -108,24 +121,8 @@ router.post('/automations/email_inbound', optionalOrg, async (req: Request, res:
       subject,
     });
 
-    // Store inbound email
-    await prisma.message.create({
-      data: {
-        orgId,
-        direction: 'inbound',
-        channel: 'email',
-        toAddr: to,
-        fromAddr: from,
-        body: html || text,
-        meta: {
-          subject,
-          headers,
-          source: 'n8n',
-        },
-      },
-    });
-
     // Upsert contact
+    let contactId: string | undefined;
     const normalizedEmail = normalizeEmail(from);
     if (normalizedEmail) {
       const existingContact = await prisma.contact.findFirst({
@@ -135,8 +132,10 @@ router.post('/automations/email_inbound', optionalOrg, async (req: Request, res:
         },
       });
 
-      if (!existingContact) {
-        await prisma.contact.create({
+      if (existingContact) {
+        contactId = existingContact.id;
+      } else {
+        const contact = await prisma.contact.create({
           data: {
             orgId,
             firstName: 'Email',
@@ -145,9 +144,27 @@ router.post('/automations/email_inbound', optionalOrg, async (req: Request, res:
             tags: ['email-inbound'],
           },
         });
+        contactId = contact.id;
+        await AssignmentService.assignLead(orgId, contact.id, 'email');
       }
     }
 
+    // Store inbound email
+    await InboxService.recordMessage(orgId, {
+      contactId,
+      direction: 'inbound',
+      channel: 'email',
+      toAddr: to,
+      fromAddr: from,
+      body: html || text,
+      meta: {
+        subject,
+        headers,
+        source: 'n8n',
+      },
+    });
+    await LeadScoringService.queueRecompute(orgId, contactId);
+
     res.json({ 
       success: true, 
       orgId,
@@ -165,6 +182,7 @@ router.post('/automations/email_inbound', optionalOrg, async (req: Request, res:
 const RunBodySchema = z.object({
   type: z.enum(['booking', 'reminder', 'review', 'nurture', 'dunning', 'sla']),
   orgId: z.string().uuid(),
+  segmentId: z.string().uuid().optional(),
   payload: z.any().optional(),
 });
 
@@ -174,36 +192,36 @@ router.post('/automations/run', requireOrg, async (req: Request, res: Response)
   const orgId = (req as any).orgId as string;
   
   try {
-    const { type, payload } = RunBodySchema.parse(req.body);
+    const { type, segmentId, payload } = RunBodySchema.parse(req.body);
     
-    logger.info('Automation run requested', { type, orgId, payload });
-
-    let jobId: string | undefined;
+    logger.info('Automation run requested', { type, orgId, segmentId, payload });
 
     // Import queue functions
     const { enqueueReminder, enqueueNurture, enqueueDunning, enqueueSnapshots } = await import('../workers/enqueue');
 
+    let enqueue: typeof enqueueReminder;
+
     switch (type) {
       case 'reminder':
-        jobId = await enqueueReminder({ orgId, payload });
+        enqueue = enqueueReminder;
         break;
       case 'nurture':
-        jobId = await enqueueNurture({ orgId, payload });
+        enqueue = enqueueNurture;
         break;
       case 'dunning':
-        jobId = await enqueueDunning({ orgId, payload });
+        enqueue = enqueueDunning;
         break;
       case 'booking':
         // Handle booking automation (could be a reminder type)
-        jobId = await enqueueReminder({ orgId, payload });
+        enqueue = enqueueReminder;
         break;
       case 'review':
         // Handle review automation (could be a nurture type)
-        jobId = await enqueueNurture({ orgId, payload });
+        enqueue = enqueueNurture;
         break;
       case 'sla':
         // Handle SLA automation (could be a snapshots type)
-        jobId = await enqueueSnapshots({ orgId, payload });
+        enqueue = enqueueSnapshots;
         break;
       default:
         return res.status(400).json({
@@ -212,6 +230,36 @@ router.post('/automations/run', requireOrg, async (req: Request, res: Response)
         });
     }
 
+    // Segment runs queue one job per matching contact
+    if (segmentId) {
+      if (type === 'sla') {
+        return res.status(400).json({
+          success: false,
+          error: 'SLA automations cannot target a segment',
+        });
+      }
+
+      const contactIds = await SegmentService.contactIds(orgId, segmentId);
+      const jobIds: (string | undefined)[] = [];
+      for (const contactId of contactIds) {
+        const job = await enqueue({ orgId, contactId, payload });
+        jobIds.push(job.id);
+      }
+
+      logger.info('Automation jobs queued for segment', { type, orgId, segmentId, count: jobIds.length });
+
+      return res.json({
+        success: true,
+        jobIds,
+        type,
+        orgId,
+        segmentId,
+      });
+    }
+
+    const job = await enqueue({ orgId, payload });
+    const jobId = job.id;
+
     logger.info('Automation job queued', { type, orgId, jobId });
     
     res.json({
@@ -221,6 +269,12 @@ router.post('/automations/run', requireOrg, async (req: Request, res: Response)
       orgId,
     });
   } catch (error) {
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
     logger.error('Failed to run automation', { error, type: req.body.type });
     res.status(500).json({
       success: false,
@@ -1,49 +1,634 @@
 import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { z } from 'zod';
-import { auth, getAuthContext } from '../middleware/auth';
+import { auth, getAuthContext, requireRole } from '../middleware/auth';
 import { tenancy, ensureOrgId } from '../middleware/tenancy';
+import { auditTrail } from '../middleware/audit';
 import { validation } from '../middleware/validation';
 import { createRequestLogger } from '../config/logger';
+import { CustomFieldService } from '../services/customFields';
+import { DuplicateService } from '../services/duplicates';
+import { ContactImportService } from '../services/contactImport';
+import { PipelineService } from '../services/pipelines';
+import { DealStageHistoryService } from '../services/dealStageHistory';
+import { PipelineAnalyticsService } from '../services/pipelineAnalytics';
+import { SEGMENT_FIELDS, SegmentActor, SegmentFilterSchema, SegmentService } from '../services/segments';
+import { SEARCH_TYPES, SearchService } from '../services/search';
+import { TaskService } from '../services/tasks';
+import { TIMELINE_TYPES, TimelineService } from '../services/timeline';
+import { LEAD_SCORE_RULE_TYPES, LeadScoringService } from '../services/leadScoring';
+import { AccountService } from '../services/accounts';
+import { TRASH_ENTITIES, TrashEntity, TrashService } from '../services/trash';
+import { ASSIGNMENT_STRATEGIES, AssignmentService, LEAD_SOURCES } from '../services/assignment';
+import { CURRENCY_CODE, FxService } from '../services/fx';
+import { DealLineItemService } from '../services/dealLineItems';
+import { QuoteService } from '../services/quotes';
+import { BrandingService } from '../services/branding';
+import { CONSENT_CHANNELS, ConsentService } from '../services/consent';
+import { PrivacyService } from '../services/privacy';
+import { InboxService } from '../services/inbox';
+import { TemplateService } from '../services/templates';
+import { QuietHoursService, TIME_OF_DAY, isValidTimeZone } from '../services/quietHours';
+import { MessagingService } from '../services/messaging';
+import { ScheduledMessageService } from '../services/scheduledMessages';
+import { DeliveryService } from '../services/delivery';
+import { uploadSpreadsheetMulter } from '../middleware/fileUpload';
+import { sendServiceError } from '../middleware/errorHandler';
+import { ValidationError } from '../utils/errors';
+import { toCsv } from '../utils/csv';
+import { assertVersion, etag, expectedVersion, withVersionGuard } from '../utils/concurrency';
 
 const router = Router();
 const prisma = new PrismaClient();
 
 // Schemas
+const CustomFieldValuesSchema = z.record(z.unknown());
+
+// ?cf[key]=value or ?cf[key][op]=value, parsed by the query string parser
+const CustomFieldFilterSchema = z.record(z.union([z.string(), z.record(z.string())]));
+
+const CurrencySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(CURRENCY_CODE, 'Currency must be a three-letter ISO 4217 code');
+
+const TimeZoneSchema = z
+  .string()
+  .trim()
+  .refine(isValidTimeZone, 'Timezone must be an IANA zone such as America/New_York');
+
 const CreateContactSchema = z.object({
   firstName: z.string().min(1, 'First name is required'),
   lastName: z.string().optional(),
   email: z.string().email().optional(),
   phone: z.string().optional(),
+  accountId: z.string().uuid('Invalid account ID').nullable().optional(),
+  // Left empty, assignment rules pick an owner
+  ownerId: z.string().uuid('Invalid owner ID').nullable().optional(),
   tags: z.array(z.string()).default([]),
+  customFields: CustomFieldValuesSchema.optional(),
+  // Quiet hours and message times use this zone; null falls back to the organization's
+  timezone: TimeZoneSchema.nullable().optional(),
 });
 
-const UpdateContactSchema = CreateContactSchema.partial();
+// Version the client edited, for clients that cannot send If-Match
+const VersionSchema = z.object({
+  version: z.number().int().min(1).optional(),
+});
+
+const UpdateContactSchema = CreateContactSchema.partial().merge(VersionSchema);
+
+// A member's user ID, `me` or `unassigned`
+const OwnerFilterSchema = z.union([z.string().uuid(), z.enum(['me', 'unassigned'])]);
 
 const ContactQuerySchema = z.object({
   page: z.coerce.number().min(1).default(1),
   limit: z.coerce.number().min(1).max(100).default(20),
   search: z.string().optional(),
   tags: z.string().optional(),
+  segmentId: z.string().uuid().optional(),
+  accountId: z.string().uuid().optional(),
+  ownerId: OwnerFilterSchema.optional(),
+  cf: CustomFieldFilterSchema.optional(),
+  minLeadScore: z.coerce.number().int().min(0).optional(),
+  sortBy: z.string().optional(),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+});
+
+const ContactExportQuerySchema = z.object({
+  segmentId: z.string().uuid().optional(),
+});
+
+const CreateSegmentSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  description: z.string().max(500).nullable().optional(),
+  filter: SegmentFilterSchema,
+  isShared: z.boolean().optional(),
+});
+
+const UpdateSegmentSchema = CreateSegmentSchema.partial();
+
+const SegmentPreviewSchema = z.object({
+  filter: SegmentFilterSchema,
+  page: z.number().int().min(1).default(1),
+  limit: z.number().int().min(1).max(100).default(20),
+});
+
+const SegmentContactsQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+const CreateBroadcastSchema = z
+  .object({
+    segmentId: z.string().uuid('Invalid segment ID'),
+    channel: z.enum(['sms', 'email']),
+    subject: z.string().min(1).max(200).optional(),
+    body: z.string().min(1, 'Body is required').max(5000),
+  })
+  .refine(broadcast => broadcast.channel !== 'email' || broadcast.subject, {
+    message: 'Email broadcasts need a subject',
+    path: ['subject'],
+  });
+
+const DuplicateQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  status: z.enum(['open', 'dismissed']).default('open'),
+  minScore: z.coerce.number().min(0).max(1).optional(),
+});
+
+const MergeContactsSchema = z.object({
+  duplicateIds: z
+    .array(z.string().uuid('Invalid contact ID'))
+    .min(1, 'At least one duplicate is required')
+    .max(20, 'Cannot merge more than 20 contacts at once'),
+});
+
+const ImportMappingSchema = z.object({
+  columns: z
+    .array(
+      z.object({
+        column: z.string().min(1, 'Column is required'),
+        field: z.string().min(1, 'Field is required'),
+      })
+    )
+    .min(1, 'At least one column must be mapped'),
+  defaultTags: z.array(z.string().min(1)).default([]),
+});
+
+const ContactImportRunSchema = z.object({
+  mapping: ImportMappingSchema,
+  onConflict: z.enum(['skip', 'update']).default('skip'),
+});
+
+const ContactImportQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+const LineItemSchema = z.object({
+  serviceId: z.string().uuid('Invalid service ID').nullable().optional(),
+  // Name, unit price and tax rate default to the service's
+  name: z.string().trim().min(1).max(200).optional(),
+  quantity: z.number().positive('Quantity must be positive').default(1),
+  unitPriceCents: z.number().int().min(0, 'Unit price must be positive').optional(),
+  discountPercent: z.number().min(0).max(100).default(0),
+  taxRate: z.number().min(0).max(100).optional(),
+});
+
+const UpdateLineItemSchema = LineItemSchema.extend({
+  quantity: z.number().positive('Quantity must be positive').optional(),
+  discountPercent: z.number().min(0).max(100).optional(),
+});
+
+const ReplaceLineItemsSchema = z.object({
+  items: z.array(LineItemSchema).max(200),
 });
 
-const CreateDealSchema = z.object({
+const DealSchema = z.object({
   contactId: z.string().uuid('Invalid contact ID'),
+  // Defaults to the contact's account
+  accountId: z.string().uuid('Invalid account ID').nullable().optional(),
   title: z.string().min(1, 'Title is required'),
-  stage: z.enum(['lead', 'qualified', 'proposal', 'won', 'lost']).default('lead'),
+  pipelineId: z.string().uuid('Invalid pipeline ID').optional(),
+  stageId: z.string().uuid('Invalid stage ID').optional(),
+  probability: z.number().int().min(0).max(100).optional(),
+  ownerId: z.string().uuid('Invalid owner ID').nullable().optional(),
   valueCents: z.number().min(0, 'Value must be positive'),
-  currency: z.string().default('USD'),
+  // Defaults to the org's base currency
+  currency: CurrencySchema.optional(),
+  customFields: CustomFieldValuesSchema.optional(),
+  // When given, the value is derived from the items
+  lineItems: z.array(LineItemSchema).max(200).optional(),
 });
 
-const UpdateDealSchema = CreateDealSchema.partial();
+const CreateDealSchema = DealSchema.extend({
+  valueCents: DealSchema.shape.valueCents.optional(),
+}).refine(deal => deal.valueCents !== undefined || (deal.lineItems?.length ?? 0) > 0, {
+  message: 'Value or line items are required',
+  path: ['valueCents'],
+});
+
+const UpdateDealSchema = DealSchema.omit({ lineItems: true }).partial().merge(VersionSchema);
 
 const DealQuerySchema = z.object({
   page: z.coerce.number().min(1).default(1),
   limit: z.coerce.number().min(1).max(100).default(20),
-  stage: z.enum(['lead', 'qualified', 'proposal', 'won', 'lost']).optional(),
+  pipelineId: z.string().uuid().optional(),
+  stageId: z.string().uuid().optional(),
+  status: z.enum(['open', 'won', 'lost']).optional(),
+  contactId: z.string().uuid().optional(),
+  accountId: z.string().uuid().optional(),
+  ownerId: OwnerFilterSchema.optional(),
+  cf: CustomFieldFilterSchema.optional(),
+  sortBy: z.string().optional(),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+});
+
+const UpdateAppointmentSchema = z.object({
+  startsAt: z.coerce.date().optional(),
+  endsAt: z.coerce.date().optional(),
+  status: z.enum(['pending', 'confirmed', 'completed', 'no_show', 'canceled']).optional(),
+  location: z.string().max(500).nullable().optional(),
+}).merge(VersionSchema);
+
+const AccountSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  domain: z.string().max(255).nullable().optional(),
+  phone: z.string().max(50).nullable().optional(),
+  website: z.string().max(500).nullable().optional(),
+  industry: z.string().max(100).nullable().optional(),
+  address: z.string().max(500).nullable().optional(),
+  notes: z.string().max(5000).nullable().optional(),
+});
+
+const UpdateAccountSchema = AccountSchema.partial();
+
+const AccountQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  search: z.string().optional(),
+  sortBy: z.enum(['name', 'createdAt']).default('name'),
+  sortOrder: z.enum(['asc', 'desc']).default('asc'),
+});
+
+const CreateAssignmentRuleSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  strategy: z.enum(ASSIGNMENT_STRATEGIES).default('round_robin'),
+  tags: z.array(z.string().trim().min(1)).default([]),
+  sources: z.array(z.enum(LEAD_SOURCES)).default([]),
+  assigneeIds: z.array(z.string().uuid('Invalid assignee ID')).min(1, 'At least one assignee is required'),
+  position: z.number().int().min(0).optional(),
+  isEnabled: z.boolean().default(true),
+});
+
+const UpdateAssignmentRuleSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  strategy: z.enum(ASSIGNMENT_STRATEGIES).optional(),
+  tags: z.array(z.string().trim().min(1)).optional(),
+  sources: z.array(z.enum(LEAD_SOURCES)).optional(),
+  assigneeIds: z.array(z.string().uuid('Invalid assignee ID')).min(1).optional(),
+  position: z.number().int().min(0).optional(),
+  isEnabled: z.boolean().optional(),
+});
+
+const BaseCurrencySchema = z.object({
+  baseCurrency: CurrencySchema,
+});
+
+const FxRateSchema = z.object({
+  currency: CurrencySchema,
+  rate: z.number().positive('Rate must be positive'),
+  effectiveDate: z.coerce.date(),
+});
+
+const FxRateQuerySchema = z.object({
+  currency: CurrencySchema.optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(50),
+});
+
+const TrashQuerySchema = z.object({
+  entity: z.enum(TRASH_ENTITIES).optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+const TaskPrioritySchema = z.enum(['low', 'normal', 'high', 'urgent']);
+
+const CreateTaskSchema = z.object({
+  title: z.string().min(1, 'Title is required').max(500),
+  description: z.string().max(5000).nullable().optional(),
+  priority: TaskPrioritySchema.optional(),
+  dueAt: z.coerce.date().nullable().optional(),
+  remindAt: z.coerce.date().nullable().optional(),
+  assigneeId: z.string().uuid('Invalid assignee ID').nullable().optional(),
+  contactId: z.string().uuid('Invalid contact ID').nullable().optional(),
+  dealId: z.string().uuid('Invalid deal ID').nullable().optional(),
+});
+
+const UpdateTaskSchema = CreateTaskSchema.partial();
+
+const TaskQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  view: z.enum(['all', 'mine', 'overdue']).default('all'),
+  status: z.enum(['open', 'completed', 'all']).optional(),
+  assigneeId: z.string().uuid().optional(),
+  contactId: z.string().uuid().optional(),
+  dealId: z.string().uuid().optional(),
+  priority: TaskPrioritySchema.optional(),
+  dueBefore: z.string().datetime().optional(),
+  dueAfter: z.string().datetime().optional(),
+});
+
+const GenerateQuoteSchema = z.object({
+  validDays: z.number().int().min(1).max(365).optional(),
+  notes: z.string().trim().max(5000).nullable().optional(),
+});
+
+const SendQuoteSchema = z.object({
+  to: z.string().email().optional(),
+  subject: z.string().trim().min(1).max(200).optional(),
+  message: z.string().trim().max(5000).optional(),
+});
+
+const BrandingSchema = z.object({
+  displayName: z.string().trim().max(200).nullable().optional(),
+  logoUrl: z.string().url().max(2000).nullable().optional(),
+  accentColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Accent color must be a hex color like #2563eb').nullable().optional(),
+  email: z.string().email().nullable().optional(),
+  phone: z.string().max(50).nullable().optional(),
+  website: z.string().max(500).nullable().optional(),
+  address: z.string().max(500).nullable().optional(),
+  quoteTerms: z.string().max(5000).nullable().optional(),
+  quoteFooter: z.string().max(500).nullable().optional(),
+});
+
+const RevenueByServiceQuerySchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
+
+const MessageDeliveryQuerySchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
+
+const PipelineAnalyticsQuerySchema = z.object({
+  pipelineId: z.string().uuid().optional(),
+  ownerId: z.string().uuid().optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
+
+const SearchQuerySchema = z.object({
+  q: z.string().trim().min(1, 'Search query is required').max(200),
+  // Comma separated, e.g. ?types=contact,deal
+  types: z
+    .string()
+    .transform(value => value.split(',').map(type => type.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(SEARCH_TYPES)))
+    .optional(),
+  limit: z.coerce.number().min(1).max(50).default(20),
+});
+
+const ConsentSchema = z.object({
+  channel: z.enum(CONSENT_CHANNELS),
+  status: z.enum(['opted_in', 'opted_out']),
+  // Keyword changes are only recorded from inbound messages
+  source: z.enum(['manual', 'api', 'import', 'webform']).default('manual'),
+  note: z.string().trim().max(500).optional(),
+});
+
+const SuppressionQuerySchema = z.object({
+  channel: z.enum(CONSENT_CHANNELS).optional(),
+  contactId: z.string().uuid().optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(50),
+});
+
+const ConversationQuerySchema = z.object({
+  status: z.enum(['active', 'closed']).optional(),
+  channel: z.enum(CONSENT_CHANNELS).optional(),
+  assignedTo: OwnerFilterSchema.optional(),
+  contactId: z.string().uuid().optional(),
+  unread: z
+    .enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(25),
+});
+
+const UpdateConversationSchema = z.object({
+  status: z.enum(['active', 'closed']).optional(),
+  assignedTo: z.string().uuid().nullable().optional(),
+  priority: z.enum(['low', 'normal', 'high', 'urgent']).optional(),
+});
+
+const ConversationReplySchema = z.object({
+  body: z.string().trim().min(1).max(10000),
+  // Email only
+  subject: z.string().trim().max(200).optional(),
+});
+
+const TemplateContentSchema = z.object({
+  // Email only
+  subject: z.string().trim().max(200).nullable().optional(),
+  text: z.string().max(10000).nullable().optional(),
+  // Email only
+  html: z.string().max(100000).nullable().optional(),
+});
+
+const CreateTemplateSchema = TemplateContentSchema.extend({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  channel: z.enum(CONSENT_CHANNELS),
+});
+
+const UpdateTemplateSchema = TemplateContentSchema.extend({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+});
+
+const TemplateQuerySchema = z.object({
+  channel: z.enum(CONSENT_CHANNELS).optional(),
+  includeArchived: z
+    .enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .optional(),
+});
+
+const TemplatePreviewSchema = z.object({
+  contactId: z.string().uuid().optional(),
+  appointmentId: z.string().uuid().optional(),
+  dealId: z.string().uuid().optional(),
+  variables: z.record(z.union([z.string(), z.number()])).optional(),
+  version: z.number().int().min(1).optional(),
+  timeZone: z.string().max(64).optional(),
+});
+
+const ScheduledMessageQuerySchema = z.object({
+  status: z.enum(['pending', 'sent', 'canceled', 'failed']).optional(),
+  channel: z.enum(['sms', 'email']).optional(),
+  contactId: z.string().uuid().optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(25),
+});
+
+const TimeOfDaySchema = z.string().regex(TIME_OF_DAY, 'Times must be HH:MM in 24-hour time');
+
+const QuietHoursSchema = z.object({
+  timezone: TimeZoneSchema.optional(),
+  // Both null turns quiet hours off
+  quietHoursStart: TimeOfDaySchema.nullable().optional(),
+  quietHoursEnd: TimeOfDaySchema.nullable().optional(),
+});
+
+const MessagingProvidersSchema = z.object({
+  // Null goes back to the server default
+  smsProvider: z.string().trim().min(1).max(50).nullable().optional(),
+  emailProvider: z.string().trim().min(1).max(50).nullable().optional(),
+});
+
+const PrivacyExportSchema = z.object({
+  reference: z.string().trim().max(200).optional(),
+});
+
+const PrivacyEraseSchema = PrivacyExportSchema.extend({
+  // The contact ID, repeated
+  confirm: z.string().min(1, 'Confirm the erasure by repeating the contact ID'),
+});
+
+const PrivacyRequestQuerySchema = z.object({
   contactId: z.string().uuid().optional(),
+  type: z.enum(['export', 'erasure']).optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+const ContactTimelineQuerySchema = z.object({
+  // Comma separated, e.g. ?types=message,call
+  types: z
+    .string()
+    .transform(value => value.split(',').map(type => type.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(TIMELINE_TYPES)))
+    .optional(),
+  cursor: z.string().max(500).optional(),
+  limit: z.coerce.number().min(1).max(100).default(25),
+});
+
+const CreateLeadScoreRuleSchema = z.object({
+  type: z.enum(LEAD_SCORE_RULE_TYPES),
+  points: z.number().int().min(-1000).max(1000),
+  // Checked against the rule type by LeadScoringService
+  config: z.record(z.unknown()).optional(),
+  isEnabled: z.boolean().optional(),
+});
+
+const UpdateLeadScoreRuleSchema = CreateLeadScoreRuleSchema.omit({ type: true }).partial();
+
+const PipelineStageSchema = z.object({
+  name: z.string().min(1, 'Stage name is required').max(100),
+  type: z.enum(['open', 'won', 'lost']).default('open'),
+  probability: z.number().int().min(0).max(100).default(0),
+  color: z.string().max(50).nullable().optional(),
+});
+
+const CreatePipelineSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  isDefault: z.boolean().optional(),
+  position: z.number().int().min(0).optional(),
+  stages: z.array(PipelineStageSchema).min(1).max(50).optional(),
+});
+
+const UpdatePipelineSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  isDefault: z.boolean().optional(),
+  position: z.number().int().min(0).optional(),
+});
+
+const CreatePipelineStageSchema = PipelineStageSchema.extend({
+  position: z.number().int().min(0).optional(),
+});
+
+const UpdatePipelineStageSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  type: z.enum(['open', 'won', 'lost']).optional(),
+  probability: z.number().int().min(0).max(100).optional(),
+  color: z.string().max(50).nullable().optional(),
+});
+
+const DeletePipelineStageQuerySchema = z.object({
+  moveToStageId: z.string().uuid('Invalid stage ID').optional(),
 });
 
+const ReorderPipelineStagesSchema = z.object({
+  stageIds: z.array(z.string().uuid('Invalid stage ID')).min(1),
+});
+
+const CustomFieldEntitySchema = z.enum(['contact', 'deal']);
+
+const CreateCustomFieldSchema = z
+  .object({
+    entity: CustomFieldEntitySchema,
+    key: z
+      .string()
+      .max(50)
+      .regex(/^[a-z][a-z0-9_]*$/, 'Key must be lowercase snake_case'),
+    label: z.string().min(1, 'Label is required').max(100),
+    type: z.enum(['text', 'number', 'date', 'select', 'multi_select', 'boolean']),
+    options: z.array(z.string().min(1)).default([]),
+    required: z.boolean().default(false),
+    position: z.number().int().min(0).default(0),
+  })
+  .refine(field => !['select', 'multi_select'].includes(field.type) || field.options.length > 0, {
+    message: 'Select fields require at least one option',
+    path: ['options'],
+  });
+
+const UpdateCustomFieldSchema = z.object({
+  label: z.string().min(1).max(100).optional(),
+  options: z.array(z.string().min(1)).optional(),
+  required: z.boolean().optional(),
+  position: z.number().int().min(0).optional(),
+});
+
+const CustomFieldQuerySchema = z.object({
+  entity: CustomFieldEntitySchema.optional(),
+});
+
+const CONTACT_SORT_COLUMNS = ['createdAt', 'firstName', 'lastName', 'email', 'leadScore'];
+const DEAL_SORT_COLUMNS = ['createdAt', 'updatedAt', 'title', 'valueCents', 'probability', 'closedAt'];
+
+const DEAL_INCLUDE = {
+  contact: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      phone: true,
+    },
+  },
+  account: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  pipeline: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  owner: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+  stage: {
+    select: {
+      id: true,
+      name: true,
+      type: true,
+      position: true,
+      color: true,
+    },
+  },
+  lineItems: {
+    orderBy: [{ position: 'asc' as const }, { createdAt: 'asc' as const }],
+  },
+};
+
 const CreateActivitySchema = z.object({
   contactId: z.string().uuid().optional(),
   dealId: z.string().uuid().optional(),
@@ -57,19 +642,9 @@ const ActivityQuerySchema = z.object({
   limit: z.coerce.number().min(1).max(100).default(20),
   contactId: z.string().uuid().optional(),
   dealId: z.string().uuid().optional(),
-  type: z.enum(['note', 'call', 'sms', 'email', 'task']).optional(),
-});
-
-const CreateAppointmentSchema = z.object({
-  contactId: z.string().uuid('Invalid contact ID'),
-  startsAt: z.string().datetime('Invalid start time'),
-  endsAt: z.string().datetime('Invalid end time'),
-  status: z.enum(['pending', 'confirmed', 'completed', 'no_show', 'canceled']).default('pending'),
-  location: z.string().optional(),
+  type: z.enum(['note', 'call', 'sms', 'email', 'task', 'assignment']).optional(),
 });
 
-const UpdateAppointmentSchema = CreateAppointmentSchema.partial();
-
 const AppointmentQuerySchema = z.object({
   page: z.coerce.number().min(1).default(1),
   limit: z.coerce.number().min(1).max(100).default(20),
@@ -79,9 +654,79 @@ const AppointmentQuerySchema = z.object({
   to: z.string().datetime().optional(),
 });
 
+// Resolves `sortBy` into a column orderBy, or a custom field key when given as `cf.<key>`
+function parseSort(sortBy: string | undefined, sortOrder: 'asc' | 'desc', columns: string[]) {
+  if (sortBy?.startsWith('cf.')) {
+    return { customFieldKey: sortBy.slice(3) };
+  }
+
+  if (sortBy && !columns.includes(sortBy)) {
+    throw new ValidationError(`Cannot sort by '${sortBy}'`);
+  }
+
+  return { orderBy: { [sortBy || 'createdAt']: sortOrder } };
+}
+
+function segmentActor(req: Request): SegmentActor {
+  const { userId, orgId, user } = getAuthContext(req as any);
+  const role = user.memberships?.find((membership: any) => membership.orgId === orgId)?.role;
+  return { userId, canManage: role === 'owner' || role === 'admin' };
+}
+
+async function paginateContacts(where: any, page: number, limit: number) {
+  const [contacts, total] = await Promise.all([
+    prisma.contact.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.contact.count({ where }),
+  ]);
+
+  return {
+    data: contacts,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit),
+    },
+  };
+}
+
+async function assertOrgMember(orgId: string, userId: string) {
+  const membership = await prisma.membership.findUnique({
+    where: { userId_orgId: { userId, orgId } },
+  });
+
+  if (!membership) {
+    throw new ValidationError('Owner must be a member of this organization');
+  }
+}
+
+function ownerWhere(ownerId: string | undefined, userId: string) {
+  if (ownerId === 'me') return userId;
+  if (ownerId === 'unassigned') return null;
+  return ownerId;
+}
+
+const OWNER_SELECT = {
+  select: {
+    id: true,
+    name: true,
+    email: true,
+  },
+};
+
 // Apply middleware
 router.use(auth);
 router.use(tenancy);
+router.use(
+  auditTrail({
+    skip: [/^\/segments\/preview$/, /^\/contacts\/imports\/[^/]+\/dry-run$/, /^\/templates\/[^/]+\/preview$/],
+  })
+);
 
 // Health endpoint
 router.get('/health', (req: Request, res: Response) => {
@@ -140,14 +785,104 @@ router.get('/me', async (req: Request, res: Response) => {
   }
 });
 
+// Custom field routes
+router.get('/custom-fields', validation(CustomFieldQuerySchema, 'query'), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { entity } = req.query as any;
+
+  try {
+    const fields = await CustomFieldService.listDefinitions(orgId, entity);
+    res.json({ data: fields });
+  } catch (error) {
+    logger.error('Failed to get custom fields', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get custom fields',
+    });
+  }
+});
+
+router.post('/custom-fields', requireRole(['owner', 'admin']), validation(CreateCustomFieldSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    const field = await CustomFieldService.createDefinition(orgId, req.body);
+
+    logger.info('Custom field created', { fieldId: field.id, orgId });
+    res.status(201).json(field);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to create custom field', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create custom field',
+    });
+  }
+});
+
+router.put('/custom-fields/:id', requireRole(['owner', 'admin']), validation(UpdateCustomFieldSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const field = await CustomFieldService.updateDefinition(orgId, id, req.body);
+
+    logger.info('Custom field updated', { fieldId: id, orgId });
+    res.json(field);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to update custom field', { error, fieldId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update custom field',
+    });
+  }
+});
+
+router.delete('/custom-fields/:id', requireRole(['owner', 'admin']), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    await CustomFieldService.deleteDefinition(orgId, id);
+
+    logger.info('Custom field deleted', { fieldId: id, orgId });
+    res.status(204).send();
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to delete custom field', { error, fieldId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to delete custom field',
+    });
+  }
+});
+
 // Contact routes
 router.get('/contacts', validation(ContactQuerySchema, 'query'), async (req: Request, res: Response) => {
   const logger = createRequestLogger(req);
-  const { orgId } = getAuthContext(req as any);
-  const { page, limit, search, tags } = req.query as any;
+  const { orgId, userId } = getAuthContext(req as any);
+  const { page, limit, search, tags, segmentId, accountId, ownerId, cf, minLeadScore, sortBy, sortOrder } = req.query as any;
   
   try {
-    const where: any = { orgId };
+    const sort = parseSort(sortBy, sortOrder, CONTACT_SORT_COLUMNS);
+    const where: any = { orgId, deletedAt: null };
+
+    if (accountId) {
+      where.accountId = accountId;
+    }
+
+    if (ownerId) {
+      where.ownerId = ownerWhere(ownerId, userId);
+    }
+
+    if (minLeadScore !== undefined) {
+      where.leadScore = { gte: minLeadScore };
+    }
     
     if (search) {
       where.OR = [
@@ -163,32 +898,79 @@ router.get('/contacts', validation(ContactQuerySchema, 'query'), async (req: Req
       where.tags = { hasSome: tagArray };
     }
 
-    const [contacts, total] = await Promise.all([
-      prisma.contact.findMany({
-        where,
-        skip: (page - 1) * limit,
-        take: limit,
-        orderBy: { createdAt: 'desc' },
-        include: {
-          deals: {
+    const conditions: any[] = await CustomFieldService.buildFilters(orgId, 'contact', cf);
+    if (segmentId) {
+      conditions.push(await SegmentService.whereFor(orgId, segmentId, segmentActor(req)));
+    }
+    if (conditions.length > 0) {
+      where.AND = conditions;
+    }
+
+    const include = {
+      account: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+      owner: OWNER_SELECT,
+      deals: {
+        where: { deletedAt: null },
+        select: {
+          id: true,
+          title: true,
+          pipelineId: true,
+          stage: {
             select: {
               id: true,
-              title: true,
-              stage: true,
-              valueCents: true,
-            },
-          },
-          appointments: {
-            select: {
-              id: true,
-              startsAt: true,
-              status: true,
+              name: true,
+              type: true,
             },
           },
+          valueCents: true,
         },
-      }),
-      prisma.contact.count({ where }),
-    ]);
+      },
+      appointments: {
+        where: { deletedAt: null },
+        select: {
+          id: true,
+          startsAt: true,
+          status: true,
+        },
+      },
+    };
+
+    let contacts;
+    let total: number;
+
+    if (sort.customFieldKey) {
+      await CustomFieldService.assertSortable(orgId, 'contact', sort.customFieldKey);
+
+      const rows = await prisma.contact.findMany({
+        where,
+        select: { id: true, customFields: true },
+      });
+      const pageIds = CustomFieldService.orderIdsByValue(rows, sort.customFieldKey, sortOrder)
+        .slice((page - 1) * limit, page * limit);
+      const pageContacts = await prisma.contact.findMany({
+        where: { id: { in: pageIds } },
+        include,
+      });
+
+      contacts = pageIds.map(id => pageContacts.find(contact => contact.id === id)!);
+      total = rows.length;
+    } else {
+      [contacts, total] = await Promise.all([
+        prisma.contact.findMany({
+          where,
+          skip: (page - 1) * limit,
+          take: limit,
+          orderBy: sort.orderBy,
+          include,
+        }),
+        prisma.contact.count({ where }),
+      ]);
+    }
 
     res.json({
       data: contacts,
@@ -200,6 +982,7 @@ router.get('/contacts', validation(ContactQuerySchema, 'query'), async (req: Req
       },
     });
   } catch (error) {
+    if (sendServiceError(res, error)) return;
     logger.error('Failed to get contacts', { error });
     res.status(500).json({
       error: 'Internal Server Error',
@@ -210,7 +993,7 @@ router.get('/contacts', validation(ContactQuerySchema, 'query'), async (req: Req
 
 router.post('/contacts', validation(CreateContactSchema), async (req: Request, res: Response) => {
   const logger = createRequestLogger(req);
-  const { orgId } = getAuthContext(req as any);
+  const { orgId, userId } = getAuthContext(req as any);
   
   try {
     const contactData = ensureOrgId(req.body, orgId);
@@ -223,7 +1006,9 @@ router.post('/contacts', validation(CreateContactSchema), async (req: Request, r
       if (existingEmail) {
         return res.status(409).json({
           error: 'Conflict',
-          message: 'Contact with this email already exists',
+          message: existingEmail.deletedAt
+            ? 'Contact with this email is in the trash; restore it instead'
+            : 'Contact with this email already exists',
         });
       }
     }
@@ -235,18 +1020,42 @@ router.post('/contacts', validation(CreateContactSchema), async (req: Request, r
       if (existingPhone) {
         return res.status(409).json({
           error: 'Conflict',
-          message: 'Contact with this phone number already exists',
+          message: existingPhone.deletedAt
+            ? 'Contact with this phone number is in the trash; restore it instead'
+            : 'Contact with this phone number already exists',
         });
       }
     }
 
+    contactData.customFields = await CustomFieldService.validateValues(orgId, 'contact', contactData.customFields);
+
+    if (contactData.accountId) {
+      await AccountService.assertExists(orgId, contactData.accountId);
+    }
+
+    if (contactData.ownerId) {
+      await assertOrgMember(orgId, contactData.ownerId);
+    }
+
     const contact = await prisma.contact.create({
       data: contactData,
     });
+    if (contact.ownerId) {
+      await AssignmentService.recordOwnerChange(orgId, {
+        contactId: contact.id,
+        fromOwnerId: null,
+        toOwnerId: contact.ownerId,
+        actorId: userId,
+      });
+    } else {
+      contact.ownerId = await AssignmentService.assignLead(orgId, contact.id, 'api');
+    }
+    await LeadScoringService.queueRecompute(orgId, contact.id);
 
     logger.info('Contact created', { contactId: contact.id, orgId });
     res.status(201).json(contact);
   } catch (error) {
+    if (sendServiceError(res, error)) return;
     logger.error('Failed to create contact', { error });
     res.status(500).json({
       error: 'Internal Server Error',
@@ -255,151 +1064,165 @@ router.post('/contacts', validation(CreateContactSchema), async (req: Request, r
   }
 });
 
-router.get('/contacts/:id', async (req: Request, res: Response) => {
+router.get('/contacts/duplicates', validation(DuplicateQuerySchema, 'query'), async (req: Request, res: Response) => {
   const logger = createRequestLogger(req);
   const { orgId } = getAuthContext(req as any);
-  const { id } = req.params;
-  
+  const { page, limit, status, minScore } = req.query as any;
+
   try {
-    const contact = await prisma.contact.findFirst({
-      where: { id, orgId },
-      include: {
-        deals: {
-          orderBy: { createdAt: 'desc' },
-        },
-        activities: {
-          orderBy: { createdAt: 'desc' },
-          take: 10,
-        },
-        appointments: {
-          orderBy: { startsAt: 'desc' },
-          take: 10,
+    const where: any = { orgId, status };
+
+    if (minScore !== undefined) {
+      where.score = { gte: minScore };
+    }
+
+    const contactSelect = {
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+        phone: true,
+        tags: true,
+        createdAt: true,
+      },
+    };
+
+    const [candidates, total] = await Promise.all([
+      prisma.duplicateCandidate.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: [{ score: 'desc' }, { detectedAt: 'desc' }],
+        include: {
+          contact: contactSelect,
+          duplicate: contactSelect,
         },
+      }),
+      prisma.duplicateCandidate.count({ where }),
+    ]);
+
+    res.json({
+      data: candidates,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
       },
     });
+  } catch (error) {
+    logger.error('Failed to get duplicate candidates', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get duplicate candidates',
+    });
+  }
+});
 
-    if (!contact) {
-      return res.status(404).json({
-        error: 'Not Found',
-        message: 'Contact not found',
-      });
-    }
+router.post('/contacts/duplicates/scan', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
 
-    res.json(contact);
+  try {
+    const { enqueueDuplicateScan } = await import('../workers/enqueue');
+    const job = await enqueueDuplicateScan({ orgId });
+
+    logger.info('Duplicate scan queued', { orgId, jobId: job.id });
+    res.status(202).json({ jobId: job.id });
   } catch (error) {
-    logger.error('Failed to get contact', { error, contactId: id });
+    logger.error('Failed to queue duplicate scan', { error });
     res.status(500).json({
       error: 'Internal Server Error',
-      message: 'Failed to get contact',
+      message: 'Failed to queue duplicate scan',
     });
   }
 });
 
-router.put('/contacts/:id', validation(UpdateContactSchema), async (req: Request, res: Response) => {
+router.post('/contacts/duplicates/:id/dismiss', async (req: Request, res: Response) => {
   const logger = createRequestLogger(req);
   const { orgId } = getAuthContext(req as any);
   const { id } = req.params;
-  
+
   try {
-    const contact = await prisma.contact.findFirst({
+    const candidate = await prisma.duplicateCandidate.findFirst({
       where: { id, orgId },
     });
 
-    if (!contact) {
+    if (!candidate) {
       return res.status(404).json({
         error: 'Not Found',
-        message: 'Contact not found',
+        message: 'Duplicate candidate not found',
       });
     }
 
-    const updatedContact = await prisma.contact.update({
+    const updatedCandidate = await prisma.duplicateCandidate.update({
       where: { id },
-      data: req.body,
+      data: { status: 'dismissed' },
     });
 
-    logger.info('Contact updated', { contactId: id, orgId });
-    res.json(updatedContact);
+    logger.info('Duplicate candidate dismissed', { candidateId: id, orgId });
+    res.json(updatedCandidate);
   } catch (error) {
-    logger.error('Failed to update contact', { error, contactId: id });
+    logger.error('Failed to dismiss duplicate candidate', { error, candidateId: id });
     res.status(500).json({
       error: 'Internal Server Error',
-      message: 'Failed to update contact',
+      message: 'Failed to dismiss duplicate candidate',
     });
   }
 });
 
-router.delete('/contacts/:id', async (req: Request, res: Response) => {
+router.post('/contacts/imports', (req: Request, res: Response, next) => {
+  uploadSpreadsheetMulter.single('file')(req, res, (error: unknown) => {
+    if (error) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error instanceof Error ? error.message : 'Invalid upload',
+      });
+    }
+    next();
+  });
+}, async (req: Request, res: Response) => {
   const logger = createRequestLogger(req);
-  const { orgId } = getAuthContext(req as any);
-  const { id } = req.params;
-  
-  try {
-    const contact = await prisma.contact.findFirst({
-      where: { id, orgId },
-    });
+  const { orgId, userId } = getAuthContext(req as any);
 
-    if (!contact) {
-      return res.status(404).json({
-        error: 'Not Found',
-        message: 'Contact not found',
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'A CSV or XLSX file is required',
       });
     }
 
-    await prisma.contact.delete({
-      where: { id },
-    });
+    const result = await ContactImportService.create(orgId, userId, req.file);
 
-    logger.info('Contact deleted', { contactId: id, orgId });
-    res.status(204).send();
+    logger.info('Contact import uploaded', {
+      importId: result.import.id,
+      orgId,
+      fileName: req.file.originalname,
+      totalRows: result.import.totalRows,
+    });
+    res.status(201).json(result);
   } catch (error) {
-    logger.error('Failed to delete contact', { error, contactId: id });
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to upload contact import', { error });
     res.status(500).json({
       error: 'Internal Server Error',
-      message: 'Failed to delete contact',
+      message: 'Failed to upload contact import',
     });
   }
 });
 
-// Deal routes
-router.get('/deals', validation(DealQuerySchema, 'query'), async (req: Request, res: Response) => {
+router.get('/contacts/imports', validation(ContactImportQuerySchema, 'query'), async (req: Request, res: Response) => {
   const logger = createRequestLogger(req);
   const { orgId } = getAuthContext(req as any);
-  const { page, limit, stage, contactId } = req.query as any;
-  
-  try {
-    const where: any = { orgId };
-    
-    if (stage) {
-      where.stage = stage;
-    }
-    
-    if (contactId) {
-      where.contactId = contactId;
-    }
+  const { page, limit } = req.query as any;
 
-    const [deals, total] = await Promise.all([
-      prisma.deal.findMany({
-        where,
-        skip: (page - 1) * limit,
-        take: limit,
-        orderBy: { createdAt: 'desc' },
-        include: {
-          contact: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true,
-              phone: true,
-            },
-          },
-        },
-      }),
-      prisma.deal.count({ where }),
-    ]);
+  try {
+    const { imports, total } = await ContactImportService.list(orgId, page, limit);
 
     res.json({
-      data: deals,
+      data: imports,
       pagination: {
         page,
         limit,
@@ -408,128 +1231,1307 @@ router.get('/deals', validation(DealQuerySchema, 'query'), async (req: Request,
       },
     });
   } catch (error) {
-    logger.error('Failed to get deals', { error });
+    logger.error('Failed to get contact imports', { error });
     res.status(500).json({
       error: 'Internal Server Error',
-      message: 'Failed to get deals',
+      message: 'Failed to get contact imports',
     });
   }
 });
 
-router.post('/deals', validation(CreateDealSchema), async (req: Request, res: Response) => {
+router.get('/contacts/imports/:id', async (req: Request, res: Response) => {
   const logger = createRequestLogger(req);
   const { orgId } = getAuthContext(req as any);
-  
+  const { id } = req.params;
+
   try {
-    const dealData = ensureOrgId(req.body, orgId);
-    
-    // Verify contact exists and belongs to org
-    const contact = await prisma.contact.findFirst({
-      where: { id: dealData.contactId, orgId },
+    const contactImport = await ContactImportService.get(orgId, id);
+    res.json(contactImport);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get contact import', { error, importId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get contact import',
     });
-    
-    if (!contact) {
-      return res.status(404).json({
-        error: 'Not Found',
-        message: 'Contact not found',
-      });
-    }
+  }
+});
 
-    const deal = await prisma.deal.create({
-      data: dealData,
-      include: {
-        contact: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-            phone: true,
-          },
-        },
-      },
-    });
+router.post('/contacts/imports/:id/dry-run', validation(ContactImportRunSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
 
-    logger.info('Deal created', { dealId: deal.id, orgId });
-    res.status(201).json(deal);
+  try {
+    const report = await ContactImportService.dryRun(orgId, id, req.body.mapping, req.body.onConflict);
+    res.json(report);
   } catch (error) {
-    logger.error('Failed to create deal', { error });
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to dry-run contact import', { error, importId: id });
     res.status(500).json({
       error: 'Internal Server Error',
-      message: 'Failed to create deal',
+      message: 'Failed to dry-run contact import',
     });
   }
 });
 
-router.put('/deals/:id', validation(UpdateDealSchema), async (req: Request, res: Response) => {
+router.post('/contacts/imports/:id/start', validation(ContactImportRunSchema), async (req: Request, res: Response) => {
   const logger = createRequestLogger(req);
   const { orgId } = getAuthContext(req as any);
   const { id } = req.params;
-  
+
   try {
-    const deal = await prisma.deal.findFirst({
-      where: { id, orgId },
-    });
+    const contactImport = await ContactImportService.queue(orgId, id, req.body.mapping, req.body.onConflict);
 
-    if (!deal) {
-      return res.status(404).json({
-        error: 'Not Found',
-        message: 'Deal not found',
-      });
+    try {
+      const { enqueueContactImport } = await import('../workers/enqueue');
+      const job = await enqueueContactImport({ orgId, payload: { importId: id } });
+
+      logger.info('Contact import queued', { importId: id, orgId, jobId: job.id });
+      res.status(202).json({ ...contactImport, jobId: job.id });
+    } catch (error) {
+      await ContactImportService.fail(id, 'Failed to queue import');
+      throw error;
     }
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to start contact import', { error, importId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to start contact import',
+    });
+  }
+});
 
-    const updatedDeal = await prisma.deal.update({
-      where: { id },
-      data: req.body,
-      include: {
-        contact: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-            phone: true,
-          },
-        },
-      },
+router.get('/contacts/imports/:id/errors', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const { fileName, csv } = await ContactImportService.errorReport(orgId, id);
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName.replace(/"/g, '')}"`);
+    res.send(csv);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get contact import error report', { error, importId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get contact import error report',
     });
+  }
+});
 
-    logger.info('Deal updated', { dealId: id, orgId });
-    res.json(updatedDeal);
+router.get('/contacts/export', validation(ContactExportQuerySchema, 'query'), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { segmentId } = req.query as any;
+
+  try {
+    const where = segmentId ? await SegmentService.whereFor(orgId, segmentId, segmentActor(req)) : { orgId, deletedAt: null };
+    const [contacts, definitions] = await Promise.all([
+      prisma.contact.findMany({ where, orderBy: { createdAt: 'asc' } }),
+      CustomFieldService.listDefinitions(orgId, 'contact'),
+    ]);
+
+    const csv = toCsv([
+      ['ID', 'First Name', 'Last Name', 'Email', 'Phone', 'Tags', 'Created At', ...definitions.map(definition => definition.label)],
+      ...contacts.map(contact => {
+        const customFields = (contact.customFields || {}) as Record<string, unknown>;
+        return [
+          contact.id,
+          contact.firstName,
+          contact.lastName,
+          contact.email,
+          contact.phone,
+          contact.tags.join('; '),
+          contact.createdAt.toISOString(),
+          ...definitions.map(definition => {
+            const value = customFields[definition.key];
+            return Array.isArray(value) ? value.join('; ') : value;
+          }),
+        ];
+      }),
+    ]);
+
+    logger.info('Contacts exported', { orgId, segmentId, count: contacts.length });
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="contacts-export-${Date.now()}.csv"`);
+    res.send(csv);
   } catch (error) {
-    logger.error('Failed to update deal', { error, dealId: id });
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to export contacts', { error, segmentId });
     res.status(500).json({
       error: 'Internal Server Error',
-      message: 'Failed to update deal',
+      message: 'Failed to export contacts',
     });
   }
 });
 
-router.delete('/deals/:id', async (req: Request, res: Response) => {
+router.get('/contacts/:id', async (req: Request, res: Response) => {
   const logger = createRequestLogger(req);
   const { orgId } = getAuthContext(req as any);
   const { id } = req.params;
   
   try {
-    const deal = await prisma.deal.findFirst({
-      where: { id, orgId },
+    const contact = await prisma.contact.findFirst({
+      where: { id, orgId, deletedAt: null },
+      include: {
+        account: true,
+        owner: OWNER_SELECT,
+        deals: {
+          where: { deletedAt: null },
+          orderBy: { createdAt: 'desc' },
+        },
+        activities: {
+          where: { deletedAt: null },
+          orderBy: { createdAt: 'desc' },
+          take: 10,
+        },
+        appointments: {
+          where: { deletedAt: null },
+          orderBy: { startsAt: 'desc' },
+          take: 10,
+        },
+      },
     });
 
-    if (!deal) {
+    if (!contact) {
       return res.status(404).json({
         error: 'Not Found',
-        message: 'Deal not found',
+        message: 'Contact not found',
       });
     }
 
-    await prisma.deal.delete({
-      where: { id },
+    res.setHeader('ETag', etag(contact.version));
+    res.json(contact);
+  } catch (error) {
+    logger.error('Failed to get contact', { error, contactId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get contact',
     });
+  }
+});
 
-    logger.info('Deal deleted', { dealId: id, orgId });
-    res.status(204).send();
+router.get('/contacts/:id/duplicates', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const matches = await DuplicateService.findForContact(orgId, id);
+    res.json({ data: matches });
   } catch (error) {
-    logger.error('Failed to delete deal', { error, dealId: id });
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to find duplicates', { error, contactId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to find duplicates',
+    });
+  }
+});
+
+router.get('/contacts/:id/timeline', validation(ContactTimelineQuerySchema, 'query'), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+  const { types, cursor, limit } = req.query as any;
+
+  try {
+    const timeline = await TimelineService.list(orgId, id, { types, cursor, limit });
+
+    res.json({
+      data: timeline.items,
+      contact: timeline.contact,
+      pagination: { limit, nextCursor: timeline.nextCursor },
+    });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get contact timeline', { error, contactId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get contact timeline',
+    });
+  }
+});
+
+router.get('/contacts/:id/score', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const score = await LeadScoringService.explain(orgId, id);
+    res.json(score);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get lead score', { error, contactId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get lead score',
+    });
+  }
+});
+
+router.get('/contacts/:id/consent', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const consent = await ConsentService.forContact(orgId, id);
+    res.json(consent);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get contact consent', { error, contactId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get contact consent',
+    });
+  }
+});
+
+router.post('/contacts/:id/consent', validation(ConsentSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId, userId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const event = await ConsentService.recordForContact(orgId, id, { ...req.body, actorId: userId });
+
+    logger.info('Contact consent recorded', { contactId: id, orgId, channel: event.channel, status: event.status });
+    res.status(201).json(event);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to record contact consent', { error, contactId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to record contact consent',
+    });
+  }
+});
+
+router.post('/contacts/:id/privacy/export', requireRole(['owner', 'admin']), validation(PrivacyExportSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId, userId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const { request, fileName, archive } = await PrivacyService.export(orgId, id, { ...req.body, requestedBy: userId });
+
+    logger.info('Data subject export downloaded', { contactId: id, orgId, requestId: request.id });
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.setHeader('X-Privacy-Request-Id', request.id);
+    res.send(archive);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to export contact data', { error, contactId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to export contact data',
+    });
+  }
+});
+
+router.post('/contacts/:id/privacy/erase', requireRole(['owner', 'admin']), validation(PrivacyEraseSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId, userId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const request = await PrivacyService.erase(orgId, id, { ...req.body, requestedBy: userId });
+
+    logger.info('Contact data erased', { contactId: id, orgId, requestId: request.id, status: request.status });
+    res.json(request);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to erase contact data', { error, contactId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to erase contact data',
+    });
+  }
+});
+
+router.post('/contacts/:id/merge', validation(MergeContactsSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId, userId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const result = await DuplicateService.merge(orgId, id, req.body.duplicateIds, userId);
+
+    logger.info('Contacts merged', { contactId: id, orgId, mergedContactIds: result.mergedContactIds });
+    res.json(result);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to merge contacts', { error, contactId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to merge contacts',
+    });
+  }
+});
+
+router.put('/contacts/:id', validation(UpdateContactSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId, userId } = getAuthContext(req as any);
+  const { id } = req.params;
+  
+  try {
+    const contact = await prisma.contact.findFirst({
+      where: { id, orgId, deletedAt: null },
+    });
+
+    if (!contact) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Contact not found',
+      });
+    }
+
+    const { version, ...data } = req.body;
+    assertVersion('Contact', contact, expectedVersion(req.get('If-Match'), version));
+
+    if (data.customFields !== undefined) {
+      data.customFields = await CustomFieldService.validateValues(orgId, 'contact', data.customFields, contact.customFields);
+    }
+
+    if (data.accountId) {
+      await AccountService.assertExists(orgId, data.accountId);
+    }
+
+    if (data.ownerId) {
+      await assertOrgMember(orgId, data.ownerId);
+    }
+
+    const updatedContact = await withVersionGuard(
+      'Contact',
+      () => prisma.contact.update({
+        where: { id, version: contact.version },
+        data: { ...data, version: { increment: 1 } },
+      }),
+      () => prisma.contact.findFirst({ where: { id, orgId } })
+    );
+    if (data.accountId !== undefined) {
+      await AccountService.followContact(orgId, id, contact.accountId, updatedContact.accountId);
+    }
+    await AssignmentService.recordOwnerChange(orgId, {
+      contactId: id,
+      fromOwnerId: contact.ownerId,
+      toOwnerId: updatedContact.ownerId,
+      actorId: userId,
+    });
+    await LeadScoringService.queueRecompute(orgId, id);
+
+    logger.info('Contact updated', { contactId: id, orgId, version: updatedContact.version });
+    res.setHeader('ETag', etag(updatedContact.version));
+    res.json(updatedContact);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to update contact', { error, contactId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update contact',
+    });
+  }
+});
+
+// Moves the contact, its deals, activities, appointments and tasks to the trash
+router.delete('/contacts/:id', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+  
+  try {
+    await TrashService.trashContact(orgId, id);
+
+    logger.info('Contact trashed', { contactId: id, orgId });
+    res.status(204).send();
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to delete contact', { error, contactId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to delete contact',
+    });
+  }
+});
+
+// Account routes
+router.get('/accounts', validation(AccountQuerySchema, 'query'), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { page, limit, search, sortBy, sortOrder } = req.query as any;
+
+  try {
+    const { accounts, total } = await AccountService.list(orgId, { page, limit, search, sortBy, sortOrder });
+
+    res.json({
+      data: accounts,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to get accounts', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get accounts',
+    });
+  }
+});
+
+router.get('/accounts/:id', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const account = await AccountService.get(orgId, id);
+    res.json(account);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get account', { error, accountId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get account',
+    });
+  }
+});
+
+router.post('/accounts', validation(AccountSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    const account = await AccountService.create(orgId, req.body);
+
+    logger.info('Account created', { accountId: account.id, orgId });
+    res.status(201).json(account);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to create account', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create account',
+    });
+  }
+});
+
+router.put('/accounts/:id', validation(UpdateAccountSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const account = await AccountService.update(orgId, id, req.body);
+
+    logger.info('Account updated', { accountId: id, orgId });
+    res.json(account);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to update account', { error, accountId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update account',
+    });
+  }
+});
+
+router.delete('/accounts/:id', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    await AccountService.remove(orgId, id);
+
+    logger.info('Account deleted', { accountId: id, orgId });
+    res.status(204).send();
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to delete account', { error, accountId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to delete account',
+    });
+  }
+});
+
+// Segment routes
+router.get('/segments', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    const segments = await SegmentService.list(orgId, segmentActor(req));
+    res.json({ data: segments });
+  } catch (error) {
+    logger.error('Failed to get segments', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get segments',
+    });
+  }
+});
+
+router.get('/segments/fields', (req: Request, res: Response) => {
+  res.json({ data: SEGMENT_FIELDS });
+});
+
+router.post('/segments/preview', validation(SegmentPreviewSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { filter, page, limit } = req.body;
+
+  try {
+    const where = await SegmentService.buildWhere(orgId, filter);
+    res.json(await paginateContacts(where, page, limit));
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to preview segment', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to preview segment',
+    });
+  }
+});
+
+router.get('/segments/:id', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const segment = await SegmentService.get(orgId, id, segmentActor(req));
+    res.json(segment);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get segment', { error, segmentId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get segment',
+    });
+  }
+});
+
+router.get('/segments/:id/contacts', validation(SegmentContactsQuerySchema, 'query'), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+  const { page, limit } = req.query as any;
+
+  try {
+    const where = await SegmentService.whereFor(orgId, id, segmentActor(req));
+    res.json(await paginateContacts(where, page, limit));
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get segment contacts', { error, segmentId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get segment contacts',
+    });
+  }
+});
+
+router.post('/segments', validation(CreateSegmentSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    const segment = await SegmentService.create(orgId, segmentActor(req), req.body);
+
+    logger.info('Segment created', { segmentId: segment.id, orgId });
+    res.status(201).json(segment);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to create segment', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create segment',
+    });
+  }
+});
+
+router.put('/segments/:id', validation(UpdateSegmentSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const segment = await SegmentService.update(orgId, id, segmentActor(req), req.body);
+
+    logger.info('Segment updated', { segmentId: id, orgId });
+    res.json(segment);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to update segment', { error, segmentId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update segment',
+    });
+  }
+});
+
+router.delete('/segments/:id', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    await SegmentService.remove(orgId, id, segmentActor(req));
+
+    logger.info('Segment deleted', { segmentId: id, orgId });
+    res.status(204).send();
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to delete segment', { error, segmentId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to delete segment',
+    });
+  }
+});
+
+// Broadcast routes
+router.post('/broadcasts', validation(CreateBroadcastSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId, userId } = getAuthContext(req as any);
+  const { segmentId, channel, subject, body } = req.body;
+
+  try {
+    const where = await SegmentService.whereFor(orgId, segmentId, segmentActor(req));
+    const recipients = await prisma.contact.count({
+      where: { AND: [where, channel === 'sms' ? { phone: { not: null } } : { email: { not: null } }] },
+    });
+
+    const { enqueueBroadcast } = await import('../workers/enqueue');
+    const job = await enqueueBroadcast({
+      orgId,
+      payload: { segmentId, channel, subject, body, requestedBy: userId },
+    });
+
+    logger.info('Broadcast queued', { orgId, segmentId, channel, recipients, jobId: job.id });
+    res.status(202).json({ jobId: job.id, segmentId, channel, recipients });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to queue broadcast', { error, segmentId });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to queue broadcast',
+    });
+  }
+});
+
+// Pipeline routes
+router.get('/pipelines', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    const pipelines = await PipelineService.list(orgId);
+    res.json({ data: pipelines });
+  } catch (error) {
+    logger.error('Failed to get pipelines', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get pipelines',
+    });
+  }
+});
+
+router.get('/pipelines/:id', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const pipeline = await PipelineService.get(orgId, id);
+    res.json(pipeline);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get pipeline', { error, pipelineId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get pipeline',
+    });
+  }
+});
+
+router.post('/pipelines', requireRole(['owner', 'admin']), validation(CreatePipelineSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    const pipeline = await PipelineService.create(orgId, req.body);
+
+    logger.info('Pipeline created', { pipelineId: pipeline.id, orgId });
+    res.status(201).json(pipeline);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to create pipeline', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create pipeline',
+    });
+  }
+});
+
+router.put('/pipelines/:id', requireRole(['owner', 'admin']), validation(UpdatePipelineSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const pipeline = await PipelineService.update(orgId, id, req.body);
+
+    logger.info('Pipeline updated', { pipelineId: id, orgId });
+    res.json(pipeline);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to update pipeline', { error, pipelineId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update pipeline',
+    });
+  }
+});
+
+router.delete('/pipelines/:id', requireRole(['owner', 'admin']), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    await PipelineService.remove(orgId, id);
+
+    logger.info('Pipeline deleted', { pipelineId: id, orgId });
+    res.status(204).send();
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to delete pipeline', { error, pipelineId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to delete pipeline',
+    });
+  }
+});
+
+router.post('/pipelines/:id/stages', requireRole(['owner', 'admin']), validation(CreatePipelineStageSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const stage = await PipelineService.addStage(orgId, id, req.body);
+
+    logger.info('Pipeline stage created', { pipelineId: id, stageId: stage.id, orgId });
+    res.status(201).json(stage);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to create pipeline stage', { error, pipelineId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create pipeline stage',
+    });
+  }
+});
+
+router.post('/pipelines/:id/stages/reorder', requireRole(['owner', 'admin']), validation(ReorderPipelineStagesSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const pipeline = await PipelineService.reorderStages(orgId, id, req.body.stageIds);
+
+    logger.info('Pipeline stages reordered', { pipelineId: id, orgId });
+    res.json(pipeline);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to reorder pipeline stages', { error, pipelineId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to reorder pipeline stages',
+    });
+  }
+});
+
+router.put('/pipelines/:id/stages/:stageId', requireRole(['owner', 'admin']), validation(UpdatePipelineStageSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id, stageId } = req.params;
+
+  try {
+    const stage = await PipelineService.updateStage(orgId, id, stageId, req.body);
+
+    logger.info('Pipeline stage updated', { pipelineId: id, stageId, orgId });
+    res.json(stage);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to update pipeline stage', { error, pipelineId: id, stageId });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update pipeline stage',
+    });
+  }
+});
+
+router.delete('/pipelines/:id/stages/:stageId', requireRole(['owner', 'admin']), validation(DeletePipelineStageQuerySchema, 'query'), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId, userId } = getAuthContext(req as any);
+  const { id, stageId } = req.params;
+  const { moveToStageId } = req.query as any;
+
+  try {
+    const { moved } = await PipelineService.removeStage(orgId, id, stageId, moveToStageId, userId);
+
+    logger.info('Pipeline stage deleted', { pipelineId: id, stageId, orgId, movedDeals: moved });
+    res.status(204).send();
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to delete pipeline stage', { error, pipelineId: id, stageId });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to delete pipeline stage',
+    });
+  }
+});
+
+// Deal routes
+router.get('/deals', validation(DealQuerySchema, 'query'), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId, userId } = getAuthContext(req as any);
+  const { page, limit, pipelineId, stageId, status, contactId, accountId, ownerId, cf, sortBy, sortOrder } = req.query as any;
+  
+  try {
+    const sort = parseSort(sortBy, sortOrder, DEAL_SORT_COLUMNS);
+    const where: any = { orgId, deletedAt: null };
+    
+    if (pipelineId) {
+      where.pipelineId = pipelineId;
+    }
+
+    if (stageId) {
+      where.stageId = stageId;
+    }
+
+    if (status) {
+      where.stage = { type: status };
+    }
+    
+    if (contactId) {
+      where.contactId = contactId;
+    }
+
+    if (accountId) {
+      where.accountId = accountId;
+    }
+
+    if (ownerId) {
+      where.ownerId = ownerWhere(ownerId, userId);
+    }
+
+    const customFieldFilters = await CustomFieldService.buildFilters(orgId, 'deal', cf);
+    if (customFieldFilters.length > 0) {
+      where.AND = customFieldFilters;
+    }
+
+    const include = DEAL_INCLUDE;
+
+    let deals;
+    let total: number;
+
+    if (sort.customFieldKey) {
+      await CustomFieldService.assertSortable(orgId, 'deal', sort.customFieldKey);
+
+      const rows = await prisma.deal.findMany({
+        where,
+        select: { id: true, customFields: true },
+      });
+      const pageIds = CustomFieldService.orderIdsByValue(rows, sort.customFieldKey, sortOrder)
+        .slice((page - 1) * limit, page * limit);
+      const pageDeals = await prisma.deal.findMany({
+        where: { id: { in: pageIds } },
+        include,
+      });
+
+      deals = pageIds.map(id => pageDeals.find(deal => deal.id === id)!);
+      total = rows.length;
+    } else {
+      [deals, total] = await Promise.all([
+        prisma.deal.findMany({
+          where,
+          skip: (page - 1) * limit,
+          take: limit,
+          orderBy: sort.orderBy,
+          include,
+        }),
+        prisma.deal.count({ where }),
+      ]);
+    }
+
+    res.json({
+      data: deals,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get deals', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get deals',
+    });
+  }
+});
+
+router.post('/deals', validation(CreateDealSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId, userId } = getAuthContext(req as any);
+  
+  try {
+    const dealData = ensureOrgId(req.body, orgId);
+    
+    // Verify contact exists and belongs to org
+    const contact = await prisma.contact.findFirst({
+      where: { id: dealData.contactId, orgId, deletedAt: null },
+    });
+    
+    if (!contact) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Contact not found',
+      });
+    }
+
+    dealData.customFields = await CustomFieldService.validateValues(orgId, 'deal', dealData.customFields);
+
+    if (dealData.ownerId) {
+      await assertOrgMember(orgId, dealData.ownerId);
+    } else if (dealData.ownerId === undefined) {
+      dealData.ownerId = contact.ownerId;
+    }
+
+    if (dealData.accountId) {
+      await AccountService.assertExists(orgId, dealData.accountId);
+    } else if (dealData.accountId === undefined) {
+      dealData.accountId = contact.accountId;
+    }
+
+    dealData.currency = dealData.currency ?? (await FxService.getBaseCurrency(orgId));
+
+    const { pipelineId, stageId, probability, lineItems, ...fields } = dealData;
+    const placement = await PipelineService.resolvePlacement(orgId, { pipelineId, stageId, probability });
+
+    const deal = await prisma.$transaction(async tx => {
+      let created = await tx.deal.create({
+        data: { ...fields, valueCents: fields.valueCents ?? 0, ...placement },
+        include: DEAL_INCLUDE,
+      });
+
+      if (lineItems?.length) {
+        await DealLineItemService.replace(orgId, created.id, lineItems, tx);
+        created = await tx.deal.findUniqueOrThrow({ where: { id: created.id }, include: DEAL_INCLUDE });
+      }
+
+      await DealStageHistoryService.record(tx, {
+        orgId,
+        dealId: created.id,
+        pipelineId: created.pipelineId,
+        fromStageId: null,
+        toStageId: created.stageId,
+        ownerId: created.ownerId,
+        changedBy: userId,
+        changedAt: created.createdAt,
+      });
+
+      return created;
+    });
+    await LeadScoringService.queueRecompute(orgId, deal.contactId);
+
+    logger.info('Deal created', { dealId: deal.id, orgId });
+    res.status(201).json(deal);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to create deal', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create deal',
+    });
+  }
+});
+
+router.put('/deals/:id', validation(UpdateDealSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId, userId } = getAuthContext(req as any);
+  const { id } = req.params;
+  
+  try {
+    const deal = await prisma.deal.findFirst({
+      where: { id, orgId, deletedAt: null },
+    });
+
+    if (!deal) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Deal not found',
+      });
+    }
+
+    const { pipelineId, stageId, probability, version, ...data } = req.body;
+    assertVersion('Deal', deal, expectedVersion(req.get('If-Match'), version));
+
+    if (data.customFields !== undefined) {
+      data.customFields = await CustomFieldService.validateValues(orgId, 'deal', data.customFields, deal.customFields);
+    }
+
+    if (data.ownerId) {
+      await assertOrgMember(orgId, data.ownerId);
+    }
+
+    if (data.accountId) {
+      await AccountService.assertExists(orgId, data.accountId);
+    }
+
+    await DealLineItemService.assertValueEditable(id, data, deal);
+
+    if (pipelineId || stageId || probability !== undefined) {
+      Object.assign(data, await PipelineService.resolvePlacement(orgId, { pipelineId, stageId, probability }, deal));
+    }
+
+    const updatedDeal = await withVersionGuard(
+      'Deal',
+      () => prisma.$transaction(async tx => {
+        const updated = await tx.deal.update({
+          where: { id, version: deal.version },
+          data: { ...data, version: { increment: 1 } },
+          include: DEAL_INCLUDE,
+        });
+
+        await DealStageHistoryService.record(tx, {
+          orgId,
+          dealId: id,
+          pipelineId: updated.pipelineId,
+          fromStageId: deal.stageId,
+          toStageId: updated.stageId,
+          ownerId: updated.ownerId,
+          changedBy: userId,
+        });
+
+        return updated;
+      }),
+      () => prisma.deal.findFirst({ where: { id, orgId }, include: DEAL_INCLUDE })
+    );
+    await AssignmentService.recordOwnerChange(orgId, {
+      contactId: updatedDeal.contactId,
+      dealId: id,
+      fromOwnerId: deal.ownerId,
+      toOwnerId: updatedDeal.ownerId,
+      actorId: userId,
+    });
+    await LeadScoringService.queueRecompute(orgId, updatedDeal.contactId);
+    if (updatedDeal.contactId !== deal.contactId) {
+      await LeadScoringService.queueRecompute(orgId, deal.contactId);
+    }
+
+    logger.info('Deal updated', { dealId: id, orgId, version: updatedDeal.version });
+    res.setHeader('ETag', etag(updatedDeal.version));
+    res.json(updatedDeal);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to update deal', { error, dealId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update deal',
+    });
+  }
+});
+
+router.get('/deals/:id/stage-history', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const history = await DealStageHistoryService.list(orgId, id);
+    res.json({ data: history });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get deal stage history', { error, dealId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get deal stage history',
+    });
+  }
+});
+
+router.get('/deals/:id/line-items', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const lineItems = await DealLineItemService.list(orgId, id);
+    res.json({ data: lineItems });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get deal line items', { error, dealId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get deal line items',
+    });
+  }
+});
+
+// Replaces every line item; the deal value is re-derived from the new list
+router.put('/deals/:id/line-items', validation(ReplaceLineItemsSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const lineItems = await DealLineItemService.replace(orgId, id, req.body.items);
+
+    logger.info('Deal line items replaced', { dealId: id, orgId, count: lineItems.items.length });
+    res.json({ data: lineItems });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to replace deal line items', { error, dealId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to replace deal line items',
+    });
+  }
+});
+
+router.post('/deals/:id/line-items', validation(LineItemSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const item = await DealLineItemService.add(orgId, id, req.body);
+
+    logger.info('Deal line item added', { dealId: id, itemId: item.id, orgId });
+    res.status(201).json(item);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to add deal line item', { error, dealId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to add deal line item',
+    });
+  }
+});
+
+router.put('/deals/:id/line-items/:itemId', validation(UpdateLineItemSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id, itemId } = req.params;
+
+  try {
+    const item = await DealLineItemService.update(orgId, id, itemId, req.body);
+
+    logger.info('Deal line item updated', { dealId: id, itemId, orgId });
+    res.json(item);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to update deal line item', { error, dealId: id, itemId });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update deal line item',
+    });
+  }
+});
+
+router.delete('/deals/:id/line-items/:itemId', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id, itemId } = req.params;
+
+  try {
+    await DealLineItemService.remove(orgId, id, itemId);
+
+    logger.info('Deal line item removed', { dealId: id, itemId, orgId });
+    res.status(204).send();
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to remove deal line item', { error, dealId: id, itemId });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to remove deal line item',
+    });
+  }
+});
+
+router.get('/deals/:id/quotes', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const quotes = await QuoteService.list(orgId, id);
+    res.json({ data: quotes });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get deal quotes', { error, dealId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get deal quotes',
+    });
+  }
+});
+
+// Renders a new quote version; versions still awaiting a response are superseded
+router.post('/deals/:id/quotes', validation(GenerateQuoteSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId, userId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const quote = await QuoteService.generate(orgId, id, { ...req.body, createdBy: userId });
+
+    logger.info('Quote generated', { dealId: id, quoteId: quote.id, orgId });
+    res.status(201).json(quote);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to generate quote', { error, dealId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to generate quote',
+    });
+  }
+});
+
+// Moves the deal with its activities and tasks to the trash
+router.delete('/deals/:id', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+  
+  try {
+    const { contactId } = await TrashService.trashDeal(orgId, id);
+    await LeadScoringService.queueRecompute(orgId, contactId);
+
+    logger.info('Deal trashed', { dealId: id, orgId });
+    res.status(204).send();
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to delete deal', { error, dealId: id });
     res.status(500).json({
       error: 'Internal Server Error',
       message: 'Failed to delete deal',
@@ -537,4 +2539,1295 @@ router.delete('/deals/:id', async (req: Request, res: Response) => {
   }
 });
 
+// Appointment routes
+router.get('/appointments/:id', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const appointment = await prisma.appointment.findFirst({
+      where: { id, orgId, deletedAt: null },
+      include: { contact: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } } },
+    });
+
+    if (!appointment) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Appointment not found',
+      });
+    }
+
+    res.setHeader('ETag', etag(appointment.version));
+    res.json(appointment);
+  } catch (error) {
+    logger.error('Failed to get appointment', { error, appointmentId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get appointment',
+    });
+  }
+});
+
+router.put('/appointments/:id', validation(UpdateAppointmentSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const appointment = await prisma.appointment.findFirst({
+      where: { id, orgId, deletedAt: null },
+    });
+
+    if (!appointment) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Appointment not found',
+      });
+    }
+
+    const { version, ...data } = req.body;
+    assertVersion('Appointment', appointment, expectedVersion(req.get('If-Match'), version));
+
+    if ((data.endsAt ?? appointment.endsAt) <= (data.startsAt ?? appointment.startsAt)) {
+      throw new ValidationError('Appointment must end after it starts', { field: 'endsAt' });
+    }
+
+    const updatedAppointment = await withVersionGuard(
+      'Appointment',
+      () => prisma.appointment.update({
+        where: { id, version: appointment.version },
+        data: { ...data, version: { increment: 1 } },
+      }),
+      () => prisma.appointment.findFirst({ where: { id, orgId } })
+    );
+
+    logger.info('Appointment updated', { appointmentId: id, orgId, version: updatedAppointment.version });
+    res.setHeader('ETag', etag(updatedAppointment.version));
+    res.json(updatedAppointment);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to update appointment', { error, appointmentId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update appointment',
+    });
+  }
+});
+
+// Quote routes
+router.get('/quotes/:id', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const quote = await QuoteService.get(orgId, id);
+    res.json(quote);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get quote', { error, quoteId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get quote',
+    });
+  }
+});
+
+router.get('/quotes/:id/pdf', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const { fileName, pdf } = await QuoteService.getPdf(orgId, id);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(pdf);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get quote PDF', { error, quoteId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get quote PDF',
+    });
+  }
+});
+
+// Emails the PDF with a signed link where the client can accept or decline
+router.post('/quotes/:id/send', validation(SendQuoteSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const { quote, link } = await QuoteService.send(orgId, id, req.body);
+
+    logger.info('Quote sent', { quoteId: id, orgId });
+    res.json({ ...quote, link });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to send quote', { error, quoteId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to send quote',
+    });
+  }
+});
+
+// Conversation routes
+router.get('/conversations', validation(ConversationQuerySchema, 'query'), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId, userId } = getAuthContext(req as any);
+  const { assignedTo, page, limit, ...filters } = req.query as any;
+
+  try {
+    const { conversations, total } = await InboxService.list(orgId, {
+      ...filters,
+      assignedTo: ownerWhere(assignedTo, userId),
+      page,
+      limit,
+    });
+
+    res.json({
+      data: conversations,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get conversations', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get conversations',
+    });
+  }
+});
+
+router.get('/conversations/:id', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const conversation = await InboxService.get(orgId, id);
+    res.json(conversation);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get conversation', { error, conversationId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get conversation',
+    });
+  }
+});
+
+router.get('/messages/:id/delivery', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const delivery = await DeliveryService.history(orgId, id);
+    res.json(delivery);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get message delivery history', { error, messageId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get message delivery history',
+    });
+  }
+});
+
+router.put('/conversations/:id', validation(UpdateConversationSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const conversation = await InboxService.update(orgId, id, req.body);
+
+    logger.info('Conversation updated', { conversationId: id, orgId });
+    res.json(conversation);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to update conversation', { error, conversationId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update conversation',
+    });
+  }
+});
+
+router.post('/conversations/:id/read', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const conversation = await InboxService.markRead(orgId, id);
+    res.json(conversation);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to mark conversation read', { error, conversationId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to mark conversation read',
+    });
+  }
+});
+
+router.post('/conversations/:id/reply', validation(ConversationReplySchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId, userId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const message = await InboxService.reply(orgId, id, req.body, userId);
+
+    logger.info('Conversation reply sent', { conversationId: id, messageId: message.id, orgId });
+    res.status(201).json(message);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to send conversation reply', { error, conversationId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to send conversation reply',
+    });
+  }
+});
+
+// Message template routes
+router.get('/templates', validation(TemplateQuerySchema, 'query'), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    const templates = await TemplateService.list(orgId, req.query as any);
+    res.json({ data: templates });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get message templates', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get message templates',
+    });
+  }
+});
+
+router.get('/templates/variables', (req: Request, res: Response) => {
+  res.json({ data: TemplateService.variables() });
+});
+
+router.get('/templates/:id', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const template = await TemplateService.get(orgId, id);
+    res.json(template);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get message template', { error, templateId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get message template',
+    });
+  }
+});
+
+router.get('/templates/:id/versions', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const versions = await TemplateService.versions(orgId, id);
+    res.json({ data: versions });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get message template versions', { error, templateId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get message template versions',
+    });
+  }
+});
+
+router.post('/templates', validation(CreateTemplateSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId, userId } = getAuthContext(req as any);
+
+  try {
+    const template = await TemplateService.create(orgId, userId, req.body);
+
+    logger.info('Message template created', { templateId: template.id, channel: template.channel, orgId });
+    res.status(201).json(template);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to create message template', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create message template',
+    });
+  }
+});
+
+router.put('/templates/:id', validation(UpdateTemplateSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId, userId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const template = await TemplateService.update(orgId, id, userId, req.body);
+
+    logger.info('Message template updated', { templateId: id, version: template.currentVersion, orgId });
+    res.json(template);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to update message template', { error, templateId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update message template',
+    });
+  }
+});
+
+router.post('/templates/:id/preview', validation(TemplatePreviewSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const rendered = await TemplateService.preview(orgId, id, req.body);
+    res.json(rendered);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to preview message template', { error, templateId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to preview message template',
+    });
+  }
+});
+
+router.post('/templates/:id/restore', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const template = await TemplateService.restore(orgId, id);
+
+    logger.info('Message template restored', { templateId: id, orgId });
+    res.json(template);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to restore message template', { error, templateId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to restore message template',
+    });
+  }
+});
+
+router.delete('/templates/:id', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    await TemplateService.archive(orgId, id);
+
+    logger.info('Message template archived', { templateId: id, orgId });
+    res.status(204).send();
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to archive message template', { error, templateId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to archive message template',
+    });
+  }
+});
+
+// Scheduled message routes
+router.get('/scheduled-messages', validation(ScheduledMessageQuerySchema, 'query'), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { page, limit } = req.query as any;
+
+  try {
+    const { messages, total } = await ScheduledMessageService.list(orgId, req.query as any);
+
+    res.json({
+      data: messages,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get scheduled messages', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get scheduled messages',
+    });
+  }
+});
+
+router.get('/scheduled-messages/:id', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const message = await ScheduledMessageService.get(orgId, id);
+    res.json(message);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get scheduled message', { error, scheduledMessageId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get scheduled message',
+    });
+  }
+});
+
+router.post('/scheduled-messages/:id/cancel', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const message = await ScheduledMessageService.cancel(orgId, id);
+
+    logger.info('Scheduled message canceled', { scheduledMessageId: id, orgId });
+    res.json(message);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to cancel scheduled message', { error, scheduledMessageId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to cancel scheduled message',
+    });
+  }
+});
+
+router.get('/quiet-hours', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    const settings = await QuietHoursService.get(orgId);
+    res.json({ data: settings });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get quiet hours', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get quiet hours',
+    });
+  }
+});
+
+router.put('/quiet-hours', requireRole(['owner', 'admin']), validation(QuietHoursSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    const settings = await QuietHoursService.update(orgId, req.body);
+
+    logger.info('Quiet hours updated', { orgId, ...settings });
+    res.json({ data: settings });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to update quiet hours', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update quiet hours',
+    });
+  }
+});
+
+// Messaging provider routes
+router.get('/messaging/providers', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    const settings = await MessagingService.getSettings(orgId);
+    res.json({ data: settings });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get messaging providers', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get messaging providers',
+    });
+  }
+});
+
+router.put('/messaging/providers', requireRole(['owner', 'admin']), validation(MessagingProvidersSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    const settings = await MessagingService.updateSettings(orgId, req.body);
+
+    logger.info('Messaging providers updated', { orgId, sms: settings.sms.active, email: settings.email.active });
+    res.json({ data: settings });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to update messaging providers', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update messaging providers',
+    });
+  }
+});
+
+// Consent routes
+router.get('/consent/suppressions', validation(SuppressionQuerySchema, 'query'), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { channel, contactId, page, limit } = req.query as any;
+
+  try {
+    const { suppressions, total } = await ConsentService.listSuppressions(orgId, { channel, contactId, page, limit });
+
+    res.json({
+      data: suppressions,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get message suppressions', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get message suppressions',
+    });
+  }
+});
+
+// Privacy request routes
+router.get('/privacy/requests', requireRole(['owner', 'admin']), validation(PrivacyRequestQuerySchema, 'query'), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { contactId, type, page, limit } = req.query as any;
+
+  try {
+    const { requests, total } = await PrivacyService.list(orgId, { contactId, type, page, limit });
+
+    res.json({
+      data: requests,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get privacy requests', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get privacy requests',
+    });
+  }
+});
+
+router.get('/privacy/requests/:id', requireRole(['owner', 'admin']), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const request = await PrivacyService.get(orgId, id);
+    res.json(request);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get privacy request', { error, requestId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get privacy request',
+    });
+  }
+});
+
+// Trash routes
+router.get('/trash', validation(TrashQuerySchema, 'query'), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { entity, page, limit } = req.query as any;
+
+  try {
+    const { items, total, retentionDays } = await TrashService.list(orgId, { entity, page, limit });
+
+    res.json({
+      data: items,
+      retentionDays,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to get trash', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get trash',
+    });
+  }
+});
+
+router.post('/trash/:entity/:id/restore', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { entity, id } = req.params;
+
+  if (!(TRASH_ENTITIES as readonly string[]).includes(entity)) {
+    return res.status(404).json({
+      error: 'Not Found',
+      message: `Unknown trash entity: ${entity}`,
+    });
+  }
+
+  try {
+    const result = await TrashService.restore(orgId, entity as TrashEntity, id);
+    await LeadScoringService.queueRecompute(orgId, 'contactId' in result.record ? result.record.contactId : id);
+
+    logger.info('Record restored', { entity, id, orgId, restored: result.restored });
+    res.json(result);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to restore record', { error, entity, id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to restore record',
+    });
+  }
+});
+
+// Task routes
+router.get('/tasks', validation(TaskQuerySchema, 'query'), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId, userId } = getAuthContext(req as any);
+  const { page, limit, dueBefore, dueAfter, ...filters } = req.query as any;
+
+  try {
+    const { tasks, total } = await TaskService.list(orgId, userId, {
+      ...filters,
+      dueBefore: dueBefore ? new Date(dueBefore) : undefined,
+      dueAfter: dueAfter ? new Date(dueAfter) : undefined,
+      page,
+      limit,
+    });
+
+    res.json({
+      data: tasks,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get tasks', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get tasks',
+    });
+  }
+});
+
+router.get('/tasks/:id', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const task = await TaskService.get(orgId, id);
+    res.json(task);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get task', { error, taskId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get task',
+    });
+  }
+});
+
+router.post('/tasks', validation(CreateTaskSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId, userId } = getAuthContext(req as any);
+
+  try {
+    const task = await TaskService.create(orgId, userId, req.body);
+
+    logger.info('Task created', { taskId: task.id, orgId });
+    res.status(201).json(task);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to create task', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create task',
+    });
+  }
+});
+
+router.put('/tasks/:id', validation(UpdateTaskSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const task = await TaskService.update(orgId, id, req.body);
+
+    logger.info('Task updated', { taskId: id, orgId });
+    res.json(task);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to update task', { error, taskId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update task',
+    });
+  }
+});
+
+router.post('/tasks/:id/complete', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId, userId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const task = await TaskService.complete(orgId, id, userId);
+
+    logger.info('Task completed', { taskId: id, orgId });
+    res.json(task);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to complete task', { error, taskId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to complete task',
+    });
+  }
+});
+
+router.post('/tasks/:id/reopen', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const task = await TaskService.reopen(orgId, id);
+
+    logger.info('Task reopened', { taskId: id, orgId });
+    res.json(task);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to reopen task', { error, taskId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to reopen task',
+    });
+  }
+});
+
+router.delete('/tasks/:id', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    await TaskService.remove(orgId, id);
+
+    logger.info('Task deleted', { taskId: id, orgId });
+    res.status(204).send();
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to delete task', { error, taskId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to delete task',
+    });
+  }
+});
+
+// Lead scoring routes
+router.get('/scoring/rules', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    const rules = await LeadScoringService.listRules(orgId);
+    res.json({ data: rules });
+  } catch (error) {
+    logger.error('Failed to get lead score rules', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get lead score rules',
+    });
+  }
+});
+
+router.post('/scoring/rules', requireRole(['owner', 'admin']), validation(CreateLeadScoreRuleSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    const rule = await LeadScoringService.createRule(orgId, req.body);
+    await LeadScoringService.queueOrgRecompute(orgId);
+
+    logger.info('Lead score rule created', { ruleId: rule.id, orgId });
+    res.status(201).json(rule);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to create lead score rule', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create lead score rule',
+    });
+  }
+});
+
+router.put('/scoring/rules/:id', requireRole(['owner', 'admin']), validation(UpdateLeadScoreRuleSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const rule = await LeadScoringService.updateRule(orgId, id, req.body);
+    await LeadScoringService.queueOrgRecompute(orgId);
+
+    logger.info('Lead score rule updated', { ruleId: id, orgId });
+    res.json(rule);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to update lead score rule', { error, ruleId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update lead score rule',
+    });
+  }
+});
+
+router.delete('/scoring/rules/:id', requireRole(['owner', 'admin']), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    await LeadScoringService.removeRule(orgId, id);
+    await LeadScoringService.queueOrgRecompute(orgId);
+
+    logger.info('Lead score rule deleted', { ruleId: id, orgId });
+    res.status(204).send();
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to delete lead score rule', { error, ruleId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to delete lead score rule',
+    });
+  }
+});
+
+router.post('/scoring/recompute', requireRole(['owner', 'admin']), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    const { enqueueLeadScore } = await import('../workers/enqueue');
+    const job = await enqueueLeadScore({ orgId });
+
+    logger.info('Lead score recompute queued', { orgId, jobId: job.id });
+    res.status(202).json({ jobId: job.id });
+  } catch (error) {
+    logger.error('Failed to queue lead score recompute', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to queue lead score recompute',
+    });
+  }
+});
+
+// Assignment rule routes
+router.get('/assignment/rules', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    const rules = await AssignmentService.listRules(orgId);
+    res.json({ data: rules });
+  } catch (error) {
+    logger.error('Failed to get assignment rules', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get assignment rules',
+    });
+  }
+});
+
+router.post('/assignment/rules', requireRole(['owner', 'admin']), validation(CreateAssignmentRuleSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    const rule = await AssignmentService.createRule(orgId, req.body);
+
+    logger.info('Assignment rule created', { ruleId: rule.id, orgId });
+    res.status(201).json(rule);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to create assignment rule', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create assignment rule',
+    });
+  }
+});
+
+router.put('/assignment/rules/:id', requireRole(['owner', 'admin']), validation(UpdateAssignmentRuleSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    const rule = await AssignmentService.updateRule(orgId, id, req.body);
+
+    logger.info('Assignment rule updated', { ruleId: id, orgId });
+    res.json(rule);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to update assignment rule', { error, ruleId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update assignment rule',
+    });
+  }
+});
+
+router.delete('/assignment/rules/:id', requireRole(['owner', 'admin']), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    await AssignmentService.removeRule(orgId, id);
+
+    logger.info('Assignment rule deleted', { ruleId: id, orgId });
+    res.status(204).send();
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to delete assignment rule', { error, ruleId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to delete assignment rule',
+    });
+  }
+});
+
+// Currency routes
+router.get('/branding', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    const branding = await BrandingService.get(orgId);
+    res.json({ data: branding });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get branding', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get branding',
+    });
+  }
+});
+
+router.put('/branding', requireRole(['owner', 'admin']), validation(BrandingSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    const branding = await BrandingService.update(orgId, req.body);
+
+    logger.info('Branding updated', { orgId });
+    res.json({ data: branding });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to update branding', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update branding',
+    });
+  }
+});
+
+router.get('/currency', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    const baseCurrency = await FxService.getBaseCurrency(orgId);
+    res.json({ data: { baseCurrency } });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get base currency', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get base currency',
+    });
+  }
+});
+
+router.put('/currency', requireRole(['owner', 'admin']), validation(BaseCurrencySchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    const baseCurrency = await FxService.setBaseCurrency(orgId, req.body.baseCurrency);
+    res.json({ data: { baseCurrency } });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to update base currency', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update base currency',
+    });
+  }
+});
+
+router.get('/fx-rates', validation(FxRateQuerySchema, 'query'), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { currency, page, limit } = req.query as any;
+
+  try {
+    const { rates, total } = await FxService.listRates(orgId, { currency, page, limit });
+
+    res.json({
+      data: rates,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get FX rates', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get FX rates',
+    });
+  }
+});
+
+router.post('/fx-rates', requireRole(['owner', 'admin']), validation(FxRateSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    const rate = await FxService.upsertRate(orgId, req.body);
+
+    logger.info('FX rate saved', { rateId: rate.id, currency: rate.currency, orgId });
+    res.status(201).json(rate);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to save FX rate', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to save FX rate',
+    });
+  }
+});
+
+router.post('/fx-rates/import', requireRole(['owner', 'admin']), (req: Request, res: Response, next) => {
+  uploadSpreadsheetMulter.single('file')(req, res, (error: unknown) => {
+    if (error) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error instanceof Error ? error.message : 'Invalid upload',
+      });
+    }
+    next();
+  });
+}, async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'A CSV or XLSX file is required',
+      });
+    }
+
+    const result = await FxService.importRates(orgId, req.file.buffer);
+    res.status(201).json({ data: result });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to import FX rates', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to import FX rates',
+    });
+  }
+});
+
+router.delete('/fx-rates/:id', requireRole(['owner', 'admin']), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { id } = req.params;
+
+  try {
+    await FxService.removeRate(orgId, id);
+
+    logger.info('FX rate deleted', { rateId: id, orgId });
+    res.status(204).send();
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to delete FX rate', { error, rateId: id });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to delete FX rate',
+    });
+  }
+});
+
+// Search routes
+router.get('/search', validation(SearchQuerySchema, 'query'), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { q, types, limit } = req.query as any;
+
+  try {
+    const results = await SearchService.search({ orgId, q, types, limit });
+
+    res.json({ data: results });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to search', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to search',
+    });
+  }
+});
+
+// Analytics routes
+router.get('/analytics/pipelines', validation(PipelineAnalyticsQuerySchema, 'query'), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { pipelineId, ownerId, from, to } = req.query as any;
+
+  try {
+    const end = to ? new Date(to) : new Date();
+    // Default to deals created in the last 90 days
+    const start = from ? new Date(from) : new Date(end.getTime() - 90 * 24 * 60 * 60 * 1000);
+
+    if (start > end) {
+      throw new ValidationError("'from' must be before 'to'");
+    }
+
+    const analytics = await PipelineAnalyticsService.getStageAnalytics({
+      orgId,
+      pipelineId,
+      ownerId,
+      from: start,
+      to: end,
+    });
+
+    res.json({ data: analytics });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get pipeline analytics', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get pipeline analytics',
+    });
+  }
+});
+
+router.get('/analytics/messages/delivery', validation(MessageDeliveryQuerySchema, 'query'), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { from, to } = req.query as any;
+
+  try {
+    const end = to ? new Date(to) : new Date();
+    // Default to messages sent in the last 30 days
+    const start = from ? new Date(from) : new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    if (start > end) {
+      throw new ValidationError("'from' must be before 'to'");
+    }
+
+    const channels = await DeliveryService.rates(orgId, { from: start, to: end });
+
+    res.json({ data: { from: start, to: end, channels } });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get message delivery analytics', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get message delivery analytics',
+    });
+  }
+});
+
+router.get('/analytics/revenue/services', validation(RevenueByServiceQuerySchema, 'query'), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+  const { orgId } = getAuthContext(req as any);
+  const { from, to } = req.query as any;
+
+  try {
+    const end = to ? new Date(to) : new Date();
+    // Default to deals won in the last 90 days
+    const start = from ? new Date(from) : new Date(end.getTime() - 90 * 24 * 60 * 60 * 1000);
+
+    if (start > end) {
+      throw new ValidationError("'from' must be before 'to'");
+    }
+
+    const revenue = await DealLineItemService.revenueByService(orgId, { from: start, to: end });
+
+    res.json({ data: revenue });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get revenue by service', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get revenue by service',
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
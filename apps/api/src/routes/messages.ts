@@ -1,37 +1,113 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { requireOrg } from '../lib/tenancy';
-import { sendSms } from '../services/comms/twilio';
-import { sendEmail } from '../services/comms/sendgrid';
+import { sendEmail, sendSms } from '../services/messaging';
+import { ConsentService } from '../services/consent';
+import { InboxService } from '../services/inbox';
+import { QuietHoursService } from '../services/quietHours';
+import { ScheduledMessageService } from '../services/scheduledMessages';
+import { TemplateService } from '../services/templates';
+import { CustomError } from '../utils/errors';
 import { createRequestLogger } from '../config/logger';
-import { PrismaClient } from '@prisma/client';
 
 const router = Router();
-const prisma = new PrismaClient();
 
-const MessageBodySchema = z.object({
-  orgId: z.string().uuid(),
-  channel: z.enum(['sms', 'email']),
-  to_addr: z.string().min(1),
-  body: z.string().min(1),
-  subject: z.string().optional(),
-  from_addr: z.string().optional(),
-});
+const MessageBodySchema = z
+  .object({
+    orgId: z.string().uuid(),
+    channel: z.enum(['sms', 'email']),
+    to_addr: z.string().min(1),
+    body: z.string().min(1).optional(),
+    subject: z.string().optional(),
+    from_addr: z.string().optional(),
+    // Sends a library template in place of body and subject, rendered for the records below
+    templateId: z.string().uuid().optional(),
+    contactId: z.string().uuid().optional(),
+    appointmentId: z.string().uuid().optional(),
+    dealId: z.string().uuid().optional(),
+    variables: z.record(z.union([z.string(), z.number()])).optional(),
+    // Holds the message until then; sends that fall in quiet hours are held even without it
+    sendAt: z.string().datetime().optional(),
+  })
+  .refine(data => data.body || data.templateId, { message: 'Either body or templateId is required', path: ['body'] });
 
 router.post('/messages/outbound', requireOrg, async (req: Request, res: Response) => {
   const logger = createRequestLogger(req);
   const orgId = (req as any).orgId as string;
   
   try {
-    const { channel, to_addr, body, subject, from_addr } = MessageBodySchema.parse(req.body);
-    
+    const { channel, to_addr, from_addr, templateId, contactId, appointmentId, dealId, variables, sendAt, ...content } =
+      MessageBodySchema.parse(req.body);
+
+    const now = new Date();
+    const sendAfter = await QuietHoursService.nextSendTime(
+      orgId,
+      { contactId, channel, to: to_addr },
+      sendAt ? new Date(sendAt) : now,
+    );
+
+    if (sendAfter.getTime() > now.getTime()) {
+      const scheduled = await ScheduledMessageService.schedule(orgId, {
+        channel,
+        toAddr: to_addr,
+        fromAddr: from_addr,
+        subject: content.subject,
+        body: content.body,
+        templateId,
+        templateContext: templateId ? { appointmentId, dealId, variables } : undefined,
+        contactId,
+        sendAt: sendAt ? new Date(sendAt) : now,
+      });
+
+      logger.info('Outbound message scheduled', { orgId, channel, scheduledMessageId: scheduled.id });
+      return res.status(202).json({
+        success: true,
+        scheduled: true,
+        scheduledMessageId: scheduled.id,
+        scheduledFor: scheduled.scheduledFor,
+      });
+    }
+
+    let body = content.body!;
+    let subject = content.subject;
+    let text: string | undefined;
+    let template: { id: string; version: number } | undefined;
+
+    if (templateId) {
+      const rendered = await TemplateService.render(orgId, templateId, { contactId, appointmentId, dealId, variables });
+      if (rendered.channel !== channel) {
+        return res.status(400).json({
+          success: false,
+          error: `Template '${rendered.name}' is for ${rendered.channel}, not ${channel}`,
+        });
+      }
+
+      body = (channel === 'email' ? rendered.html || rendered.text : rendered.text) || '';
+      subject = rendered.subject ?? subject;
+      text = rendered.text ?? undefined;
+      template = { id: rendered.templateId, version: rendered.version };
+    }
+
     logger.info('Sending outbound message', {
       orgId,
       channel,
       to_addr,
       subject,
+      templateId,
     });
 
+    const consent = await ConsentService.check(orgId, { channel, to: to_addr, source: 'messages.outbound', contactId });
+    if (!consent.allowed) {
+      return res.status(422).json({
+        success: false,
+        suppressed: true,
+        reason: consent.reason,
+        error: consent.reason === 'hard_bounce'
+          ? `Recipient's ${channel} address hard bounced`
+          : `Recipient has opted out of ${channel} messages`,
+      });
+    }
+
     let result;
     
     if (channel === 'sms') {
@@ -47,26 +123,27 @@ router.post('/messages/outbound', requireOrg, async (req: Request, res: Response
         to: to_addr,
         subject: subject || 'Message from ClientFlow',
         html: body,
+        text,
         from: from_addr,
       });
     }
 
     // Store message in database
     try {
-      await prisma.message.create({
-        data: {
-          orgId,
-          direction: 'outbound',
-          channel,
-          toAddr: to_addr,
-          fromAddr: from_addr || (channel === 'sms' ? process.env.TWILIO_FROM : process.env.SENDGRID_FROM) || '',
-          body,
-          meta: {
-            subject,
-            messageId: result.messageId,
-            sandbox: result.sandbox,
-            error: result.error,
-          },
+      await InboxService.recordMessage(orgId, {
+        contactId,
+        direction: 'outbound',
+        channel,
+        toAddr: to_addr,
+        fromAddr: result.from || from_addr || '',
+        body,
+        providerMessageId: result.messageId,
+        meta: {
+          subject,
+          messageId: result.messageId,
+          sandbox: result.sandbox,
+          error: result.error,
+          ...(template && { templateId: template.id, templateVersion: template.version }),
         },
       });
     } catch (dbError) {
@@ -88,7 +165,7 @@ router.post('/messages/outbound', requireOrg, async (req: Request, res: Response
     }
   } catch (error) {
     logger.error('Failed to send outbound message', { error });
-    res.status(400).json({
+    res.status(error instanceof CustomError ? error.statusCode : 400).json({
       success: false,
       error: error instanceof Error ? error.message : 'Invalid request',
     });
@@ -0,0 +1,83 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { validation } from '../middleware/validation';
+import { createRequestLogger } from '../config/logger';
+import { QuoteService } from '../services/quotes';
+import { sendServiceError } from '../middleware/errorHandler';
+
+// Public quote links. The signed token in the path is the only credential, so
+// none of these routes use auth or tenancy.
+const router = Router();
+
+const QuoteResponseSchema = z.object({
+  name: z.string().trim().max(200).optional(),
+  note: z.string().trim().max(2000).optional(),
+});
+
+router.get('/:token', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+
+  try {
+    const quote = await QuoteService.viewPublic(req.params.token);
+    res.json({ data: quote });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get public quote', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get quote',
+    });
+  }
+});
+
+router.get('/:token/pdf', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+
+  try {
+    const { fileName, pdf } = await QuoteService.getPublicPdf(req.params.token);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${fileName}"`);
+    res.send(pdf);
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to get public quote PDF', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get quote PDF',
+    });
+  }
+});
+
+router.post('/:token/accept', validation(QuoteResponseSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+
+  try {
+    const quote = await QuoteService.respond(req.params.token, 'accepted', { ...req.body, ip: req.ip });
+    res.json({ data: quote });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to accept quote', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to accept quote',
+    });
+  }
+});
+
+router.post('/:token/decline', validation(QuoteResponseSchema), async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+
+  try {
+    const quote = await QuoteService.respond(req.params.token, 'declined', { ...req.body, ip: req.ip });
+    res.json({ data: quote });
+  } catch (error) {
+    if (sendServiceError(res, error)) return;
+    logger.error('Failed to decline quote', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to decline quote',
+    });
+  }
+});
+
+export default router;
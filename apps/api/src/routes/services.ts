@@ -3,6 +3,7 @@ import { ServiceController } from '../controllers/serviceController';
 import { authenticateToken } from '../middleware/auth';
 import { requireAdminAccess, requireOwnerAccess } from '../middleware/adminAuth';
 import { validateRequest, validateQuery } from '../middleware/validation';
+import { auditTrail } from '../middleware/audit';
 import { 
   createServiceSchema,
   updateServiceSchema,
@@ -12,6 +13,8 @@ import {
 
 const router = Router();
 
+router.use(auditTrail({ resourceType: 'services' }));
+
 /**
  * @route   POST /services
  * @desc    Create a new service
@@ -3,6 +3,7 @@ import { TeamController } from '../controllers/teamController';
 import { authenticateToken } from '../middleware/auth';
 import { requireAdminAccess, requireOwnerAccess } from '../middleware/adminAuth';
 import { validateRequest, validateQuery } from '../middleware/validation';
+import { auditTrail } from '../middleware/audit';
 import {
   inviteTeamMemberSchema,
   updateTeamMemberSchema,
@@ -14,6 +15,8 @@ import {
 
 const router = Router();
 
+router.use(auditTrail({ resourceType: 'team_members' }));
+
 /**
  * @route   GET /team-members
  * @desc    Get all team members associated with current business_id and their roles
@@ -1,10 +1,14 @@
 import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
-import { twilioService } from '../services/twilio';
-import { sendGridService } from '../services/sendgrid';
+import { parseTwilioWebhook, verifySendGridSignature, verifyTwilioSignature } from '../services/messaging';
 import { googleCalendarService } from '../services/google-calendar';
 import { createRequestLogger } from '../config/logger';
 import { redactString } from '../utils/redaction';
+import { LeadScoringService } from '../services/leadScoring';
+import { AssignmentService } from '../services/assignment';
+import { ConsentService } from '../services/consent';
+import { InboxService } from '../services/inbox';
+import { DeliveryService, sendGridDeliveryEvent, twilioDeliveryEvent } from '../services/delivery';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -162,19 +166,22 @@ router.post('/twilio', async (req: Request, res: Response) => {
     });
 
     // Verify webhook signature
-    const isValid = twilioService.verifyWebhookSignature(
-      signature,
-      req.originalUrl,
-      payload
-    );
+    const isValid = verifyTwilioSignature(signature, req.originalUrl, payload);
 
     if (!isValid) {
       logger.error('Twilio webhook signature verification failed');
       return res.status(400).json({ error: 'Invalid signature' });
     }
 
+    // Status callbacks for messages we sent can arrive here too; inbound messages are 'received'
+    const delivery = twilioDeliveryEvent(payload);
+    if (delivery) {
+      await DeliveryService.apply(delivery);
+      return res.json({ received: true });
+    }
+
     // Parse webhook payload
-    const messageData = twilioService.parseWebhookPayload(payload);
+    const messageData = parseTwilioWebhook(payload);
     if (!messageData) {
       logger.error('Failed to parse Twilio webhook payload');
       return res.status(400).json({ error: 'Invalid payload' });
@@ -187,25 +194,27 @@ router.post('/twilio', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Missing orgId' });
     }
 
+    // Upsert contact
+    const contact = await upsertContactFromMessage(orgId, messageData.From, messageData.Body);
+
     // Store inbound message
-    await prisma.message.create({
-      data: {
-        orgId,
-        direction: 'inbound',
-        channel: 'sms',
-        toAddr: messageData.To,
-        fromAddr: messageData.From,
-        body: messageData.Body,
-        meta: {
-          messageSid: messageData.MessageSid,
-          messageStatus: messageData.MessageStatus,
-          smtpId: messageData.SmsStatus,
-        },
+    await InboxService.recordMessage(orgId, {
+      contactId: contact?.id,
+      direction: 'inbound',
+      channel: 'sms',
+      toAddr: messageData.To,
+      fromAddr: messageData.From,
+      body: messageData.Body,
+      providerMessageId: messageData.MessageSid,
+      meta: {
+        messageSid: messageData.MessageSid,
+        messageStatus: messageData.MessageStatus,
+        smtpId: messageData.SmsStatus,
       },
     });
 
-    // Upsert contact
-    await upsertContactFromMessage(orgId, messageData.From, messageData.Body);
+    await ConsentService.handleInboundKeyword(orgId, 'sms', messageData.From, messageData.Body, contact?.id ?? null);
+    await LeadScoringService.queueRecompute(orgId, contact?.id);
 
     logger.info('Twilio message processed', { messageSid: messageData.MessageSid, orgId });
     res.json({ received: true });
@@ -215,6 +224,71 @@ router.post('/twilio', async (req: Request, res: Response) => {
   }
 });
 
+// Twilio delivery status callback
+router.post('/twilio-status', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+
+  try {
+    const signature = req.headers['x-twilio-signature'] as string;
+    const payload = req.body;
+
+    if (!verifyTwilioSignature(signature, req.originalUrl, payload)) {
+      logger.error('Twilio status callback signature verification failed');
+      return res.status(400).json({ error: 'Invalid signature' });
+    }
+
+    const delivery = twilioDeliveryEvent(payload);
+    if (!delivery) {
+      logger.warn('Unrecognized Twilio status callback', { messageSid: payload.MessageSid, status: payload.MessageStatus });
+      return res.json({ received: true });
+    }
+
+    const message = await DeliveryService.apply(delivery);
+
+    logger.info('Twilio status callback processed', {
+      messageSid: delivery.providerMessageId,
+      status: delivery.status,
+      matched: Boolean(message),
+    });
+    res.json({ received: true });
+  } catch (error) {
+    logger.error('Twilio status callback error', { error });
+    res.status(500).json({ error: 'Webhook processing failed' });
+  }
+});
+
+// SendGrid event webhook: delivered, open, bounce, dropped and so on, in batches
+router.post('/sendgrid-events', async (req: Request, res: Response) => {
+  const logger = createRequestLogger(req);
+
+  try {
+    const signature = req.headers['x-twilio-email-event-webhook-signature'] as string;
+    const timestamp = req.headers['x-twilio-email-event-webhook-timestamp'] as string;
+    const payload = req.body;
+
+    if (!verifySendGridSignature(rawBody(req), signature, timestamp)) {
+      logger.error('SendGrid event webhook signature verification failed');
+      return res.status(400).json({ error: 'Invalid signature' });
+    }
+
+    const events = Array.isArray(payload) ? payload : [payload];
+    let applied = 0;
+
+    for (const event of events) {
+      const delivery = sendGridDeliveryEvent(event);
+      if (delivery && (await DeliveryService.apply(delivery))) {
+        applied++;
+      }
+    }
+
+    logger.info('SendGrid events processed', { received: events.length, applied });
+    res.json({ received: true });
+  } catch (error) {
+    logger.error('SendGrid event webhook error', { error });
+    res.status(500).json({ error: 'Webhook processing failed' });
+  }
+});
+
 // SendGrid webhook handler
 router.post('/sendgrid-inbound', async (req: Request, res: Response) => {
   const logger = createRequestLogger(req);
@@ -231,11 +305,7 @@ router.post('/sendgrid-inbound', async (req: Request, res: Response) => {
     });
 
     // Verify webhook signature
-    const isValid = sendGridService.verifyWebhookSignature(
-      JSON.stringify(payload),
-      signature,
-      timestamp
-    );
+    const isValid = verifySendGridSignature(rawBody(req), signature, timestamp);
 
     if (!isValid) {
       logger.error('SendGrid webhook signature verification failed');
@@ -249,25 +319,25 @@ router.post('/sendgrid-inbound', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Missing orgId' });
     }
 
+    // Upsert contact
+    const contact = await upsertContactFromMessage(orgId, payload.from, payload.text || payload.html);
+
     // Store inbound email
-    await prisma.message.create({
-      data: {
-        orgId,
-        direction: 'inbound',
-        channel: 'email',
-        toAddr: payload.to,
-        fromAddr: payload.from,
-        body: payload.text || payload.html,
-        meta: {
-          subject: payload.subject,
-          headers: payload.headers,
-          attachments: payload.attachments,
-        },
+    await InboxService.recordMessage(orgId, {
+      contactId: contact?.id,
+      direction: 'inbound',
+      channel: 'email',
+      toAddr: payload.to,
+      fromAddr: payload.from,
+      body: payload.text || payload.html,
+      meta: {
+        subject: payload.subject,
+        headers: payload.headers,
+        attachments: payload.attachments,
       },
     });
 
-    // Upsert contact
-    await upsertContactFromMessage(orgId, payload.from, payload.text || payload.html);
+    await LeadScoringService.queueRecompute(orgId, contact?.id);
 
     logger.info('SendGrid email processed', { orgId, from: redactString(payload.from) });
     res.json({ received: true });
@@ -323,6 +393,14 @@ router.post('/gcal', async (req: Request, res: Response) => {
 });
 
 // Helper functions
+
+// The request body exactly as it was signed. The JSON parser in config/server
+// keeps it, since re-serializing the parsed body does not reproduce it.
+function rawBody(req: Request) {
+  const raw: Buffer | undefined = (req as any).rawBody;
+  return raw ? raw.toString('utf8') : '';
+}
+
 async function upsertContactFromMessage(orgId: string, fromAddr: string, body: string) {
   const logger = createRequestLogger({} as Request);
   
@@ -364,6 +442,8 @@ async function upsertContactFromMessage(orgId: string, fromAddr: string, body: s
     });
 
     logger.info('Contact created from message', { contactId: contact.id, orgId });
+
+    contact.ownerId = await AssignmentService.assignLead(orgId, contact.id, isEmail ? 'email' : 'sms');
     return contact;
   } catch (error) {
     logger.error('Failed to upsert contact from message', { error });
@@ -2,6 +2,7 @@ import express from 'express';
 import { WhatsAppService } from '../services/whatsappService';
 import { authenticateToken } from '../middleware/auth';
 import { z } from 'zod';
+import { MessageSuppressedError } from '../utils/errors';
 
 const router = express.Router();
 const whatsappService = new WhatsAppService();
@@ -77,6 +78,9 @@ router.post('/send-message', authenticateToken, async (req, res) => {
     });
 
   } catch (error) {
+    if (error instanceof MessageSuppressedError) {
+      return res.status(422).json({ success: false, error: error.message });
+    }
     console.error('Send WhatsApp message error:', error);
     res.status(500).json({
       success: false,
@@ -108,6 +112,9 @@ router.post('/send-template', authenticateToken, async (req, res) => {
     });
 
   } catch (error) {
+    if (error instanceof MessageSuppressedError) {
+      return res.status(422).json({ success: false, error: error.message });
+    }
     console.error('Send WhatsApp template error:', error);
     res.status(500).json({
       success: false,
@@ -145,6 +152,9 @@ router.post('/send-image', authenticateToken, async (req, res) => {
     });
 
   } catch (error) {
+    if (error instanceof MessageSuppressedError) {
+      return res.status(422).json({ success: false, error: error.message });
+    }
     console.error('Send WhatsApp image error:', error);
     res.status(500).json({
       success: false,
@@ -182,6 +192,9 @@ router.post('/send-document', authenticateToken, async (req, res) => {
     });
 
   } catch (error) {
+    if (error instanceof MessageSuppressedError) {
+      return res.status(422).json({ success: false, error: error.message });
+    }
     console.error('Send WhatsApp document error:', error);
     res.status(500).json({
       success: false,
@@ -0,0 +1,203 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { NotFoundError } from '../utils/errors';
+
+export interface AccountInput {
+  name: string;
+  domain?: string | null;
+  phone?: string | null;
+  website?: string | null;
+  industry?: string | null;
+  address?: string | null;
+  notes?: string | null;
+}
+
+export interface AccountListQuery {
+  search?: string;
+  page: number;
+  limit: number;
+  sortBy?: 'name' | 'createdAt';
+  sortOrder: 'asc' | 'desc';
+}
+
+export interface AccountRollup {
+  contactsCount: number;
+  openDealsCount: number;
+  openDealValueCents: number;
+  lastActivityAt: Date | null;
+}
+
+const EMPTY_ROLLUP: AccountRollup = {
+  contactsCount: 0,
+  openDealsCount: 0,
+  openDealValueCents: 0,
+  lastActivityAt: null,
+};
+
+/**
+ * Lowercased host without scheme, `www.` or path, so `https://www.Acme.com/about`
+ * and `acme.com` are stored the same way.
+ */
+export function normalizeDomain(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .split(/[/?#]/)[0];
+}
+
+function accountData<T extends Partial<AccountInput>>(input: T): T {
+  return {
+    ...input,
+    ...(input.domain && { domain: normalizeDomain(input.domain) }),
+  };
+}
+
+export class AccountService {
+  /**
+   * Open deal value counts deals in open stages attached to the account. Last
+   * activity covers activities on the account's contacts and deals.
+   */
+  static async rollups(orgId: string, accountIds: string[]): Promise<Map<string, AccountRollup>> {
+    if (accountIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await prisma.$queryRaw<(AccountRollup & { id: string })[]>`
+      SELECT acc.id,
+        (SELECT count(*)::int FROM contacts c WHERE c.account_id = acc.id AND c.deleted_at IS NULL) AS "contactsCount",
+        (SELECT count(*)::int FROM deals d JOIN pipeline_stages s ON s.id = d.stage_id
+          WHERE d.account_id = acc.id AND d.deleted_at IS NULL AND s.type = 'open') AS "openDealsCount",
+        (SELECT coalesce(sum(d.value_cents), 0)::bigint FROM deals d JOIN pipeline_stages s ON s.id = d.stage_id
+          WHERE d.account_id = acc.id AND d.deleted_at IS NULL AND s.type = 'open') AS "openDealValueCents",
+        (SELECT max(a.created_at) FROM activities a
+          LEFT JOIN contacts c ON c.id = a.contact_id
+          LEFT JOIN deals d ON d.id = a.deal_id
+          WHERE a.org_id = acc.org_id AND a.deleted_at IS NULL
+            AND (c.account_id = acc.id OR d.account_id = acc.id)) AS "lastActivityAt"
+      FROM accounts acc
+      WHERE acc.org_id = ${orgId}::uuid AND acc.id IN (${Prisma.join(accountIds.map(id => Prisma.sql`${id}::uuid`))})`;
+
+    return new Map(
+      rows.map(row => [
+        row.id,
+        {
+          contactsCount: row.contactsCount,
+          openDealsCount: row.openDealsCount,
+          // Summed as bigint so large pipelines don't overflow int4
+          openDealValueCents: Number(row.openDealValueCents),
+          lastActivityAt: row.lastActivityAt,
+        },
+      ])
+    );
+  }
+
+  static async list(orgId: string, query: AccountListQuery) {
+    const { search, page, limit, sortBy = 'name', sortOrder } = query;
+
+    const where: Prisma.AccountWhereInput = {
+      orgId,
+      ...(search && {
+        OR: [
+          { name: { contains: search, mode: 'insensitive' } },
+          { domain: { contains: search, mode: 'insensitive' } },
+        ],
+      }),
+    };
+
+    const [accounts, total] = await Promise.all([
+      prisma.account.findMany({
+        where,
+        orderBy: { [sortBy]: sortOrder },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.account.count({ where }),
+    ]);
+
+    const rollups = await this.rollups(orgId, accounts.map(account => account.id));
+
+    return {
+      accounts: accounts.map(account => ({ ...account, ...(rollups.get(account.id) ?? EMPTY_ROLLUP) })),
+      total,
+    };
+  }
+
+  /** The account with its rollups, contacts and deals */
+  static async get(orgId: string, id: string) {
+    const account = await prisma.account.findFirst({
+      where: { id, orgId },
+      include: {
+        contacts: {
+          where: { deletedAt: null },
+          select: { id: true, firstName: true, lastName: true, email: true, phone: true, tags: true, leadScore: true },
+          orderBy: { firstName: 'asc' },
+        },
+        deals: {
+          where: { deletedAt: null },
+          include: {
+            contact: { select: { id: true, firstName: true, lastName: true } },
+            stage: { select: { id: true, name: true, type: true } },
+          },
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+    });
+
+    if (!account) {
+      throw new NotFoundError('Account', id);
+    }
+
+    const rollups = await this.rollups(orgId, [id]);
+    return { ...account, ...(rollups.get(id) ?? EMPTY_ROLLUP) };
+  }
+
+  static async create(orgId: string, input: AccountInput) {
+    return prisma.account.create({
+      data: { orgId, ...accountData(input) },
+    });
+  }
+
+  static async update(orgId: string, id: string, input: Partial<AccountInput>) {
+    await this.assertExists(orgId, id);
+
+    return prisma.account.update({
+      where: { id },
+      data: accountData(input),
+    });
+  }
+
+  /** Contacts and deals stay, unlinked from the account */
+  static async remove(orgId: string, id: string) {
+    await this.assertExists(orgId, id);
+    await prisma.account.delete({ where: { id } });
+  }
+
+  static async assertExists(orgId: string, id: string) {
+    const account = await prisma.account.findFirst({
+      where: { id, orgId },
+      select: { id: true },
+    });
+
+    if (!account) {
+      throw new NotFoundError('Account', id);
+    }
+  }
+
+  /**
+   * Moves a contact's deals along when the contact changes account, leaving deals
+   * that were deliberately attached to some other account alone.
+   */
+  static async followContact(orgId: string, contactId: string, fromAccountId: string | null, toAccountId: string | null) {
+    if (fromAccountId === toAccountId) {
+      return 0;
+    }
+
+    const result = await prisma.deal.updateMany({
+      where: { orgId, contactId, accountId: fromAccountId },
+      data: { accountId: toAccountId },
+    });
+    return result.count;
+  }
+}
@@ -0,0 +1,250 @@
+import { AssignmentRule, AssignmentStrategy, LeadSource } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import logger from '../middleware/logger';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+export const ASSIGNMENT_STRATEGIES = Object.values(AssignmentStrategy) as [AssignmentStrategy, ...AssignmentStrategy[]];
+
+export const LEAD_SOURCES = Object.values(LeadSource) as [LeadSource, ...LeadSource[]];
+
+export interface CreateAssignmentRuleInput {
+  name: string;
+  strategy?: AssignmentStrategy;
+  tags?: string[];
+  sources?: LeadSource[];
+  assigneeIds: string[];
+  position?: number;
+  isEnabled?: boolean;
+}
+
+export type UpdateAssignmentRuleInput = Partial<CreateAssignmentRuleInput>;
+
+export interface OwnerChange {
+  contactId?: string | null;
+  dealId?: string | null;
+  fromOwnerId: string | null;
+  toOwnerId: string | null;
+  /** User who made the change; null for automatic assignment */
+  actorId?: string | null;
+  rule?: Pick<AssignmentRule, 'id' | 'name'>;
+}
+
+/** Tags compare case-insensitively; an empty list on the rule matches any lead */
+export function ruleMatches(
+  rule: Pick<AssignmentRule, 'tags' | 'sources'>,
+  lead: { source: LeadSource; tags: string[] }
+): boolean {
+  if (rule.sources.length > 0 && !rule.sources.includes(lead.source)) {
+    return false;
+  }
+  if (rule.tags.length > 0) {
+    const tags = new Set(lead.tags.map(tag => tag.toLowerCase()));
+    return rule.tags.some(tag => tags.has(tag.toLowerCase()));
+  }
+  return true;
+}
+
+/**
+ * Next owner from `pool`. Round-robin takes the member after `lastAssigneeId`;
+ * load-balanced takes the member with the fewest open deals, breaking ties in
+ * round-robin order so equally loaded members still take turns.
+ */
+export function pickAssignee(
+  strategy: AssignmentStrategy,
+  pool: string[],
+  lastAssigneeId: string | null,
+  openDeals: Map<string, number> = new Map()
+): string | null {
+  if (pool.length === 0) {
+    return null;
+  }
+
+  const start = lastAssigneeId ? pool.indexOf(lastAssigneeId) + 1 : 0;
+  const rotation = pool.map((_, i) => pool[(start + i) % pool.length]);
+
+  if (strategy === 'round_robin') {
+    return rotation[0];
+  }
+
+  return rotation.reduce((best, userId) =>
+    (openDeals.get(userId) ?? 0) < (openDeals.get(best) ?? 0) ? userId : best
+  );
+}
+
+const displayName = (user?: { name: string | null; email: string }) => (user ? user.name || user.email : 'a former member');
+
+export class AssignmentService {
+  static async listRules(orgId: string) {
+    return prisma.assignmentRule.findMany({
+      where: { orgId },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  static async getRule(orgId: string, id: string) {
+    const rule = await prisma.assignmentRule.findFirst({ where: { id, orgId } });
+    if (!rule) {
+      throw new NotFoundError('Assignment rule', id);
+    }
+    return rule;
+  }
+
+  static async createRule(orgId: string, input: CreateAssignmentRuleInput) {
+    await this.assertMembers(orgId, input.assigneeIds);
+
+    const position =
+      input.position ??
+      ((await prisma.assignmentRule.aggregate({ where: { orgId }, _max: { position: true } }))._max.position ?? -1) + 1;
+
+    return prisma.assignmentRule.create({
+      data: {
+        orgId,
+        name: input.name,
+        strategy: input.strategy,
+        tags: input.tags,
+        sources: input.sources,
+        assigneeIds: Array.from(new Set(input.assigneeIds)),
+        position,
+        isEnabled: input.isEnabled,
+      },
+    });
+  }
+
+  static async updateRule(orgId: string, id: string, input: UpdateAssignmentRuleInput) {
+    await this.getRule(orgId, id);
+    if (input.assigneeIds) {
+      await this.assertMembers(orgId, input.assigneeIds);
+    }
+
+    return prisma.assignmentRule.update({
+      where: { id },
+      data: {
+        ...input,
+        ...(input.assigneeIds && { assigneeIds: Array.from(new Set(input.assigneeIds)) }),
+      },
+    });
+  }
+
+  static async removeRule(orgId: string, id: string) {
+    await this.getRule(orgId, id);
+    await prisma.assignmentRule.delete({ where: { id } });
+  }
+
+  /**
+   * Gives a new, unowned contact an owner from the first matching rule. Assignees
+   * who have since left the org are skipped; a rule with none left falls through
+   * to the next one. Returns the new owner, or null when no rule applied.
+   */
+  static async assignLead(orgId: string, contactId: string, source: LeadSource): Promise<string | null> {
+    try {
+      const contact = await prisma.contact.findFirst({
+        where: { id: contactId, orgId, deletedAt: null },
+        select: { id: true, ownerId: true, tags: true },
+      });
+      if (!contact || contact.ownerId) {
+        return null;
+      }
+
+      const rules = await prisma.assignmentRule.findMany({
+        where: { orgId, isEnabled: true },
+        orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+      });
+
+      for (const rule of rules) {
+        if (!ruleMatches(rule, { source, tags: contact.tags })) {
+          continue;
+        }
+
+        const members = await prisma.membership.findMany({
+          where: { orgId, userId: { in: rule.assigneeIds } },
+          select: { userId: true },
+        });
+        const memberIds = new Set(members.map(member => member.userId));
+        const pool = rule.assigneeIds.filter(userId => memberIds.has(userId));
+
+        const openDeals = rule.strategy === 'load_balanced' ? await this.openDealCounts(orgId, pool) : undefined;
+        const ownerId = pickAssignee(rule.strategy, pool, rule.lastAssigneeId, openDeals);
+        if (!ownerId) {
+          continue;
+        }
+
+        // Only claim the contact if nobody assigned it in the meantime
+        const claimed = await prisma.contact.updateMany({
+          where: { id: contactId, ownerId: null },
+          data: { ownerId },
+        });
+        if (claimed.count === 0) {
+          return null;
+        }
+
+        await prisma.assignmentRule.update({ where: { id: rule.id }, data: { lastAssigneeId: ownerId } });
+        await this.recordOwnerChange(orgId, { contactId, fromOwnerId: null, toOwnerId: ownerId, rule });
+
+        logger.info('Lead assigned', { orgId, contactId, ownerId, ruleId: rule.id, source });
+        return ownerId;
+      }
+
+      return null;
+    } catch (error) {
+      // Assignment must never block lead intake
+      logger.error('Failed to assign lead', { orgId, contactId, source, error });
+      return null;
+    }
+  }
+
+  /** Logs an `assignment` activity on the contact or deal whose owner changed */
+  static async recordOwnerChange(orgId: string, change: OwnerChange) {
+    if (change.fromOwnerId === change.toOwnerId) {
+      return;
+    }
+
+    const ids = [change.fromOwnerId, change.toOwnerId].filter((id): id is string => Boolean(id));
+    const users = await prisma.user.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, name: true, email: true },
+    });
+    const byId = new Map(users.map(user => [user.id, user]));
+
+    const to = change.toOwnerId ? displayName(byId.get(change.toOwnerId)) : null;
+    const from = change.fromOwnerId ? displayName(byId.get(change.fromOwnerId)) : null;
+    const content = !to
+      ? `Unassigned from ${from}`
+      : from
+        ? `Reassigned from ${from} to ${to}`
+        : `Assigned to ${to}${change.rule ? ` by rule "${change.rule.name}"` : ''}`;
+
+    await prisma.activity.create({
+      data: {
+        orgId,
+        contactId: change.contactId ?? null,
+        dealId: change.dealId ?? null,
+        type: 'assignment',
+        content,
+        meta: {
+          fromOwnerId: change.fromOwnerId,
+          toOwnerId: change.toOwnerId,
+          changedBy: change.actorId ?? null,
+          ruleId: change.rule?.id ?? null,
+        },
+      },
+    });
+  }
+
+  private static async openDealCounts(orgId: string, userIds: string[]) {
+    const rows = await prisma.deal.groupBy({
+      by: ['ownerId'],
+      where: { orgId, ownerId: { in: userIds }, deletedAt: null, stage: { type: 'open' } },
+      _count: { _all: true },
+    });
+    return new Map(rows.map(row => [row.ownerId as string, row._count._all]));
+  }
+
+  private static async assertMembers(orgId: string, userIds: string[]) {
+    const members = await prisma.membership.count({
+      where: { orgId, userId: { in: Array.from(new Set(userIds)) } },
+    });
+    if (members !== new Set(userIds).size) {
+      throw new ValidationError('Assignees must be members of this organization');
+    }
+  }
+}
@@ -0,0 +1,242 @@
+import { isIP } from 'net';
+import { prisma } from '../lib/prisma';
+import logger from '../middleware/logger';
+import { AuditLog, AuditLogInsert, Json } from '../types/database';
+import { ExternalServiceError } from '../utils/errors';
+import { toCsv } from '../utils/csv';
+
+export interface AuditEntry {
+  // At least one of orgId and businessId is set
+  orgId?: string | null;
+  businessId?: string | null;
+  userId?: string | null;
+  action: string;
+  resourceType: string;
+  resourceId?: string | null;
+  oldValues?: unknown;
+  newValues?: unknown;
+  ip?: string | null;
+  userAgent?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditLogQuery {
+  resourceType?: string;
+  resourceId?: string;
+  userId?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
+
+// CSV exports are capped so a wide date range cannot stall the request
+const EXPORT_LIMIT = 10000;
+
+const REDACTED_KEYS = /password|secret|token/i;
+
+// Fields every write touches, which would otherwise show up in each diff
+const IGNORED_FIELDS = new Set(['updatedAt', 'updated_at']);
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// audit_logs.user_id references profiles; tokens issued by this API carry user IDs that may have no profile
+const USER_FOREIGN_KEY = 'audit_logs_user_id_fkey';
+
+/**
+ * Record state before and after a mutation, keyed by the audited resource type.
+ * Reads are unscoped: entries are only written once the route has authorized
+ * and completed the mutation.
+ */
+const SNAPSHOTS: Record<string, (id: string) => Promise<unknown>> = {
+  contacts: id => prisma.contact.findUnique({ where: { id } }),
+  accounts: id => prisma.account.findUnique({ where: { id } }),
+  deals: id => prisma.deal.findUnique({ where: { id } }),
+  pipelines: id => prisma.pipeline.findUnique({ where: { id } }),
+  segments: id => prisma.segment.findUnique({ where: { id } }),
+  tasks: id => prisma.task.findUnique({ where: { id } }),
+  quotes: id => prisma.quote.findUnique({ where: { id } }),
+  custom_fields: id => prisma.customFieldDefinition.findUnique({ where: { id } }),
+  fx_rates: id => prisma.fxRate.findUnique({ where: { id } }),
+  appointments: id => prisma.appointment.findUnique({ where: { id } }),
+  conversations: id => prisma.conversation.findUnique({ where: { id } }),
+  templates: id => prisma.messageTemplate.findUnique({ where: { id } }),
+  scheduled_messages: id => prisma.scheduledMessage.findUnique({ where: { id } }),
+  automations: id => prisma.automation.findUnique({ where: { id } }),
+  services: id => supabaseRow('services', id),
+  team_members: id => supabaseRow('business_members', id),
+};
+
+async function supabaseRow(table: string, id: string) {
+  const { supabase } = await import('../config/supabase');
+  const { data, error } = await (supabase as any).from(table).select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+/** JSON-safe copy for the jsonb columns, with secrets and binary payloads left out */
+export function auditValue(value: unknown): Json | null {
+  if (value === undefined || value === null) return null;
+
+  return JSON.parse(
+    JSON.stringify(value, (key, current) => {
+      if (key && REDACTED_KEYS.test(key)) return '[redacted]';
+      if (typeof current === 'bigint') return current.toString();
+      // Buffers have already been through their toJSON here
+      if (current && current.type === 'Buffer' && Array.isArray(current.data)) {
+        return `[binary ${current.data.length} bytes]`;
+      }
+      return current;
+    })
+  );
+}
+
+/**
+ * Old and new values of the fields that changed between two snapshots. A missing
+ * side means the record was created or hard-deleted, so the other side is kept whole.
+ */
+export function diffValues(before: unknown, after: unknown): { oldValues: Json | null; newValues: Json | null } {
+  const oldRecord = auditValue(before) as Record<string, Json> | null;
+  const newRecord = auditValue(after) as Record<string, Json> | null;
+
+  if (!oldRecord || !newRecord || typeof oldRecord !== 'object' || typeof newRecord !== 'object') {
+    return { oldValues: oldRecord, newValues: newRecord };
+  }
+
+  const oldValues: Record<string, Json> = {};
+  const newValues: Record<string, Json> = {};
+
+  for (const key of new Set([...Object.keys(oldRecord), ...Object.keys(newRecord)])) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    if (JSON.stringify(oldRecord[key] ?? null) !== JSON.stringify(newRecord[key] ?? null)) {
+      oldValues[key] = oldRecord[key] ?? null;
+      newValues[key] = newRecord[key] ?? null;
+    }
+  }
+
+  return Object.keys(newValues).length > 0 ? { oldValues, newValues } : { oldValues: null, newValues: null };
+}
+
+export class AuditService {
+  /** Current state of an audited record, or null when the type has no snapshot */
+  static async snapshot(resourceType: string, id: string): Promise<unknown> {
+    const load = SNAPSHOTS[resourceType];
+    if (!load) return null;
+
+    try {
+      return await load(id);
+    } catch (error) {
+      logger.warn('Audit snapshot failed', { resourceType, id, error: error instanceof Error ? error.message : error });
+      return null;
+    }
+  }
+
+  /**
+   * Writes an entry to public.audit_logs. Throws when it cannot be stored, for the
+   * caller to report. An actor without a profile is kept in the metadata instead of
+   * user_id so the entry is not lost to the foreign key.
+   */
+  static async record(entry: AuditEntry) {
+    const row: AuditLogInsert = {
+      organization_id: entry.orgId ?? null,
+      business_id: entry.businessId ?? null,
+      user_id: entry.userId ?? null,
+      action: entry.action,
+      resource_type: entry.resourceType,
+      // uuid column
+      resource_id: entry.resourceId && UUID.test(entry.resourceId) ? entry.resourceId : null,
+      old_values: auditValue(entry.oldValues),
+      new_values: auditValue(entry.newValues),
+      // inet column
+      ip_address: entry.ip && isIP(entry.ip) ? entry.ip : null,
+      user_agent: entry.userAgent ?? null,
+      metadata: auditValue(entry.metadata ?? {}),
+    };
+
+    let error = await this.insert(row);
+    if (error?.message?.includes(USER_FOREIGN_KEY)) {
+      error = await this.insert({
+        ...row,
+        user_id: null,
+        metadata: { ...(row.metadata as Record<string, Json>), userId: row.user_id ?? null },
+      });
+    }
+    if (error) throw error;
+  }
+
+  /** Entries for the org and the businesses linked to it, newest first */
+  static async list(orgId: string, query: AuditLogQuery): Promise<{ logs: AuditLog[]; total: number }> {
+    const from = (query.page - 1) * query.limit;
+    const { data, count } = await this.query(orgId, query, from, from + query.limit - 1);
+    return { logs: data, total: count };
+  }
+
+  static async exportCsv(orgId: string, query: Omit<AuditLogQuery, 'page' | 'limit'>) {
+    const { data } = await this.query(orgId, { ...query, page: 1, limit: EXPORT_LIMIT }, 0, EXPORT_LIMIT - 1);
+
+    const csv = toCsv([
+      ['Created At', 'User ID', 'Action', 'Resource Type', 'Resource ID', 'IP Address', 'User Agent', 'Old Values', 'New Values', 'Metadata'],
+      ...data.map(log => [
+        log.created_at,
+        log.user_id,
+        log.action,
+        log.resource_type,
+        log.resource_id,
+        log.ip_address,
+        log.user_agent,
+        log.old_values === null ? '' : JSON.stringify(log.old_values),
+        log.new_values === null ? '' : JSON.stringify(log.new_values),
+        log.metadata === null ? '' : JSON.stringify(log.metadata),
+      ]),
+    ]);
+
+    return { fileName: `audit-logs-${Date.now()}.csv`, csv, count: data.length };
+  }
+
+  private static async insert(row: AuditLogInsert) {
+    const { supabase } = await import('../config/supabase');
+    // The generated Database type lacks the Relationships field supabase-js expects,
+    // so the typed client resolves every table to never; the row is typed above instead
+    const { error } = await (supabase as any).from('audit_logs').insert(row);
+    return error as { message: string } | null;
+  }
+
+  private static async query(orgId: string, filters: AuditLogQuery, from: number, to: number) {
+    try {
+      const { supabase } = await import('../config/supabase');
+
+      const { data: businesses, error: businessError } = await supabase
+        .from('businesses')
+        .select('id')
+        .eq('organization_id', orgId);
+      if (businessError) throw businessError;
+
+      const businessIds = ((businesses || []) as { id: string }[]).map(business => business.id);
+      const scope = businessIds.length > 0
+        ? `organization_id.eq.${orgId},business_id.in.(${businessIds.join(',')})`
+        : `organization_id.eq.${orgId}`;
+
+      let request = (supabase as any)
+        .from('audit_logs')
+        .select('*', { count: 'exact' })
+        .or(scope);
+
+      if (filters.resourceType) request = request.eq('resource_type', filters.resourceType);
+      if (filters.resourceId) request = request.eq('resource_id', filters.resourceId);
+      // Actors without a profile are kept in the metadata
+      if (filters.userId) request = request.or(`user_id.eq.${filters.userId},metadata->>userId.eq.${filters.userId}`);
+      if (filters.action) request = request.eq('action', filters.action);
+      if (filters.from) request = request.gte('created_at', filters.from.toISOString());
+      if (filters.to) request = request.lte('created_at', filters.to.toISOString());
+
+      const { data, count, error } = await request.order('created_at', { ascending: false }).range(from, to);
+      if (error) throw error;
+
+      return { data: (data || []) as AuditLog[], count: (count ?? 0) as number };
+    } catch (error) {
+      logger.error('Failed to query audit logs', { orgId, error: error instanceof Error ? error.message : error });
+      throw new ExternalServiceError('Supabase', 'Could not load audit logs');
+    }
+  }
+}
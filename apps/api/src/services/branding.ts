@@ -0,0 +1,71 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { NotFoundError } from '../utils/errors';
+
+export interface OrgBranding {
+  // Printed instead of the organization name when set
+  displayName?: string | null;
+  logoUrl?: string | null;
+  // Hex color, e.g. #2563eb
+  accentColor?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  website?: string | null;
+  address?: string | null;
+  // Terms and footer text printed on every quote
+  quoteTerms?: string | null;
+  quoteFooter?: string | null;
+}
+
+export interface ResolvedBranding extends Required<{ [K in keyof OrgBranding]: string | null }> {
+  name: string;
+}
+
+export const DEFAULT_ACCENT_COLOR = '#2563eb';
+
+export class BrandingService {
+  static async get(orgId: string): Promise<ResolvedBranding> {
+    const org = await prisma.organization.findUnique({
+      where: { id: orgId },
+      select: { name: true, branding: true },
+    });
+
+    if (!org) {
+      throw new NotFoundError('Organization', orgId);
+    }
+
+    const branding = (org.branding || {}) as OrgBranding;
+    return {
+      name: branding.displayName || org.name,
+      displayName: branding.displayName ?? null,
+      logoUrl: branding.logoUrl ?? null,
+      accentColor: branding.accentColor || DEFAULT_ACCENT_COLOR,
+      email: branding.email ?? null,
+      phone: branding.phone ?? null,
+      website: branding.website ?? null,
+      address: branding.address ?? null,
+      quoteTerms: branding.quoteTerms ?? null,
+      quoteFooter: branding.quoteFooter ?? null,
+    };
+  }
+
+  /** Merges the given fields into the stored branding; null clears a field */
+  static async update(orgId: string, input: OrgBranding) {
+    const org = await prisma.organization.findUnique({
+      where: { id: orgId },
+      select: { branding: true },
+    });
+
+    if (!org) {
+      throw new NotFoundError('Organization', orgId);
+    }
+
+    const branding = { ...((org.branding || {}) as OrgBranding), ...input };
+    await prisma.organization.update({
+      where: { id: orgId },
+      data: { branding: branding as Prisma.InputJsonObject },
+    });
+
+    return this.get(orgId);
+  }
+}
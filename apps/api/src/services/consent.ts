@@ -0,0 +1,336 @@
+import { ConsentSource, ConsentStatus, MessageChannel, Prisma, SuppressionReason } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import logger from '../middleware/logger';
+import { normalizeEmail, normalizePhone } from '../lib/tenancy';
+import { BrandingService } from './branding';
+import { sendSms } from './messaging';
+import { ExternalServiceError, MessageSuppressedError, NotFoundError, ValidationError } from '../utils/errors';
+
+export const CONSENT_CHANNELS = ['sms', 'email', 'whatsapp'] as const;
+
+// Carrier-standard keywords, matched against the whole inbound message
+const KEYWORDS: Record<string, ConsentKeyword> = {
+  STOP: 'stop',
+  STOPALL: 'stop',
+  UNSUBSCRIBE: 'stop',
+  CANCEL: 'stop',
+  END: 'stop',
+  QUIT: 'stop',
+  OPTOUT: 'stop',
+  REVOKE: 'stop',
+  START: 'start',
+  UNSTOP: 'start',
+  OPTIN: 'start',
+  HELP: 'help',
+  INFO: 'help',
+};
+
+export type ConsentKeyword = 'stop' | 'start' | 'help';
+
+export interface RecordConsentInput {
+  channel: MessageChannel;
+  address: string;
+  status: ConsentStatus;
+  source: ConsentSource;
+  contactId?: string | null;
+  keyword?: string | null;
+  note?: string | null;
+  actorId?: string | null;
+}
+
+export interface SendCheck {
+  channel: MessageChannel;
+  to: string;
+  // Send path, stored on the suppression, e.g. messages.outbound
+  source: string;
+  contactId?: string | null;
+}
+
+export type ConsentDecision =
+  | { allowed: true }
+  | { allowed: false; reason: SuppressionReason; since: Date };
+
+export interface SuppressionQuery {
+  channel?: MessageChannel;
+  contactId?: string;
+  page: number;
+  limit: number;
+}
+
+/** Phone numbers for sms and whatsapp, lowercased emails for email */
+export function normalizeAddress(channel: MessageChannel, address: string) {
+  return channel === 'email' ? normalizeEmail(address) : normalizePhone(address);
+}
+
+/** The consent keyword an inbound message consists of, if any */
+export function parseKeyword(body: string | null | undefined): ConsentKeyword | null {
+  const word = (body || '').trim().toUpperCase().replace(/[^A-Z]/g, '');
+  return KEYWORDS[word] ?? null;
+}
+
+export class ConsentService {
+  /** Latest ledger entry for an address, or null when it has never been recorded */
+  static async current(orgId: string, channel: MessageChannel, address: string) {
+    return prisma.consentEvent.findFirst({
+      where: { orgId, channel, address: normalizeAddress(channel, address) },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Checks the ledger before a send. A blocked send is written to the suppression
+   * log, so callers only need to skip it.
+   */
+  static async check(orgId: string, { channel, to, source, contactId }: SendCheck): Promise<ConsentDecision> {
+    const latest = await this.current(orgId, channel, to);
+    if (!latest || latest.status === 'opted_in') {
+      return { allowed: true };
+    }
+
+    const reason: SuppressionReason = latest.source === 'bounce' ? 'hard_bounce' : 'opted_out';
+    await prisma.messageSuppression.create({
+      data: {
+        orgId,
+        contactId: contactId ?? latest.contactId,
+        channel,
+        toAddr: to,
+        reason,
+        source,
+      },
+    });
+
+    logger.info('Outbound message suppressed', { orgId, channel, source, reason, contactId });
+    return { allowed: false, reason, since: latest.createdAt };
+  }
+
+  /** Like `check`, for send paths that report failures by throwing */
+  static async assertCanSend(orgId: string, params: SendCheck) {
+    const decision = await this.check(orgId, params);
+    if (!decision.allowed) {
+      throw new MessageSuppressedError(params.channel, params.to, decision.reason);
+    }
+  }
+
+  /** Appends to the ledger, linking the contact that owns the address when none is given */
+  static async record(orgId: string, input: RecordConsentInput) {
+    const address = normalizeAddress(input.channel, input.address);
+    if (!address) {
+      throw new ValidationError('A phone number or email is required to record consent', { field: 'address' });
+    }
+
+    const contactId = input.contactId !== undefined
+      ? input.contactId
+      : (await this.contactFor(orgId, input.channel, address))?.id ?? null;
+
+    const event = await prisma.consentEvent.create({
+      data: {
+        orgId,
+        contactId,
+        channel: input.channel,
+        address,
+        status: input.status,
+        source: input.source,
+        keyword: input.keyword ?? null,
+        note: input.note ?? null,
+        actorId: input.actorId ?? null,
+      },
+    });
+
+    logger.info('Consent recorded', { orgId, contactId, channel: input.channel, status: input.status, source: input.source });
+    return event;
+  }
+
+  /**
+   * Stops further sends to an address the provider reported as permanently
+   * undeliverable. It stays blocked until consent is recorded for it again.
+   */
+  static async recordHardBounce(
+    orgId: string,
+    input: { channel: MessageChannel; address: string; contactId?: string | null; reason?: string | null }
+  ) {
+    const latest = await this.current(orgId, input.channel, input.address);
+    if (latest?.status === 'opted_out' && latest.source === 'bounce') {
+      return latest;
+    }
+
+    return this.record(orgId, {
+      channel: input.channel,
+      address: input.address,
+      status: 'opted_out',
+      source: 'bounce',
+      note: input.reason ? input.reason.slice(0, 500) : null,
+      ...(input.contactId !== undefined && { contactId: input.contactId }),
+    });
+  }
+
+  /**
+   * Handles STOP/START/HELP from an inbound message and returns the reply to
+   * send, or null when the message is not a keyword. SMS replies are sent here;
+   * other channels send the returned reply themselves.
+   */
+  static async handleInboundKeyword(
+    orgId: string,
+    channel: MessageChannel,
+    from: string,
+    body: string,
+    contactId?: string | null
+  ): Promise<{ keyword: ConsentKeyword; reply: string } | null> {
+    const keyword = parseKeyword(body);
+    if (!keyword) {
+      return null;
+    }
+
+    if (keyword !== 'help') {
+      await this.record(orgId, {
+        channel,
+        address: from,
+        status: keyword === 'stop' ? 'opted_out' : 'opted_in',
+        source: 'keyword',
+        keyword: body.trim().toUpperCase(),
+        ...(contactId !== undefined && { contactId }),
+      });
+    }
+
+    const reply = await this.keywordReply(orgId, keyword);
+
+    // Confirmations go out even after an opt-out, so they skip the ledger check
+    if (channel === 'sms') {
+      const result = await sendSms({ orgId, to: from, body: reply });
+      if (!result.success) {
+        logger.warn('Consent keyword reply failed', { orgId, keyword, error: result.error });
+      }
+    }
+
+    return { keyword, reply };
+  }
+
+  /** Current state per channel for a contact's phone and email, with its ledger */
+  static async forContact(orgId: string, contactId: string) {
+    const contact = await prisma.contact.findFirst({
+      where: { id: contactId, orgId, deletedAt: null },
+      select: { id: true, phone: true, email: true },
+    });
+
+    if (!contact) {
+      throw new NotFoundError('Contact', contactId);
+    }
+
+    const addresses = CONSENT_CHANNELS.map(channel => ({ channel, address: this.contactAddress(contact, channel) }));
+    const history = await prisma.consentEvent.findMany({
+      where: {
+        orgId,
+        OR: [
+          { contactId },
+          ...addresses.filter(({ address }) => address).map(({ channel, address }) => ({ channel, address: address! })),
+        ],
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const channels = addresses.map(({ channel, address }) => {
+      const latest = address ? history.find(event => event.channel === channel && event.address === address) : undefined;
+      return {
+        channel,
+        address,
+        status: latest?.status ?? null,
+        source: latest?.source ?? null,
+        updatedAt: latest?.createdAt ?? null,
+        canSend: Boolean(address) && latest?.status !== 'opted_out',
+      };
+    });
+
+    return { channels, history };
+  }
+
+  /** Records a change for the contact's address on the channel */
+  static async recordForContact(
+    orgId: string,
+    contactId: string,
+    input: Omit<RecordConsentInput, 'address' | 'contactId'>
+  ) {
+    const contact = await prisma.contact.findFirst({
+      where: { id: contactId, orgId, deletedAt: null },
+      select: { id: true, phone: true, email: true },
+    });
+
+    if (!contact) {
+      throw new NotFoundError('Contact', contactId);
+    }
+
+    const address = this.contactAddress(contact, input.channel);
+    if (!address) {
+      throw new ValidationError(`Contact has no ${input.channel === 'email' ? 'email' : 'phone number'}`, {
+        field: 'channel',
+      });
+    }
+
+    return this.record(orgId, { ...input, address, contactId });
+  }
+
+  static async listSuppressions(orgId: string, { channel, contactId, page, limit }: SuppressionQuery) {
+    const where: Prisma.MessageSuppressionWhereInput = {
+      orgId,
+      ...(channel && { channel }),
+      ...(contactId && { contactId }),
+    };
+
+    const [suppressions, total] = await Promise.all([
+      prisma.messageSuppression.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.messageSuppression.count({ where }),
+    ]);
+
+    return { suppressions, total };
+  }
+
+  /**
+   * Org for a Supabase business, for the services that still send per business.
+   * Returns null when the business is not linked to an organization, and
+   * throws when the lookup fails so that callers never send without a check.
+   */
+  static async orgIdForBusiness(businessId: string): Promise<string | null> {
+    try {
+      const { supabase } = await import('../config/supabase');
+      const { data, error } = await supabase
+        .from('businesses')
+        .select('organization_id')
+        .eq('id', businessId)
+        .maybeSingle();
+      if (error) throw error;
+      return (data as { organization_id: string | null } | null)?.organization_id ?? null;
+    } catch (error) {
+      logger.error('Business organization lookup failed', { businessId, error: error instanceof Error ? error.message : error });
+      throw new ExternalServiceError('Supabase', 'Could not resolve the organization for the consent check');
+    }
+  }
+
+  private static contactAddress(contact: { phone: string | null; email: string | null }, channel: MessageChannel) {
+    const address = channel === 'email' ? contact.email : contact.phone;
+    return address ? normalizeAddress(channel, address) : null;
+  }
+
+  private static async contactFor(orgId: string, channel: MessageChannel, address: string) {
+    return prisma.contact.findFirst({
+      where: { orgId, deletedAt: null, ...(channel === 'email' ? { email: address } : { phone: address }) },
+      select: { id: true },
+    });
+  }
+
+  private static async keywordReply(orgId: string, keyword: ConsentKeyword) {
+    const branding = await BrandingService.get(orgId);
+    const contact = branding.phone || branding.email || branding.website;
+
+    switch (keyword) {
+      case 'stop':
+        return `${branding.name}: You have been unsubscribed and will receive no further messages. Reply START to resubscribe.`;
+      case 'start':
+        return `${branding.name}: You have been resubscribed. Reply STOP to unsubscribe.`;
+      case 'help':
+        return `${branding.name}: ${contact ? `For help, contact ${contact}. ` : ''}Reply STOP to unsubscribe or START to resubscribe.`;
+    }
+  }
+}
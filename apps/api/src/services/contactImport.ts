@@ -0,0 +1,733 @@
+import * as XLSX from 'xlsx';
+import { Contact, ContactImport, CustomFieldDefinition, ImportConflictMode, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { isValidEmail, normalizeEmail, normalizePhone } from '../lib/tenancy';
+import logger from '../middleware/logger';
+import { CustomFieldService, CustomFieldValues } from './customFields';
+import { BusinessLogicError, NotFoundError, ValidationError } from '../utils/errors';
+import { toCsv } from '../utils/csv';
+
+export const CONTACT_IMPORT_FIELDS = ['firstName', 'lastName', 'email', 'phone', 'tags'] as const;
+
+export type ContactImportField = (typeof CONTACT_IMPORT_FIELDS)[number];
+
+export interface ColumnMapping {
+  column: string;
+  // A contact field, or `customFields.<key>` for an org-defined field
+  field: string;
+}
+
+export interface ImportMapping {
+  columns: ColumnMapping[];
+  defaultTags?: string[];
+}
+
+export interface ImportRowError {
+  row: number;
+  field?: string;
+  message: string;
+}
+
+export interface ImportConflict {
+  row: number;
+  field: 'email' | 'phone';
+  value: string;
+  // Existing contact holding the same value
+  contactId?: string;
+  // Earlier row in the same file holding the same value
+  conflictRow?: number;
+}
+
+export interface DryRunReport {
+  totalRows: number;
+  toCreate: number;
+  toUpdate: number;
+  toSkip: number;
+  invalidRows: number;
+  errors: ImportRowError[];
+  conflicts: ImportConflict[];
+}
+
+interface ContactRowData {
+  firstName: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  tags: string[];
+}
+
+interface PreparedRow {
+  row: number;
+  data: ContactRowData;
+  customFieldInput: CustomFieldValues;
+  customFields: Prisma.InputJsonObject;
+  existingContactId?: string;
+  duplicateOfRow?: number;
+}
+
+interface RowAnalysis {
+  totalRows: number;
+  prepared: PreparedRow[];
+  errors: ImportRowError[];
+  conflicts: ImportConflict[];
+  definitions: CustomFieldDefinition[];
+}
+
+export const MAX_IMPORT_ROWS = 10000;
+
+// Spreadsheet line of the first data row (line 1 holds the headers)
+const FIRST_DATA_ROW = 2;
+
+const BATCH_SIZE = 100;
+const LOOKUP_CHUNK_SIZE = 1000;
+const PREVIEW_ROWS = 5;
+
+const CUSTOM_FIELD_PREFIX = 'customFields.';
+
+const FIELD_ALIASES: Record<ContactImportField, string[]> = {
+  firstName: ['firstname', 'first', 'givenname', 'forename'],
+  lastName: ['lastname', 'last', 'surname', 'familyname'],
+  email: ['email', 'emailaddress', 'mail'],
+  phone: ['phone', 'phonenumber', 'mobile', 'mobilephone', 'cell', 'telephone', 'tel'],
+  tags: ['tags', 'tag', 'labels'],
+};
+
+const SUMMARY_SELECT = {
+  id: true,
+  orgId: true,
+  createdBy: true,
+  fileName: true,
+  status: true,
+  headers: true,
+  mapping: true,
+  onConflict: true,
+  totalRows: true,
+  processedRows: true,
+  createdCount: true,
+  updatedCount: true,
+  skippedCount: true,
+  errorCount: true,
+  startedAt: true,
+  completedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+type ContactImportSummary = Prisma.ContactImportGetPayload<{ select: typeof SUMMARY_SELECT }>;
+
+const simplify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const isBlankRow = (cells: string[]) => cells.every(cell => !cell);
+
+function splitList(value: string) {
+  return value
+    .split(/[;,]/)
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function withProgress(record: ContactImportSummary) {
+  return {
+    ...record,
+    progress: record.totalRows > 0 ? Math.round((record.processedRows / record.totalRows) * 100) : 0,
+  };
+}
+
+/**
+ * Reads the first sheet of a CSV or XLSX file. The first row must hold unique column
+ * headers; every data row is returned as trimmed strings aligned to those headers.
+ * Blank rows are kept so row numbers match the source file.
+ */
+export function parseSpreadsheet(buffer: Buffer): { headers: string[]; rows: string[][] } {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(buffer, { type: 'buffer', cellDates: true });
+  } catch (error) {
+    throw new ValidationError('File could not be read as CSV or XLSX');
+  }
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    throw new ValidationError('File does not contain any sheets');
+  }
+
+  const [headerRow = [], ...dataRows] = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    raw: false,
+    defval: '',
+    blankrows: true,
+    dateNF: 'yyyy-mm-dd',
+  });
+
+  const headers = headerRow.map(cell => String(cell).trim());
+  while (headers.length > 0 && !headers[headers.length - 1]) {
+    headers.pop();
+  }
+
+  if (headers.length === 0) {
+    throw new ValidationError('The first row must contain column headers');
+  }
+
+  const errors: { field: string; message: string }[] = [];
+  headers.forEach((header, index) => {
+    if (!header) {
+      errors.push({ field: `column ${index + 1}`, message: 'Column has no header' });
+    } else if (headers.indexOf(header) !== index) {
+      errors.push({ field: header, message: 'Duplicate column header' });
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid column headers', errors);
+  }
+
+  const rows = dataRows.map(row => headers.map((_, index) => String(row[index] ?? '').trim()));
+  while (rows.length > 0 && isBlankRow(rows[rows.length - 1])) {
+    rows.pop();
+  }
+
+  const totalRows = rows.filter(row => !isBlankRow(row)).length;
+  if (totalRows === 0) {
+    throw new ValidationError('File does not contain any data rows');
+  }
+
+  if (totalRows > MAX_IMPORT_ROWS) {
+    throw new ValidationError(`Imports are limited to ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  return { headers, rows };
+}
+
+/**
+ * Guesses a mapping from header names, matching contact fields by common aliases and
+ * custom fields by key or label. Unrecognised columns are left unmapped.
+ */
+export function suggestMapping(headers: string[], definitions: CustomFieldDefinition[]): ImportMapping {
+  const columns: ColumnMapping[] = [];
+  const used = new Set<string>();
+
+  for (const header of headers) {
+    const name = simplify(header);
+
+    let field = CONTACT_IMPORT_FIELDS.find(candidate => FIELD_ALIASES[candidate].includes(name)) as string | undefined;
+    if (!field) {
+      const definition = definitions.find(
+        candidate => simplify(candidate.key) === name || simplify(candidate.label) === name
+      );
+      field = definition && `${CUSTOM_FIELD_PREFIX}${definition.key}`;
+    }
+
+    if (field && !used.has(field)) {
+      used.add(field);
+      columns.push({ column: header, field });
+    }
+  }
+
+  return { columns, defaultTags: [] };
+}
+
+// Spreadsheet cells are always text; convert them to the JSON type the custom field stores
+function coerceCellValue(definition: CustomFieldDefinition, raw: string): unknown {
+  switch (definition.type) {
+    case 'number': {
+      const value = Number(raw.replace(/[,\s]/g, ''));
+      return Number.isNaN(value) ? raw : value;
+    }
+    case 'boolean': {
+      const value = raw.toLowerCase();
+      if (['true', 'yes', 'y', '1'].includes(value)) return true;
+      if (['false', 'no', 'n', '0'].includes(value)) return false;
+      return raw;
+    }
+    case 'multi_select':
+      return splitList(raw);
+    default:
+      return raw;
+  }
+}
+
+function validateMapping(headers: string[], mapping: ImportMapping, definitions: CustomFieldDefinition[]) {
+  const errors: { field: string; message: string }[] = [];
+  const keys = new Set(definitions.map(definition => definition.key));
+  const seen = new Set<string>();
+
+  mapping.columns.forEach(({ column, field }, index) => {
+    const path = `mapping.columns.${index}`;
+
+    if (!headers.includes(column)) {
+      errors.push({ field: `${path}.column`, message: `Column '${column}' is not in the file` });
+    }
+
+    if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+      if (!keys.has(field.slice(CUSTOM_FIELD_PREFIX.length))) {
+        errors.push({ field: `${path}.field`, message: `Unknown custom field '${field}'` });
+      }
+    } else if (!(CONTACT_IMPORT_FIELDS as readonly string[]).includes(field)) {
+      errors.push({ field: `${path}.field`, message: `Unknown contact field '${field}'` });
+    }
+
+    // Several columns may feed tags; every other field takes a single column
+    if (field !== 'tags' && seen.has(field)) {
+      errors.push({ field: `${path}.field`, message: `'${field}' is mapped more than once` });
+    }
+    seen.add(field);
+  });
+
+  if (!seen.has('firstName')) {
+    errors.push({ field: 'mapping.columns', message: 'A column must be mapped to firstName' });
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid column mapping', errors);
+  }
+}
+
+function buildRow(
+  line: number,
+  headers: string[],
+  cells: string[],
+  mapping: ImportMapping,
+  definitions: CustomFieldDefinition[]
+): { row?: PreparedRow; errors: ImportRowError[] } {
+  const errors: ImportRowError[] = [];
+  const byKey = new Map(definitions.map(definition => [definition.key, definition]));
+  const data: ContactRowData = { firstName: '', tags: [...(mapping.defaultTags || [])] };
+  const customFieldInput: CustomFieldValues = {};
+
+  for (const { column, field } of mapping.columns) {
+    const raw = cells[headers.indexOf(column)] || '';
+    if (!raw) continue;
+
+    if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+      const key = field.slice(CUSTOM_FIELD_PREFIX.length);
+      customFieldInput[key] = coerceCellValue(byKey.get(key)!, raw);
+      continue;
+    }
+
+    switch (field as ContactImportField) {
+      case 'firstName':
+      case 'lastName':
+        data[field as 'firstName' | 'lastName'] = raw;
+        break;
+      case 'email':
+        if (isValidEmail(raw)) {
+          data.email = normalizeEmail(raw);
+        } else {
+          errors.push({ row: line, field: 'email', message: `Invalid email address '${raw}'` });
+        }
+        break;
+      case 'phone': {
+        const phone = normalizePhone(raw);
+        if (/^\+\d{10,15}$/.test(phone)) {
+          data.phone = phone;
+        } else {
+          errors.push({ row: line, field: 'phone', message: `Invalid phone number '${raw}'` });
+        }
+        break;
+      }
+      case 'tags':
+        data.tags.push(...splitList(raw));
+        break;
+    }
+  }
+
+  if (!data.firstName) {
+    errors.push({ row: line, field: 'firstName', message: 'First name is required' });
+  }
+
+  const { values, errors: customFieldErrors } = CustomFieldService.checkValues(definitions, customFieldInput);
+  customFieldErrors.forEach(error => errors.push({ row: line, ...error }));
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  data.tags = Array.from(new Set(data.tags));
+
+  return { row: { row: line, data, customFieldInput, customFields: values }, errors };
+}
+
+/**
+ * Builds and validates every row, then flags email/phone conflicts the same way the
+ * `contact_email_per_org`/`contact_phone_per_org` constraints would: against earlier
+ * rows of the file and against contacts already in the org.
+ */
+async function analyzeRows(
+  orgId: string,
+  record: Pick<ContactImport, 'headers' | 'rows'>,
+  mapping: ImportMapping
+): Promise<RowAnalysis> {
+  const definitions = await CustomFieldService.listDefinitions(orgId, 'contact');
+  validateMapping(record.headers, mapping, definitions);
+
+  const rows = record.rows as string[][];
+  const prepared: PreparedRow[] = [];
+  const errors: ImportRowError[] = [];
+  const conflicts: ImportConflict[] = [];
+  let totalRows = 0;
+
+  rows.forEach((cells, index) => {
+    if (isBlankRow(cells)) return;
+    totalRows++;
+
+    const result = buildRow(index + FIRST_DATA_ROW, record.headers, cells, mapping, definitions);
+    errors.push(...result.errors);
+    if (result.row) {
+      prepared.push(result.row);
+    }
+  });
+
+  const firstRowByValue = new Map<string, number>();
+  for (const row of prepared) {
+    for (const field of ['email', 'phone'] as const) {
+      const value = row.data[field];
+      if (!value) continue;
+
+      const earlier = firstRowByValue.get(`${field}:${value}`);
+      if (earlier !== undefined) {
+        row.duplicateOfRow = row.duplicateOfRow ?? earlier;
+        conflicts.push({ row: row.row, field, value, conflictRow: earlier });
+      } else {
+        firstRowByValue.set(`${field}:${value}`, row.row);
+      }
+    }
+  }
+
+  const emails = prepared.map(row => row.data.email).filter((email): email is string => Boolean(email));
+  const phones = prepared.map(row => row.data.phone).filter((phone): phone is string => Boolean(phone));
+  const existingByValue = new Map<string, string>();
+
+  for (const [field, values] of [['email', emails], ['phone', phones]] as const) {
+    for (const batch of chunk(values, LOOKUP_CHUNK_SIZE)) {
+      const existing = await prisma.contact.findMany({
+        where: field === 'email' ? { orgId, email: { in: batch } } : { orgId, phone: { in: batch } },
+        select: { id: true, email: true, phone: true },
+      });
+      existing.forEach(contact => existingByValue.set(`${field}:${contact[field]}`, contact.id));
+    }
+  }
+
+  for (const row of prepared) {
+    const matches = (['email', 'phone'] as const)
+      .filter(field => row.data[field] && existingByValue.has(`${field}:${row.data[field]}`))
+      .map(field => ({ field, value: row.data[field]!, contactId: existingByValue.get(`${field}:${row.data[field]}`)! }));
+
+    matches.forEach(match => conflicts.push({ row: row.row, ...match }));
+
+    const contactIds = new Set(matches.map(match => match.contactId));
+    if (contactIds.size > 1) {
+      errors.push({ row: row.row, message: 'Email and phone belong to different existing contacts' });
+    } else if (contactIds.size === 1) {
+      row.existingContactId = matches[0].contactId;
+    }
+  }
+
+  const invalid = new Set(errors.map(error => error.row));
+
+  return {
+    totalRows,
+    prepared: prepared.filter(row => !invalid.has(row.row)),
+    errors,
+    conflicts,
+    definitions,
+  };
+}
+
+export class ContactImportService {
+  /**
+   * Parses an uploaded file and stores its rows so the mapping can be reviewed and
+   * dry-run before anything is written to contacts.
+   */
+  static async create(orgId: string, userId: string | undefined, file: { originalname: string; buffer: Buffer }) {
+    const { headers, rows } = parseSpreadsheet(file.buffer);
+    const definitions = await CustomFieldService.listDefinitions(orgId, 'contact');
+
+    const record = await prisma.contactImport.create({
+      data: {
+        orgId,
+        createdBy: userId,
+        fileName: file.originalname,
+        headers,
+        rows,
+        totalRows: rows.filter(row => !isBlankRow(row)).length,
+      },
+      select: SUMMARY_SELECT,
+    });
+
+    return {
+      import: withProgress(record),
+      preview: rows.filter(row => !isBlankRow(row)).slice(0, PREVIEW_ROWS),
+      suggestedMapping: suggestMapping(headers, definitions),
+    };
+  }
+
+  static async list(orgId: string, page: number, limit: number) {
+    const [imports, total] = await Promise.all([
+      prisma.contactImport.findMany({
+        where: { orgId },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        select: SUMMARY_SELECT,
+      }),
+      prisma.contactImport.count({ where: { orgId } }),
+    ]);
+
+    return { imports: imports.map(withProgress), total };
+  }
+
+  static async get(orgId: string, id: string) {
+    const record = await prisma.contactImport.findFirst({
+      where: { id, orgId },
+      select: SUMMARY_SELECT,
+    });
+
+    if (!record) {
+      throw new NotFoundError('Contact import', id);
+    }
+
+    return withProgress(record);
+  }
+
+  /**
+   * Validates every row with the given mapping and reports what a real import would
+   * do, without writing any contacts. The mapping is saved for the real run.
+   */
+  static async dryRun(
+    orgId: string,
+    id: string,
+    mapping: ImportMapping,
+    onConflict: ImportConflictMode
+  ): Promise<DryRunReport> {
+    const record = await this.findOwned(orgId, id);
+    const analysis = await analyzeRows(orgId, record, mapping);
+
+    await prisma.contactImport.update({
+      where: { id },
+      data: { mapping: mapping as unknown as Prisma.InputJsonObject, onConflict },
+    });
+
+    const toSkip = analysis.prepared.filter(
+      row => row.duplicateOfRow !== undefined || (row.existingContactId && onConflict === 'skip')
+    ).length;
+    const toUpdate = analysis.prepared.filter(
+      row => row.duplicateOfRow === undefined && row.existingContactId && onConflict === 'update'
+    ).length;
+
+    return {
+      totalRows: analysis.totalRows,
+      toCreate: analysis.prepared.length - toSkip - toUpdate,
+      toUpdate,
+      toSkip,
+      invalidRows: analysis.totalRows - analysis.prepared.length,
+      errors: analysis.errors,
+      conflicts: analysis.conflicts,
+    };
+  }
+
+  /**
+   * Saves the mapping and marks the import queued; the caller enqueues the job.
+   * Only imports that were never started, or that failed, can be queued.
+   */
+  static async queue(orgId: string, id: string, mapping: ImportMapping, onConflict: ImportConflictMode) {
+    const record = await this.findOwned(orgId, id);
+
+    if (record.status !== 'uploaded' && record.status !== 'failed') {
+      throw new BusinessLogicError(`Import is already ${record.status}`);
+    }
+
+    const definitions = await CustomFieldService.listDefinitions(orgId, 'contact');
+    validateMapping(record.headers, mapping, definitions);
+
+    const queued = await prisma.contactImport.update({
+      where: { id },
+      data: {
+        status: 'queued',
+        mapping: mapping as unknown as Prisma.InputJsonObject,
+        onConflict,
+        processedRows: 0,
+        createdCount: 0,
+        updatedCount: 0,
+        skippedCount: 0,
+        errorCount: 0,
+        errors: [],
+        startedAt: null,
+        completedAt: null,
+      },
+      select: SUMMARY_SELECT,
+    });
+
+    return withProgress(queued);
+  }
+
+  static async fail(id: string, message: string) {
+    await prisma.contactImport.update({
+      where: { id },
+      data: {
+        status: 'failed',
+        completedAt: new Date(),
+        errors: [{ row: 0, message }],
+        errorCount: 1,
+      },
+    });
+  }
+
+  /**
+   * Executes a queued import in batches, persisting counters after each batch and
+   * reporting percentage progress. Rows that fail are collected into the error report.
+   */
+  static async run(id: string, onProgress?: (progress: number) => Promise<void> | void) {
+    const record = await prisma.contactImport.findUnique({ where: { id } });
+    if (!record) {
+      throw new NotFoundError('Contact import', id);
+    }
+
+    const { orgId, onConflict } = record;
+
+    await prisma.contactImport.update({
+      where: { id },
+      data: { status: 'processing', startedAt: new Date() },
+    });
+
+    try {
+      const analysis = await analyzeRows(orgId, record, record.mapping as unknown as ImportMapping);
+      const errors: ImportRowError[] = [...analysis.errors];
+      const counts = {
+        processedRows: analysis.totalRows - analysis.prepared.length,
+        createdCount: 0,
+        updatedCount: 0,
+        skippedCount: 0,
+      };
+
+      for (const batch of chunk(analysis.prepared, BATCH_SIZE)) {
+        const existingIds = batch.map(row => row.existingContactId).filter((contactId): contactId is string => Boolean(contactId));
+        const existingContacts = new Map<string, Contact>(
+          (await prisma.contact.findMany({ where: { orgId, id: { in: existingIds } } })).map(contact => [contact.id, contact])
+        );
+
+        for (const row of batch) {
+          if (row.duplicateOfRow !== undefined) {
+            counts.skippedCount++;
+            errors.push({ row: row.row, message: `Skipped: duplicate of row ${row.duplicateOfRow}` });
+            continue;
+          }
+
+          const existing = row.existingContactId ? existingContacts.get(row.existingContactId) : undefined;
+          if (row.existingContactId && onConflict === 'skip') {
+            counts.skippedCount++;
+            errors.push({ row: row.row, message: 'Skipped: matches an existing contact' });
+            continue;
+          }
+
+          try {
+            if (existing) {
+              const { values, errors: customFieldErrors } = CustomFieldService.checkValues(
+                analysis.definitions,
+                row.customFieldInput,
+                existing.customFields
+              );
+
+              if (customFieldErrors.length > 0) {
+                customFieldErrors.forEach(error => errors.push({ row: row.row, ...error }));
+                continue;
+              }
+
+              await prisma.contact.update({
+                where: { id: existing.id },
+                data: {
+                  ...row.data,
+                  tags: Array.from(new Set([...existing.tags, ...row.data.tags])),
+                  customFields: values,
+                },
+              });
+              counts.updatedCount++;
+            } else {
+              await prisma.contact.create({
+                data: { orgId, ...row.data, customFields: row.customFields },
+              });
+              counts.createdCount++;
+            }
+          } catch (error) {
+            // A contact created since the analysis can still trip the per-org unique constraints
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+              errors.push({ row: row.row, message: 'A contact with this email or phone already exists' });
+            } else {
+              throw error;
+            }
+          }
+        }
+
+        counts.processedRows += batch.length;
+
+        await prisma.contactImport.update({
+          where: { id },
+          data: { ...counts, errorCount: errors.length },
+        });
+
+        if (onProgress) {
+          await onProgress(Math.round((counts.processedRows / Math.max(analysis.totalRows, 1)) * 100));
+        }
+      }
+
+      const completed = await prisma.contactImport.update({
+        where: { id },
+        data: {
+          ...counts,
+          status: 'completed',
+          completedAt: new Date(),
+          errors: errors.sort((a, b) => a.row - b.row) as unknown as Prisma.InputJsonArray,
+          errorCount: errors.length,
+        },
+        select: SUMMARY_SELECT,
+      });
+
+      logger.info('Contact import completed', { orgId, importId: id, ...counts, errorCount: errors.length });
+
+      return withProgress(completed);
+    } catch (error) {
+      await this.fail(id, error instanceof Error ? error.message : 'Import failed');
+      throw error;
+    }
+  }
+
+  /**
+   * Renders the import's errors as CSV: the row number, field and message followed
+   * by the row's original cells, so the file can be fixed and re-imported.
+   */
+  static async errorReport(orgId: string, id: string) {
+    const record = await this.findOwned(orgId, id);
+    const rows = record.rows as string[][];
+    const errors = record.errors as unknown as ImportRowError[];
+
+    const lines = [
+      ['Row', 'Field', 'Error', ...record.headers],
+      ...errors.map(error => [
+        error.row || '',
+        error.field || '',
+        error.message,
+        ...(error.row >= FIRST_DATA_ROW ? rows[error.row - FIRST_DATA_ROW] || [] : []),
+      ]),
+    ];
+
+    return {
+      fileName: `${record.fileName.replace(/\.[^.]+$/, '')}-errors.csv`,
+      csv: toCsv(lines),
+    };
+  }
+
+  private static async findOwned(orgId: string, id: string) {
+    const record = await prisma.contactImport.findFirst({ where: { id, orgId } });
+    if (!record) {
+      throw new NotFoundError('Contact import', id);
+    }
+    return record;
+  }
+}
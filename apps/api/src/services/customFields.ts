@@ -0,0 +1,339 @@
+import { z, ZodTypeAny } from 'zod';
+import { CustomFieldDefinition, CustomFieldEntity, CustomFieldType, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+export type CustomFieldValues = Record<string, unknown>;
+
+// Parsed `cf` query param, e.g. ?cf[budget][gte]=1000&cf[region]=west
+export type CustomFieldFilterInput = Record<string, string | Record<string, string>>;
+
+export interface CreateCustomFieldInput {
+  entity: CustomFieldEntity;
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options?: string[];
+  required?: boolean;
+  position?: number;
+}
+
+export type UpdateCustomFieldInput = Partial<Pick<CreateCustomFieldInput, 'label' | 'options' | 'required' | 'position'>>;
+
+type FilterOperator = 'eq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'contains';
+
+type CustomFieldCondition =
+  | { customFields: Prisma.JsonFilter }
+  | { OR: { customFields: Prisma.JsonFilter }[] };
+
+const OPERATORS_BY_TYPE: Record<CustomFieldType, FilterOperator[]> = {
+  text: ['eq', 'in', 'contains'],
+  number: ['eq', 'gt', 'gte', 'lt', 'lte', 'in'],
+  date: ['eq', 'gt', 'gte', 'lt', 'lte'],
+  select: ['eq', 'in'],
+  multi_select: ['eq', 'in', 'contains'],
+  boolean: ['eq'],
+};
+
+const isJsonObject = (value: Prisma.JsonValue | undefined): value is Prisma.JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const dateSchema = z
+  .string()
+  .refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date')
+  .transform(value => new Date(value).toISOString());
+
+function valueSchema(definition: CustomFieldDefinition): ZodTypeAny {
+  const option = z.string().refine(value => definition.options.includes(value), {
+    message: `Must be one of: ${definition.options.join(', ')}`,
+  });
+
+  switch (definition.type) {
+    case 'text':
+      return z.string().max(1000);
+    case 'number':
+      return z.number().finite();
+    case 'date':
+      return dateSchema;
+    case 'select':
+      return option;
+    case 'multi_select':
+      return z.array(option).transform(values => Array.from(new Set(values)));
+    case 'boolean':
+      return z.boolean();
+  }
+}
+
+function isEmpty(value: unknown) {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+// Query-string values always arrive as strings; coerce them to the stored JSON type
+function parseFilterValue(definition: CustomFieldDefinition, raw: string): Prisma.InputJsonValue {
+  switch (definition.type) {
+    case 'number': {
+      const value = Number(raw);
+      if (Number.isNaN(value)) {
+        throw new ValidationError(`Invalid number for custom field '${definition.key}'`);
+      }
+      return value;
+    }
+    case 'date': {
+      const result = dateSchema.safeParse(raw);
+      if (!result.success) {
+        throw new ValidationError(`Invalid date for custom field '${definition.key}'`);
+      }
+      return result.data;
+    }
+    case 'boolean':
+      if (raw !== 'true' && raw !== 'false') {
+        throw new ValidationError(`Custom field '${definition.key}' must be true or false`);
+      }
+      return raw === 'true';
+    default:
+      return raw;
+  }
+}
+
+export class CustomFieldService {
+  static async listDefinitions(orgId: string, entity?: CustomFieldEntity) {
+    return prisma.customFieldDefinition.findMany({
+      where: { orgId, ...(entity && { entity }) },
+      orderBy: [{ entity: 'asc' }, { position: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  static async createDefinition(orgId: string, input: CreateCustomFieldInput) {
+    const existing = await prisma.customFieldDefinition.findUnique({
+      where: {
+        custom_field_key_per_org: { orgId, entity: input.entity, key: input.key },
+      },
+    });
+
+    if (existing) {
+      throw new ValidationError(`Custom field '${input.key}' already exists for ${input.entity}`);
+    }
+
+    return prisma.customFieldDefinition.create({
+      data: { ...input, orgId },
+    });
+  }
+
+  static async updateDefinition(orgId: string, id: string, input: UpdateCustomFieldInput) {
+    const definition = await prisma.customFieldDefinition.findFirst({ where: { id, orgId } });
+    if (!definition) {
+      throw new NotFoundError('Custom field', id);
+    }
+
+    const options = input.options ?? definition.options;
+    if ((definition.type === 'select' || definition.type === 'multi_select') && options.length === 0) {
+      throw new ValidationError('Select fields require at least one option');
+    }
+
+    return prisma.customFieldDefinition.update({
+      where: { id },
+      data: input,
+    });
+  }
+
+  /**
+   * Removes the definition and strips its stored values from every record of that entity.
+   */
+  static async deleteDefinition(orgId: string, id: string) {
+    const definition = await prisma.customFieldDefinition.findFirst({ where: { id, orgId } });
+    if (!definition) {
+      throw new NotFoundError('Custom field', id);
+    }
+
+    const table = Prisma.raw(definition.entity === 'contact' ? 'contacts' : 'deals');
+
+    await prisma.$transaction([
+      prisma.$executeRaw`UPDATE ${table} SET custom_fields = custom_fields - ${definition.key} WHERE org_id = ${orgId}::uuid`,
+      prisma.customFieldDefinition.delete({ where: { id } }),
+    ]);
+  }
+
+  /**
+   * Validates submitted values against the org's definitions and returns the merged
+   * object to persist. Passing `existing` merges onto the stored values (PUT semantics);
+   * a `null` value clears a field. Required fields are enforced on create, and on
+   * update only when the request tries to clear them.
+   */
+  static async validateValues(
+    orgId: string,
+    entity: CustomFieldEntity,
+    input: CustomFieldValues = {},
+    existing?: Prisma.JsonValue
+  ): Promise<Prisma.InputJsonObject> {
+    const definitions = await this.listDefinitions(orgId, entity);
+    const { values, errors } = this.checkValues(definitions, input, existing);
+
+    if (errors.length > 0) {
+      throw new ValidationError('Custom field validation failed', errors);
+    }
+
+    return values;
+  }
+
+  /**
+   * Synchronous core of `validateValues` for callers that validate many records
+   * against definitions they have already loaded.
+   */
+  static checkValues(
+    definitions: CustomFieldDefinition[],
+    input: CustomFieldValues = {},
+    existing?: Prisma.JsonValue
+  ): { values: Prisma.InputJsonObject; errors: { field: string; message: string }[] } {
+    const byKey = new Map(definitions.map(definition => [definition.key, definition]));
+    const errors: { field: string; message: string }[] = [];
+    const values: Record<string, any> = isJsonObject(existing) ? { ...existing } : {};
+
+    for (const [key, value] of Object.entries(input)) {
+      const definition = byKey.get(key);
+      if (!definition) {
+        errors.push({ field: `customFields.${key}`, message: 'Unknown custom field' });
+        continue;
+      }
+
+      if (value === null) {
+        delete values[key];
+        continue;
+      }
+
+      const result = valueSchema(definition).safeParse(value);
+      if (!result.success) {
+        errors.push({ field: `customFields.${key}`, message: result.error.errors[0].message });
+        continue;
+      }
+
+      values[key] = result.data;
+    }
+
+    // Drop values whose definition no longer exists
+    for (const key of Object.keys(values)) {
+      if (!byKey.has(key)) {
+        delete values[key];
+      }
+    }
+
+    for (const definition of definitions) {
+      const enforce = existing === undefined || definition.key in input;
+      if (definition.required && enforce && isEmpty(values[definition.key])) {
+        errors.push({ field: `customFields.${definition.key}`, message: `${definition.label} is required` });
+      }
+    }
+
+    return { values, errors };
+  }
+
+  /**
+   * Translates `cf` query filters into Prisma JSON path conditions on `customFields`.
+   */
+  static async buildFilters(
+    orgId: string,
+    entity: CustomFieldEntity,
+    filters: CustomFieldFilterInput = {}
+  ): Promise<CustomFieldCondition[]> {
+    const keys = Object.keys(filters);
+    if (keys.length === 0) {
+      return [];
+    }
+
+    const definitions = await this.listDefinitions(orgId, entity);
+    const byKey = new Map(definitions.map(definition => [definition.key, definition]));
+    const conditions: CustomFieldCondition[] = [];
+
+    for (const key of keys) {
+      const definition = byKey.get(key);
+      if (!definition) {
+        throw new ValidationError(`Unknown custom field '${key}'`);
+      }
+
+      const filter = filters[key];
+      const operations: [string, string][] = typeof filter === 'string' ? [['eq', filter]] : Object.entries(filter);
+
+      for (const [operator, raw] of operations) {
+        if (!OPERATORS_BY_TYPE[definition.type].includes(operator as FilterOperator)) {
+          throw new ValidationError(`Operator '${operator}' is not supported for ${definition.type} field '${key}'`);
+        }
+
+        const path = [key];
+        const isMulti = definition.type === 'multi_select';
+
+        switch (operator as FilterOperator) {
+          case 'eq':
+          case 'contains': {
+            const value = parseFilterValue(definition, raw);
+            if (isMulti) {
+              conditions.push({ customFields: { path, array_contains: [value] } });
+            } else if (operator === 'contains') {
+              conditions.push({ customFields: { path, string_contains: String(value) } });
+            } else {
+              conditions.push({ customFields: { path, equals: value } });
+            }
+            break;
+          }
+          case 'in': {
+            const values = raw.split(',').map(value => parseFilterValue(definition, value.trim()));
+            conditions.push({
+              OR: values.map(value => ({
+                customFields: isMulti ? { path, array_contains: [value] } : { path, equals: value },
+              })),
+            });
+            break;
+          }
+          default:
+            conditions.push({
+              customFields: { path, [operator]: parseFilterValue(definition, raw) } as Prisma.JsonFilter,
+            });
+        }
+      }
+    }
+
+    return conditions;
+  }
+
+  static async assertSortable(orgId: string, entity: CustomFieldEntity, key: string) {
+    const definition = await prisma.customFieldDefinition.findUnique({
+      where: { custom_field_key_per_org: { orgId, entity, key } },
+    });
+
+    if (!definition) {
+      throw new ValidationError(`Unknown custom field '${key}'`);
+    }
+  }
+
+  /**
+   * Prisma cannot ORDER BY a JSON path, so custom field sorts load the matching ids and
+   * values, order them here and let the caller fetch the requested page by id.
+   * Records without a value always sort last.
+   */
+  static orderIdsByValue(
+    rows: { id: string; customFields: Prisma.JsonValue }[],
+    key: string,
+    order: 'asc' | 'desc'
+  ): string[] {
+    const direction = order === 'asc' ? 1 : -1;
+    const valueOf = (row: { customFields: Prisma.JsonValue }) => {
+      const value = isJsonObject(row.customFields) ? row.customFields[key] : undefined;
+      return Array.isArray(value) ? value.join(', ') : value;
+    };
+
+    return [...rows]
+      .sort((a, b) => {
+        const left = valueOf(a);
+        const right = valueOf(b);
+
+        if (isEmpty(left) && isEmpty(right)) return 0;
+        if (isEmpty(left)) return 1;
+        if (isEmpty(right)) return -1;
+
+        if (typeof left === 'number' && typeof right === 'number') {
+          return (left - right) * direction;
+        }
+
+        return String(left).localeCompare(String(right)) * direction;
+      })
+      .map(row => row.id);
+  }
+}
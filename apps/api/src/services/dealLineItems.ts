@@ -0,0 +1,397 @@
+import { DealLineItem, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import logger from '../middleware/logger';
+import { FxService, normalizeCurrency } from './fx';
+import { ExternalServiceError, NotFoundError, ValidationError } from '../utils/errors';
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+export interface LineItemInput {
+  // A services catalog entry; name, price and tax rate default to the service's
+  serviceId?: string | null;
+  name?: string;
+  quantity?: number;
+  // Overrides the service price
+  unitPriceCents?: number;
+  discountPercent?: number;
+  taxRate?: number;
+}
+
+export interface CatalogService {
+  id: string;
+  name: string;
+  priceCents: number | null;
+  currency: string;
+  taxRate: number;
+  isActive: boolean;
+}
+
+export interface LineItemTotals {
+  // Net of discounts, before tax; this is the deal value
+  amountCents: number;
+  taxCents: number;
+  totalCents: number;
+}
+
+export interface RevenueByServiceQuery {
+  from: Date;
+  to: Date;
+}
+
+type LineItemData = Omit<Prisma.DealLineItemCreateManyInput, 'orgId' | 'dealId'>;
+
+/** Net amount and tax for one line, each rounded to the cent */
+export function lineItemAmounts(quantity: number, unitPriceCents: number, discountPercent: number, taxRate: number) {
+  const gross = Math.round(quantity * unitPriceCents);
+  const amountCents = gross - Math.round((gross * discountPercent) / 100);
+  return { amountCents, taxCents: Math.round((amountCents * taxRate) / 100) };
+}
+
+export function sumLineItems(items: Pick<DealLineItem, 'amountCents' | 'taxCents'>[]): LineItemTotals {
+  const amountCents = items.reduce((sum, item) => sum + item.amountCents, 0);
+  const taxCents = items.reduce((sum, item) => sum + item.taxCents, 0);
+  return { amountCents, taxCents, totalCents: amountCents + taxCents };
+}
+
+/**
+ * Services live in the Supabase schema, keyed by business. A business belongs to
+ * the organization with the same id as the CRM org. Unlike the timeline, line
+ * items cannot be priced without the catalog, so failures are raised.
+ */
+async function loadServices(orgId: string, serviceIds: string[]): Promise<Map<string, CatalogService>> {
+  if (serviceIds.length === 0) {
+    return new Map();
+  }
+
+  try {
+    const { supabase } = await import('../config/supabase');
+
+    const { data: businesses, error: businessError } = await supabase
+      .from('businesses')
+      .select('id')
+      .eq('organization_id', orgId);
+    if (businessError) throw businessError;
+
+    const businessIds = (businesses || []).map((business: { id: string }) => business.id);
+    if (businessIds.length === 0) return new Map();
+
+    const { data, error } = await supabase
+      .from('services')
+      .select('id, name, price, currency, tax_rate, is_active')
+      .in('business_id', businessIds)
+      .in('id', serviceIds);
+    if (error) throw error;
+
+    return new Map(
+      (data || []).map((service: any) => [
+        service.id,
+        {
+          id: service.id,
+          name: service.name,
+          priceCents: service.price === null ? null : Math.round(Number(service.price) * 100),
+          currency: normalizeCurrency(service.currency || 'USD'),
+          taxRate: Number(service.tax_rate || 0),
+          isActive: service.is_active !== false,
+        },
+      ])
+    );
+  } catch (error) {
+    logger.error('Services catalog unavailable', { orgId, error: error instanceof Error ? error.message : error });
+    throw new ExternalServiceError('Supabase', 'Could not load the services catalog');
+  }
+}
+
+export class DealLineItemService {
+  static async list(orgId: string, dealId: string) {
+    await this.findDeal(prisma, orgId, dealId);
+
+    const items = await prisma.dealLineItem.findMany({
+      where: { dealId },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return { items, totals: sumLineItems(items) };
+  }
+
+  /**
+   * Replaces every line item on the deal and re-derives its value. An empty list
+   * leaves the value as it was, so the deal goes back to a manually set value.
+   */
+  static async replace(orgId: string, dealId: string, inputs: LineItemInput[], client?: Prisma.TransactionClient) {
+    const run = async (tx: Prisma.TransactionClient) => {
+      const deal = await this.findDeal(tx, orgId, dealId);
+      const data = await this.resolve(orgId, deal.currency, inputs);
+
+      await tx.dealLineItem.deleteMany({ where: { dealId } });
+      await tx.dealLineItem.createMany({
+        data: data.map((item, index) => ({ ...item, orgId, dealId, position: index })),
+      });
+
+      return this.recalculate(tx, dealId);
+    };
+
+    return client ? run(client) : prisma.$transaction(run);
+  }
+
+  static async add(orgId: string, dealId: string, input: LineItemInput) {
+    return prisma.$transaction(async tx => {
+      const deal = await this.findDeal(tx, orgId, dealId);
+      const [data] = await this.resolve(orgId, deal.currency, [input]);
+      const position = await tx.dealLineItem.count({ where: { dealId } });
+
+      const item = await tx.dealLineItem.create({ data: { ...data, orgId, dealId, position } });
+      await this.recalculate(tx, dealId);
+      return item;
+    });
+  }
+
+  /**
+   * Fields left out keep their current values. Switching to another service
+   * takes that service's name, price and tax rate unless they are given too;
+   * clearing the service keeps them.
+   */
+  static async update(orgId: string, dealId: string, itemId: string, input: LineItemInput) {
+    return prisma.$transaction(async tx => {
+      const deal = await this.findDeal(tx, orgId, dealId);
+      const item = await this.findItem(tx, dealId, itemId);
+
+      const quantities = { quantity: Number(item.quantity), discountPercent: Number(item.discountPercent) };
+
+      // The catalog is only read when switching services, so items of retired services stay editable
+      const [data] = input.serviceId && input.serviceId !== item.serviceId
+        ? await this.resolve(orgId, deal.currency, [{ ...quantities, ...input }])
+        : [
+            this.itemData({
+              serviceId: item.serviceId,
+              name: item.name,
+              unitPriceCents: item.unitPriceCents,
+              taxRate: Number(item.taxRate),
+              ...quantities,
+              ...input,
+            } as Required<LineItemInput>),
+          ];
+
+      const updated = await tx.dealLineItem.update({ where: { id: itemId }, data });
+      await this.recalculate(tx, dealId);
+      return updated;
+    });
+  }
+
+  static async remove(orgId: string, dealId: string, itemId: string) {
+    await prisma.$transaction(async tx => {
+      await this.findDeal(tx, orgId, dealId);
+      await this.findItem(tx, dealId, itemId);
+
+      await tx.dealLineItem.delete({ where: { id: itemId } });
+      await this.recalculate(tx, dealId);
+    });
+  }
+
+  /**
+   * A deal with line items takes its value from them, and their prices are in the
+   * deal currency, so neither can be set directly on the deal.
+   */
+  static async assertValueEditable(dealId: string, data: { valueCents?: number; currency?: string }, current: { currency: string }) {
+    const changesCurrency = data.currency !== undefined && normalizeCurrency(data.currency) !== current.currency;
+    if (data.valueCents === undefined && !changesCurrency) {
+      return;
+    }
+
+    const items = await prisma.dealLineItem.count({ where: { dealId } });
+    if (items > 0) {
+      throw new ValidationError(
+        changesCurrency
+          ? 'Remove the line items before changing the deal currency'
+          : 'The value of a deal with line items is derived from them',
+        { field: changesCurrency ? 'currency' : 'valueCents', lineItems: items }
+      );
+    }
+  }
+
+  /**
+   * Won revenue broken down by service for deals won in the window, converted to
+   * the base currency at each deal's won-date rate. Items without a service are
+   * grouped under a null serviceId, and won deals without items are reported
+   * separately.
+   */
+  static async revenueByService(orgId: string, { from, to }: RevenueByServiceQuery) {
+    const deals = await prisma.deal.findMany({
+      where: { orgId, deletedAt: null, stage: { type: 'won' }, closedAt: { gte: from, lte: to } },
+      select: {
+        id: true,
+        valueCents: true,
+        currency: true,
+        closedAt: true,
+        lineItems: {
+          orderBy: { updatedAt: 'desc' },
+          select: { serviceId: true, name: true, quantity: true, amountCents: true },
+        },
+      },
+    });
+
+    const fx = await FxService.converter(orgId, deals.map(deal => deal.currency));
+
+    const services = new Map<string | null, {
+      serviceId: string | null;
+      name: string | null;
+      deals: Set<string>;
+      quantity: number;
+      revenueCents: number;
+      byCurrency: Record<string, number>;
+      unconverted: Record<string, number>;
+    }>();
+    const unitemized = fx.sumRevenue(deals.filter(deal => deal.lineItems.length === 0));
+
+    for (const deal of deals) {
+      for (const item of deal.lineItems) {
+        const entry = services.get(item.serviceId) ?? {
+          serviceId: item.serviceId,
+          // Most recently edited name, since items are read newest first
+          name: item.serviceId ? item.name : null,
+          deals: new Set<string>(),
+          quantity: 0,
+          revenueCents: 0,
+          byCurrency: {},
+          unconverted: {},
+        };
+        services.set(item.serviceId, entry);
+
+        entry.deals.add(deal.id);
+        entry.quantity += Number(item.quantity);
+        entry.byCurrency[deal.currency] = (entry.byCurrency[deal.currency] || 0) + item.amountCents;
+
+        const converted = fx.convert(item.amountCents, deal.currency, deal.closedAt!);
+        if (converted === null) {
+          entry.unconverted[deal.currency] = (entry.unconverted[deal.currency] || 0) + item.amountCents;
+        } else {
+          entry.revenueCents += converted;
+        }
+      }
+    }
+
+    const rows = Array.from(services.values())
+      .map(({ deals: serviceDeals, ...entry }) => ({ ...entry, deals: serviceDeals.size }))
+      .sort((a, b) => b.revenueCents - a.revenueCents);
+
+    return {
+      period: { from, to },
+      currency: fx.baseCurrency,
+      revenueCents: rows.reduce((sum, row) => sum + row.revenueCents, 0) + unitemized.revenueCents,
+      services: rows,
+      unitemized: {
+        deals: deals.filter(deal => deal.lineItems.length === 0).length,
+        revenueCents: unitemized.revenueCents,
+        byCurrency: unitemized.byCurrency,
+        unconverted: unitemized.unconverted,
+      },
+    };
+  }
+
+  /** Sets the deal value to the sum of its line items, if it has any */
+  private static async recalculate(tx: Client, dealId: string) {
+    const items = await tx.dealLineItem.findMany({
+      where: { dealId },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    const totals = sumLineItems(items);
+    if (items.length > 0) {
+      await tx.deal.update({ where: { id: dealId }, data: { valueCents: totals.amountCents } });
+    }
+
+    return { items, totals };
+  }
+
+  private static async findDeal(client: Client, orgId: string, dealId: string) {
+    const deal = await client.deal.findFirst({
+      where: { id: dealId, orgId, deletedAt: null },
+      select: { id: true, currency: true },
+    });
+
+    if (!deal) {
+      throw new NotFoundError('Deal', dealId);
+    }
+
+    return deal;
+  }
+
+  private static async findItem(client: Client, dealId: string, itemId: string) {
+    const item = await client.dealLineItem.findFirst({ where: { id: itemId, dealId } });
+
+    if (!item) {
+      throw new NotFoundError('Line item', itemId);
+    }
+
+    return item;
+  }
+
+  /**
+   * Fills catalog defaults into the inputs. Catalog prices are only used when
+   * the service is priced in the deal currency; otherwise the price must be given.
+   */
+  private static async resolve(orgId: string, currency: string, inputs: LineItemInput[]): Promise<LineItemData[]> {
+    const serviceIds = Array.from(new Set(inputs.map(input => input.serviceId).filter((id): id is string => Boolean(id))));
+    const services = await loadServices(orgId, serviceIds);
+
+    return inputs.map((input, index) => {
+      const details = (field: string) => ({ field, index });
+
+      if (!input.serviceId) {
+        if (!input.name?.trim()) {
+          throw new ValidationError('Line items without a service need a name', details('name'));
+        }
+        if (input.unitPriceCents === undefined) {
+          throw new ValidationError('Line items without a service need a unit price', details('unitPriceCents'));
+        }
+        return this.itemData({ ...input, serviceId: null } as Required<LineItemInput>);
+      }
+
+      const service = services.get(input.serviceId);
+      if (!service) {
+        throw new NotFoundError('Service', input.serviceId);
+      }
+      if (!service.isActive) {
+        throw new ValidationError(`${service.name} is no longer offered`, details('serviceId'));
+      }
+
+      let unitPriceCents = input.unitPriceCents;
+      if (unitPriceCents === undefined) {
+        if (service.priceCents === null) {
+          throw new ValidationError(`${service.name} has no list price; give a unit price`, details('unitPriceCents'));
+        }
+        if (service.currency !== currency) {
+          throw new ValidationError(
+            `${service.name} is priced in ${service.currency} but the deal is in ${currency}; give a unit price`,
+            details('unitPriceCents')
+          );
+        }
+        unitPriceCents = service.priceCents;
+      }
+
+      return this.itemData({
+        serviceId: service.id,
+        name: input.name?.trim() || service.name,
+        quantity: input.quantity ?? 1,
+        unitPriceCents,
+        discountPercent: input.discountPercent ?? 0,
+        taxRate: input.taxRate ?? service.taxRate,
+      });
+    });
+  }
+
+  private static itemData(input: Required<LineItemInput>): LineItemData {
+    const quantity = input.quantity ?? 1;
+    const discountPercent = input.discountPercent ?? 0;
+    const taxRate = input.taxRate ?? 0;
+
+    return {
+      serviceId: input.serviceId,
+      name: input.name.trim(),
+      quantity: new Prisma.Decimal(quantity),
+      unitPriceCents: input.unitPriceCents,
+      discountPercent: new Prisma.Decimal(discountPercent),
+      taxRate: new Prisma.Decimal(taxRate),
+      ...lineItemAmounts(quantity, input.unitPriceCents, discountPercent, taxRate),
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { NotFoundError } from '../utils/errors';
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+export interface StageChangeInput {
+  orgId: string;
+  dealId: string;
+  pipelineId: string;
+  fromStageId: string | null;
+  toStageId: string;
+  ownerId?: string | null;
+  changedBy?: string | null;
+  changedAt?: Date;
+}
+
+export class DealStageHistoryService {
+  /**
+   * Records stage transitions. Pass the transaction client that moved the deals so
+   * history and stage stay consistent; saves that keep the stage record nothing.
+   */
+  static async record(client: Client, changes: StageChangeInput | StageChangeInput[]) {
+    const data = (Array.isArray(changes) ? changes : [changes]).filter(
+      change => change.fromStageId !== change.toStageId
+    );
+
+    if (data.length === 0) {
+      return 0;
+    }
+
+    const result = await client.dealStageChange.createMany({ data });
+    return result.count;
+  }
+
+  static async list(orgId: string, dealId: string) {
+    const deal = await prisma.deal.findFirst({
+      where: { id: dealId, orgId },
+      select: { id: true },
+    });
+
+    if (!deal) {
+      throw new NotFoundError('Deal', dealId);
+    }
+
+    const changes = await prisma.dealStageChange.findMany({
+      where: { orgId, dealId },
+      orderBy: { changedAt: 'asc' },
+    });
+
+    const stageIds = new Set(changes.flatMap(change => [change.fromStageId, change.toStageId]));
+    const stages = await prisma.pipelineStage.findMany({
+      where: { orgId, id: { in: Array.from(stageIds).filter((id): id is string => Boolean(id)) } },
+      select: { id: true, name: true, type: true },
+    });
+    const stageById = new Map(stages.map(stage => [stage.id, stage]));
+
+    return changes.map((change, index) => {
+      const next = changes[index + 1];
+      return {
+        ...change,
+        fromStage: change.fromStageId ? stageById.get(change.fromStageId) ?? null : null,
+        toStage: stageById.get(change.toStageId) ?? null,
+        // Time spent in `toStage`; null while the deal is still there
+        durationMs: next ? next.changedAt.getTime() - change.changedAt.getTime() : null,
+      };
+    });
+  }
+}
@@ -0,0 +1,258 @@
+import { MessageChannel, MessageDeliveryStatus, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import logger from '../middleware/logger';
+import { ConsentService } from './consent';
+import { NotFoundError } from '../utils/errors';
+
+export type DeliveryProvider = 'twilio' | 'sendgrid';
+
+export interface DeliveryEvent {
+  provider: DeliveryProvider;
+  providerMessageId: string;
+  // The provider's own name for the event, e.g. undelivered or bounce
+  providerStatus: string;
+  status: MessageDeliveryStatus;
+  providerEventId?: string | null;
+  errorCode?: string | null;
+  reason?: string | null;
+  // The address can never receive messages; it is suppressed
+  hardBounce?: boolean;
+  occurredAt?: Date;
+}
+
+export interface ChannelDelivery {
+  channel: MessageChannel;
+  // Outbound messages with a provider ID
+  tracked: number;
+  // Accepted by the provider, no outcome yet
+  pending: number;
+  // Includes opened
+  delivered: number;
+  opened: number;
+  failed: number;
+  bounced: number;
+  deliveryRate: number;
+  bounceRate: number;
+  openRate: number;
+}
+
+// Later states win. A callback for an earlier state that arrives late only goes into the history.
+const STATUS_RANK: Record<MessageDeliveryStatus, number> = {
+  queued: 0,
+  sent: 1,
+  delivered: 2,
+  opened: 3,
+  failed: 4,
+  bounced: 4,
+};
+
+const TWILIO_STATUSES: Record<string, MessageDeliveryStatus> = {
+  accepted: 'queued',
+  scheduled: 'queued',
+  queued: 'queued',
+  sending: 'queued',
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'opened',
+  undelivered: 'failed',
+  failed: 'failed',
+  canceled: 'failed',
+};
+
+// Invalid, unassigned, landline and non-mobile numbers; retrying them never succeeds
+const TWILIO_HARD_BOUNCE_CODES = new Set(['21211', '21614', '30005', '30006']);
+
+const SENDGRID_EVENTS: Record<string, MessageDeliveryStatus> = {
+  processed: 'sent',
+  delivered: 'delivered',
+  open: 'opened',
+  click: 'opened',
+  bounce: 'bounced',
+  dropped: 'failed',
+};
+
+const ratio = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 1000 : 0);
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+/** Reads a Twilio status callback; null for anything that is not a delivery update */
+export function twilioDeliveryEvent(payload: Record<string, any>): DeliveryEvent | null {
+  const providerStatus = String(payload.MessageStatus || payload.SmsStatus || '').toLowerCase();
+  const status = TWILIO_STATUSES[providerStatus];
+  if (!payload.MessageSid || !status) return null;
+
+  const errorCode = payload.ErrorCode ? String(payload.ErrorCode) : null;
+  const hardBounce = status === 'failed' && errorCode !== null && TWILIO_HARD_BOUNCE_CODES.has(errorCode);
+
+  return {
+    provider: 'twilio',
+    providerMessageId: payload.MessageSid,
+    providerStatus,
+    status: hardBounce ? 'bounced' : status,
+    errorCode,
+    reason: payload.ErrorMessage ?? null,
+    hardBounce,
+  };
+}
+
+/** Reads one entry of a SendGrid event webhook batch; null for events that say nothing about delivery */
+export function sendGridDeliveryEvent(event: Record<string, any>): DeliveryEvent | null {
+  const status = SENDGRID_EVENTS[event.event];
+  if (!event.sg_message_id || !status) return null;
+
+  // Blocked bounces are temporary rejections by the receiving server
+  const soft = event.event === 'bounce' && event.type === 'blocked';
+
+  return {
+    provider: 'sendgrid',
+    // sg_message_id is the x-message-id returned on send, followed by a filter suffix
+    providerMessageId: String(event.sg_message_id).split('.')[0],
+    providerStatus: soft ? 'blocked' : event.event,
+    status: soft ? 'failed' : status,
+    providerEventId: event.sg_event_id ?? null,
+    errorCode: event.status ? String(event.status) : null,
+    reason: event.reason ?? event.response ?? null,
+    hardBounce: event.event === 'bounce' && !soft,
+    occurredAt: event.timestamp ? new Date(Number(event.timestamp) * 1000) : undefined,
+  };
+}
+
+export class DeliveryService {
+  /**
+   * Adds a provider callback to the message's status history and moves its
+   * delivery status forward. Hard bounces suppress the address. Events for
+   * messages sent outside ClientFlow, and repeats of an event already stored,
+   * are ignored.
+   */
+  static async apply(event: DeliveryEvent) {
+    const message = await prisma.message.findFirst({
+      where: { providerMessageId: event.providerMessageId, direction: 'outbound' },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!message) {
+      logger.info('Delivery event for an unknown message', {
+        provider: event.provider,
+        providerMessageId: event.providerMessageId,
+        providerStatus: event.providerStatus,
+      });
+      return null;
+    }
+
+    const occurredAt = event.occurredAt ?? new Date();
+
+    try {
+      await prisma.messageStatusEvent.create({
+        data: {
+          orgId: message.orgId,
+          messageId: message.id,
+          status: event.status,
+          provider: event.provider,
+          providerStatus: event.providerStatus,
+          providerEventId: event.providerEventId ?? null,
+          errorCode: event.errorCode ?? null,
+          reason: event.reason ?? null,
+          occurredAt,
+        },
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return message;
+      }
+      throw error;
+    }
+
+    const current = message.deliveryStatus;
+    const updated = !current || STATUS_RANK[event.status] >= STATUS_RANK[current]
+      ? await prisma.message.update({
+          where: { id: message.id },
+          data: { deliveryStatus: event.status, deliveryStatusAt: occurredAt },
+        })
+      : message;
+
+    if (event.hardBounce) {
+      await ConsentService.recordHardBounce(message.orgId, {
+        channel: message.channel,
+        address: message.toAddr,
+        contactId: message.contactId,
+        reason: event.reason,
+      });
+      logger.info('Address suppressed after a hard bounce', {
+        orgId: message.orgId,
+        messageId: message.id,
+        channel: message.channel,
+        contactId: message.contactId,
+      });
+    }
+
+    return updated;
+  }
+
+  /** The message's delivery status with every callback received for it, oldest first */
+  static async history(orgId: string, messageId: string) {
+    const message = await prisma.message.findFirst({
+      where: { id: messageId, orgId },
+      select: {
+        id: true,
+        channel: true,
+        direction: true,
+        toAddr: true,
+        providerMessageId: true,
+        deliveryStatus: true,
+        deliveryStatusAt: true,
+        createdAt: true,
+        statusEvents: { orderBy: [{ occurredAt: 'asc' }, { createdAt: 'asc' }] },
+      },
+    });
+
+    if (!message) {
+      throw new NotFoundError('Message', messageId);
+    }
+
+    return message;
+  }
+
+  /**
+   * Delivery outcomes per channel for outbound messages sent in the range.
+   * Rates are shares of tracked messages, so sends still awaiting an outcome
+   * lower them until their callbacks arrive.
+   */
+  static async rates(orgId: string, { from, to }: { from: Date; to: Date }): Promise<ChannelDelivery[]> {
+    const rows = await prisma.message.groupBy({
+      by: ['channel', 'deliveryStatus'],
+      where: {
+        orgId,
+        direction: 'outbound',
+        deliveryStatus: { not: null },
+        createdAt: { gte: from, lte: to },
+      },
+      _count: { _all: true },
+    });
+
+    const channels = new Map<MessageChannel, Record<MessageDeliveryStatus, number>>();
+    for (const row of rows) {
+      const counts = channels.get(row.channel) ?? { queued: 0, sent: 0, delivered: 0, opened: 0, failed: 0, bounced: 0 };
+      counts[row.deliveryStatus!] += row._count._all;
+      channels.set(row.channel, counts);
+    }
+
+    return [...channels.entries()].map(([channel, counts]) => {
+      const tracked = Object.values(counts).reduce((sum, count) => sum + count, 0);
+      const delivered = counts.delivered + counts.opened;
+
+      return {
+        channel,
+        tracked,
+        pending: counts.queued + counts.sent,
+        delivered,
+        opened: counts.opened,
+        failed: counts.failed,
+        bounced: counts.bounced,
+        deliveryRate: ratio(delivered, tracked),
+        bounceRate: ratio(counts.bounced, tracked),
+        openRate: ratio(counts.opened, delivered),
+      };
+    });
+  }
+}
@@ -0,0 +1,391 @@
+import { Contact, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { normalizeEmail, normalizePhone } from '../lib/tenancy';
+import logger from '../middleware/logger';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+type ContactFields = Pick<Contact, 'id' | 'firstName' | 'lastName' | 'email' | 'phone'>;
+
+export interface DuplicateMatch {
+  contactId: string;
+  duplicateId: string;
+  score: number;
+  reasons: string[];
+}
+
+export interface MergeResult {
+  survivor: Contact;
+  mergedContactIds: string[];
+  moved: {
+    deals: number;
+    activities: number;
+    appointments: number;
+    messages: number;
+    conversations: number;
+    scheduledMessages: number;
+    tasks: number;
+  };
+}
+
+export const DEFAULT_MIN_SCORE = 0.5;
+
+// Names given to contacts auto-created by the inbound SMS/email proxies
+const PLACEHOLDER_NAMES = new Set(['sms contact', 'email contact', 'unknown']);
+
+// Upper bound on contacts compared within a single blocking key
+const MAX_BLOCK_SIZE = 200;
+
+const WEIGHTS = {
+  phone: 0.6,
+  email: 0.6,
+  name: 0.5,
+};
+
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+function fullName(contact: ContactFields) {
+  return `${contact.firstName} ${contact.lastName || ''}`.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function isPlaceholderName(contact: ContactFields) {
+  return PLACEHOLDER_NAMES.has(fullName(contact));
+}
+
+function phoneKey(phone: string | null) {
+  return phone ? normalizePhone(phone).replace(/\D/g, '') : '';
+}
+
+/**
+ * Jaro-Winkler similarity in [0, 1]; favours strings sharing a common prefix,
+ * which suits personal names ("Jon Smith" vs "John Smith").
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (a === b) return a.length > 0 ? 1 : 0;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatches = new Array(a.length).fill(false);
+  const bMatches = new Array(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(i + window + 1, b.length);
+    for (let j = start; j < end; j++) {
+      if (!bMatches[j] && a[i] === b[j]) {
+        aMatches[i] = true;
+        bMatches[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, k = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue;
+    while (!bMatches[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Scores how likely two contacts are the same person from normalized phone,
+ * normalized email and fuzzy full-name similarity. Placeholder names never count.
+ */
+export function scoreContactPair(a: ContactFields, b: ContactFields): { score: number; reasons: string[] } {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const phoneA = phoneKey(a.phone);
+  if (phoneA && phoneA === phoneKey(b.phone)) {
+    score += WEIGHTS.phone;
+    reasons.push('phone');
+  }
+
+  const emailA = a.email ? normalizeEmail(a.email) : '';
+  if (emailA && emailA === (b.email ? normalizeEmail(b.email) : '')) {
+    score += WEIGHTS.email;
+    reasons.push('email');
+  }
+
+  if (!isPlaceholderName(a) && !isPlaceholderName(b)) {
+    const similarity = nameSimilarity(fullName(a), fullName(b));
+    if (similarity >= NAME_SIMILARITY_THRESHOLD) {
+      score += WEIGHTS.name * similarity;
+      reasons.push('name');
+    }
+  }
+
+  return { score: Math.min(1, Math.round(score * 1000) / 1000), reasons };
+}
+
+// Keys that put possibly-identical contacts in the same bucket, so we avoid comparing every pair
+function blockingKeys(contact: ContactFields): string[] {
+  const keys: string[] = [];
+  const phone = phoneKey(contact.phone);
+  if (phone) keys.push(`phone:${phone}`);
+  if (contact.email) keys.push(`email:${normalizeEmail(contact.email)}`);
+  if (!isPlaceholderName(contact)) {
+    const first = contact.firstName.trim().toLowerCase().slice(0, 2);
+    const last = (contact.lastName || '').trim().toLowerCase().slice(0, 2);
+    keys.push(`name:${first}|${last}`);
+  }
+  return keys;
+}
+
+export function findDuplicatePairs(contacts: ContactFields[], minScore = DEFAULT_MIN_SCORE): DuplicateMatch[] {
+  const blocks = new Map<string, ContactFields[]>();
+  for (const contact of contacts) {
+    for (const key of blockingKeys(contact)) {
+      const block = blocks.get(key) || [];
+      block.push(contact);
+      blocks.set(key, block);
+    }
+  }
+
+  const seen = new Set<string>();
+  const matches: DuplicateMatch[] = [];
+
+  for (const block of blocks.values()) {
+    const members = block.slice(0, MAX_BLOCK_SIZE);
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        // Store each pair once, ordered by id
+        const [a, b] = members[i].id < members[j].id ? [members[i], members[j]] : [members[j], members[i]];
+        const pairKey = `${a.id}:${b.id}`;
+        if (seen.has(pairKey)) continue;
+        seen.add(pairKey);
+
+        const { score, reasons } = scoreContactPair(a, b);
+        if (score >= minScore) {
+          matches.push({ contactId: a.id, duplicateId: b.id, score, reasons });
+        }
+      }
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+const CONTACT_FIELDS = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  phone: true,
+} as const;
+
+export class DuplicateService {
+  static async findForContact(orgId: string, contactId: string, minScore = DEFAULT_MIN_SCORE) {
+    const contact = await prisma.contact.findFirst({
+      where: { id: contactId, orgId, deletedAt: null },
+      select: CONTACT_FIELDS,
+    });
+
+    if (!contact) {
+      throw new NotFoundError('Contact', contactId);
+    }
+
+    const candidates = await prisma.contact.findMany({
+      where: { orgId, id: { not: contactId }, deletedAt: null },
+      select: CONTACT_FIELDS,
+    });
+
+    return candidates
+      .map(candidate => ({ contact: candidate, ...scoreContactPair(contact, candidate) }))
+      .filter(match => match.score >= minScore)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Recomputes the duplicate report for an org. Pairs a user already dismissed
+   * keep their status; open pairs that no longer match are removed.
+   */
+  static async scanOrg(orgId: string, minScore = DEFAULT_MIN_SCORE) {
+    const contacts = await prisma.contact.findMany({
+      where: { orgId, deletedAt: null },
+      select: CONTACT_FIELDS,
+    });
+
+    const matches = findDuplicatePairs(contacts, minScore);
+
+    await prisma.$transaction([
+      ...matches.map(match =>
+        prisma.duplicateCandidate.upsert({
+          where: {
+            duplicate_pair_per_org: {
+              orgId,
+              contactId: match.contactId,
+              duplicateId: match.duplicateId,
+            },
+          },
+          update: { score: match.score, reasons: match.reasons, detectedAt: new Date() },
+          create: { orgId, ...match },
+        })
+      ),
+      prisma.duplicateCandidate.deleteMany({
+        where: {
+          orgId,
+          status: 'open',
+          ...(matches.length > 0 && {
+            NOT: matches.map(match => ({ contactId: match.contactId, duplicateId: match.duplicateId })),
+          }),
+        },
+      }),
+    ]);
+
+    logger.info('Duplicate scan completed', {
+      orgId,
+      contacts: contacts.length,
+      candidates: matches.length,
+    });
+
+    return { contacts: contacts.length, candidates: matches.length };
+  }
+
+  /**
+   * Folds `duplicateIds` into `survivorId`: reassigns deals, activities, appointments,
+   * messages, tasks and send suppressions, unions tags, fills blank fields and custom fields
+   * from the duplicates, deletes the duplicates and records a ContactMerge row plus a note
+   * on the survivor.
+   */
+  static async merge(orgId: string, survivorId: string, duplicateIds: string[], actorId?: string): Promise<MergeResult> {
+    const ids = Array.from(new Set(duplicateIds));
+    if (ids.includes(survivorId)) {
+      throw new ValidationError('A contact cannot be merged into itself');
+    }
+
+    const contacts = await prisma.contact.findMany({
+      // Trashed contacts can only be restored, not merged
+      where: { orgId, id: { in: [survivorId, ...ids] }, deletedAt: null },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const survivor = contacts.find(contact => contact.id === survivorId);
+    if (!survivor) {
+      throw new NotFoundError('Contact', survivorId);
+    }
+
+    const duplicates = contacts.filter(contact => contact.id !== survivorId);
+    const missing = ids.filter(id => !duplicates.some(contact => contact.id === id));
+    if (missing.length > 0) {
+      throw new NotFoundError('Contact', missing.join(', '));
+    }
+
+    const merged = {
+      lastName: survivor.lastName,
+      email: survivor.email,
+      phone: survivor.phone,
+      accountId: survivor.accountId,
+      tags: new Set(survivor.tags),
+      customFields: { ...(survivor.customFields as Prisma.JsonObject) },
+    };
+
+    for (const duplicate of duplicates) {
+      merged.lastName = merged.lastName || duplicate.lastName;
+      merged.email = merged.email || duplicate.email;
+      merged.phone = merged.phone || duplicate.phone;
+      merged.accountId = merged.accountId || duplicate.accountId;
+      duplicate.tags.forEach(tag => merged.tags.add(tag));
+      merged.customFields = { ...(duplicate.customFields as Prisma.JsonObject), ...merged.customFields };
+    }
+
+    const addresses = duplicates
+      .flatMap(duplicate => [duplicate.phone, duplicate.email])
+      .filter((address): address is string => Boolean(address));
+
+    return prisma.$transaction(async tx => {
+      const reassign = { where: { orgId, contactId: { in: ids } }, data: { contactId: survivorId } };
+      // Rows already in the trash stay with the duplicates and are deleted along with them
+      const reassignLive = { where: { ...reassign.where, deletedAt: null }, data: reassign.data };
+
+      const [deals, activities, appointments, tasks, linkedMessages, unlinkedMessages, conversations, scheduledMessages] = await Promise.all([
+        tx.deal.updateMany(reassignLive),
+        tx.activity.updateMany(reassignLive),
+        tx.appointment.updateMany(reassignLive),
+        tx.task.updateMany(reassignLive),
+        tx.message.updateMany(reassign),
+        // Messages that were never linked are matched by the duplicates' addresses
+        tx.message.updateMany({
+          where: {
+            orgId,
+            contactId: null,
+            OR: [{ fromAddr: { in: addresses } }, { toAddr: { in: addresses } }],
+          },
+          data: { contactId: survivorId },
+        }),
+        tx.conversation.updateMany(reassign),
+        tx.scheduledMessage.updateMany(reassign),
+        tx.consentEvent.updateMany(reassign),
+        tx.messageSuppression.updateMany(reassign),
+      ]);
+
+      const moved = {
+        deals: deals.count,
+        activities: activities.count,
+        appointments: appointments.count,
+        messages: linkedMessages.count + unlinkedMessages.count,
+        conversations: conversations.count,
+        scheduledMessages: scheduledMessages.count,
+        tasks: tasks.count,
+      };
+
+      // Delete before updating the survivor so inherited email/phone don't hit the per-org unique constraints
+      await tx.contact.deleteMany({ where: { orgId, id: { in: ids } } });
+
+      const updatedSurvivor = await tx.contact.update({
+        where: { id: survivorId },
+        data: {
+          lastName: merged.lastName,
+          email: merged.email,
+          phone: merged.phone,
+          accountId: merged.accountId,
+          tags: Array.from(merged.tags),
+          customFields: merged.customFields,
+        },
+      });
+
+      await tx.contactMerge.createMany({
+        data: duplicates.map(duplicate => ({
+          orgId,
+          survivorId,
+          mergedContactId: duplicate.id,
+          mergedBy: actorId,
+          snapshot: JSON.parse(JSON.stringify(duplicate)),
+          moved,
+        })),
+      });
+
+      await tx.activity.create({
+        data: {
+          orgId,
+          contactId: survivorId,
+          type: 'note',
+          content: `Merged ${duplicates.length} duplicate contact${duplicates.length === 1 ? '' : 's'}: ${duplicates
+            .map(duplicate => `${duplicate.firstName} ${duplicate.lastName || ''}`.trim())
+            .join(', ')}`,
+          meta: {
+            merge: {
+              mergedContactIds: ids,
+              mergedBy: actorId,
+              moved,
+            },
+          },
+        },
+      });
+
+      return { survivor: updatedSurvivor, mergedContactIds: ids, moved };
+    });
+  }
+}
@@ -0,0 +1,302 @@
+import { FxRate, FxRateSource, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import logger from '../middleware/logger';
+import { parseSpreadsheet } from './contactImport';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+export const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+export interface FxRateInput {
+  currency: string;
+  rate: number;
+  effectiveDate: Date;
+}
+
+export interface FxRateQuery {
+  currency?: string;
+  page: number;
+  limit: number;
+}
+
+export interface FxRateImportError {
+  row: number;
+  field?: string;
+  message: string;
+}
+
+export interface RevenueDeal {
+  valueCents: number;
+  currency: string;
+  closedAt: Date | null;
+}
+
+export interface RevenueTotals {
+  currency: string;
+  /** Won value converted to the base currency */
+  revenueCents: number;
+  /** Original won value in cents, keyed by deal currency */
+  byCurrency: Record<string, number>;
+  /** Original cents with no rate on or before the won date, left out of revenueCents */
+  unconverted: Record<string, number>;
+}
+
+// Spreadsheet line of the first data row (line 1 holds the headers)
+const FIRST_DATA_ROW = 2;
+
+const IMPORT_COLUMNS: Record<keyof FxRateInput, string[]> = {
+  currency: ['currency', 'code', 'currencycode'],
+  rate: ['rate', 'fxrate', 'exchangerate'],
+  effectiveDate: ['effectivedate', 'date', 'effectivefrom'],
+};
+
+const simplify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Calendar day of `value` as stored in a `@db.Date` column */
+const toDay = (value: Date) => new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+
+export const normalizeCurrency = (currency: string) => currency.trim().toUpperCase();
+
+/**
+ * Converts deal values into an org's base currency. Each amount uses the latest
+ * rate for its currency effective on or before the given date; amounts already in
+ * the base currency pass through unchanged.
+ */
+export class FxConverter {
+  private readonly rates = new Map<string, { effectiveDate: Date; rate: number }[]>();
+
+  constructor(
+    readonly baseCurrency: string,
+    rates: Pick<FxRate, 'currency' | 'effectiveDate' | 'rate'>[]
+  ) {
+    for (const rate of rates) {
+      const list = this.rates.get(rate.currency) || [];
+      list.push({ effectiveDate: rate.effectiveDate, rate: Number(rate.rate) });
+      this.rates.set(rate.currency, list);
+    }
+    // Newest first so the first match is the effective rate
+    this.rates.forEach(list => list.sort((a, b) => b.effectiveDate.getTime() - a.effectiveDate.getTime()));
+  }
+
+  /** Rate for one unit of `currency` on `on`, or null when none was effective yet */
+  rateOn(currency: string, on: Date): number | null {
+    const code = normalizeCurrency(currency);
+    if (code === this.baseCurrency) {
+      return 1;
+    }
+    const day = toDay(on);
+    return this.rates.get(code)?.find(rate => rate.effectiveDate <= day)?.rate ?? null;
+  }
+
+  convert(cents: number, currency: string, on: Date): number | null {
+    const rate = this.rateOn(currency, on);
+    return rate === null ? null : Math.round(cents * rate);
+  }
+
+  /** Sums won deals at their won-date rates, keeping the original amounts alongside */
+  sumRevenue(deals: RevenueDeal[]): RevenueTotals {
+    const totals: RevenueTotals = { currency: this.baseCurrency, revenueCents: 0, byCurrency: {}, unconverted: {} };
+
+    for (const deal of deals) {
+      const code = normalizeCurrency(deal.currency);
+      totals.byCurrency[code] = (totals.byCurrency[code] || 0) + deal.valueCents;
+
+      const converted = deal.closedAt ? this.convert(deal.valueCents, code, deal.closedAt) : null;
+      if (converted === null) {
+        totals.unconverted[code] = (totals.unconverted[code] || 0) + deal.valueCents;
+      } else {
+        totals.revenueCents += converted;
+      }
+    }
+
+    return totals;
+  }
+}
+
+export class FxService {
+  static async getBaseCurrency(orgId: string) {
+    const org = await prisma.organization.findUnique({
+      where: { id: orgId },
+      select: { baseCurrency: true },
+    });
+
+    if (!org) {
+      throw new NotFoundError('Organization', orgId);
+    }
+
+    return org.baseCurrency;
+  }
+
+  /**
+   * Rates are stored relative to the base currency, so it can only change while
+   * the org has none.
+   */
+  static async setBaseCurrency(orgId: string, currency: string) {
+    const code = normalizeCurrency(currency);
+    const current = await this.getBaseCurrency(orgId);
+    if (code === current) {
+      return code;
+    }
+
+    const rates = await prisma.fxRate.count({ where: { orgId } });
+    if (rates > 0) {
+      throw new ConflictError('Delete the existing FX rates before changing the base currency', { rates });
+    }
+
+    await prisma.organization.update({ where: { id: orgId }, data: { baseCurrency: code } });
+    logger.info('Base currency changed', { orgId, from: current, to: code });
+    return code;
+  }
+
+  static async listRates(orgId: string, { currency, page, limit }: FxRateQuery) {
+    const where: Prisma.FxRateWhereInput = { orgId, ...(currency && { currency: normalizeCurrency(currency) }) };
+
+    const [rates, total] = await Promise.all([
+      prisma.fxRate.findMany({
+        where,
+        orderBy: [{ currency: 'asc' }, { effectiveDate: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.fxRate.count({ where }),
+    ]);
+
+    return { rates, total };
+  }
+
+  /** Creates the rate, or replaces the one already set for that currency and day */
+  static async upsertRate(orgId: string, input: FxRateInput, source: FxRateSource = 'manual') {
+    const baseCurrency = await this.getBaseCurrency(orgId);
+    const data = this.rateData(baseCurrency, input);
+
+    return prisma.fxRate.upsert({
+      where: { orgId_currency_effectiveDate: { orgId, currency: data.currency, effectiveDate: data.effectiveDate } },
+      update: { rate: data.rate, source },
+      create: { orgId, ...data, source },
+    });
+  }
+
+  static async removeRate(orgId: string, id: string) {
+    const rate = await prisma.fxRate.findFirst({ where: { id, orgId }, select: { id: true } });
+    if (!rate) {
+      throw new NotFoundError('FX rate', id);
+    }
+    await prisma.fxRate.delete({ where: { id } });
+  }
+
+  /**
+   * Imports a CSV or XLSX file with currency, rate and effective date columns.
+   * Nothing is written unless every row is valid; rows for a currency and day
+   * that already has a rate replace it.
+   */
+  static async importRates(orgId: string, buffer: Buffer) {
+    const { headers, rows } = parseSpreadsheet(buffer);
+    const baseCurrency = await this.getBaseCurrency(orgId);
+
+    const columns = {} as Record<keyof FxRateInput, number>;
+    for (const [field, aliases] of Object.entries(IMPORT_COLUMNS) as [keyof FxRateInput, string[]][]) {
+      const index = headers.findIndex(header => aliases.includes(simplify(header)));
+      if (index === -1) {
+        throw new ValidationError(`Missing a ${aliases[0]} column`, { headers });
+      }
+      columns[field] = index;
+    }
+
+    const errors: FxRateImportError[] = [];
+    const inputs = new Map<string, ReturnType<typeof FxService.rateData> & { row: number }>();
+
+    rows.forEach((cells, index) => {
+      const row = index + FIRST_DATA_ROW;
+      if (cells.every(cell => !cell)) {
+        return;
+      }
+
+      const effectiveDate = new Date(cells[columns.effectiveDate]);
+      try {
+        const data = this.rateData(baseCurrency, {
+          currency: cells[columns.currency],
+          rate: Number(cells[columns.rate]),
+          effectiveDate,
+        });
+
+        const key = `${data.currency}:${data.effectiveDate.toISOString()}`;
+        const earlier = inputs.get(key);
+        if (earlier) {
+          errors.push({ row, message: `Duplicates the rate on row ${earlier.row}` });
+          return;
+        }
+        inputs.set(key, { ...data, row });
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        errors.push({ row, field: error.details?.field, message: error.message });
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new ValidationError('FX rate file has invalid rows', errors);
+    }
+
+    const rates = Array.from(inputs.values());
+    await prisma.$transaction(
+      rates.map(({ row: _row, ...data }) =>
+        prisma.fxRate.upsert({
+          where: { orgId_currency_effectiveDate: { orgId, currency: data.currency, effectiveDate: data.effectiveDate } },
+          update: { rate: data.rate, source: 'import' },
+          create: { orgId, ...data, source: 'import' },
+        })
+      )
+    );
+
+    const currencies = Array.from(new Set(rates.map(rate => rate.currency))).sort();
+    logger.info('FX rates imported', { orgId, imported: rates.length, currencies });
+    return { imported: rates.length, currencies };
+  }
+
+  /** Converter loaded with every rate the org has for the given currencies */
+  static async converter(orgId: string, currencies?: string[]) {
+    const baseCurrency = await this.getBaseCurrency(orgId);
+    const codes = currencies && Array.from(new Set(currencies.map(normalizeCurrency))).filter(code => code !== baseCurrency);
+
+    const rates = codes && codes.length === 0
+      ? []
+      : await prisma.fxRate.findMany({
+          where: { orgId, ...(codes && { currency: { in: codes } }) },
+          select: { currency: true, effectiveDate: true, rate: true },
+        });
+
+    return new FxConverter(baseCurrency, rates);
+  }
+
+  /** Won revenue in the base currency, plus the original amounts per currency */
+  static async sumRevenue(orgId: string, deals: RevenueDeal[]) {
+    const converter = await this.converter(orgId, deals.map(deal => deal.currency));
+    const totals = converter.sumRevenue(deals);
+
+    if (Object.keys(totals.unconverted).length > 0) {
+      logger.warn('Won revenue left unconverted for lack of an FX rate', {
+        orgId,
+        baseCurrency: totals.currency,
+        unconverted: totals.unconverted,
+      });
+    }
+
+    return totals;
+  }
+
+  private static rateData(baseCurrency: string, input: FxRateInput) {
+    const currency = normalizeCurrency(input.currency || '');
+    if (!CURRENCY_CODE.test(currency)) {
+      throw new ValidationError('Currency must be a three-letter ISO 4217 code', { field: 'currency' });
+    }
+    if (currency === baseCurrency) {
+      throw new ValidationError(`${currency} is the base currency`, { field: 'currency' });
+    }
+    if (!Number.isFinite(input.rate) || input.rate <= 0) {
+      throw new ValidationError('Rate must be a positive number', { field: 'rate' });
+    }
+    if (Number.isNaN(input.effectiveDate.getTime())) {
+      throw new ValidationError('Effective date must be a valid date', { field: 'effectiveDate' });
+    }
+
+    return { currency, rate: new Prisma.Decimal(input.rate), effectiveDate: toDay(input.effectiveDate) };
+  }
+}
@@ -0,0 +1,253 @@
+import { ConversationPriority, ConversationStatus, MessageChannel, MessageDirection, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import logger from '../middleware/logger';
+import { ConsentService, normalizeAddress } from './consent';
+import { sendEmail, sendSms } from './messaging';
+import { ExternalServiceError, NotFoundError, ValidationError } from '../utils/errors';
+
+export interface RecordMessageInput {
+  direction: MessageDirection;
+  channel: MessageChannel;
+  toAddr: string;
+  fromAddr: string;
+  body: string;
+  contactId?: string | null;
+  meta?: Prisma.InputJsonValue;
+  // Twilio SID or SendGrid message ID; outbound messages with one have their delivery tracked
+  providerMessageId?: string | null;
+  createdAt?: Date;
+}
+
+export interface ConversationListQuery {
+  status?: ConversationStatus;
+  channel?: MessageChannel;
+  // null for unassigned conversations
+  assignedTo?: string | null;
+  contactId?: string;
+  unread?: boolean;
+  page: number;
+  limit: number;
+}
+
+export interface UpdateConversationInput {
+  status?: ConversationStatus;
+  assignedTo?: string | null;
+  priority?: ConversationPriority;
+}
+
+export interface ReplyInput {
+  body: string;
+  subject?: string;
+}
+
+export const CONVERSATION_INCLUDE = {
+  contact: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } },
+  assignee: { select: { id: true, name: true, email: true } },
+};
+
+export class InboxService {
+  /**
+   * Stores a message and attaches it to the conversation with the other party
+   * on that channel, opening one on first contact. Inbound messages count as
+   * unread and reopen a closed conversation; replying clears the unread count.
+   * Pass a transaction client to store the message as part of a wider write.
+   */
+  static async recordMessage(orgId: string, input: RecordMessageInput, client?: Prisma.TransactionClient) {
+    if (client) {
+      return this.attach(client, orgId, input);
+    }
+    return prisma.$transaction(tx => this.attach(tx, orgId, input));
+  }
+
+  static async list(orgId: string, query: ConversationListQuery) {
+    const { status, channel, assignedTo, contactId, unread, page, limit } = query;
+
+    const where: Prisma.ConversationWhereInput = {
+      orgId,
+      ...(status && { status }),
+      ...(channel && { channel }),
+      ...(assignedTo !== undefined && { assignedTo }),
+      ...(contactId && { contactId }),
+      ...(unread && { unreadCount: { gt: 0 } }),
+    };
+
+    const [conversations, total] = await Promise.all([
+      prisma.conversation.findMany({
+        where,
+        include: {
+          ...CONVERSATION_INCLUDE,
+          messages: { orderBy: { createdAt: 'desc' }, take: 1 },
+        },
+        orderBy: [{ lastMessageAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.conversation.count({ where }),
+    ]);
+
+    return { conversations, total };
+  }
+
+  static async get(orgId: string, id: string) {
+    const conversation = await prisma.conversation.findFirst({
+      where: { id, orgId },
+      include: {
+        ...CONVERSATION_INCLUDE,
+        messages: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    if (!conversation) {
+      throw new NotFoundError('Conversation', id);
+    }
+
+    return conversation;
+  }
+
+  static async update(orgId: string, id: string, input: UpdateConversationInput) {
+    await this.find(orgId, id);
+
+    if (input.assignedTo) {
+      const membership = await prisma.membership.findUnique({
+        where: { userId_orgId: { userId: input.assignedTo, orgId } },
+      });
+      if (!membership) {
+        throw new ValidationError('Assignee must be a member of this organization', { field: 'assignedTo' });
+      }
+    }
+
+    return prisma.conversation.update({
+      where: { id },
+      data: {
+        ...(input.status !== undefined && { status: input.status }),
+        ...(input.assignedTo !== undefined && { assignedTo: input.assignedTo }),
+        ...(input.priority !== undefined && { priority: input.priority }),
+      },
+      include: CONVERSATION_INCLUDE,
+    });
+  }
+
+  static async markRead(orgId: string, id: string) {
+    await this.find(orgId, id);
+
+    return prisma.conversation.update({
+      where: { id },
+      data: { unreadCount: 0 },
+      include: CONVERSATION_INCLUDE,
+    });
+  }
+
+  /** Sends a reply to the other party over the conversation's channel */
+  static async reply(orgId: string, id: string, input: ReplyInput, actorId?: string) {
+    const conversation = await this.find(orgId, id);
+    const to = conversation.address;
+
+    if (!to) {
+      throw new ValidationError('This conversation has no address to reply to');
+    }
+    if (conversation.channel === 'whatsapp') {
+      throw new ValidationError('Replying over WhatsApp is not supported from the inbox', { field: 'channel' });
+    }
+
+    await ConsentService.assertCanSend(orgId, {
+      channel: conversation.channel,
+      to,
+      source: 'inbox.reply',
+      contactId: conversation.contactId,
+    });
+
+    const subject = input.subject || 'Message from ClientFlow';
+    const result = conversation.channel === 'sms'
+      ? await sendSms({ orgId, to, body: input.body })
+      : await sendEmail({ orgId, to, subject, html: input.body });
+
+    if (!result.success) {
+      throw new ExternalServiceError(result.provider, result.error || 'Failed to send reply');
+    }
+
+    return this.recordMessage(orgId, {
+      direction: 'outbound',
+      channel: conversation.channel,
+      toAddr: to,
+      fromAddr: result.from || '',
+      body: input.body,
+      contactId: conversation.contactId,
+      providerMessageId: result.messageId,
+      meta: {
+        ...(conversation.channel === 'email' && { subject }),
+        messageId: result.messageId ?? null,
+        sandbox: result.sandbox ?? false,
+        sentBy: actorId ?? null,
+      },
+    });
+  }
+
+  private static async find(orgId: string, id: string) {
+    const conversation = await prisma.conversation.findFirst({ where: { id, orgId } });
+    if (!conversation) {
+      throw new NotFoundError('Conversation', id);
+    }
+    return conversation;
+  }
+
+  private static async attach(tx: Prisma.TransactionClient, orgId: string, input: RecordMessageInput) {
+    const inbound = input.direction === 'inbound';
+    const address = normalizeAddress(input.channel, inbound ? input.fromAddr : input.toAddr) || null;
+    const at = input.createdAt ?? new Date();
+
+    const message = {
+      orgId,
+      direction: input.direction,
+      channel: input.channel,
+      toAddr: input.toAddr,
+      fromAddr: input.fromAddr,
+      body: input.body,
+      meta: input.meta,
+      providerMessageId: input.providerMessageId ?? null,
+      ...(!inbound && input.providerMessageId ? { deliveryStatus: 'sent' as const, deliveryStatusAt: at } : {}),
+      createdAt: at,
+    };
+
+    // Without an address there is nobody to group the message with
+    if (!address) {
+      logger.warn('Message stored without a conversation', { orgId, channel: input.channel, direction: input.direction });
+      return tx.message.create({ data: { ...message, contactId: input.contactId ?? null } });
+    }
+
+    const key = { conversation_address_per_org: { orgId, channel: input.channel, address } };
+    const existing = await tx.conversation.findUnique({ where: key, select: { contactId: true } });
+    const contactId =
+      input.contactId ?? existing?.contactId ?? (await this.contactFor(tx, orgId, input.channel, address));
+
+    const conversation = await tx.conversation.upsert({
+      where: key,
+      create: {
+        orgId,
+        channel: input.channel,
+        address,
+        contactId,
+        unreadCount: inbound ? 1 : 0,
+        lastMessageAt: at,
+        ...(inbound ? { lastInboundAt: at } : { lastOutboundAt: at }),
+      },
+      update: {
+        contactId,
+        lastMessageAt: at,
+        ...(inbound
+          ? { lastInboundAt: at, unreadCount: { increment: 1 }, status: 'active' }
+          : { lastOutboundAt: at, unreadCount: 0 }),
+      },
+      select: { id: true },
+    });
+
+    return tx.message.create({ data: { ...message, contactId, conversationId: conversation.id } });
+  }
+
+  private static async contactFor(tx: Prisma.TransactionClient, orgId: string, channel: MessageChannel, address: string) {
+    const contact = await tx.contact.findFirst({
+      where: { orgId, deletedAt: null, ...(channel === 'email' ? { email: { equals: address, mode: 'insensitive' } } : { phone: address }) },
+      select: { id: true },
+    });
+    return contact?.id ?? null;
+  }
+}
@@ -0,0 +1,429 @@
+import { z } from 'zod';
+import { LeadScoreRule, LeadScoreRuleType, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import logger from '../middleware/logger';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+export const LEAD_SCORE_RULE_TYPES = Object.values(LeadScoreRuleType) as [LeadScoreRuleType, ...LeadScoreRuleType[]];
+
+// Automations with this `config.trigger` run for a contact when its score rises to `config.threshold`
+export const LEAD_SCORE_TRIGGER = 'lead_score_reached';
+
+const MaxPointsSchema = z.number().int().min(1).optional();
+
+/**
+ * What each rule type scores. Per-unit rules (counts, deal value) multiply
+ * `points` by the number of units and stop at `maxPoints`.
+ */
+export const LEAD_SCORE_RULE_CONFIG: Record<LeadScoreRuleType, z.ZodTypeAny> = {
+  // Contact carries the tag (case-insensitive)
+  tag: z.object({ tag: z.string().trim().min(1).max(100) }).strict(),
+  // Last inbound message is at most `withinDays` old
+  inbound_recency: z.object({ withinDays: z.number().int().min(1).max(365) }).strict(),
+  // Per inbound message, optionally only those in the last `withinDays`
+  inbound_count: z.object({ withinDays: z.number().int().min(1).max(365).optional(), maxPoints: MaxPointsSchema }).strict(),
+  // Per completed appointment
+  appointment_completed: z.object({ maxPoints: MaxPointsSchema }).strict(),
+  // Per `perCents` of open and won deal value
+  deal_value: z.object({ perCents: z.number().int().min(1), maxPoints: MaxPointsSchema }).strict(),
+  has_email: z.object({}).strict(),
+  has_phone: z.object({}).strict(),
+  // Negative points for every `everyDays` since the contact last engaged
+  decay: z.object({ everyDays: z.number().int().min(1).max(365) }).strict(),
+};
+
+export interface CreateLeadScoreRuleInput {
+  type: LeadScoreRuleType;
+  points: number;
+  config?: Record<string, unknown>;
+  isEnabled?: boolean;
+}
+
+export type UpdateLeadScoreRuleInput = Partial<Omit<CreateLeadScoreRuleInput, 'type'>>;
+
+/** What the rules look at, loaded in bulk per batch of contacts */
+export interface LeadScoreFacts {
+  tags: string[];
+  hasEmail: boolean;
+  hasPhone: boolean;
+  createdAt: Date;
+  lastInboundAt: Date | null;
+  // Inbound message counts keyed by window in days; 0 is all time
+  inboundCounts: Record<number, number>;
+  completedAppointments: number;
+  dealValueCents: number;
+  lastEngagedAt: Date | null;
+}
+
+export interface LeadScoreBreakdown {
+  ruleId: string;
+  type: LeadScoreRuleType;
+  points: number;
+}
+
+export interface LeadScoreResult {
+  score: number;
+  breakdown: LeadScoreBreakdown[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 500;
+
+const capped = (points: number, maxPoints?: number) =>
+  maxPoints === undefined ? points : Math.sign(points) * Math.min(Math.abs(points), maxPoints);
+
+/**
+ * Applies enabled rules to one contact. Scores never go below zero, so decay can
+ * only take away what engagement earned.
+ */
+export function scoreContact(rules: LeadScoreRule[], facts: LeadScoreFacts, now = new Date()): LeadScoreResult {
+  const breakdown: LeadScoreBreakdown[] = [];
+
+  for (const rule of rules) {
+    if (!rule.isEnabled) continue;
+
+    const config = rule.config as Record<string, any>;
+    let points = 0;
+
+    switch (rule.type) {
+      case 'tag':
+        points = facts.tags.some(tag => tag.toLowerCase() === String(config.tag).toLowerCase()) ? rule.points : 0;
+        break;
+      case 'inbound_recency':
+        points =
+          facts.lastInboundAt && now.getTime() - facts.lastInboundAt.getTime() <= config.withinDays * DAY_MS
+            ? rule.points
+            : 0;
+        break;
+      case 'inbound_count':
+        points = capped(rule.points * (facts.inboundCounts[config.withinDays ?? 0] ?? 0), config.maxPoints);
+        break;
+      case 'appointment_completed':
+        points = capped(rule.points * facts.completedAppointments, config.maxPoints);
+        break;
+      case 'deal_value':
+        points = capped(rule.points * Math.floor(facts.dealValueCents / config.perCents), config.maxPoints);
+        break;
+      case 'has_email':
+        points = facts.hasEmail ? rule.points : 0;
+        break;
+      case 'has_phone':
+        points = facts.hasPhone ? rule.points : 0;
+        break;
+      case 'decay': {
+        const since = facts.lastEngagedAt ?? facts.createdAt;
+        points = rule.points * Math.floor((now.getTime() - since.getTime()) / (config.everyDays * DAY_MS));
+        break;
+      }
+    }
+
+    if (points !== 0) {
+      breakdown.push({ ruleId: rule.id, type: rule.type, points });
+    }
+  }
+
+  const total = breakdown.reduce((sum, item) => sum + item.points, 0);
+  return { score: Math.max(0, total), breakdown };
+}
+
+const latest = (...dates: (Date | null | undefined)[]) =>
+  dates.reduce<Date | null>((max, date) => (date && (!max || date > max) ? date : max), null);
+
+export class LeadScoringService {
+  static async listRules(orgId: string) {
+    return prisma.leadScoreRule.findMany({
+      where: { orgId },
+      orderBy: [{ type: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  static async getRule(orgId: string, id: string) {
+    const rule = await prisma.leadScoreRule.findFirst({ where: { id, orgId } });
+    if (!rule) {
+      throw new NotFoundError('Lead score rule', id);
+    }
+    return rule;
+  }
+
+  static async createRule(orgId: string, input: CreateLeadScoreRuleInput) {
+    const config = this.parseConfig(input.type, input.points, input.config ?? {});
+
+    return prisma.leadScoreRule.create({
+      data: {
+        orgId,
+        type: input.type,
+        points: input.points,
+        config: config as Prisma.InputJsonValue,
+        isEnabled: input.isEnabled,
+      },
+    });
+  }
+
+  static async updateRule(orgId: string, id: string, input: UpdateLeadScoreRuleInput) {
+    const existing = await this.getRule(orgId, id);
+    const points = input.points ?? existing.points;
+    const config = this.parseConfig(existing.type, points, input.config ?? (existing.config as Record<string, unknown>));
+
+    return prisma.leadScoreRule.update({
+      where: { id },
+      data: {
+        points,
+        config: config as Prisma.InputJsonValue,
+        ...(input.isEnabled !== undefined && { isEnabled: input.isEnabled }),
+      },
+    });
+  }
+
+  static async removeRule(orgId: string, id: string) {
+    await this.getRule(orgId, id);
+    await prisma.leadScoreRule.delete({ where: { id } });
+  }
+
+  /**
+   * The contact's score under the current rules with a per-rule breakdown,
+   * without storing it.
+   */
+  static async explain(orgId: string, contactId: string, now = new Date()) {
+    const contact = await prisma.contact.findFirst({
+      where: { id: contactId, orgId },
+      select: { id: true, leadScore: true, leadScoredAt: true },
+    });
+    if (!contact) {
+      throw new NotFoundError('Contact', contactId);
+    }
+
+    const rules = await prisma.leadScoreRule.findMany({ where: { orgId, isEnabled: true } });
+    const facts = await this.loadFacts(orgId, [contactId], rules, now);
+    const result = scoreContact(rules, facts.get(contactId)!, now);
+
+    return { ...result, storedScore: contact.leadScore, scoredAt: contact.leadScoredAt };
+  }
+
+  /**
+   * Rescores the given contacts, or every contact in the org when none are given,
+   * stores changed scores and runs lead score automations for contacts that
+   * crossed a threshold on the way up.
+   */
+  static async recompute(orgId: string, contactIds?: string[], now = new Date()) {
+    const rules = await prisma.leadScoreRule.findMany({ where: { orgId, isEnabled: true } });
+    const counts = { scored: 0, changed: 0, triggered: 0 };
+    let cursor: string | undefined;
+
+    for (;;) {
+      const contacts = await prisma.contact.findMany({
+        where: { orgId, deletedAt: null, ...(contactIds && { id: { in: contactIds } }) },
+        select: { id: true, leadScore: true },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      if (contacts.length === 0) {
+        break;
+      }
+
+      const facts = await this.loadFacts(orgId, contacts.map(contact => contact.id), rules, now);
+      const unchanged: string[] = [];
+
+      for (const contact of contacts) {
+        const { score } = scoreContact(rules, facts.get(contact.id)!, now);
+        counts.scored++;
+
+        if (score === contact.leadScore) {
+          unchanged.push(contact.id);
+          continue;
+        }
+
+        await prisma.contact.update({
+          where: { id: contact.id },
+          data: { leadScore: score, leadScoredAt: now },
+        });
+        counts.changed++;
+        counts.triggered += await this.runTriggers(orgId, contact.id, contact.leadScore, score);
+      }
+
+      if (unchanged.length > 0) {
+        await prisma.contact.updateMany({
+          where: { id: { in: unchanged } },
+          data: { leadScoredAt: now },
+        });
+      }
+
+      cursor = contacts[contacts.length - 1].id;
+    }
+
+    logger.info('Lead scores recomputed', { orgId, ...counts });
+    return counts;
+  }
+
+  /**
+   * Queues a rescore after an event that can change a contact's score. Failures
+   * are logged, never thrown, so scoring cannot break the request that caused it.
+   */
+  static async queueRecompute(orgId: string, contactId: string | null | undefined) {
+    if (!contactId) return;
+    await this.enqueue(orgId, contactId);
+  }
+
+  /** Queues a rescore of every contact in the org, e.g. after its rules changed */
+  static async queueOrgRecompute(orgId: string) {
+    await this.enqueue(orgId);
+  }
+
+  private static async enqueue(orgId: string, contactId?: string) {
+    try {
+      const { enqueueLeadScore } = await import('../workers/enqueue');
+      await enqueueLeadScore({ orgId, contactId });
+    } catch (error) {
+      logger.warn('Failed to queue lead score recompute', {
+        orgId,
+        contactId,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  private static parseConfig(type: LeadScoreRuleType, points: number, config: Record<string, unknown>) {
+    if (type === 'decay' && points >= 0) {
+      throw new ValidationError('Decay rules must have negative points');
+    }
+
+    const parsed = LEAD_SCORE_RULE_CONFIG[type].safeParse(config);
+    if (!parsed.success) {
+      throw new ValidationError(`Invalid config for '${type}' rule`, parsed.error.flatten());
+    }
+    return parsed.data;
+  }
+
+  private static async loadFacts(orgId: string, contactIds: string[], rules: LeadScoreRule[], now: Date) {
+    const windows = Array.from(
+      new Set(rules.filter(rule => rule.type === 'inbound_count').map(rule => (rule.config as any).withinDays ?? 0))
+    ) as number[];
+
+    const inbound = { orgId, contactId: { in: contactIds }, direction: 'inbound' as const };
+
+    const [contacts, messages, windowCounts, activities, appointments, deals] = await Promise.all([
+      prisma.contact.findMany({
+        where: { id: { in: contactIds } },
+        select: { id: true, tags: true, email: true, phone: true, createdAt: true },
+      }),
+      prisma.message.groupBy({
+        by: ['contactId'],
+        where: inbound,
+        _max: { createdAt: true },
+        _count: { _all: true },
+      }),
+      Promise.all(
+        windows.filter(days => days > 0).map(async days => ({
+          days,
+          rows: await prisma.message.groupBy({
+            by: ['contactId'],
+            where: { ...inbound, createdAt: { gte: new Date(now.getTime() - days * DAY_MS) } },
+            _count: { _all: true },
+          }),
+        }))
+      ),
+      prisma.activity.groupBy({
+        by: ['contactId'],
+        where: { orgId, contactId: { in: contactIds }, deletedAt: null },
+        _max: { createdAt: true },
+      }),
+      prisma.appointment.groupBy({
+        by: ['contactId'],
+        where: { orgId, contactId: { in: contactIds }, status: 'completed', deletedAt: null },
+        _max: { startsAt: true },
+        _count: { _all: true },
+      }),
+      prisma.deal.groupBy({
+        by: ['contactId'],
+        where: { orgId, contactId: { in: contactIds }, deletedAt: null, stage: { type: { not: 'lost' } } },
+        _sum: { valueCents: true },
+      }),
+    ]);
+
+    const byContact = <T extends { contactId: string | null }>(rows: T[]) =>
+      new Map(rows.map(row => [row.contactId, row]));
+
+    const messageRows = byContact(messages);
+    const activityRows = byContact(activities);
+    const appointmentRows = byContact(appointments);
+    const dealRows = byContact(deals);
+    const windowRows = windowCounts.map(({ days, rows }) => ({ days, rows: byContact(rows) }));
+
+    const facts = new Map<string, LeadScoreFacts>();
+    for (const contact of contacts) {
+      const message = messageRows.get(contact.id);
+      const appointment = appointmentRows.get(contact.id);
+      const lastInboundAt = message?._max.createdAt ?? null;
+      const lastAppointmentAt = appointment?._max.startsAt ?? null;
+
+      const inboundCounts: Record<number, number> = { 0: message?._count._all ?? 0 };
+      for (const { days, rows } of windowRows) {
+        inboundCounts[days] = rows.get(contact.id)?._count._all ?? 0;
+      }
+
+      facts.set(contact.id, {
+        tags: contact.tags,
+        hasEmail: Boolean(contact.email),
+        hasPhone: Boolean(contact.phone),
+        createdAt: contact.createdAt,
+        lastInboundAt,
+        inboundCounts,
+        completedAppointments: appointment?._count._all ?? 0,
+        dealValueCents: dealRows.get(contact.id)?._sum.valueCents ?? 0,
+        lastEngagedAt: latest(lastInboundAt, activityRows.get(contact.id)?._max.createdAt, lastAppointmentAt),
+      });
+    }
+
+    return facts;
+  }
+
+  /**
+   * Queues every enabled `lead_score_reached` automation whose threshold lies in
+   * (previous, score]. The automation's type picks the queue, as in /automations/run.
+   */
+  private static async runTriggers(orgId: string, contactId: string, previous: number, score: number) {
+    if (score <= previous) {
+      return 0;
+    }
+
+    const automations = await prisma.automation.findMany({
+      where: { orgId, isEnabled: true, config: { path: ['trigger'], equals: LEAD_SCORE_TRIGGER } },
+    });
+    const crossed = automations.filter(automation => {
+      const threshold = Number((automation.config as any)?.threshold);
+      return Number.isFinite(threshold) && previous < threshold && score >= threshold;
+    });
+    if (crossed.length === 0) {
+      return 0;
+    }
+
+    const { enqueueReminder, enqueueNurture, enqueueDunning } = await import('../workers/enqueue');
+    const queues: Partial<Record<string, typeof enqueueReminder>> = {
+      booking: enqueueReminder,
+      reminder: enqueueReminder,
+      review: enqueueNurture,
+      nurture: enqueueNurture,
+      dunning: enqueueDunning,
+    };
+
+    let queued = 0;
+    for (const automation of crossed) {
+      const enqueue = queues[automation.type];
+      if (!enqueue) {
+        logger.warn('Lead score trigger on unsupported automation type', { orgId, automationId: automation.id, type: automation.type });
+        continue;
+      }
+
+      await enqueue({
+        orgId,
+        contactId,
+        payload: { ...(automation.config as any)?.payload, automationId: automation.id, trigger: LEAD_SCORE_TRIGGER, score },
+      });
+      queued++;
+    }
+
+    logger.info('Lead score automations queued', { orgId, contactId, previous, score, queued });
+    return queued;
+  }
+}
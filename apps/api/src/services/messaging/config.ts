@@ -0,0 +1,31 @@
+import os from 'os';
+import path from 'path';
+
+/**
+ * Every messaging environment variable, read in one place. Read on each call
+ * so tests and scripts can change the environment after import. The older
+ * TWILIO_PHONE_NUMBER and SENDGRID_FROM_EMAIL names are still accepted.
+ */
+export function messagingConfig() {
+  const env = process.env;
+
+  return {
+    // Sends from every organization go to the sandbox, whatever provider it picked
+    forceSandbox: env.MESSAGING_SANDBOX === 'true',
+    defaultSmsProvider: env.SMS_PROVIDER || null,
+    defaultEmailProvider: env.EMAIL_PROVIDER || null,
+    sandboxDir: env.MESSAGING_SANDBOX_DIR || path.join(os.tmpdir(), 'clientflow-outbox'),
+    twilio: {
+      accountSid: env.TWILIO_ACCOUNT_SID || null,
+      authToken: env.TWILIO_AUTH_TOKEN || null,
+      from: env.TWILIO_FROM || env.TWILIO_PHONE_NUMBER || '+15555551234',
+      statusCallbackUrl: env.TWILIO_STATUS_CALLBACK_URL || null,
+    },
+    sendGrid: {
+      apiKey: env.SENDGRID_API_KEY || null,
+      from: env.SENDGRID_FROM || env.SENDGRID_FROM_EMAIL || 'noreply@clientflow.ai',
+      // Verification key for signed event webhooks
+      publicKey: env.SENDGRID_PUBLIC_KEY || null,
+    },
+  };
+}
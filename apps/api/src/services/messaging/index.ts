@@ -0,0 +1,162 @@
+import { prisma } from '../../lib/prisma';
+import logger from '../../middleware/logger';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { messagingConfig } from './config';
+import { sandboxProvider } from './sandbox';
+import { sendGridEmailProvider } from './sendgrid';
+import { twilioSmsProvider } from './twilio';
+import { EmailProvider, MessagingChannel, SendEmailOptions, SendResult, SendSmsOptions, SmsProvider } from './types';
+
+export * from './types';
+export { messagingConfig } from './config';
+export { readSandboxOutbox } from './sandbox';
+export type { SandboxRecord } from './sandbox';
+export { verifySendGridSignature } from './sendgrid';
+export { parseTwilioWebhook, verifyTwilioSignature } from './twilio';
+export type { TwilioWebhookPayload } from './twilio';
+
+export interface ProviderOption {
+  id: string;
+  name: string;
+  configured: boolean;
+}
+
+export interface ChannelProviderSettings {
+  // The organization's own pick; null follows the default
+  provider: string | null;
+  // What sends on the channel use right now
+  active: string;
+  available: ProviderOption[];
+}
+
+export interface MessagingSettings {
+  // MESSAGING_SANDBOX is on, so every send is recorded locally
+  sandboxForced: boolean;
+  sms: ChannelProviderSettings;
+  email: ChannelProviderSettings;
+}
+
+export interface MessagingSettingsInput {
+  smsProvider?: string | null;
+  emailProvider?: string | null;
+}
+
+const smsProviders = new Map<string, SmsProvider>();
+const emailProviders = new Map<string, EmailProvider>();
+
+const providersFor = (channel: MessagingChannel): Map<string, SmsProvider | EmailProvider> =>
+  channel === 'sms' ? smsProviders : emailProviders;
+
+export function registerSmsProvider(provider: SmsProvider) {
+  smsProviders.set(provider.id, provider);
+}
+
+export function registerEmailProvider(provider: EmailProvider) {
+  emailProviders.set(provider.id, provider);
+}
+
+registerSmsProvider(twilioSmsProvider);
+registerSmsProvider(sandboxProvider);
+registerEmailProvider(sendGridEmailProvider);
+registerEmailProvider(sandboxProvider);
+
+/**
+ * The provider for organizations that have not picked one: SMS_PROVIDER or
+ * EMAIL_PROVIDER when set, else Twilio or SendGrid once their credentials are
+ * present, else the sandbox.
+ */
+function defaultProviderId(channel: MessagingChannel) {
+  const config = messagingConfig();
+  const providers = providersFor(channel);
+  const configured = channel === 'sms' ? config.defaultSmsProvider : config.defaultEmailProvider;
+
+  if (configured && providers.has(configured)) return configured;
+  if (configured) {
+    logger.warn('Unknown default messaging provider, ignoring it', { channel, provider: configured });
+  }
+
+  const preferred = channel === 'sms' ? twilioSmsProvider : sendGridEmailProvider;
+  return preferred.isConfigured() ? preferred.id : sandboxProvider.id;
+}
+
+function activeProviderId(channel: MessagingChannel, chosen: string | null) {
+  if (messagingConfig().forceSandbox) return sandboxProvider.id;
+  return chosen && providersFor(channel).has(chosen) ? chosen : defaultProviderId(channel);
+}
+
+async function organizationProviders(orgId: string) {
+  const org = await prisma.organization.findUnique({
+    where: { id: orgId },
+    select: { smsProvider: true, emailProvider: true },
+  });
+
+  if (!org) {
+    throw new NotFoundError('Organization', orgId);
+  }
+
+  return org;
+}
+
+/** Sends an SMS through the organization's provider. Consent is the caller's to check. */
+export async function sendSms(options: SendSmsOptions): Promise<SendResult> {
+  const smsProvider = options.orgId ? (await organizationProviders(options.orgId)).smsProvider : null;
+  return smsProviders.get(activeProviderId('sms', smsProvider))!.sendSms(options);
+}
+
+/** Sends an email through the organization's provider. Consent is the caller's to check. */
+export async function sendEmail(options: SendEmailOptions): Promise<SendResult> {
+  const { emailProvider } = await organizationProviders(options.orgId);
+  return emailProviders.get(activeProviderId('email', emailProvider))!.sendEmail(options);
+}
+
+export class MessagingService {
+  static async getSettings(orgId: string): Promise<MessagingSettings> {
+    const org = await organizationProviders(orgId);
+
+    return {
+      sandboxForced: messagingConfig().forceSandbox,
+      sms: this.channelSettings('sms', org.smsProvider),
+      email: this.channelSettings('email', org.emailProvider),
+    };
+  }
+
+  /** Null for a channel goes back to the default provider */
+  static async updateSettings(orgId: string, input: MessagingSettingsInput) {
+    await organizationProviders(orgId);
+
+    for (const [channel, field] of [['sms', 'smsProvider'], ['email', 'emailProvider']] as const) {
+      const id = input[field];
+      if (!id) continue;
+
+      const provider = providersFor(channel).get(id);
+      if (!provider) {
+        throw new ValidationError(`Unknown ${channel} provider '${id}'`, { field });
+      }
+      if (!provider.isConfigured()) {
+        throw new ValidationError(`${provider.name} is not configured on this server`, { field });
+      }
+    }
+
+    await prisma.organization.update({
+      where: { id: orgId },
+      data: {
+        ...(input.smsProvider !== undefined && { smsProvider: input.smsProvider }),
+        ...(input.emailProvider !== undefined && { emailProvider: input.emailProvider }),
+      },
+    });
+
+    return this.getSettings(orgId);
+  }
+
+  private static channelSettings(channel: MessagingChannel, chosen: string | null): ChannelProviderSettings {
+    return {
+      provider: chosen,
+      active: activeProviderId(channel, chosen),
+      available: [...providersFor(channel).values()].map(provider => ({
+        id: provider.id,
+        name: provider.name,
+        configured: provider.isConfigured(),
+      })),
+    };
+  }
+}
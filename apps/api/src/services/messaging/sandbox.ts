@@ -0,0 +1,90 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import logger from '../../middleware/logger';
+import { messagingConfig } from './config';
+import { EmailProvider, MessagingChannel, SendEmailOptions, SendSmsOptions, SendResult, SmsProvider } from './types';
+
+export interface SandboxRecord {
+  messageId: string;
+  channel: MessagingChannel;
+  orgId: string | null;
+  to: string;
+  from: string;
+  subject?: string;
+  body: string;
+  text?: string;
+  attachments?: string[];
+  sentAt: string;
+}
+
+const outboxFile = (channel: MessagingChannel) => path.join(messagingConfig().sandboxDir, `${channel}.jsonl`);
+
+// Appends to a JSON-lines outbox per channel and logs the send. A failed write
+// is only logged, so a read-only disk never fails a send.
+async function record(entry: Omit<SandboxRecord, 'messageId' | 'sentAt'>): Promise<SendResult> {
+  const sent: SandboxRecord = { messageId: `sandbox_${randomUUID()}`, ...entry, sentAt: new Date().toISOString() };
+  const file = outboxFile(entry.channel);
+
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.appendFile(file, `${JSON.stringify(sent)}\n`);
+  } catch (error) {
+    logger.warn('Failed to write sandbox outbox', { file, error });
+  }
+
+  logger.info('Sandbox message recorded, nothing was sent', {
+    orgId: entry.orgId,
+    channel: entry.channel,
+    messageId: sent.messageId,
+    to: entry.to,
+    ...(entry.subject && { subject: entry.subject }),
+    file,
+  });
+
+  return { success: true, provider: 'sandbox', messageId: sent.messageId, from: entry.from, sandbox: true };
+}
+
+/** Records sends to disk instead of delivering them, for development and tests */
+export const sandboxProvider: SmsProvider & EmailProvider = {
+  id: 'sandbox',
+  name: 'Sandbox (local outbox)',
+
+  isConfigured() {
+    return true;
+  },
+
+  sendSms({ orgId, to, body, from }: SendSmsOptions) {
+    return record({ channel: 'sms', orgId, to, from: from || messagingConfig().twilio.from, body });
+  },
+
+  sendEmail({ orgId, to, subject, html, text, from, attachments }: SendEmailOptions) {
+    return record({
+      channel: 'email',
+      orgId,
+      to,
+      from: from || messagingConfig().sendGrid.from,
+      subject,
+      body: html,
+      ...(text && { text }),
+      ...(attachments?.length && { attachments: attachments.map(attachment => attachment.filename) }),
+    });
+  },
+};
+
+/** Sandbox sends on a channel, oldest first; empty before the first one */
+export async function readSandboxOutbox(channel: MessagingChannel, orgId?: string): Promise<SandboxRecord[]> {
+  let contents: string;
+  try {
+    contents = await fs.readFile(outboxFile(channel), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  return contents
+    .split('\n')
+    .filter(Boolean)
+    .map(line => JSON.parse(line) as SandboxRecord)
+    .filter(entry => !orgId || entry.orgId === orgId);
+}
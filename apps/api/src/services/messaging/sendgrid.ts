@@ -0,0 +1,67 @@
+import crypto from 'crypto';
+import sgMail from '@sendgrid/mail';
+import logger from '../../middleware/logger';
+import { messagingConfig } from './config';
+import { EmailProvider, SendEmailOptions, SendResult } from './types';
+
+export const sendGridEmailProvider: EmailProvider = {
+  id: 'sendgrid',
+  name: 'SendGrid',
+
+  isConfigured() {
+    return Boolean(messagingConfig().sendGrid.apiKey);
+  },
+
+  async sendEmail({ orgId, to, subject, html, text, from, attachments }: SendEmailOptions): Promise<SendResult> {
+    const { sendGrid: config } = messagingConfig();
+    const fromEmail = from || config.from;
+
+    if (!config.apiKey) {
+      return { success: false, provider: 'sendgrid', from: fromEmail, error: 'SendGrid API key is not configured' };
+    }
+
+    try {
+      sgMail.setApiKey(config.apiKey);
+      const [response] = await sgMail.send({
+        to,
+        from: fromEmail,
+        subject,
+        html,
+        ...(text && { text }),
+        ...(attachments?.length && {
+          attachments: attachments.map(attachment => ({ ...attachment, disposition: 'attachment' })),
+        }),
+        customArgs: { orgId },
+      });
+      const messageId = response.headers['x-message-id'];
+
+      logger.info('Email sent', { orgId, provider: 'sendgrid', messageId });
+      return { success: true, provider: 'sendgrid', messageId, from: fromEmail };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to send email', { orgId, provider: 'sendgrid', error: message });
+      return { success: false, provider: 'sendgrid', from: fromEmail, error: message };
+    }
+  },
+};
+
+/**
+ * Checks a signed event webhook against SENDGRID_PUBLIC_KEY. Fails without the
+ * key, since the events change delivery status and suppress addresses.
+ */
+export function verifySendGridSignature(payload: string, signature: string, timestamp: string) {
+  const { sendGrid: config } = messagingConfig();
+
+  if (!config.publicKey || !signature || !timestamp) {
+    logger.error('SendGrid webhook signature could not be verified', { publicKey: Boolean(config.publicKey) });
+    return false;
+  }
+
+  try {
+    const key = crypto.createPublicKey({ key: Buffer.from(config.publicKey, 'base64'), format: 'der', type: 'spki' });
+    return crypto.createVerify('sha256').update(timestamp + payload).verify(key, signature, 'base64');
+  } catch (error) {
+    logger.error('Failed to verify SendGrid webhook signature', { error });
+    return false;
+  }
+}
@@ -0,0 +1,84 @@
+import twilio from 'twilio';
+import logger from '../../middleware/logger';
+import { messagingConfig } from './config';
+import { SendSmsOptions, SendResult, SmsProvider } from './types';
+
+export interface TwilioWebhookPayload {
+  MessageSid: string;
+  From: string;
+  To: string;
+  Body: string;
+  MessageStatus?: string;
+  SmsStatus?: string;
+  ErrorCode?: string;
+  ErrorMessage?: string;
+}
+
+export const twilioSmsProvider: SmsProvider = {
+  id: 'twilio',
+  name: 'Twilio',
+
+  isConfigured() {
+    const { twilio: config } = messagingConfig();
+    return Boolean(config.accountSid && config.authToken);
+  },
+
+  async sendSms({ orgId, to, body, from }: SendSmsOptions): Promise<SendResult> {
+    const { twilio: config } = messagingConfig();
+    const fromNumber = from || config.from;
+
+    if (!config.accountSid || !config.authToken) {
+      return { success: false, provider: 'twilio', from: fromNumber, error: 'Twilio credentials are not configured' };
+    }
+
+    try {
+      const client = twilio(config.accountSid, config.authToken);
+      const message = await client.messages.create({
+        to,
+        from: fromNumber,
+        body,
+        // Delivery updates go to /api/webhooks/twilio-status
+        ...(config.statusCallbackUrl && { statusCallback: config.statusCallbackUrl }),
+      });
+
+      logger.info('SMS sent', { orgId, provider: 'twilio', messageId: message.sid });
+      return { success: true, provider: 'twilio', messageId: message.sid, from: fromNumber };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to send SMS', { orgId, provider: 'twilio', error: message });
+      return { success: false, provider: 'twilio', from: fromNumber, error: message };
+    }
+  },
+};
+
+/** Checks the X-Twilio-Signature header. Fails when Twilio is not configured, as unsigned callbacks cannot be trusted. */
+export function verifyTwilioSignature(signature: string, url: string, params: Record<string, string>) {
+  const { twilio: config } = messagingConfig();
+
+  if (!config.authToken || !signature) {
+    logger.error('Twilio webhook signature could not be verified', { authToken: Boolean(config.authToken) });
+    return false;
+  }
+
+  try {
+    return twilio.validateRequest(config.authToken, signature, url, params);
+  } catch (error) {
+    logger.error('Failed to verify Twilio webhook signature', { error });
+    return false;
+  }
+}
+
+export function parseTwilioWebhook(body: Record<string, any>): TwilioWebhookPayload | null {
+  if (!body?.MessageSid || !body.From) return null;
+
+  return {
+    MessageSid: body.MessageSid,
+    From: body.From,
+    To: body.To,
+    Body: body.Body ?? '',
+    MessageStatus: body.MessageStatus,
+    SmsStatus: body.SmsStatus,
+    ErrorCode: body.ErrorCode,
+    ErrorMessage: body.ErrorMessage,
+  };
+}
@@ -0,0 +1,54 @@
+export type MessagingChannel = 'sms' | 'email';
+
+export interface SendSmsOptions {
+  // Null for senders outside any organization, which use the default provider
+  orgId: string | null;
+  to: string;
+  body: string;
+  from?: string;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  // Base64-encoded file body
+  content: string;
+  type: string;
+}
+
+export interface SendEmailOptions {
+  orgId: string;
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  from?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface SendResult {
+  success: boolean;
+  // The provider that handled the send, e.g. twilio or sandbox
+  provider: string;
+  messageId?: string;
+  // The sender address actually used, after provider defaults
+  from?: string;
+  error?: string;
+  // Nothing left the machine
+  sandbox?: boolean;
+}
+
+interface MessagingProvider {
+  // Stored on the organization, e.g. twilio
+  id: string;
+  name: string;
+  // Whether the credentials it needs are present
+  isConfigured(): boolean;
+}
+
+export interface SmsProvider extends MessagingProvider {
+  sendSms(options: SendSmsOptions): Promise<SendResult>;
+}
+
+export interface EmailProvider extends MessagingProvider {
+  sendEmail(options: SendEmailOptions): Promise<SendResult>;
+}
@@ -1,5 +1,6 @@
 import { prisma } from '../lib/prisma';
 import logger from '../middleware/logger';
+import { FxService } from './fx';
 
 export interface DailyMetrics {
   date: Date;
@@ -7,6 +8,7 @@ export interface DailyMetrics {
   leads: number;
   dealsWon: number;
   revenueCents: number;
+  revenueByCurrency: Record<string, number>;
   showRate: number;
 }
 
@@ -29,6 +31,7 @@ export class MetricsService {
       const leads = await prisma.contact.count({
         where: {
           orgId,
+          deletedAt: null,
           createdAt: {
             gte: startOfDay,
             lte: endOfDay,
@@ -36,39 +39,36 @@ export class MetricsService {
         },
       });
 
-      // Count deals won today
-      const dealsWon = await prisma.deal.count({
+      // Deals won today
+      const wonDeals = await prisma.deal.findMany({
         where: {
           orgId,
-          stage: 'won',
-          updatedAt: {
+          deletedAt: null,
+          stage: { type: 'won' },
+          closedAt: {
             gte: startOfDay,
             lte: endOfDay,
           },
         },
-      });
-
-      // Calculate revenue from deals won today
-      const revenueResult = await prisma.deal.aggregate({
-        where: {
-          orgId,
-          stage: 'won',
-          updatedAt: {
-            gte: startOfDay,
-            lte: endOfDay,
-          },
-        },
-        _sum: {
+        select: {
           valueCents: true,
+          currency: true,
+          closedAt: true,
         },
       });
 
-      const revenueCents = revenueResult._sum.valueCents || 0;
+      const dealsWon = wonDeals.length;
+
+      // Revenue in the base currency at each deal's won-date rate
+      const revenue = await FxService.sumRevenue(orgId, wonDeals);
+      const revenueCents = revenue.revenueCents;
+      const revenueByCurrency = revenue.byCurrency;
 
       // Calculate show rate (appointments completed vs total scheduled)
       const totalAppointments = await prisma.appointment.count({
         where: {
           orgId,
+          deletedAt: null,
           startsAt: {
             gte: startOfDay,
             lte: endOfDay,
@@ -79,6 +79,7 @@ export class MetricsService {
       const completedAppointments = await prisma.appointment.count({
         where: {
           orgId,
+          deletedAt: null,
           startsAt: {
             gte: startOfDay,
             lte: endOfDay,
@@ -95,6 +96,7 @@ export class MetricsService {
         leads,
         dealsWon,
         revenueCents,
+        revenueByCurrency,
         showRate,
       };
 
@@ -116,6 +118,7 @@ export class MetricsService {
         leads,
         dealsWon,
         revenueCents,
+        revenueByCurrency,
         showRate,
       });
 
@@ -166,12 +169,24 @@ export class MetricsService {
 
   static async getMetricsSummary(orgId: string, from: Date, to: Date) {
     try {
-      const metrics = await this.getDailyMetrics({ orgId, from, to });
+      const [metrics, currency] = await Promise.all([
+        this.getDailyMetrics({ orgId, from, to }),
+        FxService.getBaseCurrency(orgId),
+      ]);
+
+      const revenueByCurrency: Record<string, number> = {};
+      for (const metric of metrics) {
+        for (const [code, cents] of Object.entries(metric.revenueByCurrency as Record<string, number>)) {
+          revenueByCurrency[code] = (revenueByCurrency[code] || 0) + cents;
+        }
+      }
 
       const summary = {
         totalLeads: metrics.reduce((sum, m) => sum + m.leads, 0),
         totalDealsWon: metrics.reduce((sum, m) => sum + m.dealsWon, 0),
+        currency,
         totalRevenueCents: metrics.reduce((sum, m) => sum + m.revenueCents, 0),
+        revenueByCurrency,
         averageShowRate: metrics.length > 0 
           ? metrics.reduce((sum, m) => sum + Number(m.showRate), 0) / metrics.length 
           : 0,
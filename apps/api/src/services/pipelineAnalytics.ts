@@ -0,0 +1,233 @@
+import { PipelineStage, PipelineStageType } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { FxConverter, FxService } from './fx';
+import { NotFoundError } from '../utils/errors';
+
+export interface PipelineAnalyticsQuery {
+  orgId: string;
+  pipelineId?: string;
+  ownerId?: string;
+  from: Date;
+  to: Date;
+}
+
+interface AnalyzedDeal {
+  id: string;
+  stageId: string;
+  ownerId: string | null;
+  valueCents: number;
+  currency: string;
+  createdAt: Date;
+  closedAt: Date | null;
+  stage: { type: PipelineStageType };
+  stageChanges: { fromStageId: string | null; toStageId: string; changedAt: Date }[];
+}
+
+interface StageVisit {
+  stageId: string;
+  enteredAt: Date;
+  exitedAt: Date | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDays = (ms: number) => Math.round((ms / DAY_MS) * 10) / 10;
+
+const ratio = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 1000 : 0);
+
+/**
+ * Rebuilds the stages a deal sat in from its transitions. Deals created before
+ * history was recorded have no entry row, so they are treated as entering their
+ * first known stage at creation.
+ */
+function stageVisits(deal: AnalyzedDeal): StageVisit[] {
+  const changes = deal.stageChanges;
+
+  if (changes.length === 0) {
+    return [{ stageId: deal.stageId, enteredAt: deal.createdAt, exitedAt: null }];
+  }
+
+  const visits: StageVisit[] = [];
+  if (changes[0].fromStageId) {
+    visits.push({ stageId: changes[0].fromStageId, enteredAt: deal.createdAt, exitedAt: changes[0].changedAt });
+  }
+
+  changes.forEach((change, index) => {
+    visits.push({
+      stageId: change.toStageId,
+      enteredAt: change.changedAt,
+      exitedAt: changes[index + 1]?.changedAt ?? null,
+    });
+  });
+
+  return visits;
+}
+
+/**
+ * Stage stats, funnel conversion and sales velocity for a set of deals in one
+ * pipeline. A deal counts as having reached every non-lost stage up to the
+ * furthest one it visited, so skipped stages still convert. Won values are
+ * converted to the base currency at the rate effective when each deal was won.
+ */
+function summarize(stages: PipelineStage[], deals: AnalyzedDeal[], fx: FxConverter) {
+  const stageById = new Map(stages.map(stage => [stage.id, stage]));
+  const funnel = stages.filter(stage => stage.type !== 'lost');
+
+  const stats = new Map(stages.map(stage => [stage.id, { entered: new Set<string>(), durations: [] as number[] }]));
+  const furthest = new Map<string, number>();
+
+  for (const deal of deals) {
+    for (const visit of stageVisits(deal)) {
+      const stage = stageById.get(visit.stageId);
+      const stat = stats.get(visit.stageId);
+      // Visits to deleted stages or another pipeline's stages are skipped
+      if (!stage || !stat) continue;
+
+      stat.entered.add(deal.id);
+      if (visit.exitedAt) {
+        stat.durations.push(visit.exitedAt.getTime() - visit.enteredAt.getTime());
+      }
+
+      if (stage.type !== 'lost') {
+        furthest.set(deal.id, Math.max(furthest.get(deal.id) ?? -1, stage.position));
+      }
+    }
+  }
+
+  const reached = (stage: PipelineStage) =>
+    Array.from(furthest.values()).filter(position => position >= stage.position).length;
+
+  const stageStats = stages.map(stage => {
+    const stat = stats.get(stage.id)!;
+    const total = stat.durations.reduce((sum, duration) => sum + duration, 0);
+    return {
+      stageId: stage.id,
+      name: stage.name,
+      type: stage.type,
+      position: stage.position,
+      entered: stat.entered.size,
+      current: deals.filter(deal => deal.stageId === stage.id).length,
+      averageDays: stat.durations.length > 0 ? toDays(total / stat.durations.length) : null,
+    };
+  });
+
+  const conversions = funnel.slice(0, -1).map((stage, index) => {
+    const next = funnel[index + 1];
+    const from = reached(stage);
+    const to = reached(next);
+    return {
+      fromStageId: stage.id,
+      fromStage: stage.name,
+      toStageId: next.id,
+      toStage: next.name,
+      reached: from,
+      converted: to,
+      rate: ratio(to, from),
+    };
+  });
+
+  const won = deals.filter(deal => deal.stage.type === 'won' && deal.closedAt);
+  const lost = deals.filter(deal => deal.stage.type === 'lost');
+  const winRate = ratio(won.length, won.length + lost.length);
+  const wonValue = fx.sumRevenue(won);
+  // Deals without a rate for their won date are left out of the average
+  const converted = won.filter(deal => fx.rateOn(deal.currency, deal.closedAt!) !== null).length;
+  const averageDealCents = converted > 0 ? Math.round(wonValue.revenueCents / converted) : 0;
+  const salesCycleDays = won.length > 0
+    ? toDays(won.reduce((sum, deal) => sum + (deal.closedAt!.getTime() - deal.createdAt.getTime()), 0) / won.length)
+    : 0;
+
+  return {
+    deals: deals.length,
+    stages: stageStats,
+    conversions,
+    // Sales velocity: opportunities x average won value x win rate / average days to win
+    velocity: {
+      opportunities: deals.length,
+      won: won.length,
+      lost: lost.length,
+      winRate,
+      wonValueCents: wonValue.revenueCents,
+      wonValueByCurrency: wonValue.byCurrency,
+      averageDealCents,
+      salesCycleDays,
+      centsPerDay: salesCycleDays > 0 ? Math.round((deals.length * averageDealCents * winRate) / salesCycleDays) : 0,
+    },
+  };
+}
+
+export class PipelineAnalyticsService {
+  /**
+   * Conversion, time-in-stage and velocity for deals created in the window,
+   * per pipeline and, within each pipeline, per deal owner.
+   */
+  static async getStageAnalytics({ orgId, pipelineId, ownerId, from, to }: PipelineAnalyticsQuery) {
+    const pipelines = await prisma.pipeline.findMany({
+      where: { orgId, ...(pipelineId && { id: pipelineId }) },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+      include: { stages: { orderBy: { position: 'asc' } } },
+    });
+
+    if (pipelineId && pipelines.length === 0) {
+      throw new NotFoundError('Pipeline', pipelineId);
+    }
+
+    const deals = await prisma.deal.findMany({
+      where: {
+        orgId,
+        deletedAt: null,
+        pipelineId: { in: pipelines.map(pipeline => pipeline.id) },
+        createdAt: { gte: from, lte: to },
+        ...(ownerId && { ownerId }),
+      },
+      select: {
+        id: true,
+        pipelineId: true,
+        stageId: true,
+        ownerId: true,
+        valueCents: true,
+        currency: true,
+        createdAt: true,
+        closedAt: true,
+        stage: { select: { type: true } },
+        stageChanges: {
+          orderBy: { changedAt: 'asc' },
+          select: { fromStageId: true, toStageId: true, changedAt: true },
+        },
+      },
+    });
+
+    const ownerIds = Array.from(new Set(deals.map(deal => deal.ownerId).filter((id): id is string => Boolean(id))));
+    const owners = await prisma.user.findMany({
+      where: { id: { in: ownerIds } },
+      select: { id: true, name: true, email: true },
+    });
+    const ownerById = new Map(owners.map(owner => [owner.id, owner]));
+
+    const fx = await FxService.converter(orgId, deals.map(deal => deal.currency));
+
+    return {
+      period: { from, to },
+      currency: fx.baseCurrency,
+      pipelines: pipelines.map(pipeline => {
+        const pipelineDeals = deals.filter(deal => deal.pipelineId === pipeline.id);
+
+        const byOwner = new Map<string | null, AnalyzedDeal[]>();
+        for (const deal of pipelineDeals) {
+          byOwner.set(deal.ownerId, [...(byOwner.get(deal.ownerId) || []), deal]);
+        }
+
+        return {
+          pipelineId: pipeline.id,
+          name: pipeline.name,
+          ...summarize(pipeline.stages, pipelineDeals, fx),
+          owners: Array.from(byOwner.entries()).map(([id, ownerDeals]) => ({
+            ownerId: id,
+            owner: id ? ownerById.get(id) ?? null : null,
+            ...summarize(pipeline.stages, ownerDeals, fx),
+          })),
+        };
+      }),
+    };
+  }
+}
@@ -0,0 +1,415 @@
+import { Pipeline, PipelineStage, PipelineStageType, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { DealStageHistoryService } from './dealStageHistory';
+import { BusinessLogicError, ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+export interface StageInput {
+  name: string;
+  type?: PipelineStageType;
+  probability?: number;
+  color?: string | null;
+}
+
+export interface CreatePipelineInput {
+  name: string;
+  isDefault?: boolean;
+  position?: number;
+  stages?: StageInput[];
+}
+
+export type UpdatePipelineInput = Partial<Pick<CreatePipelineInput, 'name' | 'isDefault' | 'position'>>;
+
+export type UpdateStageInput = Partial<StageInput>;
+
+export type PipelineWithStages = Pipeline & { stages: PipelineStage[] };
+
+// Stage fields a deal takes on when it is created in or moved to a stage
+export interface StagePlacement {
+  pipelineId: string;
+  stageId: string;
+  probability: number;
+  closedAt: Date | null;
+}
+
+export const DEFAULT_PIPELINE_NAME = 'Sales';
+
+// Mirrors the stages deals had before pipelines were configurable
+export const DEFAULT_PIPELINE_STAGES: StageInput[] = [
+  { name: 'Lead', type: 'open', probability: 10, color: 'bg-gray-100' },
+  { name: 'Qualified', type: 'open', probability: 25, color: 'bg-blue-100' },
+  { name: 'Proposal', type: 'open', probability: 50, color: 'bg-yellow-100' },
+  { name: 'Won', type: 'won', probability: 100, color: 'bg-green-100' },
+  { name: 'Lost', type: 'lost', probability: 0, color: 'bg-red-100' },
+];
+
+const STAGE_ORDER = { orderBy: { position: 'asc' as const } };
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+/**
+ * Every pipeline needs somewhere for deals to live while open and somewhere to
+ * land when they are won or lost; board columns and revenue metrics rely on it.
+ */
+function assertStageTypes(types: PipelineStageType[]) {
+  const missing = (['open', 'won', 'lost'] as const).filter(type => !types.includes(type));
+  if (missing.length > 0) {
+    throw new ValidationError(`A pipeline needs at least one ${missing.join(', ')} stage`);
+  }
+}
+
+function assertUniqueNames(stages: { name: string }[]) {
+  const names = stages.map(stage => stage.name.trim().toLowerCase());
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new ValidationError(`Stage '${duplicate}' appears more than once`);
+  }
+}
+
+export function stagePlacement(
+  stage: PipelineStage,
+  current?: { stageId: string; closedAt: Date | null },
+  probability?: number
+): StagePlacement {
+  const unchanged = current?.stageId === stage.id;
+
+  return {
+    pipelineId: stage.pipelineId,
+    stageId: stage.id,
+    probability: probability ?? stage.probability,
+    // Keep the original close date when a closed deal is saved without moving
+    closedAt: stage.type === 'open' ? null : unchanged && current?.closedAt ? current.closedAt : new Date(),
+  };
+}
+
+export class PipelineService {
+  static async list(orgId: string): Promise<PipelineWithStages[]> {
+    await this.ensureDefault(orgId);
+
+    return prisma.pipeline.findMany({
+      where: { orgId },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+      include: { stages: STAGE_ORDER },
+    });
+  }
+
+  static async get(orgId: string, id: string): Promise<PipelineWithStages> {
+    const pipeline = await prisma.pipeline.findFirst({
+      where: { id, orgId },
+      include: { stages: STAGE_ORDER },
+    });
+
+    if (!pipeline) {
+      throw new NotFoundError('Pipeline', id);
+    }
+
+    return pipeline;
+  }
+
+  /**
+   * Creates the standard sales pipeline for orgs that have none yet, so deals
+   * always have a pipeline to land in.
+   */
+  static async ensureDefault(orgId: string): Promise<PipelineWithStages> {
+    const existing = await prisma.pipeline.findFirst({
+      where: { orgId },
+      orderBy: [{ isDefault: 'desc' }, { position: 'asc' }, { createdAt: 'asc' }],
+      include: { stages: STAGE_ORDER },
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    try {
+      return await this.create(orgId, { name: DEFAULT_PIPELINE_NAME, isDefault: true });
+    } catch (error) {
+      // Another request created it first
+      if (error instanceof ConflictError) {
+        return this.ensureDefault(orgId);
+      }
+      throw error;
+    }
+  }
+
+  static async create(orgId: string, input: CreatePipelineInput): Promise<PipelineWithStages> {
+    const stages = input.stages ?? DEFAULT_PIPELINE_STAGES;
+    assertUniqueNames(stages);
+    assertStageTypes(stages.map(stage => stage.type ?? 'open'));
+
+    const isFirst = (await prisma.pipeline.count({ where: { orgId } })) === 0;
+    const isDefault = isFirst || Boolean(input.isDefault);
+
+    try {
+      return await prisma.$transaction(async tx => {
+        if (isDefault) {
+          await tx.pipeline.updateMany({ where: { orgId, isDefault: true }, data: { isDefault: false } });
+        }
+
+        const pipeline = await tx.pipeline.create({
+          data: { orgId, name: input.name, isDefault, position: input.position ?? 0 },
+        });
+
+        await tx.pipelineStage.createMany({
+          data: stages.map((stage, index) => ({
+            orgId,
+            pipelineId: pipeline.id,
+            name: stage.name,
+            type: stage.type ?? 'open',
+            probability: stage.probability ?? 0,
+            color: stage.color,
+            position: index,
+          })),
+        });
+
+        return tx.pipeline.findUniqueOrThrow({
+          where: { id: pipeline.id },
+          include: { stages: STAGE_ORDER },
+        });
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError(`Pipeline '${input.name}' already exists`);
+      }
+      throw error;
+    }
+  }
+
+  static async update(orgId: string, id: string, input: UpdatePipelineInput): Promise<PipelineWithStages> {
+    const pipeline = await this.get(orgId, id);
+
+    if (input.isDefault === false && pipeline.isDefault) {
+      throw new BusinessLogicError('Mark another pipeline as default instead');
+    }
+
+    try {
+      return await prisma.$transaction(async tx => {
+        if (input.isDefault && !pipeline.isDefault) {
+          await tx.pipeline.updateMany({ where: { orgId, isDefault: true }, data: { isDefault: false } });
+        }
+
+        return tx.pipeline.update({
+          where: { id },
+          data: input,
+          include: { stages: STAGE_ORDER },
+        });
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError(`Pipeline '${input.name}' already exists`);
+      }
+      throw error;
+    }
+  }
+
+  static async remove(orgId: string, id: string) {
+    const pipeline = await this.get(orgId, id);
+
+    if (pipeline.isDefault) {
+      throw new BusinessLogicError('The default pipeline cannot be deleted');
+    }
+
+    const deals = await prisma.deal.count({ where: { orgId, pipelineId: id } });
+    if (deals > 0) {
+      throw new ConflictError(`Pipeline has ${deals} deal${deals === 1 ? '' : 's'}; move them before deleting it`, { deals });
+    }
+
+    await prisma.pipeline.delete({ where: { id } });
+  }
+
+  static async addStage(orgId: string, pipelineId: string, input: StageInput & { position?: number }) {
+    const pipeline = await this.get(orgId, pipelineId);
+    assertUniqueNames([...pipeline.stages, input]);
+
+    const position = input.position ?? pipeline.stages.length;
+
+    return prisma.$transaction(async tx => {
+      // Shift later stages right to open a slot
+      await tx.pipelineStage.updateMany({
+        where: { pipelineId, position: { gte: position } },
+        data: { position: { increment: 1 } },
+      });
+
+      return tx.pipelineStage.create({
+        data: {
+          orgId,
+          pipelineId,
+          name: input.name,
+          type: input.type ?? 'open',
+          probability: input.probability ?? 0,
+          color: input.color,
+          position,
+        },
+      });
+    });
+  }
+
+  /**
+   * Updates a stage. Changing its type re-stamps `closedAt` on the deals sitting
+   * in it so won/lost reporting follows the new semantics.
+   */
+  static async updateStage(orgId: string, pipelineId: string, stageId: string, input: UpdateStageInput) {
+    const pipeline = await this.get(orgId, pipelineId);
+    const stage = pipeline.stages.find(candidate => candidate.id === stageId);
+
+    if (!stage) {
+      throw new NotFoundError('Pipeline stage', stageId);
+    }
+
+    if (input.name) {
+      assertUniqueNames([...pipeline.stages.filter(candidate => candidate.id !== stageId), { name: input.name }]);
+    }
+
+    const type = input.type ?? stage.type;
+    if (type !== stage.type) {
+      assertStageTypes(pipeline.stages.map(candidate => (candidate.id === stageId ? type : candidate.type)));
+    }
+
+    return prisma.$transaction(async tx => {
+      if (type !== stage.type) {
+        const closed = type !== 'open';
+        await tx.deal.updateMany({
+          where: { orgId, stageId, ...(closed && { closedAt: null }) },
+          data: { closedAt: closed ? new Date() : null },
+        });
+      }
+
+      return tx.pipelineStage.update({
+        where: { id: stageId },
+        data: input,
+      });
+    });
+  }
+
+  /**
+   * Deletes a stage. Deals in it must be moved to `moveToStageId`, another stage of
+   * the same pipeline, which also gives them that stage's probability and close state.
+   */
+  static async removeStage(orgId: string, pipelineId: string, stageId: string, moveToStageId?: string, actorId?: string) {
+    const pipeline = await this.get(orgId, pipelineId);
+    const stage = pipeline.stages.find(candidate => candidate.id === stageId);
+
+    if (!stage) {
+      throw new NotFoundError('Pipeline stage', stageId);
+    }
+
+    const remaining = pipeline.stages.filter(candidate => candidate.id !== stageId);
+    assertStageTypes(remaining.map(candidate => candidate.type));
+
+    const deals = await prisma.deal.count({ where: { orgId, stageId } });
+    const target = moveToStageId ? remaining.find(candidate => candidate.id === moveToStageId) : undefined;
+
+    if (moveToStageId && !target) {
+      throw new ValidationError('Deals can only be moved to another stage of the same pipeline');
+    }
+
+    if (deals > 0 && !target) {
+      throw new ConflictError(`Stage has ${deals} deal${deals === 1 ? '' : 's'}; choose a stage to move them to`, { deals });
+    }
+
+    await prisma.$transaction(async tx => {
+      if (target && deals > 0) {
+        const moving = await tx.deal.findMany({
+          where: { orgId, stageId },
+          select: { id: true, ownerId: true },
+        });
+
+        await DealStageHistoryService.record(
+          tx,
+          moving.map(deal => ({
+            orgId,
+            dealId: deal.id,
+            pipelineId,
+            fromStageId: stageId,
+            toStageId: target.id,
+            ownerId: deal.ownerId,
+            changedBy: actorId,
+          }))
+        );
+
+        await tx.deal.updateMany({
+          where: { orgId, stageId },
+          data: {
+            stageId: target.id,
+            probability: target.probability,
+            closedAt: target.type === 'open' ? null : new Date(),
+          },
+        });
+      }
+
+      await tx.pipelineStage.delete({ where: { id: stageId } });
+
+      await Promise.all(
+        remaining.map((candidate, index) =>
+          tx.pipelineStage.update({ where: { id: candidate.id }, data: { position: index } })
+        )
+      );
+    });
+
+    return { moved: target ? deals : 0 };
+  }
+
+  static async reorderStages(orgId: string, pipelineId: string, stageIds: string[]): Promise<PipelineWithStages> {
+    const pipeline = await this.get(orgId, pipelineId);
+    const current = pipeline.stages.map(stage => stage.id);
+
+    if (stageIds.length !== current.length || !current.every(id => stageIds.includes(id))) {
+      throw new ValidationError('Stage order must list every stage of the pipeline exactly once');
+    }
+
+    await prisma.$transaction(
+      stageIds.map((id, index) => prisma.pipelineStage.update({ where: { id }, data: { position: index } }))
+    );
+
+    return this.get(orgId, pipelineId);
+  }
+
+  /**
+   * Resolves where a deal should sit from an optional pipeline and stage. With only
+   * a pipeline, deals go to its first open stage (or stay put if already in it);
+   * with neither, new deals go to the first open stage of the org's default pipeline.
+   */
+  static async resolvePlacement(
+    orgId: string,
+    target: { pipelineId?: string; stageId?: string; probability?: number },
+    current?: { pipelineId: string; stageId: string; closedAt: Date | null }
+  ): Promise<StagePlacement> {
+    if (target.stageId) {
+      const stage = await prisma.pipelineStage.findFirst({ where: { id: target.stageId, orgId } });
+      if (!stage) {
+        throw new NotFoundError('Pipeline stage', target.stageId);
+      }
+
+      if (target.pipelineId && target.pipelineId !== stage.pipelineId) {
+        throw new ValidationError('Stage does not belong to the given pipeline');
+      }
+
+      return stagePlacement(stage, current, target.probability);
+    }
+
+    const pipeline = target.pipelineId
+      ? await this.get(orgId, target.pipelineId)
+      : current
+        ? await this.get(orgId, current.pipelineId)
+        : await this.getDefault(orgId);
+
+    const stage =
+      (current?.pipelineId === pipeline.id && pipeline.stages.find(candidate => candidate.id === current.stageId)) ||
+      pipeline.stages.find(candidate => candidate.type === 'open');
+
+    if (!stage) {
+      throw new BusinessLogicError(`Pipeline '${pipeline.name}' has no open stage`);
+    }
+
+    return stagePlacement(stage, current, target.probability);
+  }
+
+  static async getDefault(orgId: string): Promise<PipelineWithStages> {
+    const pipeline = await prisma.pipeline.findFirst({
+      where: { orgId, isDefault: true },
+      include: { stages: STAGE_ORDER },
+    });
+
+    return pipeline ?? this.ensureDefault(orgId);
+  }
+}
@@ -0,0 +1,637 @@
+import crypto from 'crypto';
+import JSZip from 'jszip';
+import { Contact, Prisma, PrivacyRequestStatus, PrivacyRequestType } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { normalizeEmail, normalizePhone } from '../lib/tenancy';
+import logger from '../middleware/logger';
+import { QuoteContent, renderQuotePdf } from './quotePdf';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+export interface PrivacyRequestInput {
+  requestedBy?: string | null;
+  reference?: string | null;
+}
+
+export interface EraseInput extends PrivacyRequestInput {
+  // Must repeat the contact ID, so an erasure cannot be triggered by accident
+  confirm: string;
+}
+
+export interface PrivacyRequestQuery {
+  contactId?: string;
+  type?: PrivacyRequestType;
+  page: number;
+  limit: number;
+}
+
+interface AttachmentEntry {
+  path: string;
+  contentType: string;
+  bytes: number;
+  sha256: string;
+}
+
+interface SupabaseRecords {
+  customers: any[];
+  calls: any[];
+  reviews: any[];
+  error?: string;
+}
+
+const EXPORT_FORMAT = 'clientflow.data-subject-export';
+const EXPORT_VERSION = 1;
+
+const ERASED_NAME = 'Erased';
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+/**
+ * JSON with object keys sorted, so a report hashes the same after a round trip
+ * through jsonb, which does not keep key order.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.keys(value as object)
+      .sort()
+      .filter(key => (value as any)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/** Hash of a report as it will be stored, dates and all */
+const reportHash = (report: object) => sha256(stableStringify(JSON.parse(JSON.stringify(report))));
+
+function contactPhones(contact: Pick<Contact, 'phone'>): string[] {
+  if (!contact.phone) return [];
+  return Array.from(new Set([contact.phone, normalizePhone(contact.phone)].filter(Boolean)));
+}
+
+function contactEmails(contact: Pick<Contact, 'email'>): string[] {
+  if (!contact.email) return [];
+  return Array.from(new Set([contact.email, normalizeEmail(contact.email)]));
+}
+
+// Messages are linked by contactId, or matched on the contact's phone/email when the
+// inbound path could not link them
+function messageWhere(orgId: string, contact: Contact): Prisma.MessageWhereInput {
+  const addresses = [...contactPhones(contact), ...contactEmails(contact)];
+  return {
+    orgId,
+    OR: [
+      { contactId: contact.id },
+      ...(addresses.length > 0
+        ? [{ contactId: null, OR: [{ fromAddr: { in: addresses } }, { toAddr: { in: addresses } }] }]
+        : []),
+    ],
+  };
+}
+
+function consentWhere(orgId: string, contact: Contact): Prisma.ConsentEventWhereInput {
+  const addresses = [...contactPhones(contact), ...contactEmails(contact)];
+  return { orgId, OR: [{ contactId: contact.id }, ...(addresses.length > 0 ? [{ address: { in: addresses } }] : [])] };
+}
+
+function conversationWhere(orgId: string, contact: Contact): Prisma.ConversationWhereInput {
+  const addresses = [...contactPhones(contact), ...contactEmails(contact)];
+  return { orgId, OR: [{ contactId: contact.id }, ...(addresses.length > 0 ? [{ address: { in: addresses } }] : [])] };
+}
+
+function scheduledMessageWhere(orgId: string, contact: Contact): Prisma.ScheduledMessageWhereInput {
+  const addresses = [...contactPhones(contact), ...contactEmails(contact)];
+  return { orgId, OR: [{ contactId: contact.id }, ...(addresses.length > 0 ? [{ toAddr: { in: addresses } }] : [])] };
+}
+
+const recordingPath = (call: any): string | null => call.metadata?.recording_path ?? null;
+
+/**
+ * Customers, calls, reviews and call recordings live in the Supabase schema,
+ * keyed by the businesses that belong to the org. Customers are matched on the
+ * contact's phone or email; calls and reviews on the matched customers or the
+ * same addresses.
+ */
+async function loadSupabaseRecords(orgId: string, contact: Contact): Promise<SupabaseRecords> {
+  const phones = contactPhones(contact);
+  const emails = contactEmails(contact);
+  if (phones.length === 0 && emails.length === 0) {
+    return { customers: [], calls: [], reviews: [] };
+  }
+
+  try {
+    const { supabase } = await import('../config/supabase');
+    const client = supabase as any;
+
+    const { data: businesses, error: businessError } = await client
+      .from('businesses')
+      .select('id')
+      .eq('organization_id', orgId);
+    if (businessError) throw businessError;
+
+    const businessIds = (businesses || []).map((business: { id: string }) => business.id);
+    if (businessIds.length === 0) {
+      return { customers: [], calls: [], reviews: [] };
+    }
+
+    const customerFilters = [
+      ...phones.flatMap(phone => [`phone.eq.${phone}`, `phone_formatted.eq.${phone}`]),
+      ...emails.map(email => `email.eq.${email}`),
+    ];
+    const { data: customers, error: customerError } = await client
+      .from('customers')
+      .select('*')
+      .in('business_id', businessIds)
+      .or(customerFilters.join(','));
+    if (customerError) throw customerError;
+
+    const customerIds = (customers || []).map((customer: { id: string }) => customer.id);
+    const byCustomer = customerIds.length > 0 ? [`customer_id.in.(${customerIds.join(',')})`] : [];
+
+    const callFilters = [...byCustomer, ...phones.map(phone => `caller_phone.eq.${phone}`)];
+    const reviewFilters = [
+      ...byCustomer,
+      ...phones.map(phone => `reviewer_phone.eq.${phone}`),
+      ...emails.map(email => `reviewer_email.eq.${email}`),
+    ];
+
+    const [calls, reviews] = await Promise.all([
+      callFilters.length > 0
+        ? client.from('calls').select('*').in('business_id', businessIds).or(callFilters.join(','))
+        : { data: [], error: null },
+      client.from('reviews').select('*').in('business_id', businessIds).or(reviewFilters.join(',')),
+    ]);
+    if (calls.error) throw calls.error;
+    if (reviews.error) throw reviews.error;
+
+    return { customers: customers || [], calls: calls.data || [], reviews: reviews.data || [] };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String((error as any)?.message ?? error);
+    logger.warn('Privacy request could not read Supabase records', { orgId, contactId: contact.id, error: message });
+    return { customers: [], calls: [], reviews: [], error: message };
+  }
+}
+
+export class PrivacyService {
+  /**
+   * Builds a zip with `export.json`, holding every record tied to the contact,
+   * and the quote PDFs and call recordings under `attachments/`. The manifest
+   * in the stored report lists the SHA-256 of every file in the zip.
+   */
+  static async export(orgId: string, contactId: string, input: PrivacyRequestInput = {}) {
+    const contact = await this.findContact(orgId, contactId);
+    const exportedAt = new Date();
+
+    const [organization, account, deals, activities, appointments, conversations, messages, scheduledMessages, tasks, consentEvents, merges] =
+      await Promise.all([
+        prisma.organization.findUnique({ where: { id: orgId }, select: { id: true, name: true } }),
+        contact.accountId ? prisma.account.findUnique({ where: { id: contact.accountId } }) : null,
+        prisma.deal.findMany({
+          where: { orgId, contactId },
+          include: {
+            stage: { select: { name: true } },
+            lineItems: { orderBy: { position: 'asc' } },
+            quotes: { orderBy: { version: 'asc' } },
+          },
+          orderBy: { createdAt: 'asc' },
+        }),
+        prisma.activity.findMany({ where: { orgId, contactId }, orderBy: { createdAt: 'asc' } }),
+        prisma.appointment.findMany({ where: { orgId, contactId }, orderBy: { startsAt: 'asc' } }),
+        prisma.conversation.findMany({ where: conversationWhere(orgId, contact), orderBy: { createdAt: 'asc' } }),
+        prisma.message.findMany({ where: messageWhere(orgId, contact), orderBy: { createdAt: 'asc' } }),
+        prisma.scheduledMessage.findMany({ where: scheduledMessageWhere(orgId, contact), orderBy: { createdAt: 'asc' } }),
+        prisma.task.findMany({ where: { orgId, contactId }, orderBy: { createdAt: 'asc' } }),
+        prisma.consentEvent.findMany({ where: consentWhere(orgId, contact), orderBy: { createdAt: 'asc' } }),
+        prisma.contactMerge.findMany({ where: { orgId, survivorId: contactId }, orderBy: { createdAt: 'asc' } }),
+      ]);
+    const supabase = await loadSupabaseRecords(orgId, contact);
+
+    const zip = new JSZip();
+    const attachments: AttachmentEntry[] = [];
+    const attachmentErrors: { path: string; error: string }[] = [];
+    const attach = (path: string, contentType: string, data: Buffer) => {
+      zip.file(path, data);
+      attachments.push({ path, contentType, bytes: data.length, sha256: sha256(data) });
+    };
+
+    for (const deal of deals) {
+      for (const quote of deal.quotes) {
+        attach(`attachments/quotes/quote-${(quote.content as unknown as QuoteContent).number}.pdf`, 'application/pdf', Buffer.from(quote.pdf));
+      }
+    }
+
+    if (supabase.calls.length > 0) {
+      const { StorageService } = await import('./storageService');
+      for (const call of supabase.calls) {
+        const path = recordingPath(call);
+        if (!path) continue;
+
+        const target = `attachments/recordings/${call.id}-${path.split('/').pop()}`;
+        try {
+          attach(target, 'application/octet-stream', await StorageService.downloadCallRecording(path));
+        } catch (error) {
+          attachmentErrors.push({ path: target, error: error instanceof Error ? error.message : 'Download failed' });
+        }
+      }
+    }
+
+    const document = {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt,
+      organization,
+      subject: { contactId, email: contact.email, phone: contact.phone },
+      crm: {
+        contact: { ...contact, account },
+        // PDFs are in attachments/quotes
+        deals: deals.map(({ quotes, ...deal }) => ({
+          ...deal,
+          quotes: quotes.map(({ pdf: _pdf, ...quote }) => quote),
+        })),
+        activities,
+        appointments,
+        conversations,
+        messages,
+        scheduledMessages,
+        tasks,
+        consentEvents,
+        merges,
+      },
+      supabase: {
+        customers: supabase.customers,
+        calls: supabase.calls,
+        reviews: supabase.reviews,
+      },
+      attachments,
+    };
+
+    const json = JSON.stringify(document, null, 2);
+    zip.file('export.json', json);
+    const archive = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+
+    const errors = [
+      ...(supabase.error ? [{ source: 'supabase', error: supabase.error }] : []),
+      ...attachmentErrors.map(({ path, error }) => ({ source: path, error })),
+    ];
+    const report = {
+      type: 'export',
+      contactId,
+      reference: input.reference ?? null,
+      exportedAt,
+      counts: {
+        deals: deals.length,
+        quotes: deals.reduce((sum, deal) => sum + deal.quotes.length, 0),
+        activities: activities.length,
+        appointments: appointments.length,
+        conversations: conversations.length,
+        messages: messages.length,
+        scheduledMessages: scheduledMessages.length,
+        tasks: tasks.length,
+        consentEvents: consentEvents.length,
+        merges: merges.length,
+        customers: supabase.customers.length,
+        calls: supabase.calls.length,
+        reviews: supabase.reviews.length,
+        attachments: attachments.length,
+      },
+      files: [
+        { path: 'export.json', contentType: 'application/json', bytes: Buffer.byteLength(json), sha256: sha256(json) },
+        ...attachments,
+      ],
+      archiveSha256: sha256(archive),
+      errors,
+    };
+
+    const request = await this.saveRequest(orgId, contactId, 'export', errors.length > 0 ? 'partial' : 'completed', report, input);
+
+    logger.info('Data subject export built', { orgId, contactId, requestId: request.id, status: request.status });
+    return { request, fileName: `data-export-${contactId}.zip`, archive };
+  }
+
+  /**
+   * Erases the contact's personal data. The contact row and its deals and
+   * appointments are kept for financial and reporting history, with the contact
+   * anonymized; activities, conversations, messages, scheduled messages, tasks,
+   * consent history and merge snapshots are deleted. Quotes keep their amounts but lose the contact's details and are
+   * re-rendered. In Supabase, matched customers, calls and reviews are
+   * anonymized and call recordings are deleted from storage. Every source is
+   * re-checked afterwards and the outcome stored with the report.
+   */
+  static async erase(orgId: string, contactId: string, input: EraseInput) {
+    if (input.confirm !== contactId) {
+      throw new ValidationError('Confirm the erasure by repeating the contact ID', { field: 'confirm' });
+    }
+
+    const contact = await this.findContact(orgId, contactId);
+    const erasedAt = new Date();
+    const supabaseRecords = await loadSupabaseRecords(orgId, contact);
+
+    // Quote PDFs are re-rendered without the contact before anything is written
+    const quotes = await prisma.quote.findMany({
+      where: { orgId, deal: { contactId } },
+      select: { id: true, content: true },
+    });
+    const renderedQuotes = await Promise.all(
+      quotes.map(async quote => {
+        const content = quote.content as unknown as QuoteContent;
+        const anonymized: QuoteContent = {
+          ...content,
+          contact: { ...content.contact, name: ERASED_NAME, email: null, phone: null, accountName: null },
+        };
+        return { id: quote.id, content: anonymized, pdf: await renderQuotePdf(anonymized) };
+      })
+    );
+
+    const crm = await prisma.$transaction(async tx => {
+      const messages = await tx.message.deleteMany({ where: messageWhere(orgId, contact) });
+      const conversations = await tx.conversation.deleteMany({ where: conversationWhere(orgId, contact) });
+      // Queued jobs for these find nothing to send
+      const scheduledMessages = await tx.scheduledMessage.deleteMany({ where: scheduledMessageWhere(orgId, contact) });
+      const consentEvents = await tx.consentEvent.deleteMany({ where: consentWhere(orgId, contact) });
+      const [activities, tasks, suppressions, merges, duplicates] = await Promise.all([
+        tx.activity.deleteMany({ where: { orgId, contactId } }),
+        tx.task.deleteMany({ where: { orgId, contactId } }),
+        tx.messageSuppression.deleteMany({ where: { orgId, contactId } }),
+        tx.contactMerge.deleteMany({ where: { orgId, survivorId: contactId } }),
+        tx.duplicateCandidate.deleteMany({ where: { orgId, OR: [{ contactId }, { duplicateId: contactId }] } }),
+      ]);
+      const appointments = await tx.appointment.updateMany({
+        where: { orgId, contactId },
+        data: { location: null },
+      });
+
+      for (const quote of renderedQuotes) {
+        await tx.quote.update({
+          where: { id: quote.id },
+          data: {
+            content: quote.content as unknown as Prisma.InputJsonObject,
+            pdf: quote.pdf,
+            sentTo: null,
+            responderName: null,
+            responseNote: null,
+            responseIp: null,
+          },
+        });
+      }
+
+      await tx.contact.update({
+        where: { id: contactId },
+        data: {
+          firstName: ERASED_NAME,
+          lastName: null,
+          email: null,
+          phone: null,
+          tags: [],
+          customFields: {},
+          deletedAt: contact.deletedAt ?? erasedAt,
+        },
+      });
+
+      return {
+        anonymized: {
+          contacts: 1,
+          appointments: appointments.count,
+          quotes: renderedQuotes.length,
+        },
+        deleted: {
+          conversations: conversations.count,
+          messages: messages.count,
+          scheduledMessages: scheduledMessages.count,
+          activities: activities.count,
+          tasks: tasks.count,
+          consentEvents: consentEvents.count,
+          suppressions: suppressions.count,
+          merges: merges.count,
+          duplicateCandidates: duplicates.count,
+        },
+      };
+    });
+
+    const supabase = await this.eraseSupabase(supabaseRecords);
+    const verification = await this.verifyErasure(orgId, contact);
+
+    const errors = [
+      ...(supabaseRecords.error ? [{ source: 'supabase', error: supabaseRecords.error }] : []),
+      ...supabase.errors,
+    ];
+    const report = {
+      type: 'erasure',
+      contactId,
+      reference: input.reference ?? null,
+      erasedAt,
+      crm,
+      supabase: {
+        anonymized: { customers: supabase.customers, calls: supabase.calls, reviews: supabase.reviews },
+        deleted: { recordings: supabase.recordings },
+      },
+      retained: {
+        contact: 'Row kept with personal fields cleared, so deal history stays intact',
+        deals: 'Kept for financial records; linked to the anonymized contact',
+        appointments: 'Kept for reporting; locations cleared',
+        quotes: 'Kept for financial records; contact details removed and PDFs re-rendered',
+      },
+      verification,
+      errors,
+    };
+
+    const status = errors.length === 0 && verification.passed ? 'completed' : 'partial';
+    const request = await this.saveRequest(orgId, contactId, 'erasure', status, report, input);
+
+    logger.info('Data subject erasure completed', { orgId, contactId, requestId: request.id, status });
+    return request;
+  }
+
+  static async list(orgId: string, { contactId, type, page, limit }: PrivacyRequestQuery) {
+    const where: Prisma.PrivacyRequestWhereInput = {
+      orgId,
+      ...(contactId && { contactId }),
+      ...(type && { type }),
+    };
+
+    const [requests, total] = await Promise.all([
+      prisma.privacyRequest.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.privacyRequest.count({ where }),
+    ]);
+
+    return { requests, total };
+  }
+
+  /** The request with `verified` set when its report still matches the stored hash */
+  static async get(orgId: string, id: string) {
+    const request = await prisma.privacyRequest.findFirst({ where: { id, orgId } });
+    if (!request) {
+      throw new NotFoundError('Privacy request', id);
+    }
+
+    return { ...request, verified: sha256(stableStringify(request.report)) === request.reportHash };
+  }
+
+  private static async findContact(orgId: string, contactId: string) {
+    // Trashed contacts are still subject to requests
+    const contact = await prisma.contact.findFirst({ where: { id: contactId, orgId } });
+    if (!contact) {
+      throw new NotFoundError('Contact', contactId);
+    }
+    return contact;
+  }
+
+  private static async saveRequest(
+    orgId: string,
+    contactId: string,
+    type: PrivacyRequestType,
+    status: PrivacyRequestStatus,
+    report: object,
+    input: PrivacyRequestInput
+  ) {
+    return prisma.privacyRequest.create({
+      data: {
+        orgId,
+        contactId,
+        type,
+        status,
+        reference: input.reference ?? null,
+        requestedBy: input.requestedBy ?? null,
+        report: JSON.parse(JSON.stringify(report)),
+        reportHash: reportHash(report),
+      },
+    });
+  }
+
+  private static async eraseSupabase({ customers, calls, reviews }: SupabaseRecords) {
+    const result = {
+      customers: 0,
+      calls: 0,
+      reviews: 0,
+      recordings: 0,
+      errors: [] as { source: string; error: string }[],
+    };
+    if (customers.length === 0 && calls.length === 0 && reviews.length === 0) {
+      return result;
+    }
+
+    const { supabase } = await import('../config/supabase');
+    const { StorageService } = await import('./storageService');
+    const client = supabase as any;
+    const now = new Date().toISOString();
+
+    const run = async (source: string, ids: string[], update: () => PromiseLike<{ error: any }>) => {
+      if (ids.length === 0) return 0;
+      const { error } = await update();
+      if (error) {
+        result.errors.push({ source, error: error.message || String(error) });
+        return 0;
+      }
+      return ids.length;
+    };
+
+    const customerIds = customers.map(customer => customer.id);
+    result.customers = await run('supabase.customers', customerIds, () =>
+      client
+        .from('customers')
+        .update({
+          first_name: ERASED_NAME,
+          last_name: '',
+          email: null,
+          phone: '',
+          phone_formatted: null,
+          address: null,
+          date_of_birth: null,
+          gender: null,
+          preferences: null,
+          tags: null,
+          notes: null,
+          external_id: null,
+          updated_at: now,
+        })
+        .in('id', customerIds)
+    );
+
+    for (const call of calls) {
+      const path = recordingPath(call);
+      if (!path) continue;
+      try {
+        await StorageService.deleteCallRecording(path);
+        result.recordings++;
+      } catch (error) {
+        result.errors.push({ source: `storage:${path}`, error: error instanceof Error ? error.message : 'Delete failed' });
+      }
+    }
+
+    const callIds = calls.map(call => call.id);
+    result.calls = await run('supabase.calls', callIds, () =>
+      client
+        .from('calls')
+        .update({
+          caller_name: null,
+          caller_phone: null,
+          transcript: null,
+          recording_url: null,
+          transcription_url: null,
+          call_data: null,
+          metadata: null,
+          updated_at: now,
+        })
+        .in('id', callIds)
+    );
+
+    const reviewIds = reviews.map(review => review.id);
+    result.reviews = await run('supabase.reviews', reviewIds, () =>
+      client
+        .from('reviews')
+        .update({
+          reviewer_name: ERASED_NAME,
+          reviewer_email: null,
+          reviewer_phone: null,
+          metadata: null,
+          updated_at: now,
+        })
+        .in('id', reviewIds)
+    );
+
+    return result;
+  }
+
+  /** Re-reads every source with the contact's original identifiers; each check must find nothing */
+  private static async verifyErasure(orgId: string, original: Contact) {
+    const [contact, conversations, messages, scheduledMessages, activities, tasks, consentEvents, merges, supabase] = await Promise.all([
+      prisma.contact.findUnique({ where: { id: original.id } }),
+      prisma.conversation.count({ where: conversationWhere(orgId, original) }),
+      prisma.message.count({ where: messageWhere(orgId, original) }),
+      prisma.scheduledMessage.count({ where: scheduledMessageWhere(orgId, original) }),
+      prisma.activity.count({ where: { orgId, contactId: original.id } }),
+      prisma.task.count({ where: { orgId, contactId: original.id } }),
+      prisma.consentEvent.count({ where: consentWhere(orgId, original) }),
+      prisma.contactMerge.count({ where: { orgId, survivorId: original.id } }),
+      loadSupabaseRecords(orgId, original),
+    ]);
+
+    const checks = {
+      contactPersonalFields: contact && (contact.email || contact.phone || contact.lastName) ? 1 : 0,
+      conversations,
+      messages,
+      scheduledMessages,
+      activities,
+      tasks,
+      consentEvents,
+      merges,
+      customers: supabase.customers.length,
+      calls: supabase.calls.length,
+      reviews: supabase.reviews.length,
+      recordings: supabase.calls.filter(call => recordingPath(call)).length,
+    };
+
+    return {
+      checkedAt: new Date(),
+      checks,
+      passed: !supabase.error && Object.values(checks).every(count => count === 0),
+      ...(supabase.error && { error: supabase.error }),
+    };
+  }
+}
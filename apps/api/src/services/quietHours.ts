@@ -0,0 +1,171 @@
+import { MessageChannel } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { normalizeAddress } from './consent';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+// Local times of day, e.g. 21:00 to 08:00. A window whose end is before its start runs overnight.
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+export interface QuietHoursSettings {
+  timezone: string;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+}
+
+export interface SendRecipient {
+  contactId?: string | null;
+  channel?: MessageChannel;
+  to?: string;
+}
+
+export interface ResolvedRecipient {
+  contactId: string | null;
+  timeZone: string;
+  quietHours: QuietHours | null;
+}
+
+export const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Minutes since local midnight in the given zone
+const localMinutes = (at: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', minute: 'numeric', hourCycle: 'h23' })
+    .formatToParts(at);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  return (part('hour') % 24) * 60 + part('minute');
+};
+
+export function isQuietTime(at: Date, window: QuietHours, timeZone: string) {
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  const now = localMinutes(at, timeZone);
+
+  if (start === end) return false;
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/** The first minute at or after `at` that falls outside the quiet window */
+export function nextAllowedTime(at: Date, window: QuietHours, timeZone: string) {
+  if (!isQuietTime(at, window, timeZone)) return at;
+
+  const end = toMinutes(window.end);
+  const wait = (end - localMinutes(at, timeZone) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const next = new Date(at.getTime() + wait * 60 * 1000);
+  next.setUTCSeconds(0, 0);
+
+  // Crossing a DST change lands off the end of the window by the change in offset
+  const drift = localMinutes(next, timeZone) - end;
+  return drift === 0 ? next : new Date(next.getTime() - drift * 60 * 1000);
+}
+
+/** Formats a moment for a message body in the recipient's zone, e.g. "Tue, Mar 4, 2:30 PM" */
+export function formatLocalTime(at: Date, timeZone: string) {
+  return at.toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone,
+  });
+}
+
+export class QuietHoursService {
+  static async get(orgId: string): Promise<QuietHoursSettings> {
+    const org = await prisma.organization.findUnique({
+      where: { id: orgId },
+      select: { timezone: true, quietHoursStart: true, quietHoursEnd: true },
+    });
+
+    if (!org) {
+      throw new NotFoundError('Organization', orgId);
+    }
+
+    return org;
+  }
+
+  /** Both ends of the window are set together; null for both turns quiet hours off */
+  static async update(orgId: string, input: Partial<QuietHoursSettings>) {
+    const current = await this.get(orgId);
+    const start = input.quietHoursStart !== undefined ? input.quietHoursStart : current.quietHoursStart;
+    const end = input.quietHoursEnd !== undefined ? input.quietHoursEnd : current.quietHoursEnd;
+
+    if ((start === null) !== (end === null)) {
+      throw new ValidationError('Quiet hours need both a start and an end', { field: start === null ? 'quietHoursStart' : 'quietHoursEnd' });
+    }
+    if (input.timezone && !isValidTimeZone(input.timezone)) {
+      throw new ValidationError(`Unknown timezone '${input.timezone}'`, { field: 'timezone' });
+    }
+
+    return prisma.organization.update({
+      where: { id: orgId },
+      data: {
+        ...(input.timezone && { timezone: input.timezone }),
+        quietHoursStart: start,
+        quietHoursEnd: end,
+      },
+      select: { timezone: true, quietHoursStart: true, quietHoursEnd: true },
+    });
+  }
+
+  /**
+   * Finds the contact a send is for, by id or by the address it goes to, and
+   * the zone its quiet hours are evaluated in: the contact's own timezone, else
+   * the organization's.
+   */
+  static async resolve(orgId: string, recipient: SendRecipient): Promise<ResolvedRecipient> {
+    const settings = await this.get(orgId);
+    const contact = await this.findContact(orgId, recipient);
+
+    return {
+      contactId: contact?.id ?? null,
+      timeZone: contact?.timezone || settings.timezone,
+      quietHours:
+        settings.quietHoursStart && settings.quietHoursEnd
+          ? { start: settings.quietHoursStart, end: settings.quietHoursEnd }
+          : null,
+    };
+  }
+
+  /** When a send asked for at `at` may go out; `at` itself unless it falls in quiet hours */
+  static async nextSendTime(orgId: string, recipient: SendRecipient, at: Date = new Date()) {
+    const { timeZone, quietHours } = await this.resolve(orgId, recipient);
+    return quietHours ? nextAllowedTime(at, quietHours, timeZone) : at;
+  }
+
+  private static async findContact(orgId: string, { contactId, channel, to }: SendRecipient) {
+    if (contactId) {
+      return prisma.contact.findFirst({ where: { id: contactId, orgId }, select: { id: true, timezone: true } });
+    }
+
+    const address = channel && to ? normalizeAddress(channel, to) : null;
+    if (!address) return null;
+
+    return prisma.contact.findFirst({
+      where: {
+        orgId,
+        deletedAt: null,
+        ...(channel === 'email' ? { email: { equals: address, mode: 'insensitive' } } : { phone: address }),
+      },
+      select: { id: true, timezone: true },
+    });
+  }
+}
@@ -0,0 +1,203 @@
+import PDFDocument from 'pdfkit';
+import axios from 'axios';
+import logger from '../middleware/logger';
+import { ResolvedBranding } from './branding';
+
+export interface QuoteContentItem {
+  name: string;
+  quantity: number;
+  unitPriceCents: number;
+  discountPercent: number;
+  taxRate: number;
+  amountCents: number;
+  taxCents: number;
+}
+
+// Everything a quote version is rendered from, frozen when it is generated
+export interface QuoteContent {
+  number: string;
+  version: number;
+  issuedAt: string;
+  validUntil: string;
+  currency: string;
+  branding: ResolvedBranding;
+  deal: { id: string; title: string };
+  contact: {
+    id: string;
+    name: string;
+    email: string | null;
+    phone: string | null;
+    accountName: string | null;
+  };
+  items: QuoteContentItem[];
+  totals: { amountCents: number; taxCents: number; totalCents: number };
+  notes: string | null;
+}
+
+const PAGE_MARGIN = 50;
+const MUTED = '#6b7280';
+const TEXT = '#111827';
+
+// Column x positions and widths for the items table
+const COLUMNS = {
+  name: { x: PAGE_MARGIN, width: 215 },
+  quantity: { x: 270, width: 50 },
+  unitPrice: { x: 325, width: 75 },
+  discount: { x: 405, width: 45 },
+  amount: { x: 455, width: 90 },
+};
+
+export function formatMoney(cents: number, currency: string) {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(cents / 100);
+  } catch {
+    return `${(cents / 100).toFixed(2)} ${currency}`;
+  }
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+
+const formatNumber = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(3).replace(/0+$/, ''));
+
+/**
+ * Logos are fetched at render time. A logo that cannot be fetched or decoded is
+ * left off rather than failing the quote.
+ */
+async function fetchLogo(url: string): Promise<Buffer | null> {
+  try {
+    const response = await axios.get<ArrayBuffer>(url, { responseType: 'arraybuffer', timeout: 5000 });
+    return Buffer.from(response.data);
+  } catch (error) {
+    logger.warn('Quote logo unavailable', { url, error: error instanceof Error ? error.message : error });
+    return null;
+  }
+}
+
+/** Renders a quote version to an A4 PDF */
+export async function renderQuotePdf(content: QuoteContent): Promise<Buffer> {
+  const { branding, currency } = content;
+  const logo = branding.logoUrl ? await fetchLogo(branding.logoUrl) : null;
+
+  const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN, info: { Title: `Quote ${content.number}` } });
+  const chunks: Buffer[] = [];
+  doc.on('data', chunk => chunks.push(chunk));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const accent = branding.accentColor || TEXT;
+  const right = doc.page.width - PAGE_MARGIN;
+
+  // Header: logo or name on the left, quote details on the right
+  let logoDrawn = false;
+  if (logo) {
+    try {
+      doc.image(logo, PAGE_MARGIN, PAGE_MARGIN, { fit: [160, 60] });
+      logoDrawn = true;
+    } catch (error) {
+      logger.warn('Quote logo could not be decoded', { url: branding.logoUrl });
+    }
+  }
+  if (!logoDrawn) {
+    doc.fillColor(accent).fontSize(20).font('Helvetica-Bold').text(branding.name, PAGE_MARGIN, PAGE_MARGIN, { width: 250 });
+  }
+
+  doc
+    .fillColor(TEXT)
+    .fontSize(22)
+    .font('Helvetica-Bold')
+    .text('QUOTE', 300, PAGE_MARGIN, { width: right - 300, align: 'right' })
+    .fontSize(9)
+    .font('Helvetica')
+    .fillColor(MUTED)
+    .text(`No. ${content.number}`, { width: right - 300, align: 'right' })
+    .text(`Issued ${formatDate(content.issuedAt)}`, { width: right - 300, align: 'right' })
+    .text(`Valid until ${formatDate(content.validUntil)}`, { width: right - 300, align: 'right' });
+
+  // Sender and recipient blocks
+  const blockTop = PAGE_MARGIN + 90;
+  const sender = [branding.name, branding.address, branding.email, branding.phone, branding.website].filter(Boolean);
+  const recipient = [
+    content.contact.name,
+    content.contact.accountName,
+    content.contact.email,
+    content.contact.phone,
+  ].filter(Boolean);
+
+  doc.fontSize(8).fillColor(MUTED).font('Helvetica-Bold').text('FROM', PAGE_MARGIN, blockTop);
+  doc.fontSize(10).fillColor(TEXT).font('Helvetica').text(sender.join('\n'), PAGE_MARGIN, blockTop + 12, { width: 220 });
+  doc.fontSize(8).fillColor(MUTED).font('Helvetica-Bold').text('PREPARED FOR', 300, blockTop);
+  doc.fontSize(10).fillColor(TEXT).font('Helvetica').text(recipient.join('\n'), 300, blockTop + 12, { width: right - 300 });
+
+  doc.fontSize(12).font('Helvetica-Bold').text(content.deal.title, PAGE_MARGIN, blockTop + 90, { width: right - PAGE_MARGIN });
+
+  // Items table
+  let y = doc.y + 12;
+  const header = (top: number) => {
+    doc.rect(PAGE_MARGIN, top, right - PAGE_MARGIN, 20).fill(accent);
+    doc.fillColor('#ffffff').fontSize(9).font('Helvetica-Bold');
+    doc.text('Item', COLUMNS.name.x + 6, top + 6, { width: COLUMNS.name.width - 6 });
+    doc.text('Qty', COLUMNS.quantity.x, top + 6, { width: COLUMNS.quantity.width, align: 'right' });
+    doc.text('Unit price', COLUMNS.unitPrice.x, top + 6, { width: COLUMNS.unitPrice.width, align: 'right' });
+    doc.text('Disc.', COLUMNS.discount.x, top + 6, { width: COLUMNS.discount.width, align: 'right' });
+    doc.text('Amount', COLUMNS.amount.x, top + 6, { width: COLUMNS.amount.width - 6, align: 'right' });
+    return top + 26;
+  };
+  y = header(y);
+
+  doc.font('Helvetica').fontSize(10).fillColor(TEXT);
+  for (const item of content.items) {
+    const rowHeight = Math.max(doc.heightOfString(item.name, { width: COLUMNS.name.width - 6 }), 12) + 8;
+    if (y + rowHeight > doc.page.height - PAGE_MARGIN - 120) {
+      doc.addPage();
+      y = header(PAGE_MARGIN);
+      doc.font('Helvetica').fontSize(10).fillColor(TEXT);
+    }
+
+    doc.text(item.name, COLUMNS.name.x + 6, y, { width: COLUMNS.name.width - 6 });
+    doc.text(formatNumber(item.quantity), COLUMNS.quantity.x, y, { width: COLUMNS.quantity.width, align: 'right' });
+    doc.text(formatMoney(item.unitPriceCents, currency), COLUMNS.unitPrice.x, y, { width: COLUMNS.unitPrice.width, align: 'right' });
+    doc.text(item.discountPercent ? `${formatNumber(item.discountPercent)}%` : '-', COLUMNS.discount.x, y, {
+      width: COLUMNS.discount.width,
+      align: 'right',
+    });
+    doc.text(formatMoney(item.amountCents, currency), COLUMNS.amount.x, y, { width: COLUMNS.amount.width - 6, align: 'right' });
+
+    y += rowHeight;
+    doc.moveTo(PAGE_MARGIN, y - 4).lineTo(right, y - 4).strokeColor('#e5e7eb').lineWidth(0.5).stroke();
+  }
+
+  // Totals
+  y += 6;
+  const totalRow = (label: string, value: string, bold = false) => {
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(bold ? 12 : 10).fillColor(TEXT);
+    doc.text(label, 330, y, { width: 120, align: 'right' });
+    doc.text(value, COLUMNS.amount.x, y, { width: COLUMNS.amount.width - 6, align: 'right' });
+    y += bold ? 20 : 16;
+  };
+  totalRow('Subtotal', formatMoney(content.totals.amountCents, currency));
+  totalRow('Tax', formatMoney(content.totals.taxCents, currency));
+  totalRow('Total', formatMoney(content.totals.totalCents, currency), true);
+
+  // Notes and terms
+  doc.x = PAGE_MARGIN;
+  doc.y = y + 16;
+  for (const [title, text] of [['Notes', content.notes], ['Terms', branding.quoteTerms]] as const) {
+    if (!text) continue;
+    doc.font('Helvetica-Bold').fontSize(10).fillColor(TEXT).text(title, PAGE_MARGIN, doc.y, { width: right - PAGE_MARGIN });
+    doc.font('Helvetica').fontSize(9).fillColor(MUTED).text(text, { width: right - PAGE_MARGIN }).moveDown();
+  }
+
+  if (branding.quoteFooter) {
+    doc.fontSize(8).fillColor(MUTED).text(branding.quoteFooter, PAGE_MARGIN, doc.page.height - PAGE_MARGIN - 20, {
+      width: right - PAGE_MARGIN,
+      align: 'center',
+      lineBreak: false,
+    });
+  }
+
+  doc.end();
+  return done;
+}
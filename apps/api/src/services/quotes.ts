@@ -0,0 +1,471 @@
+import jwt from 'jsonwebtoken';
+import { Prisma, Quote } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import logger from '../middleware/logger';
+import { BrandingService } from './branding';
+import { sumLineItems } from './dealLineItems';
+import { DealStageHistoryService } from './dealStageHistory';
+import { LeadScoringService } from './leadScoring';
+import { stagePlacement } from './pipelines';
+import { QuoteContent, formatMoney, renderQuotePdf } from './quotePdf';
+import { sendEmail } from './messaging';
+import { ConsentService } from './consent';
+import { InboxService } from './inbox';
+import {
+  BusinessLogicError,
+  ConflictError,
+  ExternalServiceError,
+  NotFoundError,
+  ValidationError,
+} from '../utils/errors';
+
+export interface GenerateQuoteInput {
+  validDays?: number;
+  notes?: string | null;
+  createdBy?: string | null;
+}
+
+export interface SendQuoteInput {
+  // Defaults to the contact's email
+  to?: string;
+  subject?: string;
+  message?: string;
+}
+
+export interface QuoteResponseInput {
+  name?: string;
+  note?: string;
+  ip?: string;
+}
+
+export const DEFAULT_QUOTE_VALID_DAYS = 30;
+
+// Links keep working this long after the quote expires, so clients can still view it
+const LINK_GRACE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TOKEN_AUDIENCE = 'quote';
+
+// Everything but the PDF bytes, which are only read when downloaded
+const QUOTE_SELECT = {
+  id: true,
+  orgId: true,
+  dealId: true,
+  version: true,
+  status: true,
+  currency: true,
+  amountCents: true,
+  taxCents: true,
+  totalCents: true,
+  validUntil: true,
+  content: true,
+  sentTo: true,
+  sentAt: true,
+  viewedAt: true,
+  respondedAt: true,
+  responderName: true,
+  responseNote: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+type QuoteRecord = Omit<Quote, 'pdf' | 'responseIp'>;
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+const isExpired = (quote: Pick<Quote, 'validUntil'>, now = new Date()) => quote.validUntil < now;
+
+// Kept apart from JWT_SECRET so a leaked or guessed quote link secret cannot mint session tokens
+function linkSecret() {
+  const secret = process.env.QUOTE_LINK_SECRET;
+  if (!secret) {
+    throw new Error('QUOTE_LINK_SECRET must be set to sign quote links');
+  }
+  return secret;
+}
+
+function pdfFileName(quote: Pick<QuoteRecord, 'content'>) {
+  return `quote-${(quote.content as unknown as QuoteContent).number}.pdf`;
+}
+
+export class QuoteService {
+  /**
+   * Renders a new version from the deal's contact, line items and the org's
+   * branding. Deals without line items are quoted as one line for their value.
+   * Earlier versions still awaiting a response are superseded, so only the
+   * newest link can be accepted.
+   */
+  static async generate(orgId: string, dealId: string, input: GenerateQuoteInput = {}) {
+    const deal = await prisma.deal.findFirst({
+      where: { id: dealId, orgId, deletedAt: null },
+      include: {
+        contact: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } },
+        account: { select: { name: true } },
+        lineItems: { orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] },
+      },
+    });
+
+    if (!deal) {
+      throw new NotFoundError('Deal', dealId);
+    }
+
+    const latest = await prisma.quote.findFirst({
+      where: { dealId },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+    const version = (latest?.version ?? 0) + 1;
+
+    const issuedAt = new Date();
+    const validUntil = new Date(issuedAt.getTime() + (input.validDays ?? DEFAULT_QUOTE_VALID_DAYS) * DAY_MS);
+
+    const items = deal.lineItems.length > 0
+      ? deal.lineItems.map(item => ({
+          name: item.name,
+          quantity: Number(item.quantity),
+          unitPriceCents: item.unitPriceCents,
+          discountPercent: Number(item.discountPercent),
+          taxRate: Number(item.taxRate),
+          amountCents: item.amountCents,
+          taxCents: item.taxCents,
+        }))
+      : [{
+          name: deal.title,
+          quantity: 1,
+          unitPriceCents: deal.valueCents,
+          discountPercent: 0,
+          taxRate: 0,
+          amountCents: deal.valueCents,
+          taxCents: 0,
+        }];
+
+    const content: QuoteContent = {
+      number: `${deal.id.slice(0, 8).toUpperCase()}-${version}`,
+      version,
+      issuedAt: issuedAt.toISOString(),
+      validUntil: validUntil.toISOString(),
+      currency: deal.currency,
+      branding: await BrandingService.get(orgId),
+      deal: { id: deal.id, title: deal.title },
+      contact: {
+        id: deal.contact.id,
+        name: [deal.contact.firstName, deal.contact.lastName].filter(Boolean).join(' '),
+        email: deal.contact.email,
+        phone: deal.contact.phone,
+        accountName: deal.account?.name ?? null,
+      },
+      items,
+      totals: sumLineItems(items),
+      notes: input.notes ?? null,
+    };
+
+    const pdf = await renderQuotePdf(content);
+
+    try {
+      const quote = await prisma.$transaction(async tx => {
+        await tx.quote.updateMany({
+          where: { dealId, status: { in: ['draft', 'sent'] } },
+          data: { status: 'superseded' },
+        });
+
+        return tx.quote.create({
+          data: {
+            orgId,
+            dealId,
+            version,
+            currency: deal.currency,
+            amountCents: content.totals.amountCents,
+            taxCents: content.totals.taxCents,
+            totalCents: content.totals.totalCents,
+            validUntil,
+            content: content as unknown as Prisma.InputJsonObject,
+            pdf,
+            createdBy: input.createdBy ?? null,
+          },
+          select: QUOTE_SELECT,
+        });
+      });
+
+      logger.info('Quote generated', { orgId, dealId, quoteId: quote.id, version });
+      return quote;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictError('Another quote version was generated at the same time; try again');
+      }
+      throw error;
+    }
+  }
+
+  static async list(orgId: string, dealId: string) {
+    const deal = await prisma.deal.findFirst({ where: { id: dealId, orgId }, select: { id: true } });
+    if (!deal) {
+      throw new NotFoundError('Deal', dealId);
+    }
+
+    return prisma.quote.findMany({
+      where: { orgId, dealId },
+      orderBy: { version: 'desc' },
+      select: QUOTE_SELECT,
+    });
+  }
+
+  static async get(orgId: string, id: string) {
+    const quote = await prisma.quote.findFirst({ where: { id, orgId }, select: QUOTE_SELECT });
+    if (!quote) {
+      throw new NotFoundError('Quote', id);
+    }
+    return quote;
+  }
+
+  static async getPdf(orgId: string, id: string) {
+    const quote = await prisma.quote.findFirst({ where: { id, orgId }, select: { content: true, pdf: true } });
+    if (!quote) {
+      throw new NotFoundError('Quote', id);
+    }
+    return { fileName: pdfFileName(quote), pdf: Buffer.from(quote.pdf) };
+  }
+
+  /**
+   * Emails the PDF with a signed accept/decline link through SendGrid and logs
+   * the message and an activity on the contact. Sent quotes can be re-sent.
+   */
+  static async send(orgId: string, id: string, input: SendQuoteInput = {}) {
+    const quote = await prisma.quote.findFirst({
+      where: { id, orgId },
+      include: { deal: { select: { id: true, contactId: true, deletedAt: true } } },
+    });
+
+    if (!quote || quote.deal.deletedAt) {
+      throw new NotFoundError('Quote', id);
+    }
+    if (quote.status !== 'draft' && quote.status !== 'sent') {
+      throw new ConflictError(`Quote is ${quote.status} and can no longer be sent`, { status: quote.status });
+    }
+    if (isExpired(quote)) {
+      throw new BusinessLogicError('Quote has expired; generate a new version', { validUntil: quote.validUntil });
+    }
+
+    const content = quote.content as unknown as QuoteContent;
+    const to = input.to || content.contact.email;
+    if (!to) {
+      throw new ValidationError('Contact has no email address; give a recipient', { field: 'to' });
+    }
+    await ConsentService.assertCanSend(orgId, { channel: 'email', to, source: 'quotes.send', contactId: quote.deal.contactId });
+
+    const link = this.publicLink(quote);
+    const subject = input.subject || `Quote ${content.number} from ${content.branding.name}`;
+    const html = [
+      `<p>Hi ${escapeHtml(content.contact.name)},</p>`,
+      input.message
+        ? `<p>${escapeHtml(input.message).replace(/\n/g, '<br>')}</p>`
+        : `<p>Please find our quote for ${escapeHtml(content.deal.title)} attached.</p>`,
+      `<p>Total: <strong>${formatMoney(content.totals.totalCents, content.currency)}</strong>, valid until ${new Date(content.validUntil).toDateString()}.</p>`,
+      `<p><a href="${link}">Review and accept the quote</a></p>`,
+      `<p>${escapeHtml(content.branding.name)}</p>`,
+    ].join('\n');
+
+    const result = await sendEmail({
+      orgId,
+      to,
+      subject,
+      html,
+      from: content.branding.email || undefined,
+      attachments: [{ filename: pdfFileName(quote), content: Buffer.from(quote.pdf).toString('base64'), type: 'application/pdf' }],
+    });
+
+    if (!result.success) {
+      throw new ExternalServiceError(result.provider, result.error || 'Failed to send quote');
+    }
+
+    const sentAt = new Date();
+    const updated = await prisma.$transaction(async tx => {
+      const sent = await tx.quote.update({
+        where: { id },
+        data: { status: 'sent', sentAt, sentTo: to },
+        select: QUOTE_SELECT,
+      });
+      await InboxService.recordMessage(
+        orgId,
+        {
+          contactId: quote.deal.contactId,
+          direction: 'outbound',
+          channel: 'email',
+          toAddr: to,
+          fromAddr: result.from || '',
+          body: html,
+          providerMessageId: result.messageId,
+          meta: { subject, quoteId: id, messageId: result.messageId, sandbox: result.sandbox },
+        },
+        tx
+      );
+      await tx.activity.create({
+        data: {
+          orgId,
+          contactId: quote.deal.contactId,
+          dealId: quote.dealId,
+          type: 'email',
+          content: `Quote ${content.number} sent to ${to}`,
+          meta: { quoteId: id, version: quote.version },
+        },
+      });
+      return sent;
+    });
+
+    logger.info('Quote sent', { orgId, quoteId: id, dealId: quote.dealId, sandbox: result.sandbox });
+    return { quote: updated, link };
+  }
+
+  /** Client-facing view of a signed link; the first open stamps `viewedAt` */
+  static async viewPublic(token: string) {
+    const quote = await this.fromToken(token);
+
+    if (!quote.viewedAt) {
+      await prisma.quote.update({ where: { id: quote.id }, data: { viewedAt: new Date() } });
+    }
+
+    return this.publicView(quote);
+  }
+
+  static async getPublicPdf(token: string) {
+    const quote = await this.fromToken(token);
+    const { pdf } = await prisma.quote.findUniqueOrThrow({ where: { id: quote.id }, select: { pdf: true } });
+    return { fileName: pdfFileName(quote), pdf: Buffer.from(pdf) };
+  }
+
+  /**
+   * Records the client's answer. Accepting moves the deal to its pipeline's won
+   * stage; declining leaves the deal where it is for the team to follow up.
+   */
+  static async respond(token: string, decision: 'accepted' | 'declined', input: QuoteResponseInput = {}) {
+    const quote = await this.fromToken(token);
+
+    if (quote.status === decision) {
+      return this.publicView(quote);
+    }
+    if (quote.status === 'superseded') {
+      throw new ConflictError('This quote was replaced by a newer version', { status: quote.status });
+    }
+    if (quote.status !== 'sent') {
+      throw new ConflictError(`Quote was already ${quote.status}`, { status: quote.status });
+    }
+    if (isExpired(quote)) {
+      throw new BusinessLogicError('Quote has expired', { validUntil: quote.validUntil });
+    }
+
+    const deal = await prisma.deal.findFirst({
+      where: { id: quote.dealId, deletedAt: null },
+      include: { pipeline: { include: { stages: { orderBy: { position: 'asc' } } } } },
+    });
+    if (!deal) {
+      throw new NotFoundError('Quote');
+    }
+
+    const content = quote.content as unknown as QuoteContent;
+    const respondedAt = new Date();
+    const responder = input.name?.trim() || content.contact.name;
+
+    const updated = await prisma.$transaction(async tx => {
+      // Guards against a second response landing at the same time
+      const { count } = await tx.quote.updateMany({
+        where: { id: quote.id, status: 'sent' },
+        data: {
+          status: decision,
+          respondedAt,
+          responderName: responder,
+          responseNote: input.note?.trim() || null,
+          responseIp: input.ip ?? null,
+        },
+      });
+      if (count === 0) {
+        throw new ConflictError('Quote was already answered');
+      }
+
+      if (decision === 'accepted' && deal.pipeline.stages.find(stage => stage.id === deal.stageId)?.type !== 'won') {
+        const wonStage = deal.pipeline.stages.find(stage => stage.type === 'won');
+        if (!wonStage) {
+          throw new BusinessLogicError(`Pipeline '${deal.pipeline.name}' has no won stage`);
+        }
+
+        const moved = await tx.deal.update({
+          where: { id: deal.id },
+          data: stagePlacement(wonStage, deal),
+        });
+        await DealStageHistoryService.record(tx, {
+          orgId: deal.orgId,
+          dealId: deal.id,
+          pipelineId: moved.pipelineId,
+          fromStageId: deal.stageId,
+          toStageId: moved.stageId,
+          ownerId: moved.ownerId,
+          changedAt: respondedAt,
+        });
+      }
+
+      await tx.activity.create({
+        data: {
+          orgId: deal.orgId,
+          contactId: deal.contactId,
+          dealId: deal.id,
+          type: 'note',
+          content: `Quote ${content.number} ${decision} by ${responder}${input.note?.trim() ? `: ${input.note.trim()}` : ''}`,
+          meta: { quoteId: quote.id, version: quote.version, decision },
+        },
+      });
+
+      return tx.quote.findUniqueOrThrow({ where: { id: quote.id }, select: QUOTE_SELECT });
+    });
+
+    if (decision === 'accepted') {
+      await LeadScoringService.queueRecompute(deal.orgId, deal.contactId);
+    }
+
+    logger.info(`Quote ${decision}`, { orgId: deal.orgId, quoteId: quote.id, dealId: deal.id });
+    return this.publicView(updated);
+  }
+
+  static signToken(quote: Pick<Quote, 'id' | 'version' | 'validUntil'>) {
+    const expiresAt = quote.validUntil.getTime() + LINK_GRACE_DAYS * DAY_MS;
+    return jwt.sign({ version: quote.version }, linkSecret(), {
+      subject: quote.id,
+      audience: TOKEN_AUDIENCE,
+      expiresIn: Math.max(Math.floor((expiresAt - Date.now()) / 1000), 1),
+    });
+  }
+
+  static publicLink(quote: Pick<Quote, 'id' | 'version' | 'validUntil'>) {
+    return `${process.env.FRONTEND_URL || ''}/quotes/${this.signToken(quote)}`;
+  }
+
+  /** Invalid, expired and tampered links all read as not found */
+  private static async fromToken(token: string): Promise<QuoteRecord> {
+    let quoteId: string | undefined;
+    try {
+      const payload = jwt.verify(token, linkSecret(), { audience: TOKEN_AUDIENCE }) as jwt.JwtPayload;
+      quoteId = payload.sub;
+    } catch {
+      quoteId = undefined;
+    }
+
+    const quote = quoteId ? await prisma.quote.findUnique({ where: { id: quoteId }, select: QUOTE_SELECT }) : null;
+    if (!quote) {
+      throw new NotFoundError('Quote');
+    }
+    return quote;
+  }
+
+  private static publicView(quote: QuoteRecord) {
+    return {
+      id: quote.id,
+      version: quote.version,
+      status: quote.status,
+      expired: quote.status === 'sent' && isExpired(quote),
+      validUntil: quote.validUntil,
+      respondedAt: quote.respondedAt,
+      responderName: quote.responderName,
+      content: quote.content as unknown as QuoteContent,
+    };
+  }
+}
@@ -0,0 +1,290 @@
+import { Prisma, ScheduledMessage, ScheduledMessageStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import logger from '../middleware/logger';
+import { ConsentService } from './consent';
+import { InboxService } from './inbox';
+import { QuietHoursService, isQuietTime, nextAllowedTime } from './quietHours';
+import { TemplateService } from './templates';
+import { sendEmail, sendSms } from './messaging';
+import { dequeueScheduledMessage, enqueueScheduledMessage } from '../workers/enqueue';
+import { ConflictError, ExternalServiceError, NotFoundError, ValidationError } from '../utils/errors';
+
+export type ScheduledChannel = 'sms' | 'email';
+
+// Records a scheduled template is rendered for when it is sent
+export interface ScheduledTemplateContext {
+  appointmentId?: string;
+  dealId?: string;
+  variables?: Record<string, string | number>;
+}
+
+export interface ScheduleMessageInput {
+  channel: ScheduledChannel;
+  toAddr: string;
+  fromAddr?: string;
+  subject?: string;
+  body?: string;
+  templateId?: string;
+  templateContext?: ScheduledTemplateContext;
+  contactId?: string;
+  // Defaults to now, which still defers a send that falls in quiet hours
+  sendAt?: Date;
+}
+
+export interface ScheduledMessageListQuery {
+  status?: ScheduledMessageStatus;
+  channel?: ScheduledChannel;
+  contactId?: string;
+  from?: string;
+  to?: string;
+  page: number;
+  limit: number;
+}
+
+const SCHEDULED_MESSAGE_INCLUDE = {
+  contact: { select: { id: true, firstName: true, lastName: true, email: true, phone: true, timezone: true } },
+};
+
+export class ScheduledMessageService {
+  /**
+   * Holds a message until sendAt, moved past the organization's quiet hours as
+   * they fall in the recipient's timezone, and queues it to be sent then.
+   */
+  static async schedule(orgId: string, input: ScheduleMessageInput, actorId?: string) {
+    if (!input.body && !input.templateId) {
+      throw new ValidationError('Either body or templateId is required', { field: 'body' });
+    }
+
+    if (input.templateId) {
+      const template = await TemplateService.get(orgId, input.templateId);
+      if (template.archivedAt) {
+        throw new ValidationError(`Template '${template.name}' is archived`, { field: 'templateId' });
+      }
+      if (template.channel !== input.channel) {
+        throw new ValidationError(`Template '${template.name}' is for ${template.channel}, not ${input.channel}`, {
+          field: 'templateId',
+        });
+      }
+    }
+
+    const sendAt = input.sendAt ?? new Date();
+    const recipient = await QuietHoursService.resolve(orgId, {
+      contactId: input.contactId,
+      channel: input.channel,
+      to: input.toAddr,
+    });
+    if (input.contactId && !recipient.contactId) {
+      throw new NotFoundError('Contact', input.contactId);
+    }
+
+    const scheduledFor = recipient.quietHours
+      ? nextAllowedTime(sendAt, recipient.quietHours, recipient.timeZone)
+      : sendAt;
+
+    const message = await prisma.scheduledMessage.create({
+      data: {
+        orgId,
+        contactId: recipient.contactId,
+        channel: input.channel,
+        toAddr: input.toAddr,
+        fromAddr: input.fromAddr,
+        subject: input.subject,
+        body: input.body,
+        templateId: input.templateId,
+        templateContext: input.templateContext as Prisma.InputJsonValue | undefined,
+        sendAt,
+        scheduledFor,
+        createdBy: actorId,
+      },
+    });
+
+    const job = await enqueueScheduledMessage({ orgId, contactId: message.contactId ?? undefined, scheduledMessageId: message.id }, scheduledFor);
+
+    logger.info('Message scheduled', {
+      orgId,
+      scheduledMessageId: message.id,
+      channel: input.channel,
+      sendAt,
+      scheduledFor,
+      deferred: scheduledFor.getTime() !== sendAt.getTime(),
+    });
+
+    return prisma.scheduledMessage.update({
+      where: { id: message.id },
+      data: { jobId: job.id },
+      include: SCHEDULED_MESSAGE_INCLUDE,
+    });
+  }
+
+  static async list(orgId: string, query: ScheduledMessageListQuery) {
+    const { status, channel, contactId, from, to, page, limit } = query;
+
+    const where: Prisma.ScheduledMessageWhereInput = {
+      orgId,
+      ...(status && { status }),
+      ...(channel && { channel }),
+      ...(contactId && { contactId }),
+      ...((from || to) && {
+        scheduledFor: {
+          ...(from && { gte: new Date(from) }),
+          ...(to && { lte: new Date(to) }),
+        },
+      }),
+    };
+
+    const [messages, total] = await Promise.all([
+      prisma.scheduledMessage.findMany({
+        where,
+        include: SCHEDULED_MESSAGE_INCLUDE,
+        orderBy: [{ scheduledFor: 'asc' }, { createdAt: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.scheduledMessage.count({ where }),
+    ]);
+
+    return { messages, total };
+  }
+
+  static async get(orgId: string, id: string) {
+    const message = await prisma.scheduledMessage.findFirst({
+      where: { id, orgId },
+      include: SCHEDULED_MESSAGE_INCLUDE,
+    });
+
+    if (!message) {
+      throw new NotFoundError('Scheduled message', id);
+    }
+
+    return message;
+  }
+
+  static async cancel(orgId: string, id: string) {
+    const message = await this.get(orgId, id);
+
+    if (message.status !== 'pending') {
+      throw new ConflictError(`Only pending messages can be canceled; this one is ${message.status}`, {
+        status: message.status,
+      });
+    }
+
+    // The worker skips anything no longer pending, so a job that cannot be removed is harmless
+    if (message.jobId) {
+      await dequeueScheduledMessage(message.jobId).catch(error =>
+        logger.warn('Failed to remove scheduled message job', { orgId, scheduledMessageId: id, error }),
+      );
+    }
+
+    return prisma.scheduledMessage.update({
+      where: { id },
+      data: { status: 'canceled', canceledAt: new Date() },
+      include: SCHEDULED_MESSAGE_INCLUDE,
+    });
+  }
+
+  /**
+   * Sends a scheduled message from the worker. Quiet hours are checked again in
+   * case the settings changed since it was scheduled; a send that now falls in
+   * them is queued for the end of the window instead.
+   */
+  static async dispatch(orgId: string, id: string): Promise<ScheduledMessage | null> {
+    const message = await prisma.scheduledMessage.findFirst({ where: { id, orgId } });
+
+    if (!message || message.status !== 'pending') {
+      logger.info('Scheduled message no longer pending', { orgId, scheduledMessageId: id, status: message?.status });
+      return null;
+    }
+
+    const recipient = await QuietHoursService.resolve(orgId, { contactId: message.contactId });
+    const now = new Date();
+
+    if (recipient.quietHours && isQuietTime(now, recipient.quietHours, recipient.timeZone)) {
+      const scheduledFor = nextAllowedTime(now, recipient.quietHours, recipient.timeZone);
+      const job = await enqueueScheduledMessage(
+        { orgId, contactId: message.contactId ?? undefined, scheduledMessageId: id },
+        scheduledFor,
+      );
+
+      logger.info('Scheduled message deferred for quiet hours', { orgId, scheduledMessageId: id, scheduledFor });
+      return prisma.scheduledMessage.update({ where: { id }, data: { scheduledFor, jobId: job.id } });
+    }
+
+    try {
+      return await this.send(orgId, message, recipient.timeZone);
+    } catch (error) {
+      logger.error('Failed to send scheduled message', { orgId, scheduledMessageId: id, error });
+      return prisma.scheduledMessage.update({
+        where: { id },
+        data: { status: 'failed', error: error instanceof Error ? error.message : String(error) },
+      });
+    }
+  }
+
+  private static async send(orgId: string, message: ScheduledMessage, timeZone: string) {
+    const channel = message.channel as ScheduledChannel;
+    let body = message.body ?? '';
+    let subject = message.subject ?? undefined;
+    let text: string | undefined;
+    let template: { id: string; version: number } | undefined;
+
+    if (message.templateId) {
+      const context = (message.templateContext ?? {}) as ScheduledTemplateContext;
+      const rendered = await TemplateService.render(orgId, message.templateId, {
+        ...context,
+        contactId: message.contactId ?? undefined,
+        timeZone,
+      });
+
+      body = (channel === 'email' ? rendered.html || rendered.text : rendered.text) || '';
+      subject = rendered.subject ?? subject;
+      text = rendered.text ?? undefined;
+      template = { id: rendered.templateId, version: rendered.version };
+    }
+
+    await ConsentService.assertCanSend(orgId, {
+      channel,
+      to: message.toAddr,
+      source: 'messages.scheduled',
+      contactId: message.contactId,
+    });
+
+    const result = channel === 'sms'
+      ? await sendSms({ orgId, to: message.toAddr, body, from: message.fromAddr ?? undefined })
+      : await sendEmail({
+          orgId,
+          to: message.toAddr,
+          subject: subject || 'Message from ClientFlow',
+          html: body,
+          text,
+          from: message.fromAddr ?? undefined,
+        });
+
+    if (!result.success) {
+      throw new ExternalServiceError(result.provider, result.error || 'Failed to send message');
+    }
+
+    const stored = await InboxService.recordMessage(orgId, {
+      contactId: message.contactId,
+      direction: 'outbound',
+      channel,
+      toAddr: message.toAddr,
+      fromAddr: result.from || message.fromAddr || '',
+      body,
+      providerMessageId: result.messageId,
+      meta: {
+        subject: subject ?? null,
+        messageId: result.messageId ?? null,
+        sandbox: result.sandbox ?? false,
+        scheduledMessageId: message.id,
+        ...(template && { templateId: template.id, templateVersion: template.version }),
+      },
+    });
+
+    logger.info('Scheduled message sent', { orgId, scheduledMessageId: message.id, messageId: stored.id });
+
+    return prisma.scheduledMessage.update({
+      where: { id: message.id },
+      data: { status: 'sent', sentAt: new Date(), messageId: stored.id, error: null },
+    });
+  }
+}
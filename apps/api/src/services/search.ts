@@ -0,0 +1,148 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export const SEARCH_TYPES = ['contact', 'deal', 'activity', 'message', 'appointment'] as const;
+
+export type SearchType = (typeof SEARCH_TYPES)[number];
+
+export interface SearchQuery {
+  orgId: string;
+  q: string;
+  types?: SearchType[];
+  limit: number;
+}
+
+export interface SearchResult {
+  type: SearchType;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  /** Matched text with hits wrapped in HIGHLIGHT_START / HIGHLIGHT_STOP */
+  snippet: string;
+  rank: number;
+  contactId: string | null;
+  dealId: string | null;
+  createdAt: Date;
+}
+
+export const HIGHLIGHT_START = '<mark>';
+export const HIGHLIGHT_STOP = '</mark>';
+
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "`;
+
+/**
+ * Turns free text into a prefix tsquery (`jo & smi` -> `jo:* & smi:*`) so results
+ * show up while the user is still typing. Only letters and digits survive, which
+ * keeps to_tsquery from rejecting the input.
+ */
+export function toPrefixQuery(q: string): string | null {
+  const terms = q.match(/[\p{L}\p{N}]+/gu) || [];
+  if (terms.length === 0) {
+    return null;
+  }
+  return terms.slice(0, 8).map(term => `${term.toLowerCase()}:*`).join(' & ');
+}
+
+type TextSearchConfig = 'simple' | 'english';
+
+const tsquery = (config: TextSearchConfig, query: string) =>
+  Prisma.sql`to_tsquery(${Prisma.raw(`'${config}'`)}::regconfig, ${query})`;
+
+const headline = (config: TextSearchConfig, text: Prisma.Sql, query: string) =>
+  Prisma.sql`ts_headline(${Prisma.raw(`'${config}'`)}::regconfig, ${text}, ${tsquery(config, query)}, ${HEADLINE_OPTIONS})`;
+
+const rank = (config: TextSearchConfig, alias: string, query: string) =>
+  Prisma.sql`ts_rank(${Prisma.raw(alias)}.search_vector, ${tsquery(config, query)})`;
+
+const matches = (config: TextSearchConfig, alias: string, query: string) =>
+  Prisma.sql`${Prisma.raw(alias)}.search_vector @@ ${tsquery(config, query)}`;
+
+/**
+ * One query per entity. Each table is searched with the text search configuration
+ * its generated column uses (see prisma/sql/search_vectors.sql). Trashed records
+ * are left out; messages of a trashed contact are hidden with it.
+ */
+const QUERIES: Record<SearchType, (orgId: string, query: string, limit: number) => Prisma.Sql> = {
+  contact: (orgId, query, limit) => Prisma.sql`
+    SELECT 'contact' AS type, c.id, trim(c.first_name || ' ' || coalesce(c.last_name, '')) AS title,
+      concat_ws(' · ', c.email, c.phone) AS subtitle,
+      ${headline('simple', Prisma.sql`concat_ws(' ', c.first_name, c.last_name, c.email, c.phone)`, query)} AS snippet,
+      ${rank('simple', 'c', query)} AS rank, c.id AS "contactId", NULL::uuid AS "dealId", c.created_at AS "createdAt"
+    FROM contacts c
+    WHERE c.org_id = ${orgId}::uuid AND c.deleted_at IS NULL AND ${matches('simple', 'c', query)}
+    ORDER BY rank DESC, c.created_at DESC
+    LIMIT ${limit}`,
+
+  deal: (orgId, query, limit) => Prisma.sql`
+    SELECT 'deal' AS type, d.id, d.title,
+      trim(c.first_name || ' ' || coalesce(c.last_name, '')) AS subtitle,
+      ${headline('english', Prisma.sql`d.title`, query)} AS snippet,
+      ${rank('english', 'd', query)} AS rank, d.contact_id AS "contactId", d.id AS "dealId", d.created_at AS "createdAt"
+    FROM deals d
+    JOIN contacts c ON c.id = d.contact_id
+    WHERE d.org_id = ${orgId}::uuid AND d.deleted_at IS NULL AND ${matches('english', 'd', query)}
+    ORDER BY rank DESC, d.created_at DESC
+    LIMIT ${limit}`,
+
+  activity: (orgId, query, limit) => Prisma.sql`
+    SELECT 'activity' AS type, a.id, initcap(a.type::text) AS title,
+      trim(c.first_name || ' ' || coalesce(c.last_name, '')) AS subtitle,
+      ${headline('english', Prisma.sql`a.content`, query)} AS snippet,
+      ${rank('english', 'a', query)} AS rank, a.contact_id AS "contactId", a.deal_id AS "dealId", a.created_at AS "createdAt"
+    FROM activities a
+    LEFT JOIN contacts c ON c.id = a.contact_id
+    WHERE a.org_id = ${orgId}::uuid AND a.deleted_at IS NULL AND ${matches('english', 'a', query)}
+    ORDER BY rank DESC, a.created_at DESC
+    LIMIT ${limit}`,
+
+  message: (orgId, query, limit) => Prisma.sql`
+    SELECT 'message' AS type, m.id,
+      coalesce(nullif(trim(c.first_name || ' ' || coalesce(c.last_name, '')), ''),
+        CASE WHEN m.direction = 'inbound' THEN m.from_addr ELSE m.to_addr END) AS title,
+      upper(m.channel::text) || ' · ' || m.direction::text AS subtitle,
+      ${headline('english', Prisma.sql`m.body`, query)} AS snippet,
+      ${rank('english', 'm', query)} AS rank, m.contact_id AS "contactId", NULL::uuid AS "dealId", m.created_at AS "createdAt"
+    FROM messages m
+    LEFT JOIN contacts c ON c.id = m.contact_id
+    WHERE m.org_id = ${orgId}::uuid AND c.deleted_at IS NULL AND ${matches('english', 'm', query)}
+    ORDER BY rank DESC, m.created_at DESC
+    LIMIT ${limit}`,
+
+  appointment: (orgId, query, limit) => Prisma.sql`
+    SELECT 'appointment' AS type, ap.id,
+      trim(c.first_name || ' ' || coalesce(c.last_name, '')) AS title,
+      to_char(ap.starts_at, 'YYYY-MM-DD HH24:MI') || ' · ' || ap.status::text AS subtitle,
+      ${headline('simple', Prisma.sql`coalesce(ap.location, '')`, query)} AS snippet,
+      ${rank('simple', 'ap', query)} AS rank, ap.contact_id AS "contactId", NULL::uuid AS "dealId", ap.created_at AS "createdAt"
+    FROM appointments ap
+    JOIN contacts c ON c.id = ap.contact_id
+    WHERE ap.org_id = ${orgId}::uuid AND ap.deleted_at IS NULL AND ${matches('simple', 'ap', query)}
+    ORDER BY rank DESC, ap.created_at DESC
+    LIMIT ${limit}`,
+};
+
+export class SearchService {
+  /**
+   * Ranked matches across contacts, deals, activities, messages and appointments
+   * in one organization, best first. Snippets are raw record text, so clients
+   * must escape them and only treat the highlight markers as markup.
+   */
+  static async search({ orgId, q, types, limit }: SearchQuery): Promise<SearchResult[]> {
+    const query = toPrefixQuery(q);
+    if (!query) {
+      return [];
+    }
+
+    const selected = types && types.length > 0 ? types : [...SEARCH_TYPES];
+
+    const rows = await Promise.all(
+      selected.map(type => prisma.$queryRaw<SearchResult[]>(QUERIES[type](orgId, query, limit)))
+    );
+
+    return rows
+      .flat()
+      .map(row => ({ ...row, rank: Number(row.rank) }))
+      .sort((a, b) => b.rank - a.rank || b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,401 @@
+import { z } from 'zod';
+import { AppointmentStatus, Prisma, Segment } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { CustomFieldService } from './customFields';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+export const SEGMENT_OPERATORS = [
+  'eq',
+  'neq',
+  'contains',
+  'starts_with',
+  'in',
+  'not_in',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'before',
+  'after',
+  'within_last_days',
+  'not_within_last_days',
+  'has_any',
+  'has_all',
+  'has_none',
+  'is_set',
+  'is_not_set',
+] as const;
+
+export type SegmentOperator = (typeof SEGMENT_OPERATORS)[number];
+
+export interface SegmentCondition {
+  field: string;
+  op: SegmentOperator;
+  value?: unknown;
+}
+
+// A filter is a condition or an AND/OR group of nested filters
+export type SegmentFilter = SegmentCondition | { and: SegmentFilter[] } | { or: SegmentFilter[] };
+
+export interface CreateSegmentInput {
+  name: string;
+  description?: string | null;
+  filter: SegmentFilter;
+  isShared?: boolean;
+}
+
+export type UpdateSegmentInput = Partial<CreateSegmentInput>;
+
+// Who is asking: private segments are only visible to their creator, and only
+// the creator or an org admin may change a segment. Omitted for system callers.
+export interface SegmentActor {
+  userId: string;
+  canManage: boolean;
+}
+
+const MAX_GROUP_SIZE = 50;
+const MAX_DEPTH = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SegmentFilterSchema: z.ZodType<SegmentFilter> = z.lazy(() =>
+  z.union([
+    z.object({ and: z.array(SegmentFilterSchema).min(1).max(MAX_GROUP_SIZE) }).strict(),
+    z.object({ or: z.array(SegmentFilterSchema).min(1).max(MAX_GROUP_SIZE) }).strict(),
+    z
+      .object({
+        field: z.string().min(1),
+        op: z.enum(SEGMENT_OPERATORS),
+        value: z.unknown().optional(),
+      })
+      .strict(),
+  ])
+);
+
+type Where = Prisma.ContactWhereInput;
+
+const TEXT_FIELDS = ['firstName', 'lastName', 'email', 'phone'] as const;
+const DEAL_STATUSES = ['open', 'won', 'lost'];
+const APPOINTMENT_STATUSES: string[] = Object.values(AppointmentStatus);
+
+// Fields a filter can reference, besides `customFields.<key>`
+export const SEGMENT_FIELDS: Record<string, SegmentOperator[]> = {
+  firstName: ['eq', 'neq', 'contains', 'starts_with', 'in'],
+  lastName: ['eq', 'neq', 'contains', 'starts_with', 'in', 'is_set', 'is_not_set'],
+  email: ['eq', 'neq', 'contains', 'starts_with', 'in', 'is_set', 'is_not_set'],
+  phone: ['eq', 'neq', 'contains', 'starts_with', 'in', 'is_set', 'is_not_set'],
+  createdAt: ['before', 'after', 'within_last_days', 'not_within_last_days'],
+  tags: ['has_any', 'has_all', 'has_none', 'is_set', 'is_not_set'],
+  leadScore: ['eq', 'gt', 'gte', 'lt', 'lte'],
+  'deal.status': ['in', 'not_in'],
+  'deal.pipelineId': ['in', 'not_in'],
+  'deal.stageId': ['in', 'not_in'],
+  'deal.valueCents': ['eq', 'gt', 'gte', 'lt', 'lte'],
+  'activity.lastAt': ['before', 'after', 'within_last_days', 'not_within_last_days', 'is_set', 'is_not_set'],
+  'appointment.status': ['in', 'not_in'],
+  'message.lastInboundAt': ['before', 'after', 'within_last_days', 'not_within_last_days', 'is_set', 'is_not_set'],
+  'message.lastOutboundAt': ['before', 'after', 'within_last_days', 'not_within_last_days', 'is_set', 'is_not_set'],
+};
+
+const isGroup = (filter: SegmentFilter): filter is { and: SegmentFilter[] } | { or: SegmentFilter[] } =>
+  'and' in filter || 'or' in filter;
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+function fail(condition: SegmentCondition, message: string): never {
+  throw new ValidationError(`Filter on '${condition.field}': ${message}`, { field: condition.field, op: condition.op });
+}
+
+function stringValue(condition: SegmentCondition) {
+  if (typeof condition.value !== 'string' || condition.value.length === 0) {
+    fail(condition, `'${condition.op}' needs a text value`);
+  }
+  return condition.value;
+}
+
+function listValue(condition: SegmentCondition, allowed?: string[]) {
+  const value = condition.value;
+  if (!Array.isArray(value) || value.length === 0 || !value.every(item => typeof item === 'string')) {
+    fail(condition, `'${condition.op}' needs a non-empty list of values`);
+  }
+  const invalid = allowed ? value.filter(item => !allowed.includes(item)) : [];
+  if (invalid.length > 0) {
+    fail(condition, `unknown value ${invalid.map(item => `'${item}'`).join(', ')}`);
+  }
+  return value as string[];
+}
+
+function numberValue(condition: SegmentCondition) {
+  if (typeof condition.value !== 'number' || !Number.isFinite(condition.value)) {
+    fail(condition, `'${condition.op}' needs a number`);
+  }
+  return condition.value;
+}
+
+// Dates are absolute for before/after and relative to `now` for the day-window operators
+function dateValue(condition: SegmentCondition, now: Date) {
+  if (condition.op === 'within_last_days' || condition.op === 'not_within_last_days') {
+    const days = numberValue(condition);
+    if (!Number.isInteger(days) || days < 1) {
+      fail(condition, 'day windows must be a positive whole number');
+    }
+    return new Date(now.getTime() - days * DAY_MS);
+  }
+
+  const date = typeof condition.value === 'string' ? new Date(condition.value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    fail(condition, `'${condition.op}' needs an ISO date`);
+  }
+  return date;
+}
+
+function textCondition(field: (typeof TEXT_FIELDS)[number], condition: SegmentCondition): Where {
+  switch (condition.op) {
+    case 'eq':
+      return { [field]: { equals: stringValue(condition), mode: 'insensitive' } };
+    case 'neq':
+      return { NOT: { [field]: { equals: stringValue(condition), mode: 'insensitive' } } };
+    case 'contains':
+      return { [field]: { contains: stringValue(condition), mode: 'insensitive' } };
+    case 'starts_with':
+      return { [field]: { startsWith: stringValue(condition), mode: 'insensitive' } };
+    case 'in':
+      return { OR: listValue(condition).map(value => ({ [field]: { equals: value, mode: 'insensitive' } })) };
+    case 'is_set':
+      return { AND: [{ [field]: { not: null } }, { NOT: { [field]: '' } }] };
+    default:
+      return { OR: [{ [field]: null }, { [field]: '' }] };
+  }
+}
+
+/**
+ * Date conditions on the most recent related record (activity, message). "Last
+ * X before D" means the contact has such records but none on or after D.
+ */
+function lastEventCondition(
+  relation: 'activities' | 'messages',
+  base: Prisma.ActivityWhereInput & Prisma.MessageWhereInput,
+  condition: SegmentCondition,
+  now: Date
+): Where {
+  if (condition.op === 'is_set') {
+    return { [relation]: { some: base } };
+  }
+  if (condition.op === 'is_not_set') {
+    return { [relation]: { none: base } };
+  }
+
+  const since = dateValue(condition, now);
+  const recent = { ...base, createdAt: { gte: since } };
+
+  switch (condition.op) {
+    case 'after':
+    case 'within_last_days':
+      return { [relation]: { some: recent } };
+    case 'not_within_last_days':
+      return { [relation]: { none: recent } };
+    default:
+      return { AND: [{ [relation]: { some: base } }, { [relation]: { none: recent } }] };
+  }
+}
+
+function dealCondition(field: string, condition: SegmentCondition): Where {
+  if (field === 'deal.valueCents') {
+    const value = numberValue(condition);
+    return { deals: { some: { valueCents: condition.op === 'eq' ? value : { [condition.op]: value } } } };
+  }
+
+  const values = listValue(condition, field === 'deal.status' ? DEAL_STATUSES : undefined);
+  const match: Prisma.DealWhereInput =
+    field === 'deal.status'
+      ? { stage: { type: { in: values as Prisma.EnumPipelineStageTypeFilter['in'] } } }
+      : { [field === 'deal.stageId' ? 'stageId' : 'pipelineId']: { in: values } };
+
+  return { deals: condition.op === 'in' ? { some: match } : { none: match } };
+}
+
+interface CompileContext {
+  orgId: string;
+  now: Date;
+}
+
+async function compileCondition(condition: SegmentCondition, context: CompileContext): Promise<Where> {
+  const { field, op } = condition;
+
+  if (field.startsWith('customFields.')) {
+    const key = field.slice('customFields.'.length);
+    const raw = op === 'in' ? listValue(condition).join(',') : String(condition.value ?? '');
+    // Same operators and value parsing as the ?cf[key][op]= list filters
+    const filters = await CustomFieldService.buildFilters(context.orgId, 'contact', { [key]: { [op]: raw } });
+    return { AND: filters };
+  }
+
+  const operators = SEGMENT_FIELDS[field];
+  if (!operators) {
+    fail(condition, 'unknown field');
+  }
+  if (!operators.includes(op)) {
+    fail(condition, `operator '${op}' is not supported`);
+  }
+
+  if ((TEXT_FIELDS as readonly string[]).includes(field)) {
+    return textCondition(field as (typeof TEXT_FIELDS)[number], condition);
+  }
+
+  switch (field) {
+    case 'createdAt': {
+      const date = dateValue(condition, context.now);
+      return op === 'before' || op === 'not_within_last_days' ? { createdAt: { lt: date } } : { createdAt: { gte: date } };
+    }
+    case 'tags':
+      if (op === 'is_set') return { NOT: { tags: { isEmpty: true } } };
+      if (op === 'is_not_set') return { tags: { isEmpty: true } };
+      if (op === 'has_all') return { tags: { hasEvery: listValue(condition) } };
+      if (op === 'has_none') return { NOT: { tags: { hasSome: listValue(condition) } } };
+      return { tags: { hasSome: listValue(condition) } };
+    case 'leadScore': {
+      const value = numberValue(condition);
+      return { leadScore: op === 'eq' ? value : { [op]: value } };
+    }
+    case 'activity.lastAt':
+      return lastEventCondition('activities', {}, condition, context.now);
+    case 'message.lastInboundAt':
+      return lastEventCondition('messages', { direction: 'inbound' }, condition, context.now);
+    case 'message.lastOutboundAt':
+      return lastEventCondition('messages', { direction: 'outbound' }, condition, context.now);
+    case 'appointment.status': {
+      const match = { status: { in: listValue(condition, APPOINTMENT_STATUSES) as AppointmentStatus[] } };
+      return { appointments: op === 'in' ? { some: match } : { none: match } };
+    }
+    default:
+      return dealCondition(field, condition);
+  }
+}
+
+async function compile(filter: SegmentFilter, context: CompileContext, depth = 1): Promise<Where> {
+  if (depth > MAX_DEPTH) {
+    throw new ValidationError(`Filters can be nested at most ${MAX_DEPTH} levels deep`);
+  }
+
+  if (isGroup(filter)) {
+    const children = 'and' in filter ? filter.and : filter.or;
+    const compiled = await Promise.all(children.map(child => compile(child, context, depth + 1)));
+    return 'and' in filter ? { AND: compiled } : { OR: compiled };
+  }
+
+  return compileCondition(filter, context);
+}
+
+export class SegmentService {
+  /**
+   * Compiles a filter into a Prisma contact `where`, scoped to the org. Throws
+   * ValidationError for unknown fields, unsupported operators or bad values.
+   */
+  static async buildWhere(orgId: string, filter: SegmentFilter, now = new Date()): Promise<Where> {
+    const parsed = SegmentFilterSchema.safeParse(filter);
+    if (!parsed.success) {
+      throw new ValidationError('Invalid segment filter', parsed.error.flatten());
+    }
+
+    return { AND: [{ orgId, deletedAt: null }, await compile(parsed.data, { orgId, now })] };
+  }
+
+  static async list(orgId: string, actor: SegmentActor) {
+    return prisma.segment.findMany({
+      where: { orgId, OR: [{ isShared: true }, { createdBy: actor.userId }] },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  static async get(orgId: string, id: string, actor?: SegmentActor): Promise<Segment> {
+    const segment = await prisma.segment.findFirst({ where: { id, orgId } });
+
+    if (!segment || (actor && !segment.isShared && segment.createdBy !== actor.userId)) {
+      throw new NotFoundError('Segment', id);
+    }
+
+    return segment;
+  }
+
+  static async create(orgId: string, actor: SegmentActor, input: CreateSegmentInput) {
+    // Rejects filters that reference unknown fields before they are saved
+    await this.buildWhere(orgId, input.filter);
+
+    try {
+      return await prisma.segment.create({
+        data: {
+          orgId,
+          name: input.name,
+          description: input.description,
+          filter: input.filter as unknown as Prisma.InputJsonValue,
+          isShared: input.isShared ?? false,
+          createdBy: actor.userId,
+        },
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError(`Segment '${input.name}' already exists`);
+      }
+      throw error;
+    }
+  }
+
+  static async update(orgId: string, id: string, actor: SegmentActor, input: UpdateSegmentInput) {
+    const segment = await this.get(orgId, id, actor);
+    this.assertCanManage(segment, actor);
+
+    if (input.filter) {
+      await this.buildWhere(orgId, input.filter);
+    }
+
+    try {
+      return await prisma.segment.update({
+        where: { id },
+        data: {
+          name: input.name,
+          description: input.description,
+          isShared: input.isShared,
+          ...(input.filter && { filter: input.filter as unknown as Prisma.InputJsonValue }),
+        },
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError(`Segment '${input.name}' already exists`);
+      }
+      throw error;
+    }
+  }
+
+  static async remove(orgId: string, id: string, actor: SegmentActor) {
+    const segment = await this.get(orgId, id, actor);
+    this.assertCanManage(segment, actor);
+
+    await prisma.segment.delete({ where: { id } });
+  }
+
+  /**
+   * Resolves a saved segment to a contact `where` for automations, broadcasts and
+   * exports. Filters are re-evaluated on each call so membership stays current.
+   */
+  static async whereFor(orgId: string, segmentId: string, actor?: SegmentActor): Promise<Where> {
+    const segment = await this.get(orgId, segmentId, actor);
+    return this.buildWhere(orgId, segment.filter as unknown as SegmentFilter);
+  }
+
+  static async contactIds(orgId: string, segmentId: string, actor?: SegmentActor): Promise<string[]> {
+    const where = await this.whereFor(orgId, segmentId, actor);
+    const contacts = await prisma.contact.findMany({
+      where,
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return contacts.map(contact => contact.id);
+  }
+
+  private static assertCanManage(segment: Segment, actor: SegmentActor) {
+    if (segment.createdBy !== actor.userId && !actor.canManage) {
+      throw new AuthorizationError('Only the creator or an admin can change this segment');
+    }
+  }
+}
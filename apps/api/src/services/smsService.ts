@@ -1,124 +1,87 @@
-import twilio from 'twilio';
 import moment from 'moment';
 import { Appointment } from '../types/database';
-
-// Twilio configuration
-const accountSid = process.env.TWILIO_ACCOUNT_SID;
-const authToken = process.env.TWILIO_AUTH_TOKEN;
-const fromNumber = process.env.TWILIO_FROM_NUMBER;
-
-if (!accountSid || !authToken || !fromNumber) {
-  console.warn('Twilio credentials not configured. SMS notifications will be disabled.');
-}
-
-let twilioClient: twilio.Twilio | null = null;
-
-// Initialize Twilio client
-if (accountSid && authToken) {
-  twilioClient = twilio(accountSid, authToken);
-}
+import { ConsentService } from './consent';
+import { sendSms } from './messaging';
 
 export class SMSService {
   /**
-   * Check if SMS service is available
+   * Check if SMS service is available. Sends go through the messaging provider
+   * layer, which falls back to the sandbox outbox, so there is always a provider.
    */
   static isAvailable(): boolean {
-    return twilioClient !== null;
+    return true;
   }
 
   /**
    * Send appointment confirmation SMS
    */
   static async sendConfirmation(appointment: Appointment): Promise<void> {
-    if (!twilioClient) {
-      console.log('Twilio not configured, skipping SMS confirmation');
-      return;
-    }
-
     const formattedDate = moment(appointment.scheduled_at).format('MMMM D, YYYY [at] h:mm A');
     const businessName = 'Your Business'; // This should come from business settings
     
     const message = `Your appointment has been confirmed!\n\n📅 ${formattedDate}\n📍 ${appointment.service_name}\n💰 Duration: ${appointment.duration} minutes\n\nReply STOP to unsubscribe.`;
 
-    try {
-      const messageResult = await twilioClient.messages.create({
-        body: message,
-        from: fromNumber!,
-        to: appointment.customer_phone,
-      });
-
-      console.log(`SMS confirmation sent to ${appointment.customer_phone}:`, messageResult.sid);
-    } catch (error) {
-      console.error('Failed to send SMS confirmation:', error);
+    const sent = await this.send(appointment.customer_phone, message, 'confirmation', appointment.business_id);
+    if (!sent) {
+      console.log('Recipient opted out of SMS, skipping SMS confirmation');
+      return;
+    }
+    if (!sent.success) {
+      console.error('Failed to send SMS confirmation:', sent.error);
       throw new Error('Failed to send SMS confirmation');
     }
+
+    console.log(`SMS confirmation sent to ${appointment.customer_phone}:`, sent.messageId);
   }
 
   /**
    * Send appointment rescheduled SMS
    */
   static async sendRescheduledNotification(appointment: Appointment, oldDate?: string): Promise<void> {
-    if (!twilioClient) {
-      console.log('Twilio not configured, skipping SMS reschedule notification');
-      return;
-    }
-
     const newDate = moment(appointment.scheduled_at).format('MMMM D, YYYY [at] h:mm A');
     const oldDateStr = oldDate ? moment(oldDate).format('MMMM D, YYYY [at] h:mm A') : 'previously scheduled time';
     
     const message = `Your appointment has been rescheduled.\n\n📅 New time: ${newDate}\n📍 Service: ${appointment.service_name}\n\nPlease reply if you need to make changes.`;
 
-    try {
-      const messageResult = await twilioClient.messages.create({
-        body: message,
-        from: fromNumber!,
-        to: appointment.customer_phone,
-      });
-
-      console.log(`SMS reschedule notification sent to ${appointment.customer_phone}:`, messageResult.sid);
-    } catch (error) {
-      console.error('Failed to send SMS rescheduled notification:', error);
+    const sent = await this.send(appointment.customer_phone, message, 'rescheduled', appointment.business_id);
+    if (!sent) {
+      console.log('Recipient opted out of SMS, skipping SMS reschedule notification');
+      return;
+    }
+    if (!sent.success) {
+      console.error('Failed to send SMS rescheduled notification:', sent.error);
       throw new Error('Failed to send SMS reschedule notification');
     }
+
+    console.log(`SMS reschedule notification sent to ${appointment.customer_phone}:`, sent.messageId);
   }
 
   /**
    * Send appointment cancelled SMS
    */
   static async sendCancelledSMS(appointment: Appointment, cancellationReason?: string): Promise<void> {
-    if (!twilioClient) {
-      console.log('Twilio not configured, skipping SMS cancellation notification');
-      return;
-    }
-
     const formattedDate = moment(appointment.scheduled_at).format('MMMM D, YYYY [at] h:mm A');
     const reasonText = cancellationReason ? `Reason: ${cancellationReason}\n\n` : '';
     
     const message = `Your appointment scheduled for ${formattedDate} has been cancelled.\n\n${reasonText}Please call us to reschedule. We're sorry for any inconvenience.`;
 
-    try {
-      const messageResult = await twilioClient.messages.create({
-        body: message,
-        from: fromNumber!,
-        to: appointment.customer_phone,
-      });
-
-      console.log(`SMS cancellation sent to ${appointment.customer_phone}:`, messageResult.sid);
-    } catch (error) {
-      console.error('Failed to send SMS cancellation:', error);
+    const sent = await this.send(appointment.customer_phone, message, 'cancelled', appointment.business_id);
+    if (!sent) {
+      console.log('Recipient opted out of SMS, skipping SMS cancellation notification');
+      return;
+    }
+    if (!sent.success) {
+      console.error('Failed to send SMS cancellation:', sent.error);
       throw new Error('Failed to send SMS cancellation');
     }
+
+    console.log(`SMS cancellation sent to ${appointment.customer_phone}:`, sent.messageId);
   }
 
   /**
    * Send appointment reminder SMS
    */
   static async sendReminder(appointment: Appointment): Promise<void> {
-    if (!twilioClient) {
-      console.log('Twilio not configured, skipping SMS reminder');
-      return;
-    }
-
     const formattedDate = moment(appointment.scheduled_at).format('MMMM D, YYYY [at] h:mm A');
     const timeUntilAppointment = moment(appointment.scheduled_at).diff(moment(), 'hours');
     
@@ -133,41 +96,34 @@ export class SMSService {
     
     const message = `${reminderText}:\n\n📅 ${formattedDate}\n📍 ${appointment.service_name}\n💰 Duration: ${appointment.duration} minutes\n\nReply STOP to unsubscribe.`;
 
-    try {
-      const messageResult = await twilioClient.messages.create({
-        body: message,
-        from: fromNumber!,
-        to: appointment.customer_phone,
-      });
-
-      console.log(`SMS reminder sent to ${appointment.customer_phone}:`, messageResult.sid);
-    } catch (error) {
-      console.error('Failed to send SMS reminder:', error);
+    const sent = await this.send(appointment.customer_phone, message, 'reminder', appointment.business_id);
+    if (!sent) {
+      console.log('Recipient opted out of SMS, skipping SMS reminder');
+      return;
+    }
+    if (!sent.success) {
+      console.error('Failed to send SMS reminder:', sent.error);
       throw new Error('Failed to send SMS reminder');
     }
+
+    console.log(`SMS reminder sent to ${appointment.customer_phone}:`, sent.messageId);
   }
 
   /**
    * Send general SMS notification
    */
-  static async sendNotification(phoneNumber: string, message: string): Promise<void> {
-    if (!twilioClient) {
-      console.log('Twilio not configured, skipping SMS notification');
+  static async sendNotification(phoneNumber: string, message: string, businessId?: string): Promise<void> {
+    const sent = await this.send(phoneNumber, message, 'notification', businessId);
+    if (!sent) {
+      console.log('Recipient opted out of SMS, skipping SMS notification');
       return;
     }
-
-    try {
-      const messageResult = await twilioClient.messages.create({
-        body: message,
-        from: fromNumber!,
-        to: phoneNumber,
-      });
-
-      console.log(`SMS notification sent to ${phoneNumber}:`, messageResult.sid);
-    } catch (error) {
-      console.error('Failed to send SMS notification:', error);
+    if (!sent.success) {
+      console.error('Failed to send SMS notification:', sent.error);
       throw new Error('Failed to send SMS notification');
     }
+
+    console.log(`SMS notification sent to ${phoneNumber}:`, sent.messageId);
   }
 
   /**
@@ -204,19 +160,39 @@ export class SMSService {
   }
 
   /**
-   * Check SMS send history to avoid spam
+   * Check the organization's consent ledger before sending. Businesses that are
+   * not linked to an organization have no ledger, so their sends go ahead.
    */
-  static async shouldSendSMS(phoneNumber: string, messageType: string): Promise<boolean> {
-    // This could be enhanced to check against a database table for SMS history
-    // For now, we'll implement basic rate limiting logic
-    
-    const now = moment();
-    
-    // Check if we've sent more than X messages in the last hour to this number
-    // This would typically query a database table like sms_logs
-    // For now, we'll return true (implement your own rate limiting logic)
-    
-    return true;
+  static async shouldSendSMS(phoneNumber: string, messageType: string, businessId?: string): Promise<boolean> {
+    const orgId = businessId ? await ConsentService.orgIdForBusiness(businessId) : null;
+    return this.hasConsent(orgId, phoneNumber, messageType);
+  }
+
+  /**
+   * Sends through the organization's messaging provider once consent allows it;
+   * null when the recipient opted out. Businesses without an organization use
+   * the default provider.
+   */
+  private static async send(phoneNumber: string, body: string, messageType: string, businessId?: string) {
+    const orgId = businessId ? await ConsentService.orgIdForBusiness(businessId) : null;
+    if (!(await this.hasConsent(orgId, phoneNumber, messageType))) {
+      return null;
+    }
+
+    return sendSms({ orgId, to: phoneNumber, body });
+  }
+
+  private static async hasConsent(orgId: string | null, phoneNumber: string, messageType: string) {
+    if (!orgId) {
+      return true;
+    }
+
+    const consent = await ConsentService.check(orgId, {
+      channel: 'sms',
+      to: phoneNumber,
+      source: `appointments.${messageType}`,
+    });
+    return consent.allowed;
   }
 }
 
@@ -73,6 +73,26 @@ export class StorageService {
     }
   }
 
+  /**
+   * Download call recording from Supabase Storage
+   */
+  static async downloadCallRecording(filePath: string): Promise<Buffer> {
+    try {
+      const { data, error } = await supabase.storage
+        .from(this.BUCKET_NAME)
+        .download(filePath);
+
+      if (error) {
+        throw new Error(`Storage download failed: ${error.message}`);
+      }
+
+      return Buffer.from(await data.arrayBuffer());
+    } catch (error) {
+      console.error('StorageService download error:', error);
+      throw new Error('Failed to download call recording');
+    }
+  }
+
   /**
    * Get signed URL for private file access
    */
@@ -0,0 +1,289 @@
+import { Prisma, TaskPriority } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+export type TaskView = 'all' | 'mine' | 'overdue';
+
+export type TaskStatus = 'open' | 'completed' | 'all';
+
+export interface TaskListQuery {
+  view?: TaskView;
+  status?: TaskStatus;
+  assigneeId?: string;
+  contactId?: string;
+  dealId?: string;
+  priority?: TaskPriority;
+  dueBefore?: Date;
+  dueAfter?: Date;
+  page: number;
+  limit: number;
+}
+
+export interface CreateTaskInput {
+  title: string;
+  description?: string | null;
+  priority?: TaskPriority;
+  dueAt?: Date | null;
+  remindAt?: Date | null;
+  assigneeId?: string | null;
+  contactId?: string | null;
+  dealId?: string | null;
+}
+
+export type UpdateTaskInput = Partial<CreateTaskInput>;
+
+// Tasks without an explicit remindAt notify their assignee this long before they are due
+export const TASK_REMINDER_LEAD_MS = 60 * 60 * 1000;
+
+export const TASK_INCLUDE = {
+  assignee: { select: { id: true, name: true, email: true } },
+  contact: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } },
+  deal: { select: { id: true, title: true, valueCents: true, currency: true } },
+};
+
+// Open tasks first by due date, undated ones last, most urgent first within a day
+const TASK_ORDER: Prisma.TaskOrderByWithRelationInput[] = [
+  { dueAt: { sort: 'asc', nulls: 'last' } },
+  { priority: 'desc' },
+  { createdAt: 'asc' },
+];
+
+export class TaskService {
+  /**
+   * `mine` is the caller's open tasks and `overdue` is open tasks past their due
+   * date; both can be narrowed further by the remaining filters.
+   */
+  static async list(orgId: string, userId: string, query: TaskListQuery, now = new Date()) {
+    const { view = 'all', assigneeId, contactId, dealId, priority, dueBefore, dueAfter, page, limit } = query;
+    const status = query.status ?? (view === 'all' ? 'all' : 'open');
+
+    const where: Prisma.TaskWhereInput = {
+      orgId,
+      deletedAt: null,
+      ...(status === 'open' && { completedAt: null }),
+      ...(status === 'completed' && { completedAt: { not: null } }),
+      ...(assigneeId && { assigneeId }),
+      ...(view === 'mine' && { assigneeId: userId }),
+      ...(contactId && { contactId }),
+      ...(dealId && { dealId }),
+      ...(priority && { priority }),
+      AND: [
+        ...(dueBefore ? [{ dueAt: { lte: dueBefore } }] : []),
+        ...(dueAfter ? [{ dueAt: { gte: dueAfter } }] : []),
+        ...(view === 'overdue' ? [{ dueAt: { lt: now } }, { completedAt: null }] : []),
+      ],
+    };
+
+    const [tasks, total] = await Promise.all([
+      prisma.task.findMany({
+        where,
+        include: TASK_INCLUDE,
+        orderBy: TASK_ORDER,
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.task.count({ where }),
+    ]);
+
+    return { tasks, total };
+  }
+
+  static async get(orgId: string, id: string) {
+    const task = await prisma.task.findFirst({
+      where: { id, orgId, deletedAt: null },
+      include: TASK_INCLUDE,
+    });
+
+    if (!task) {
+      throw new NotFoundError('Task', id);
+    }
+
+    return task;
+  }
+
+  /**
+   * Tasks are assigned to their creator unless `assigneeId` is given; pass null
+   * to leave one unassigned. Linking a deal also links the deal's contact.
+   */
+  static async create(orgId: string, actorId: string | undefined, input: CreateTaskInput) {
+    const links = await this.resolveLinks(orgId, input);
+    const assigneeId = input.assigneeId === undefined ? actorId ?? null : input.assigneeId;
+
+    if (assigneeId) {
+      await this.assertAssignable(orgId, assigneeId);
+    }
+
+    return prisma.task.create({
+      data: {
+        orgId,
+        title: input.title,
+        description: input.description ?? null,
+        priority: input.priority,
+        dueAt: input.dueAt ?? null,
+        remindAt: input.remindAt ?? null,
+        assigneeId,
+        ...links,
+        createdBy: actorId ?? null,
+      },
+      include: TASK_INCLUDE,
+    });
+  }
+
+  static async update(orgId: string, id: string, input: UpdateTaskInput) {
+    const existing = await this.get(orgId, id);
+
+    const links =
+      input.contactId !== undefined || input.dealId !== undefined
+        ? await this.resolveLinks(orgId, {
+            contactId: input.contactId === undefined ? existing.contactId : input.contactId,
+            dealId: input.dealId === undefined ? existing.dealId : input.dealId,
+          })
+        : {};
+
+    if (input.assigneeId) {
+      await this.assertAssignable(orgId, input.assigneeId);
+    }
+
+    // A rescheduled or reassigned task reminds again
+    const rescheduled =
+      (input.dueAt !== undefined && input.dueAt?.getTime() !== existing.dueAt?.getTime()) ||
+      (input.remindAt !== undefined && input.remindAt?.getTime() !== existing.remindAt?.getTime()) ||
+      (input.assigneeId !== undefined && input.assigneeId !== existing.assigneeId);
+
+    return prisma.task.update({
+      where: { id },
+      data: {
+        ...(input.title !== undefined && { title: input.title }),
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.priority !== undefined && { priority: input.priority }),
+        ...(input.dueAt !== undefined && { dueAt: input.dueAt }),
+        ...(input.remindAt !== undefined && { remindAt: input.remindAt }),
+        ...(input.assigneeId !== undefined && { assigneeId: input.assigneeId }),
+        ...links,
+        ...(rescheduled && { reminderSentAt: null }),
+      },
+      include: TASK_INCLUDE,
+    });
+  }
+
+  /**
+   * Marks the task done and logs a `task` activity on its contact or deal so it
+   * shows up in their history.
+   */
+  static async complete(orgId: string, id: string, actorId?: string) {
+    const task = await this.get(orgId, id);
+    if (task.completedAt) {
+      return task;
+    }
+
+    return prisma.$transaction(async tx => {
+      const completed = await tx.task.update({
+        where: { id },
+        data: { completedAt: new Date(), completedBy: actorId ?? null },
+        include: TASK_INCLUDE,
+      });
+
+      if (task.contactId || task.dealId) {
+        await tx.activity.create({
+          data: {
+            orgId,
+            contactId: task.contactId,
+            dealId: task.dealId,
+            type: 'task',
+            content: `Completed task: ${task.title}`,
+            meta: { taskId: task.id, completedBy: actorId ?? null },
+          },
+        });
+      }
+
+      return completed;
+    });
+  }
+
+  static async reopen(orgId: string, id: string) {
+    await this.get(orgId, id);
+
+    return prisma.task.update({
+      where: { id },
+      data: { completedAt: null, completedBy: null },
+      include: TASK_INCLUDE,
+    });
+  }
+
+  static async remove(orgId: string, id: string) {
+    await this.get(orgId, id);
+    await prisma.task.delete({ where: { id } });
+  }
+
+  /**
+   * Open, assigned tasks whose reminder time has passed and that have not been
+   * reminded yet.
+   */
+  static async pendingReminders(orgId: string, now = new Date()) {
+    return prisma.task.findMany({
+      where: {
+        orgId,
+        deletedAt: null,
+        completedAt: null,
+        reminderSentAt: null,
+        assigneeId: { not: null },
+        OR: [
+          { remindAt: { lte: now } },
+          { remindAt: null, dueAt: { lte: new Date(now.getTime() + TASK_REMINDER_LEAD_MS) } },
+        ],
+      },
+      include: TASK_INCLUDE,
+      orderBy: { dueAt: 'asc' },
+    });
+  }
+
+  static async markReminded(ids: string[], at = new Date()) {
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    const result = await prisma.task.updateMany({
+      where: { id: { in: ids } },
+      data: { reminderSentAt: at },
+    });
+    return result.count;
+  }
+
+  private static async assertAssignable(orgId: string, userId: string) {
+    const membership = await prisma.membership.findUnique({
+      where: { userId_orgId: { userId, orgId } },
+    });
+
+    if (!membership) {
+      throw new ValidationError('Assignee must be a member of this organization');
+    }
+  }
+
+  private static async resolveLinks(orgId: string, input: Pick<CreateTaskInput, 'contactId' | 'dealId'>) {
+    let contactId = input.contactId ?? null;
+    const dealId = input.dealId ?? null;
+
+    if (dealId) {
+      const deal = await prisma.deal.findFirst({
+        where: { id: dealId, orgId, deletedAt: null },
+        select: { contactId: true },
+      });
+      if (!deal) {
+        throw new NotFoundError('Deal', dealId);
+      }
+      contactId = contactId ?? deal.contactId;
+    }
+
+    if (contactId) {
+      const contact = await prisma.contact.findFirst({
+        where: { id: contactId, orgId, deletedAt: null },
+        select: { id: true },
+      });
+      if (!contact) {
+        throw new NotFoundError('Contact', contactId);
+      }
+    }
+
+    return { contactId, dealId };
+  }
+}
@@ -0,0 +1,407 @@
+import { MessageChannel, MessageTemplate, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { BrandingService } from './branding';
+import { formatMoney } from './quotePdf';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+/**
+ * Placeholders a template may use, written as {{contact.firstName}}. Callers can
+ * also pass their own values as {{vars.<name>}}, e.g. {{vars.paymentLink}}.
+ */
+export const TEMPLATE_VARIABLES = {
+  'contact.firstName': { label: 'Contact first name', example: 'Jamie' },
+  'contact.lastName': { label: 'Contact last name', example: 'Rivera' },
+  'contact.fullName': { label: 'Contact full name', example: 'Jamie Rivera' },
+  'contact.email': { label: 'Contact email', example: 'jamie@example.com' },
+  'contact.phone': { label: 'Contact phone', example: '+15555550123' },
+  'appointment.date': { label: 'Appointment date', example: 'Monday, March 3' },
+  'appointment.time': { label: 'Appointment time', example: '2:30 PM' },
+  'appointment.location': { label: 'Appointment location', example: '12 Main St' },
+  'appointment.status': { label: 'Appointment status', example: 'scheduled' },
+  'deal.title': { label: 'Deal title', example: 'Kitchen remodel' },
+  'deal.value': { label: 'Deal value', example: '$4,500.00' },
+  'deal.stage': { label: 'Deal stage', example: 'Proposal' },
+  'org.name': { label: 'Business name', example: 'Acme Plumbing' },
+  'org.email': { label: 'Business email', example: 'hello@acme.test' },
+  'org.phone': { label: 'Business phone', example: '+15555551234' },
+  'org.website': { label: 'Business website', example: 'https://acme.test' },
+} as const;
+
+export type TemplateVariable = keyof typeof TEMPLATE_VARIABLES;
+
+const PLACEHOLDER = /{{\s*([\w.]+)\s*}}/g;
+const CUSTOM_PREFIX = 'vars.';
+
+export interface TemplateContent {
+  subject?: string | null;
+  text?: string | null;
+  html?: string | null;
+}
+
+export interface CreateTemplateInput extends TemplateContent {
+  name: string;
+  description?: string | null;
+  channel: MessageChannel;
+}
+
+export type UpdateTemplateInput = Partial<Omit<CreateTemplateInput, 'channel'>>;
+
+export interface TemplateListQuery {
+  channel?: MessageChannel;
+  includeArchived?: boolean;
+}
+
+/** The records a template is rendered for; each is optional */
+export interface TemplateContext {
+  contactId?: string | null;
+  appointmentId?: string | null;
+  dealId?: string | null;
+  // Values for {{vars.<name>}} placeholders
+  variables?: Record<string, string | number>;
+  // Defaults to the template's current version
+  version?: number;
+  // Dates and times are written in this zone; defaults to the contact's, then the organization's
+  timeZone?: string;
+}
+
+export interface RenderedTemplate {
+  templateId: string;
+  name: string;
+  channel: MessageChannel;
+  version: number;
+  subject: string | null;
+  text: string | null;
+  html: string | null;
+  // Placeholders that had no value and were left blank (or filled with examples in a preview)
+  missing: string[];
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+/** Every placeholder used in the content, in order of first use */
+export function templateVariables(content: TemplateContent) {
+  const found = new Set<string>();
+  for (const part of [content.subject, content.text, content.html]) {
+    for (const match of (part ?? '').matchAll(PLACEHOLDER)) {
+      found.add(match[1]);
+    }
+  }
+  return [...found];
+}
+
+function fill(content: string | null, values: Record<string, string>, html: boolean) {
+  if (content === null) return null;
+  return content.replace(PLACEHOLDER, (_, name: string) => {
+    const value = values[name] ?? '';
+    return html ? escapeHtml(value) : value;
+  });
+}
+
+function assertContent(channel: MessageChannel, content: TemplateContent) {
+  if (channel === 'email') {
+    if (!content.subject?.trim()) {
+      throw new ValidationError('Email templates need a subject', { field: 'subject' });
+    }
+    if (!content.html?.trim() && !content.text?.trim()) {
+      throw new ValidationError('Email templates need an HTML or text body', { field: 'html' });
+    }
+  } else if (!content.text?.trim()) {
+    throw new ValidationError(`${channel === 'sms' ? 'SMS' : 'WhatsApp'} templates need a text body`, { field: 'text' });
+  }
+
+  const unknown = templateVariables(content).filter(
+    name => !(name in TEMPLATE_VARIABLES) && !(name.startsWith(CUSTOM_PREFIX) && name.length > CUSTOM_PREFIX.length)
+  );
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown template variables: ${unknown.join(', ')}`, { field: 'variables', unknown });
+  }
+}
+
+// Subject and HTML only mean something for email
+function channelContent(channel: MessageChannel, content: TemplateContent) {
+  return {
+    subject: channel === 'email' ? content.subject ?? null : null,
+    text: content.text ?? null,
+    html: channel === 'email' ? content.html ?? null : null,
+  };
+}
+
+export class TemplateService {
+  static variables() {
+    return Object.entries(TEMPLATE_VARIABLES).map(([name, { label, example }]) => ({ name, label, example }));
+  }
+
+  static async list(orgId: string, query: TemplateListQuery = {}) {
+    const templates = await prisma.messageTemplate.findMany({
+      where: {
+        orgId,
+        ...(query.channel && { channel: query.channel }),
+        ...(!query.includeArchived && { archivedAt: null }),
+      },
+      orderBy: [{ channel: 'asc' }, { name: 'asc' }],
+    });
+
+    return this.withContent(templates);
+  }
+
+  /** The template with its current version's content */
+  static async get(orgId: string, id: string) {
+    const template = await this.find(orgId, id);
+    const [withContent] = await this.withContent([template]);
+    return withContent;
+  }
+
+  static async versions(orgId: string, id: string) {
+    await this.find(orgId, id);
+
+    return prisma.messageTemplateVersion.findMany({
+      where: { templateId: id },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  static async create(orgId: string, actorId: string | undefined, input: CreateTemplateInput) {
+    const content = channelContent(input.channel, input);
+    assertContent(input.channel, content);
+
+    try {
+      const template = await prisma.messageTemplate.create({
+        data: {
+          orgId,
+          name: input.name,
+          description: input.description ?? null,
+          channel: input.channel,
+          createdBy: actorId ?? null,
+          versions: {
+            create: { version: 1, ...content, variables: templateVariables(content), createdBy: actorId ?? null },
+          },
+        },
+      });
+      return this.get(orgId, template.id);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError(`A ${input.channel} template named '${input.name}' already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Renaming only touches the template. Changing the content saves a new
+   * version, which sends use from then on; unchanged content adds nothing.
+   */
+  static async update(orgId: string, id: string, actorId: string | undefined, input: UpdateTemplateInput) {
+    const current = await this.get(orgId, id);
+    if (current.archivedAt) {
+      throw new ValidationError('Archived templates cannot be edited');
+    }
+
+    const content = channelContent(current.channel, {
+      subject: input.subject !== undefined ? input.subject : current.subject,
+      text: input.text !== undefined ? input.text : current.text,
+      html: input.html !== undefined ? input.html : current.html,
+    });
+    const changed =
+      content.subject !== current.subject || content.text !== current.text || content.html !== current.html;
+    if (changed) {
+      assertContent(current.channel, content);
+    }
+
+    try {
+      await prisma.messageTemplate.update({
+        where: { id },
+        data: {
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.description !== undefined && { description: input.description }),
+          ...(changed && {
+            currentVersion: current.currentVersion + 1,
+            versions: {
+              create: {
+                version: current.currentVersion + 1,
+                ...content,
+                variables: templateVariables(content),
+                createdBy: actorId ?? null,
+              },
+            },
+          }),
+        },
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError(
+          input.name && input.name !== current.name
+            ? `A ${current.channel} template named '${input.name}' already exists`
+            : 'The template was changed by someone else; reload it and try again'
+        );
+      }
+      throw error;
+    }
+
+    return this.get(orgId, id);
+  }
+
+  /** Archived templates drop out of the library but past sends can still be traced to them */
+  static async archive(orgId: string, id: string) {
+    await this.find(orgId, id);
+
+    return prisma.messageTemplate.update({
+      where: { id },
+      data: { archivedAt: new Date() },
+    });
+  }
+
+  static async restore(orgId: string, id: string) {
+    await this.find(orgId, id);
+
+    return prisma.messageTemplate.update({
+      where: { id },
+      data: { archivedAt: null },
+    });
+  }
+
+  /**
+   * Fills the template's placeholders from the given records. Values that
+   * cannot be resolved are left blank and listed in `missing`.
+   */
+  static async render(orgId: string, id: string, context: TemplateContext = {}): Promise<RenderedTemplate> {
+    const template = await this.find(orgId, id);
+    if (template.archivedAt) {
+      throw new ValidationError(`Template '${template.name}' is archived`);
+    }
+    return this.renderVersion(orgId, template, context, false);
+  }
+
+  /** Like render, but placeholders without a value show the catalog example */
+  static async preview(orgId: string, id: string, context: TemplateContext = {}): Promise<RenderedTemplate> {
+    const template = await this.find(orgId, id);
+    return this.renderVersion(orgId, template, context, true);
+  }
+
+  private static async renderVersion(
+    orgId: string,
+    template: MessageTemplate,
+    context: TemplateContext,
+    sample: boolean
+  ): Promise<RenderedTemplate> {
+    const version = context.version ?? template.currentVersion;
+    const content = await prisma.messageTemplateVersion.findUnique({
+      where: { templateId_version: { templateId: template.id, version } },
+    });
+    if (!content) {
+      throw new NotFoundError('Template version', `${template.id}@${version}`);
+    }
+
+    const values = await this.values(orgId, context);
+    const missing = content.variables.filter(name => values[name] === undefined || values[name] === '');
+
+    if (sample) {
+      for (const name of missing) {
+        values[name] = name in TEMPLATE_VARIABLES ? TEMPLATE_VARIABLES[name as TemplateVariable].example : `[${name}]`;
+      }
+    }
+
+    return {
+      templateId: template.id,
+      name: template.name,
+      channel: template.channel,
+      version,
+      subject: fill(content.subject, values, false),
+      text: fill(content.text, values, false),
+      html: fill(content.html, values, true),
+      missing,
+    };
+  }
+
+  private static async values(orgId: string, context: TemplateContext) {
+    const values: Record<string, string> = {};
+
+    const [branding, org, contact, appointment, deal] = await Promise.all([
+      BrandingService.get(orgId),
+      prisma.organization.findUnique({ where: { id: orgId }, select: { timezone: true } }),
+      context.contactId ? prisma.contact.findFirst({ where: { id: context.contactId, orgId } }) : null,
+      context.appointmentId ? prisma.appointment.findFirst({ where: { id: context.appointmentId, orgId } }) : null,
+      context.dealId
+        ? prisma.deal.findFirst({ where: { id: context.dealId, orgId }, include: { stage: { select: { name: true } } } })
+        : null,
+    ]);
+
+    if (context.contactId && !contact) throw new NotFoundError('Contact', context.contactId);
+    if (context.appointmentId && !appointment) throw new NotFoundError('Appointment', context.appointmentId);
+    if (context.dealId && !deal) throw new NotFoundError('Deal', context.dealId);
+
+    const timeZone = context.timeZone || contact?.timezone || org?.timezone || 'UTC';
+
+    values['org.name'] = branding.name;
+    values['org.email'] = branding.email ?? '';
+    values['org.phone'] = branding.phone ?? '';
+    values['org.website'] = branding.website ?? '';
+
+    if (contact) {
+      values['contact.firstName'] = contact.firstName;
+      values['contact.lastName'] = contact.lastName ?? '';
+      values['contact.fullName'] = [contact.firstName, contact.lastName].filter(Boolean).join(' ');
+      values['contact.email'] = contact.email ?? '';
+      values['contact.phone'] = contact.phone ?? '';
+    }
+
+    if (appointment) {
+      values['appointment.date'] = appointment.startsAt.toLocaleDateString('en-US', {
+        weekday: 'long',
+        month: 'long',
+        day: 'numeric',
+        timeZone,
+      });
+      values['appointment.time'] = appointment.startsAt.toLocaleTimeString('en-US', {
+        hour: 'numeric',
+        minute: '2-digit',
+        timeZone,
+      });
+      values['appointment.location'] = appointment.location ?? '';
+      values['appointment.status'] = appointment.status;
+    }
+
+    if (deal) {
+      values['deal.title'] = deal.title;
+      values['deal.value'] = formatMoney(deal.valueCents, deal.currency);
+      values['deal.stage'] = deal.stage.name;
+    }
+
+    for (const [name, value] of Object.entries(context.variables ?? {})) {
+      values[`${CUSTOM_PREFIX}${name}`] = String(value);
+    }
+
+    return values;
+  }
+
+  private static async find(orgId: string, id: string) {
+    const template = await prisma.messageTemplate.findFirst({ where: { id, orgId } });
+    if (!template) {
+      throw new NotFoundError('Template', id);
+    }
+    return template;
+  }
+
+  private static async withContent<T extends { id: string; currentVersion: number }>(templates: T[]) {
+    if (templates.length === 0) return [];
+
+    const versions = await prisma.messageTemplateVersion.findMany({
+      where: { OR: templates.map(template => ({ templateId: template.id, version: template.currentVersion })) },
+    });
+    const byTemplate = new Map(versions.map(version => [version.templateId, version]));
+
+    return templates.map(template => {
+      const version = byTemplate.get(template.id);
+      return {
+        ...template,
+        subject: version?.subject ?? null,
+        text: version?.text ?? null,
+        html: version?.html ?? null,
+        variables: version?.variables ?? [],
+      };
+    });
+  }
+}
@@ -0,0 +1,299 @@
+import { Contact } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { normalizeEmail, normalizePhone } from '../lib/tenancy';
+import logger from '../middleware/logger';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+export const TIMELINE_TYPES = ['activity', 'message', 'appointment', 'deal_change', 'call', 'review'] as const;
+
+export type TimelineType = (typeof TIMELINE_TYPES)[number];
+
+export interface TimelineItem {
+  type: TimelineType;
+  id: string;
+  occurredAt: Date;
+  summary: string;
+  data: unknown;
+}
+
+export interface TimelineQuery {
+  types?: TimelineType[];
+  cursor?: string;
+  limit: number;
+}
+
+interface Cursor {
+  at: Date;
+  key: string;
+}
+
+// Items are ordered newest first by time, then by `type:id` so ties have a stable order
+const itemKey = (item: Pick<TimelineItem, 'type' | 'id'>) => `${item.type}:${item.id}`;
+
+const compareItems = (a: TimelineItem, b: TimelineItem) =>
+  b.occurredAt.getTime() - a.occurredAt.getTime() || (itemKey(a) < itemKey(b) ? 1 : -1);
+
+const isAfterCursor = (item: TimelineItem, cursor: Cursor) =>
+  item.occurredAt.getTime() < cursor.at.getTime() ||
+  (item.occurredAt.getTime() === cursor.at.getTime() && itemKey(item) < cursor.key);
+
+export function encodeCursor(item: TimelineItem): string {
+  return Buffer.from(JSON.stringify({ at: item.occurredAt.toISOString(), key: itemKey(item) })).toString('base64url');
+}
+
+export function decodeCursor(value: string): Cursor {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    const at = new Date(parsed.at);
+    if (Number.isNaN(at.getTime()) || typeof parsed.key !== 'string') {
+      throw new Error('Malformed cursor');
+    }
+    return { at, key: parsed.key };
+  } catch {
+    throw new ValidationError('Invalid cursor');
+  }
+}
+
+const fullName = (contact: Pick<Contact, 'firstName' | 'lastName'>) =>
+  `${contact.firstName} ${contact.lastName || ''}`.trim();
+
+const truncate = (text: string, length = 140) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+type Source = (contact: Contact, before: Date | undefined, take: number) => Promise<TimelineItem[]>;
+
+/**
+ * Every source returns at most `take` items at or before the cursor time, newest
+ * first. Ties at the cursor time are dropped after merging.
+ */
+const SOURCES: Record<TimelineType, Source> = {
+  activity: async (contact, before, take) => {
+    const activities = await prisma.activity.findMany({
+      where: { orgId: contact.orgId, contactId: contact.id, deletedAt: null, ...(before && { createdAt: { lte: before } }) },
+      orderBy: { createdAt: 'desc' },
+      take,
+    });
+
+    return activities.map(activity => ({
+      type: 'activity',
+      id: activity.id,
+      occurredAt: activity.createdAt,
+      summary: truncate(activity.content),
+      data: activity,
+    }));
+  },
+
+  // Messages are linked by contactId, or matched on the contact's phone/email when the
+  // inbound path could not link them
+  message: async (contact, before, take) => {
+    const addresses = contactAddresses(contact);
+    const messages = await prisma.message.findMany({
+      where: {
+        orgId: contact.orgId,
+        OR: [
+          { contactId: contact.id },
+          ...(addresses.length > 0
+            ? [{ contactId: null, OR: [{ fromAddr: { in: addresses } }, { toAddr: { in: addresses } }] }]
+            : []),
+        ],
+        ...(before && { createdAt: { lte: before } }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take,
+    });
+
+    return messages.map(message => ({
+      type: 'message',
+      id: message.id,
+      occurredAt: message.createdAt,
+      summary: `${message.direction === 'inbound' ? 'Received' : 'Sent'} ${message.channel}: ${truncate(message.body)}`,
+      data: message,
+    }));
+  },
+
+  appointment: async (contact, before, take) => {
+    const appointments = await prisma.appointment.findMany({
+      where: { orgId: contact.orgId, contactId: contact.id, deletedAt: null, ...(before && { startsAt: { lte: before } }) },
+      orderBy: { startsAt: 'desc' },
+      take,
+    });
+
+    return appointments.map(appointment => ({
+      type: 'appointment',
+      id: appointment.id,
+      occurredAt: appointment.startsAt,
+      summary: `Appointment ${appointment.status}${appointment.location ? ` at ${appointment.location}` : ''}`,
+      data: appointment,
+    }));
+  },
+
+  deal_change: async (contact, before, take) => {
+    const changes = await prisma.dealStageChange.findMany({
+      where: {
+        orgId: contact.orgId,
+        deal: { contactId: contact.id, deletedAt: null },
+        ...(before && { changedAt: { lte: before } }),
+      },
+      include: { deal: { select: { id: true, title: true, valueCents: true, currency: true } } },
+      orderBy: { changedAt: 'desc' },
+      take,
+    });
+
+    const stageIds = Array.from(
+      new Set(changes.flatMap(change => [change.fromStageId, change.toStageId]).filter((id): id is string => Boolean(id)))
+    );
+    const stages = await prisma.pipelineStage.findMany({
+      where: { orgId: contact.orgId, id: { in: stageIds } },
+      select: { id: true, name: true, type: true },
+    });
+    const stageById = new Map(stages.map(stage => [stage.id, stage]));
+
+    return changes.map(change => {
+      const fromStage = change.fromStageId ? stageById.get(change.fromStageId) ?? null : null;
+      const toStage = stageById.get(change.toStageId) ?? null;
+      const toName = toStage?.name ?? 'a deleted stage';
+
+      return {
+        type: 'deal_change',
+        id: change.id,
+        occurredAt: change.changedAt,
+        summary: change.fromStageId
+          ? `${change.deal.title} moved from ${fromStage?.name ?? 'a deleted stage'} to ${toName}`
+          : `${change.deal.title} created in ${toName}`,
+        data: { ...change, fromStage, toStage },
+      };
+    });
+  },
+
+  call: async (contact, before, take) => {
+    const phones = contactPhones(contact);
+    if (phones.length === 0) return [];
+
+    const rows = await querySupabase(contact.orgId, 'calls', async (client, businessIds) => {
+      let query = client
+        .from('calls')
+        .select('*')
+        .in('business_id', businessIds)
+        .or(phones.map(phone => `caller_phone.eq.${phone},phone_number.eq.${phone}`).join(','))
+        .order('started_at', { ascending: false })
+        .limit(take);
+      if (before) {
+        query = query.lte('started_at', before.toISOString());
+      }
+      return query;
+    });
+
+    return rows.map((call: any) => ({
+      type: 'call',
+      id: call.id,
+      occurredAt: new Date(call.started_at),
+      summary: `${call.direction === 'inbound' ? 'Inbound' : 'Outbound'} call${call.duration ? `, ${Math.round(call.duration / 60)} min` : ''}${call.outcome ? ` (${call.outcome})` : ''}`,
+      data: call,
+    }));
+  },
+
+  review: async (contact, before, take) => {
+    const filters = [
+      ...(contact.email ? [`reviewer_email.eq.${normalizeEmail(contact.email)}`] : []),
+      ...contactPhones(contact).map(phone => `reviewer_phone.eq.${phone}`),
+    ];
+    if (filters.length === 0) return [];
+
+    const rows = await querySupabase(contact.orgId, 'reviews', async (client, businessIds) => {
+      let query = client
+        .from('reviews')
+        .select('*')
+        .in('business_id', businessIds)
+        .or(filters.join(','))
+        .order('created_at', { ascending: false })
+        .limit(take);
+      if (before) {
+        query = query.lte('created_at', before.toISOString());
+      }
+      return query;
+    });
+
+    return rows.map((review: any) => ({
+      type: 'review',
+      id: review.id,
+      occurredAt: new Date(review.created_at),
+      summary: `${review.rating}★ review${review.platform ? ` on ${review.platform}` : ''}${review.comment ? `: ${truncate(review.comment)}` : ''}`,
+      data: review,
+    }));
+  },
+};
+
+function contactPhones(contact: Contact): string[] {
+  if (!contact.phone) return [];
+  return Array.from(new Set([contact.phone, normalizePhone(contact.phone)].filter(Boolean)));
+}
+
+function contactAddresses(contact: Contact): string[] {
+  return Array.from(
+    new Set([...contactPhones(contact), ...(contact.email ? [contact.email, normalizeEmail(contact.email)] : [])])
+  );
+}
+
+/**
+ * Calls and reviews live in the Supabase schema, keyed by business. A business
+ * belongs to the organization with the same id as the CRM org. The client is
+ * loaded lazily so the timeline still serves CRM records when Supabase is not
+ * configured or unreachable.
+ */
+async function querySupabase(
+  orgId: string,
+  table: 'calls' | 'reviews',
+  build: (client: any, businessIds: string[]) => PromiseLike<{ data: any[] | null; error: any }>
+): Promise<any[]> {
+  try {
+    const { supabase } = await import('../config/supabase');
+
+    const { data: businesses, error: businessError } = await supabase
+      .from('businesses')
+      .select('id')
+      .eq('organization_id', orgId);
+    if (businessError) throw businessError;
+
+    const businessIds = (businesses || []).map((business: { id: string }) => business.id);
+    if (businessIds.length === 0) return [];
+
+    const { data, error } = await build(supabase, businessIds);
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    logger.warn('Timeline source unavailable', { orgId, table, error: error instanceof Error ? error.message : error });
+    return [];
+  }
+}
+
+export class TimelineService {
+  /**
+   * One newest-first history for a contact across CRM records, messages, calls
+   * and reviews. Pass the returned `nextCursor` back to continue where a page ended.
+   */
+  static async list(orgId: string, contactId: string, { types, cursor, limit }: TimelineQuery) {
+    const contact = await prisma.contact.findFirst({ where: { id: contactId, orgId, deletedAt: null } });
+    if (!contact) {
+      throw new NotFoundError('Contact', contactId);
+    }
+
+    const position = cursor ? decodeCursor(cursor) : undefined;
+    const selected = types && types.length > 0 ? types : [...TIMELINE_TYPES];
+
+    // Over-fetch by one so we know whether another page exists
+    const batches = await Promise.all(selected.map(type => SOURCES[type](contact, position?.at, limit + 1)));
+
+    const items = batches
+      .flat()
+      .filter(item => !position || isAfterCursor(item, position))
+      .sort(compareItems);
+
+    const page = items.slice(0, limit);
+    const hasMore = items.length > limit;
+
+    return {
+      contact: { id: contact.id, name: fullName(contact), email: contact.email, phone: contact.phone },
+      items: page,
+      nextCursor: hasMore && page.length > 0 ? encodeCursor(page[page.length - 1]) : null,
+    };
+  }
+}
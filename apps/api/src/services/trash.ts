@@ -0,0 +1,254 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import logger from '../middleware/logger';
+import { ConflictError, NotFoundError } from '../utils/errors';
+
+export const TRASH_ENTITIES = ['contact', 'deal'] as const;
+
+export type TrashEntity = (typeof TRASH_ENTITIES)[number];
+
+export interface TrashQuery {
+  entity?: TrashEntity;
+  page: number;
+  limit: number;
+}
+
+export interface TrashItem {
+  entity: TrashEntity;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  deletedAt: Date;
+  purgeAt: Date;
+}
+
+export interface PurgeResult {
+  contacts: number;
+  deals: number;
+  activities: number;
+  appointments: number;
+  tasks: number;
+}
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days a record stays in the trash before the worker purges it, from TRASH_RETENTION_DAYS */
+export function retentionDays(): number {
+  const days = parseInt(process.env.TRASH_RETENTION_DAYS || '', 10);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+const purgeAt = (deletedAt: Date) => new Date(deletedAt.getTime() + retentionDays() * DAY_MS);
+
+const fullName = (contact: { firstName: string; lastName: string | null }) =>
+  `${contact.firstName} ${contact.lastName || ''}`.trim();
+
+/**
+ * Trashing stamps a record and every live child with the same `deletedAt`, so
+ * restoring can bring back exactly what went out with it. Children trashed
+ * earlier on their own keep their older timestamp and stay in the trash.
+ */
+export class TrashService {
+  static async trashContact(orgId: string, id: string) {
+    const contact = await prisma.contact.findFirst({
+      where: { id, orgId, deletedAt: null },
+      select: { id: true },
+    });
+
+    if (!contact) {
+      throw new NotFoundError('Contact', id);
+    }
+
+    const deletedAt = new Date();
+    const live = { orgId, deletedAt: null };
+
+    await prisma.$transaction(async tx => {
+      const deals = await tx.deal.findMany({ where: { ...live, contactId: id }, select: { id: true } });
+      const dealIds = deals.map(deal => deal.id);
+      const ownedBy = { OR: [{ contactId: id }, { dealId: { in: dealIds } }] };
+
+      await tx.contact.update({ where: { id }, data: { deletedAt } });
+      await Promise.all([
+        tx.deal.updateMany({ where: { ...live, id: { in: dealIds } }, data: { deletedAt } }),
+        tx.activity.updateMany({ where: { ...live, ...ownedBy }, data: { deletedAt } }),
+        tx.task.updateMany({ where: { ...live, ...ownedBy }, data: { deletedAt } }),
+        tx.appointment.updateMany({ where: { ...live, contactId: id }, data: { deletedAt } }),
+      ]);
+    });
+
+    return { deletedAt, purgeAt: purgeAt(deletedAt) };
+  }
+
+  static async trashDeal(orgId: string, id: string) {
+    const deal = await prisma.deal.findFirst({
+      where: { id, orgId, deletedAt: null },
+      select: { id: true, contactId: true },
+    });
+
+    if (!deal) {
+      throw new NotFoundError('Deal', id);
+    }
+
+    const deletedAt = new Date();
+    const live = { orgId, deletedAt: null, dealId: id };
+
+    await prisma.$transaction([
+      prisma.deal.update({ where: { id }, data: { deletedAt } }),
+      prisma.activity.updateMany({ where: live, data: { deletedAt } }),
+      prisma.task.updateMany({ where: live, data: { deletedAt } }),
+    ]);
+
+    return { contactId: deal.contactId, deletedAt, purgeAt: purgeAt(deletedAt) };
+  }
+
+  /** Trashed contacts and deals, most recently deleted first */
+  static async list(orgId: string, { entity, page, limit }: TrashQuery) {
+    const entities = entity ? [entity] : [...TRASH_ENTITIES];
+    const take = page * limit;
+    const trashed = { orgId, deletedAt: { not: null } };
+
+    const [contacts, deals, contactCount, dealCount] = await Promise.all([
+      entities.includes('contact')
+        ? prisma.contact.findMany({ where: trashed, orderBy: { deletedAt: 'desc' }, take })
+        : [],
+      entities.includes('deal')
+        ? prisma.deal.findMany({
+            // Deals trashed along with their contact are restored through the contact
+            where: { ...trashed, contact: { deletedAt: null } },
+            include: { contact: { select: { firstName: true, lastName: true } } },
+            orderBy: { deletedAt: 'desc' },
+            take,
+          })
+        : [],
+      entities.includes('contact') ? prisma.contact.count({ where: trashed }) : 0,
+      entities.includes('deal') ? prisma.deal.count({ where: { ...trashed, contact: { deletedAt: null } } }) : 0,
+    ]);
+
+    const items: TrashItem[] = [
+      ...contacts.map(contact => ({
+        entity: 'contact' as const,
+        id: contact.id,
+        title: fullName(contact),
+        subtitle: contact.email || contact.phone,
+        deletedAt: contact.deletedAt!,
+        purgeAt: purgeAt(contact.deletedAt!),
+      })),
+      ...deals.map(deal => ({
+        entity: 'deal' as const,
+        id: deal.id,
+        title: deal.title,
+        subtitle: fullName(deal.contact),
+        deletedAt: deal.deletedAt!,
+        purgeAt: purgeAt(deal.deletedAt!),
+      })),
+    ].sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+
+    return {
+      items: items.slice((page - 1) * limit, take),
+      total: contactCount + dealCount,
+      retentionDays: retentionDays(),
+    };
+  }
+
+  /** Restores a trashed record and the children that were trashed with it */
+  static async restore(orgId: string, entity: TrashEntity, id: string) {
+    return entity === 'contact' ? this.restoreContact(orgId, id) : this.restoreDeal(orgId, id);
+  }
+
+  private static async restoreContact(orgId: string, id: string) {
+    const contact = await prisma.contact.findFirst({
+      where: { id, orgId, deletedAt: { not: null } },
+    });
+
+    if (!contact) {
+      throw new NotFoundError('Trashed contact', id);
+    }
+
+    const batch = { orgId, deletedAt: contact.deletedAt };
+
+    return prisma.$transaction(async tx => {
+      const deals = await tx.deal.findMany({ where: { ...batch, contactId: id }, select: { id: true } });
+      const dealIds = deals.map(deal => deal.id);
+      const ownedBy = { OR: [{ contactId: id }, { dealId: { in: dealIds } }] };
+
+      const [restoredDeals, activities, tasks, appointments] = await Promise.all([
+        tx.deal.updateMany({ where: { ...batch, id: { in: dealIds } }, data: { deletedAt: null } }),
+        tx.activity.updateMany({ where: { ...batch, ...ownedBy }, data: { deletedAt: null } }),
+        tx.task.updateMany({ where: { ...batch, ...ownedBy }, data: { deletedAt: null } }),
+        tx.appointment.updateMany({ where: { ...batch, contactId: id }, data: { deletedAt: null } }),
+      ]);
+      const restored = await tx.contact.update({ where: { id }, data: { deletedAt: null } });
+
+      return {
+        record: restored,
+        restored: {
+          deals: restoredDeals.count,
+          activities: activities.count,
+          tasks: tasks.count,
+          appointments: appointments.count,
+        },
+      };
+    });
+  }
+
+  private static async restoreDeal(orgId: string, id: string) {
+    const deal = await prisma.deal.findFirst({
+      where: { id, orgId, deletedAt: { not: null } },
+      include: { contact: { select: { deletedAt: true } } },
+    });
+
+    if (!deal) {
+      throw new NotFoundError('Trashed deal', id);
+    }
+
+    if (deal.contact.deletedAt) {
+      throw new ConflictError('The deal\'s contact is in the trash; restore the contact first', {
+        contactId: deal.contactId,
+      });
+    }
+
+    const batch = { orgId, deletedAt: deal.deletedAt, dealId: id };
+
+    const [restored, activities, tasks] = await prisma.$transaction([
+      prisma.deal.update({ where: { id }, data: { deletedAt: null } }),
+      prisma.activity.updateMany({ where: batch, data: { deletedAt: null } }),
+      prisma.task.updateMany({ where: batch, data: { deletedAt: null } }),
+    ]);
+
+    return { record: restored, restored: { activities: activities.count, tasks: tasks.count } };
+  }
+
+  /**
+   * Permanently deletes records trashed before the retention cutoff. Deleting a
+   * contact or deal cascades to its children; children trashed on their own are
+   * purged by their own timestamp.
+   */
+  static async purge(orgId: string, now = new Date()): Promise<PurgeResult> {
+    const expired: { orgId: string; deletedAt: Prisma.DateTimeNullableFilter } = {
+      orgId,
+      deletedAt: { lt: new Date(now.getTime() - retentionDays() * DAY_MS) },
+    };
+
+    // Contacts first so their deals go through the cascade instead of being counted twice
+    const contacts = await prisma.contact.deleteMany({ where: expired });
+    const [deals, activities, appointments, tasks] = await prisma.$transaction([
+      prisma.deal.deleteMany({ where: expired }),
+      prisma.activity.deleteMany({ where: expired }),
+      prisma.appointment.deleteMany({ where: expired }),
+      prisma.task.deleteMany({ where: expired }),
+    ]);
+
+    const result = {
+      contacts: contacts.count,
+      deals: deals.count,
+      activities: activities.count,
+      appointments: appointments.count,
+      tasks: tasks.count,
+    };
+
+    logger.info('Trash purged', { orgId, ...result });
+    return result;
+  }
+}
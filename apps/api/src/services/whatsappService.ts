@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { createClient } from '@supabase/supabase-js';
+import { ConsentService } from './consent';
 
 interface WhatsAppMessage {
   to: string;
@@ -103,6 +104,8 @@ export class WhatsAppService {
    * Send text message
    */
   async sendTextMessage(to: string, text: string, businessId: string): Promise<any> {
+    await this.assertCanSend(to, businessId, 'text');
+
     try {
       const message: WhatsAppMessage = {
         to,
@@ -141,6 +144,8 @@ export class WhatsAppService {
     components: any[] = [],
     businessId: string
   ): Promise<any> {
+    await this.assertCanSend(to, businessId, 'template');
+
     try {
       const message: WhatsAppMessage = {
         to,
@@ -182,6 +187,8 @@ export class WhatsAppService {
     caption?: string,
     businessId?: string
   ): Promise<any> {
+    await this.assertCanSend(to, businessId, 'image');
+
     try {
       const message: WhatsAppMessage = {
         to,
@@ -223,6 +230,8 @@ export class WhatsAppService {
     filename: string,
     businessId?: string
   ): Promise<any> {
+    await this.assertCanSend(to, businessId, 'document');
+
     try {
       const message: WhatsAppMessage = {
         to,
@@ -315,6 +324,11 @@ export class WhatsAppService {
         platform: 'whatsapp'
       });
 
+      // STOP/START/HELP are answered here and do not reach the workflows
+      if (await this.handleConsentKeyword(customerPhone, messageText, customer.business_id)) {
+        return;
+      }
+
       // Trigger automation workflows
       await this.triggerAutomationWorkflows(customer, messageText, conversation);
 
@@ -323,6 +337,48 @@ export class WhatsAppService {
     }
   }
 
+  /**
+   * Check the consent ledger of the business's organization before a send.
+   * Businesses that are not linked to an organization have no ledger.
+   */
+  private async assertCanSend(to: string, businessId: string | undefined, type: string): Promise<void> {
+    const orgId = businessId ? await ConsentService.orgIdForBusiness(businessId) : null;
+    if (orgId) {
+      await ConsentService.assertCanSend(orgId, { channel: 'whatsapp', to, source: `whatsapp.${type}` });
+    }
+  }
+
+  /**
+   * Record a consent keyword and send its confirmation. Returns whether the
+   * message was a keyword.
+   */
+  private async handleConsentKeyword(customerPhone: string, messageText: string, businessId: string): Promise<boolean> {
+    const orgId = await ConsentService.orgIdForBusiness(businessId);
+    if (!orgId) {
+      return false;
+    }
+
+    const handled = await ConsentService.handleInboundKeyword(orgId, 'whatsapp', customerPhone, messageText);
+    if (!handled) {
+      return false;
+    }
+
+    // Confirmations go out even after an opt-out, so they skip the ledger check
+    const result = await this.sendMessage({ to: customerPhone, type: 'text', text: { body: handled.reply } });
+    await this.storeMessage({
+      business_id: businessId,
+      customer_phone: customerPhone,
+      message_id: result.messages[0].id,
+      direction: 'outbound',
+      content: handled.reply,
+      type: 'text',
+      status: 'sent',
+      platform: 'whatsapp'
+    });
+
+    return true;
+  }
+
   /**
    * Handle message status update
    */
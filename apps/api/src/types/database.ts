@@ -530,6 +530,53 @@ export type Database = {
           updated_at?: string | null
         }
       }
+      audit_logs: {
+        Row: {
+          id: string
+          business_id: string | null
+          organization_id: string | null
+          user_id: string | null
+          action: string
+          resource_type: string
+          resource_id: string | null
+          old_values: Json | null
+          new_values: Json | null
+          ip_address: string | null
+          user_agent: string | null
+          metadata: Json | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          business_id?: string | null
+          organization_id?: string | null
+          user_id?: string | null
+          action: string
+          resource_type: string
+          resource_id?: string | null
+          old_values?: Json | null
+          new_values?: Json | null
+          ip_address?: string | null
+          user_agent?: string | null
+          metadata?: Json | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          business_id?: string | null
+          organization_id?: string | null
+          user_id?: string | null
+          action?: string
+          resource_type?: string
+          resource_id?: string | null
+          old_values?: Json | null
+          new_values?: Json | null
+          ip_address?: string | null
+          user_agent?: string | null
+          metadata?: Json | null
+          created_at?: string | null
+        }
+      }
     }
     Views: {
       [_ in never]: never
@@ -571,6 +618,9 @@ export type Service = Database['public']['Tables']['services']['Row'];
 export type ServiceInsert = Database['public']['Tables']['services']['Insert'];
 export type ServiceUpdate = Database['public']['Tables']['services']['Update'];
 
+export type AuditLog = Database['public']['Tables']['audit_logs']['Row'];
+export type AuditLogInsert = Database['public']['Tables']['audit_logs']['Insert'];
+
 // Analytics and Metrics types
 export interface DashboardMetrics {
   totalCalls: number;
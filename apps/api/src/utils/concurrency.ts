@@ -0,0 +1,51 @@
+/**
+ * Optimistic concurrency for versioned CRM records. Clients send the version they
+ * edited, either as an If-Match header holding the ETag from a read or as a
+ * `version` field in the body. Updates that do not say are applied as before.
+ */
+import { Prisma } from '@prisma/client';
+import { ValidationError, VersionConflictError } from './errors';
+
+export function etag(version: number): string {
+  return `W/"${version}"`;
+}
+
+/** The version a request expects to overwrite; If-Match wins over the body field */
+export function expectedVersion(ifMatch: string | undefined, bodyVersion?: number): number | undefined {
+  const header = ifMatch?.trim();
+  if (!header || header === '*') {
+    return bodyVersion;
+  }
+
+  const match = /^(?:W\/)?"(\d+)"$/.exec(header);
+  if (!match) {
+    throw new ValidationError('If-Match must be an ETag returned by this API', { field: 'If-Match' });
+  }
+  return Number(match[1]);
+}
+
+export function assertVersion(resource: string, current: { version: number }, expected: number | undefined) {
+  if (expected !== undefined && expected !== current.version) {
+    throw new VersionConflictError(resource, current);
+  }
+}
+
+/**
+ * Runs an update whose `where` pins the version that was read. A write landing in
+ * between makes Prisma report the record as missing (P2025), which becomes a
+ * conflict carrying the record as it is now.
+ */
+export async function withVersionGuard<T>(
+  resource: string,
+  update: () => Promise<T>,
+  reload: () => Promise<unknown>
+): Promise<T> {
+  try {
+    return await update();
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      throw new VersionConflictError(resource, await reload());
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * CSV helpers for downloadable reports and exports
+ */
+
+// Neutralises cells a spreadsheet app would evaluate as a formula
+export function csvCell(value: unknown): string {
+  let text = value === undefined || value === null ? '' : String(value);
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(lines: unknown[][]): string {
+  return lines.map(line => line.map(csvCell).join(',')).join('\n');
+}
@@ -109,6 +109,26 @@ export class WebhookError extends CustomError {
   }
 }
 
+export class MessageSuppressedError extends CustomError {
+  constructor(channel: string, to: string, reason: string) {
+    super(
+      reason === 'hard_bounce'
+        ? `Recipient's ${channel} address hard bounced`
+        : `Recipient has ${reason.replace('_', ' ')} of ${channel} messages`,
+      422,
+      { channel, to, reason },
+      'MESSAGE_SUPPRESSED'
+    );
+  }
+}
+
+// The record changed since the client read it; `current` is the server's copy
+export class VersionConflictError extends CustomError {
+  constructor(resource: string, current: unknown) {
+    super(`${resource} was changed by someone else. Review the latest version and try again.`, 409, { current }, 'VERSION_CONFLICT');
+  }
+}
+
 // Error Codes for consistent error handling
 export const ERROR_CODES = {
   // Authentication & Authorization
@@ -130,6 +150,8 @@ export const ERROR_CODES = {
   CUSTOMER_NOT_FOUND: 'CUSTOMER_NOT_FOUND',
   SERVICE_UNAVAILABLE: 'SERVICE_UNAVAILABLE',
   PAYMENT_REQUIRED: 'PAYMENT_REQUIRED',
+  MESSAGE_SUPPRESSED: 'MESSAGE_SUPPRESSED',
+  VERSION_CONFLICT: 'VERSION_CONFLICT',
 
   // External Service Errors
   TWILIO_ERROR: 'TWILIO_ERROR',
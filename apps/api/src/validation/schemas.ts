@@ -26,12 +26,15 @@ export const contactQuerySchema = paginationSchema.extend({
 });
 
 // Deal schemas
-export const dealStageSchema = z.enum(['lead', 'qualified', 'proposal', 'won', 'lost']);
+export const dealStatusSchema = z.enum(['open', 'won', 'lost']);
 
 export const createDealSchema = z.object({
   contactId: uuidSchema,
   title: z.string().min(1).max(200),
-  stage: dealStageSchema,
+  pipelineId: uuidSchema.optional(),
+  stageId: uuidSchema.optional(),
+  probability: z.number().int().min(0).max(100).optional(),
+  ownerId: uuidSchema.nullable().optional(),
   valueCents: z.number().int().min(0),
   currency: z.string().length(3).default('USD'),
 });
@@ -39,7 +42,9 @@ export const createDealSchema = z.object({
 export const updateDealSchema = createDealSchema.partial();
 
 export const dealQuerySchema = paginationSchema.extend({
-  stage: dealStageSchema.optional(),
+  pipelineId: uuidSchema.optional(),
+  stageId: uuidSchema.optional(),
+  status: dealStatusSchema.optional(),
   contactId: uuidSchema.optional(),
   minValue: z.coerce.number().int().min(0).optional(),
   maxValue: z.coerce.number().int().min(0).optional(),
@@ -1,7 +1,8 @@
-import { remindersQueue, nurtureQueue, dunningQueue, snapshotsQueue } from './queues';
+import { remindersQueue, nurtureQueue, dunningQueue, snapshotsQueue, duplicatesQueue, importsQueue, broadcastsQueue, tasksQueue, scoringQueue, scheduledMessagesQueue } from './queues';
 
 export interface EnqueueJob {
   orgId: string;
+  contactId?: string;
   payload?: any;
 }
 
@@ -44,3 +45,62 @@ export async function enqueueSnapshots(job: EnqueueJob) {
     },
   });
 }
+
+export async function enqueueDuplicateScan(job: EnqueueJob) {
+  return duplicatesQueue.add('duplicates', job, {
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 2000,
+    },
+  });
+}
+
+export async function enqueueContactImport(job: EnqueueJob) {
+  return importsQueue.add('import', job, {
+    attempts: 1,
+  });
+}
+
+export async function enqueueBroadcast(job: EnqueueJob) {
+  return broadcastsQueue.add('broadcast', job, {
+    attempts: 1,
+  });
+}
+
+export async function enqueueTaskReminders(job: EnqueueJob) {
+  return tasksQueue.add('task-reminders', job, {
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 2000,
+    },
+  });
+}
+
+// Without a contactId the whole org is rescored
+export async function enqueueLeadScore(job: EnqueueJob) {
+  return scoringQueue.add('lead-score', job, {
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 2000,
+    },
+  });
+}
+
+// Each (re)schedule gets its own job; the id is kept on the scheduled message so it can be removed
+export async function enqueueScheduledMessage(job: EnqueueJob & { scheduledMessageId: string }, sendAt: Date) {
+  return scheduledMessagesQueue.add('scheduled-message', job, {
+    jobId: `${job.scheduledMessageId}-${sendAt.getTime()}`,
+    delay: Math.max(0, sendAt.getTime() - Date.now()),
+    attempts: 1,
+  });
+}
+
+export async function dequeueScheduledMessage(jobId: string) {
+  const job = await scheduledMessagesQueue.getJob(jobId);
+  if (job) {
+    await job.remove();
+  }
+}
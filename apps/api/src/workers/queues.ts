@@ -55,6 +55,88 @@ export const snapshotsQueue = new Queue('snapshots', {
   },
 });
 
+export const duplicatesQueue = new Queue('duplicates', { 
+  connection,
+  defaultJobOptions: {
+    removeOnComplete: 50,
+    removeOnFail: 25,
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 2000,
+    },
+  },
+});
+
+export const importsQueue = new Queue('imports', { 
+  connection,
+  defaultJobOptions: {
+    removeOnComplete: 50,
+    removeOnFail: 25,
+    // Not retried: a partially applied import would be re-run against contacts it already wrote
+    attempts: 1,
+  },
+});
+
+export const broadcastsQueue = new Queue('broadcasts', { 
+  connection,
+  defaultJobOptions: {
+    removeOnComplete: 50,
+    removeOnFail: 25,
+    // Not retried: contacts reached before a failure would be messaged twice
+    attempts: 1,
+  },
+});
+
+export const tasksQueue = new Queue('tasks', { 
+  connection,
+  defaultJobOptions: {
+    removeOnComplete: 50,
+    removeOnFail: 25,
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 2000,
+    },
+  },
+});
+
+export const scoringQueue = new Queue('scoring', { 
+  connection,
+  defaultJobOptions: {
+    removeOnComplete: 50,
+    removeOnFail: 25,
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 2000,
+    },
+  },
+});
+
+export const retentionQueue = new Queue('retention', { 
+  connection,
+  defaultJobOptions: {
+    removeOnComplete: 50,
+    removeOnFail: 25,
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 2000,
+    },
+  },
+});
+
+// Sending is not idempotent, so scheduled messages are not retried
+export const scheduledMessagesQueue = new Queue('scheduled-messages', { 
+  connection,
+  defaultJobOptions: {
+    removeOnComplete: 100,
+    removeOnFail: 50,
+    attempts: 1,
+  },
+});
+
 // Queue management functions
 export const getQueueStats = async () => {
   const stats = await Promise.all([
@@ -62,6 +144,13 @@ export const getQueueStats = async () => {
     nurtureQueue.getJobCounts(),
     dunningQueue.getJobCounts(),
     snapshotsQueue.getJobCounts(),
+    duplicatesQueue.getJobCounts(),
+    importsQueue.getJobCounts(),
+    broadcastsQueue.getJobCounts(),
+    tasksQueue.getJobCounts(),
+    scoringQueue.getJobCounts(),
+    retentionQueue.getJobCounts(),
+    scheduledMessagesQueue.getJobCounts(),
   ]);
 
   return {
@@ -69,6 +158,13 @@ export const getQueueStats = async () => {
     nurture: stats[1],
     dunning: stats[2],
     snapshots: stats[3],
+    duplicates: stats[4],
+    imports: stats[5],
+    broadcasts: stats[6],
+    tasks: stats[7],
+    scoring: stats[8],
+    retention: stats[9],
+    scheduledMessages: stats[10],
   };
 };
 
@@ -78,6 +174,13 @@ export const pauseAllQueues = async () => {
     nurtureQueue.pause(),
     dunningQueue.pause(),
     snapshotsQueue.pause(),
+    duplicatesQueue.pause(),
+    importsQueue.pause(),
+    broadcastsQueue.pause(),
+    tasksQueue.pause(),
+    scoringQueue.pause(),
+    retentionQueue.pause(),
+    scheduledMessagesQueue.pause(),
   ]);
 };
 
@@ -87,6 +190,13 @@ export const resumeAllQueues = async () => {
     nurtureQueue.resume(),
     dunningQueue.resume(),
     snapshotsQueue.resume(),
+    duplicatesQueue.resume(),
+    importsQueue.resume(),
+    broadcastsQueue.resume(),
+    tasksQueue.resume(),
+    scoringQueue.resume(),
+    retentionQueue.resume(),
+    scheduledMessagesQueue.resume(),
   ]);
 };
 
@@ -96,6 +206,13 @@ export const clearAllQueues = async () => {
     nurtureQueue.obliterate({ force: true }),
     dunningQueue.obliterate({ force: true }),
     snapshotsQueue.obliterate({ force: true }),
+    duplicatesQueue.obliterate({ force: true }),
+    importsQueue.obliterate({ force: true }),
+    broadcastsQueue.obliterate({ force: true }),
+    tasksQueue.obliterate({ force: true }),
+    scoringQueue.obliterate({ force: true }),
+    retentionQueue.obliterate({ force: true }),
+    scheduledMessagesQueue.obliterate({ force: true }),
   ]);
 };
 
@@ -105,5 +222,12 @@ export const closeAllQueues = async () => {
     nurtureQueue.close(),
     dunningQueue.close(),
     snapshotsQueue.close(),
+    duplicatesQueue.close(),
+    importsQueue.close(),
+    broadcastsQueue.close(),
+    tasksQueue.close(),
+    scoringQueue.close(),
+    retentionQueue.close(),
+    scheduledMessagesQueue.close(),
   ]);
 };
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    $queryRaw: vi.fn(),
+    account: { findMany: vi.fn(), count: vi.fn(), findFirst: vi.fn(), create: vi.fn() },
+    deal: { updateMany: vi.fn() },
+  },
+}));
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+
+import { AccountService, normalizeDomain } from '../src/services/accounts';
+import { NotFoundError } from '../src/utils/errors';
+
+describe('normalizeDomain', () => {
+  it('strips scheme, www and path and lowercases the host', () => {
+    expect(normalizeDomain(' https://www.Acme.com/about?x=1 ')).toBe('acme.com');
+    expect(normalizeDomain('acme.com')).toBe('acme.com');
+    expect(normalizeDomain('http://shop.acme.co.uk#top')).toBe('shop.acme.co.uk');
+  });
+});
+
+describe('AccountService', () => {
+  beforeEach(() => {
+    prisma.$queryRaw.mockReset();
+  });
+
+  it('stores the normalized domain', async () => {
+    prisma.account.create.mockImplementation(async ({ data }) => data);
+
+    expect(await AccountService.create('org-1', { name: 'Acme', domain: 'https://www.ACME.com/' })).toEqual({
+      orgId: 'org-1',
+      name: 'Acme',
+      domain: 'acme.com',
+    });
+  });
+
+  it('lists accounts with rollups and empty rollups for accounts without rows', async () => {
+    const lastActivityAt = new Date('2024-06-01T00:00:00Z');
+    prisma.account.findMany.mockResolvedValue([
+      { id: 'acc-1', name: 'Acme' },
+      { id: 'acc-2', name: 'Globex' },
+    ]);
+    prisma.account.count.mockResolvedValue(2);
+    prisma.$queryRaw.mockResolvedValue([
+      { id: 'acc-1', contactsCount: 3, openDealsCount: 2, openDealValueCents: BigInt(5000000000), lastActivityAt },
+    ]);
+
+    const { accounts, total } = await AccountService.list('org-1', { page: 1, limit: 20, sortOrder: 'asc' });
+
+    expect(total).toBe(2);
+    expect(accounts).toEqual([
+      { id: 'acc-1', name: 'Acme', contactsCount: 3, openDealsCount: 2, openDealValueCents: 5000000000, lastActivityAt },
+      { id: 'acc-2', name: 'Globex', contactsCount: 0, openDealsCount: 0, openDealValueCents: 0, lastActivityAt: null },
+    ]);
+  });
+
+  it('skips the rollup query when there are no accounts', async () => {
+    expect(await AccountService.rollups('org-1', [])).toEqual(new Map());
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('fails for accounts outside the organization', async () => {
+    prisma.account.findFirst.mockResolvedValue(null);
+
+    await expect(AccountService.get('org-1', 'acc-9')).rejects.toThrow(NotFoundError);
+  });
+
+  it("moves only the deals that followed the contact's old account", async () => {
+    prisma.deal.updateMany.mockResolvedValue({ count: 2 });
+
+    expect(await AccountService.followContact('org-1', 'contact-1', 'acc-1', 'acc-2')).toBe(2);
+    expect(prisma.deal.updateMany).toHaveBeenCalledWith({
+      where: { orgId: 'org-1', contactId: 'contact-1', accountId: 'acc-1' },
+      data: { accountId: 'acc-2' },
+    });
+
+    prisma.deal.updateMany.mockClear();
+    expect(await AccountService.followContact('org-1', 'contact-1', 'acc-1', 'acc-1')).toBe(0);
+    expect(prisma.deal.updateMany).not.toHaveBeenCalled();
+  });
+});
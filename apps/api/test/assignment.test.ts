@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    contact: { findFirst: vi.fn(), updateMany: vi.fn() },
+    assignmentRule: { findMany: vi.fn(), update: vi.fn() },
+    membership: { findMany: vi.fn() },
+    deal: { groupBy: vi.fn() },
+    user: { findMany: vi.fn() },
+    activity: { create: vi.fn() },
+  },
+}));
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+
+import { AssignmentService, pickAssignee, ruleMatches } from '../src/services/assignment';
+
+describe('ruleMatches', () => {
+  it('matches on source and on any tag regardless of case', () => {
+    const rule = { sources: ['sms' as const], tags: ['Roofing', 'gutters'] };
+
+    expect(ruleMatches(rule, { source: 'sms', tags: ['roofing'] })).toBe(true);
+    expect(ruleMatches(rule, { source: 'sms', tags: ['siding'] })).toBe(false);
+    expect(ruleMatches(rule, { source: 'api', tags: ['roofing'] })).toBe(false);
+    expect(ruleMatches({ sources: [], tags: [] }, { source: 'api', tags: [] })).toBe(true);
+  });
+});
+
+describe('pickAssignee', () => {
+  const pool = ['u1', 'u2', 'u3'];
+
+  it('rotates round-robin after the last assignee and wraps around', () => {
+    expect(pickAssignee('round_robin', pool, null)).toBe('u1');
+    expect(pickAssignee('round_robin', pool, 'u1')).toBe('u2');
+    expect(pickAssignee('round_robin', pool, 'u3')).toBe('u1');
+    // A last assignee who left the pool restarts the rotation
+    expect(pickAssignee('round_robin', pool, 'gone')).toBe('u1');
+  });
+
+  it('load-balances to the fewest open deals, taking turns on ties', () => {
+    const openDeals = new Map([
+      ['u1', 2],
+      ['u2', 1],
+      ['u3', 1],
+    ]);
+
+    expect(pickAssignee('load_balanced', pool, null, openDeals)).toBe('u2');
+    expect(pickAssignee('load_balanced', pool, 'u2', openDeals)).toBe('u3');
+    expect(pickAssignee('load_balanced', pool, 'u3', new Map())).toBe('u1');
+  });
+
+  it('returns null for an empty pool', () => {
+    expect(pickAssignee('round_robin', [], null)).toBeNull();
+  });
+});
+
+describe('AssignmentService.assignLead', () => {
+  const rule = (id: string, fields: Record<string, unknown>) => ({
+    id,
+    name: id,
+    strategy: 'round_robin',
+    tags: [],
+    sources: [],
+    assigneeIds: [],
+    lastAssigneeId: null,
+    ...fields,
+  });
+
+  beforeEach(() => {
+    prisma.contact.findFirst.mockResolvedValue({ id: 'contact-1', ownerId: null, tags: ['vip'] });
+    prisma.contact.updateMany.mockResolvedValue({ count: 1 });
+    prisma.user.findMany.mockResolvedValue([{ id: 'u2', name: 'Bea', email: 'bea@example.com' }]);
+    prisma.membership.findMany.mockImplementation(async ({ where }) =>
+      where.userId.in.filter((userId: string) => userId !== 'gone').map((userId: string) => ({ userId }))
+    );
+    prisma.assignmentRule.findMany.mockResolvedValue([
+      rule('api-leads', { sources: ['api'], assigneeIds: ['u9'] }),
+      rule('departed', { tags: ['VIP'], assigneeIds: ['gone'] }),
+      rule('vip', { tags: ['vip'], assigneeIds: ['u1', 'u2'], lastAssigneeId: 'u1' }),
+    ]);
+  });
+
+  it('uses the first matching rule that still has members and records the assignment', async () => {
+    expect(await AssignmentService.assignLead('org-1', 'contact-1', 'sms')).toBe('u2');
+
+    expect(prisma.contact.updateMany).toHaveBeenCalledWith({
+      where: { id: 'contact-1', ownerId: null },
+      data: { ownerId: 'u2' },
+    });
+    expect(prisma.assignmentRule.update).toHaveBeenCalledWith({ where: { id: 'vip' }, data: { lastAssigneeId: 'u2' } });
+    expect(prisma.activity.create.mock.calls.at(-1)![0].data).toMatchObject({
+      contactId: 'contact-1',
+      type: 'assignment',
+      content: 'Assigned to Bea by rule "vip"',
+    });
+  });
+
+  it('leaves contacts that were claimed in the meantime alone', async () => {
+    prisma.contact.updateMany.mockResolvedValue({ count: 0 });
+    prisma.assignmentRule.update.mockClear();
+
+    expect(await AssignmentService.assignLead('org-1', 'contact-1', 'sms')).toBeNull();
+    expect(prisma.assignmentRule.update).not.toHaveBeenCalled();
+  });
+
+  it('never throws into lead intake', async () => {
+    prisma.assignmentRule.findMany.mockRejectedValue(new Error('connection lost'));
+
+    expect(await AssignmentService.assignLead('org-1', 'contact-1', 'sms')).toBeNull();
+  });
+});
+
+describe('AssignmentService.recordOwnerChange', () => {
+  it('describes reassignments and unassignments', async () => {
+    prisma.user.findMany.mockResolvedValue([{ id: 'u1', name: null, email: 'al@example.com' }]);
+
+    await AssignmentService.recordOwnerChange('org-1', { dealId: 'deal-1', fromOwnerId: 'u1', toOwnerId: 'u2', actorId: 'u3' });
+    expect(prisma.activity.create.mock.calls.at(-1)![0].data).toMatchObject({
+      dealId: 'deal-1',
+      content: 'Reassigned from al@example.com to a former member',
+      meta: { fromOwnerId: 'u1', toOwnerId: 'u2', changedBy: 'u3', ruleId: null },
+    });
+
+    await AssignmentService.recordOwnerChange('org-1', { contactId: 'contact-1', fromOwnerId: 'u1', toOwnerId: null });
+    expect(prisma.activity.create.mock.calls.at(-1)![0].data.content).toBe('Unassigned from al@example.com');
+  });
+
+  it('records nothing when the owner did not change', async () => {
+    prisma.activity.create.mockClear();
+
+    await AssignmentService.recordOwnerChange('org-1', { contactId: 'contact-1', fromOwnerId: 'u1', toOwnerId: 'u1' });
+    expect(prisma.activity.create).not.toHaveBeenCalled();
+  });
+});
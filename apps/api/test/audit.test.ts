@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+
+const { prisma, supabase, insert, Sentry } = vi.hoisted(() => {
+  const insert = vi.fn();
+
+  // audit_logs takes inserts; other tables are read for snapshots and hold nothing
+  const query = () => {
+    const builder: any = {
+      insert,
+      select: () => builder,
+      eq: () => builder,
+      maybeSingle: async () => ({ data: null, error: null }),
+    };
+    return builder;
+  };
+
+  return {
+    prisma: { contact: { findUnique: vi.fn() } },
+    supabase: { from: vi.fn(query) },
+    insert,
+    Sentry: { captureException: vi.fn() },
+  };
+});
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+vi.mock('../src/config/supabase', () => ({ supabase }));
+vi.mock('../src/config/sentry', () => ({ default: Sentry }));
+
+import { AuditService, auditValue, diffValues } from '../src/services/audit';
+import { auditTrail } from '../src/middleware/audit';
+
+const CONTACT_ID = '6f1c2a4e-8b3d-4c5e-9f70-1a2b3c4d5e6f';
+const ITEM_ID = '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d';
+
+describe('auditValue', () => {
+  it('redacts secrets and summarizes binary payloads', () => {
+    expect(
+      auditValue({
+        name: 'Ann',
+        password: 'hunter2',
+        apiToken: 'abc',
+        pdf: Buffer.from('%PDF'),
+        count: BigInt(12),
+        at: new Date('2024-06-01T00:00:00Z'),
+      })
+    ).toEqual({
+      name: 'Ann',
+      password: '[redacted]',
+      apiToken: '[redacted]',
+      pdf: '[binary 4 bytes]',
+      count: '12',
+      at: '2024-06-01T00:00:00.000Z',
+    });
+    expect(auditValue(undefined)).toBeNull();
+  });
+});
+
+describe('diffValues', () => {
+  it('keeps only the fields that changed, ignoring updatedAt', () => {
+    expect(
+      diffValues(
+        { id: 'c1', firstName: 'Ann', tags: ['a'], updatedAt: new Date(1) },
+        { id: 'c1', firstName: 'Anne', tags: ['a'], lastName: 'Lee', updatedAt: new Date(2) }
+      )
+    ).toEqual({
+      oldValues: { firstName: 'Ann', lastName: null },
+      newValues: { firstName: 'Anne', lastName: 'Lee' },
+    });
+  });
+
+  it('keeps the whole record on create and hard delete', () => {
+    expect(diffValues(null, { id: 'c1' })).toEqual({ oldValues: null, newValues: { id: 'c1' } });
+    expect(diffValues({ id: 'c1' }, null)).toEqual({ oldValues: { id: 'c1' }, newValues: null });
+  });
+
+  it('reports nothing when nothing changed', () => {
+    expect(diffValues({ id: 'c1', updatedAt: 1 }, { id: 'c1', updatedAt: 2 })).toEqual({ oldValues: null, newValues: null });
+  });
+});
+
+describe('AuditService.record', () => {
+  beforeEach(() => {
+    insert.mockReset().mockResolvedValue({ error: null });
+  });
+
+  it('writes to the audit_logs columns, leaving out values the uuid and inet columns reject', async () => {
+    await AuditService.record({
+      orgId: 'org-1',
+      userId: 'user-1',
+      action: 'create',
+      resourceType: 'contacts',
+      resourceId: 'not-a-uuid',
+      newValues: { token: 'abc' },
+      ip: 'unknown',
+    });
+
+    expect(supabase.from).toHaveBeenLastCalledWith('audit_logs');
+    expect(insert).toHaveBeenCalledWith({
+      organization_id: 'org-1',
+      business_id: null,
+      user_id: 'user-1',
+      action: 'create',
+      resource_type: 'contacts',
+      resource_id: null,
+      old_values: null,
+      new_values: { token: '[redacted]' },
+      ip_address: null,
+      user_agent: null,
+      metadata: {},
+    });
+  });
+
+  it('keeps actors without a profile in the metadata', async () => {
+    insert.mockResolvedValueOnce({
+      error: { message: 'insert or update on table "audit_logs" violates foreign key constraint "audit_logs_user_id_fkey"' },
+    });
+
+    await AuditService.record({ orgId: 'org-1', userId: 'user-1', action: 'delete', resourceType: 'deals', ip: '::1' });
+
+    expect(insert).toHaveBeenCalledTimes(2);
+    expect(insert.mock.calls[1][0]).toMatchObject({ user_id: null, ip_address: '::1', metadata: { userId: 'user-1' } });
+  });
+
+  it('throws when the entry cannot be stored', async () => {
+    insert.mockResolvedValue({ error: { message: 'permission denied for table audit_logs' } });
+
+    await expect(AuditService.record({ orgId: 'org-1', action: 'create', resourceType: 'contacts' })).rejects.toMatchObject({
+      message: 'permission denied for table audit_logs',
+    });
+  });
+});
+
+describe('auditTrail', () => {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    Object.assign(req, { orgId: req.get('x-org-id'), userId: 'user-1', requestId: 'req-1' });
+    next();
+  });
+  app.use(auditTrail({ skip: [/^\/contacts\/preview$/] }));
+  app.get('/contacts', (_req, res) => res.json({ data: [] }));
+  app.post('/contacts', (_req, res) => res.status(201).json({ data: { id: CONTACT_ID, firstName: 'Ann' } }));
+  app.post('/contacts/preview', (_req, res) => res.json({ data: {} }));
+  app.patch('/contacts/:id', (_req, res) => res.json({ data: { id: CONTACT_ID } }));
+  app.delete('/deals/:id/line-items/:itemId', (_req, res) => res.status(204).end());
+  app.post('/contacts/:id/merge', (_req, res) => res.status(400).json({ error: 'Invalid' }));
+
+  // Routers on Supabase businesses, such as /api/services, carry a business and no org
+  const businessApp = express();
+  businessApp.use(express.json());
+  businessApp.use((req, _res, next) => {
+    Object.assign(req, { businessId: 'biz-1', user: { id: 'profile-1' }, requestId: 'req-2' });
+    next();
+  });
+  businessApp.use('/services', auditTrail({ resourceType: 'services' }));
+  businessApp.put('/services/:id', (_req, res) => res.json({ data: { id: CONTACT_ID, name: 'Cut' } }));
+
+  const recorded = () => vi.waitFor(() => {
+    expect(insert).toHaveBeenCalled();
+    return insert.mock.calls.at(-1)![0];
+  });
+
+  beforeEach(() => {
+    insert.mockReset().mockResolvedValue({ error: null });
+    prisma.contact.findUnique.mockReset();
+    Sentry.captureException.mockReset();
+  });
+
+  it('records creates with the returned record, actor and request details', async () => {
+    await request(app).post('/contacts').set('x-org-id', 'org-1').set('user-agent', 'vitest').send({ firstName: 'Ann' });
+
+    expect(await recorded()).toMatchObject({
+      organization_id: 'org-1',
+      business_id: null,
+      user_id: 'user-1',
+      action: 'create',
+      resource_type: 'contacts',
+      resource_id: CONTACT_ID,
+      new_values: { id: CONTACT_ID, firstName: 'Ann' },
+      user_agent: 'vitest',
+      metadata: { method: 'POST', path: '/contacts', statusCode: 201, requestId: 'req-1' },
+    });
+  });
+
+  it('records the fields an update changed', async () => {
+    prisma.contact.findUnique
+      .mockResolvedValueOnce({ id: CONTACT_ID, firstName: 'Ann', phone: null })
+      .mockResolvedValueOnce({ id: CONTACT_ID, firstName: 'Anne', phone: null });
+
+    await request(app).patch(`/contacts/${CONTACT_ID}`).set('x-org-id', 'org-1').send({ firstName: 'Anne' });
+
+    expect(await recorded()).toMatchObject({
+      action: 'update',
+      resource_id: CONTACT_ID,
+      old_values: { firstName: 'Ann' },
+      new_values: { firstName: 'Anne' },
+    });
+  });
+
+  it('names sub-resource actions after the nested path', async () => {
+    await request(app).delete(`/deals/${CONTACT_ID}/line-items/${ITEM_ID}`).set('x-org-id', 'org-1');
+
+    expect(await recorded()).toMatchObject({ resource_type: 'deals', resource_id: CONTACT_ID, action: 'line_items.delete' });
+  });
+
+  it('records business requests under the business and its Supabase user', async () => {
+    await request(businessApp).put(`/services/${CONTACT_ID}`).send({ name: 'Cut' });
+
+    expect(await recorded()).toMatchObject({
+      organization_id: null,
+      business_id: 'biz-1',
+      user_id: 'profile-1',
+      action: 'update',
+      resource_type: 'services',
+      resource_id: CONTACT_ID,
+      new_values: { id: CONTACT_ID, name: 'Cut' },
+      metadata: { path: `/services/${CONTACT_ID}` },
+    });
+  });
+
+  it('skips reads, failed requests, skipped routes and requests without an org', async () => {
+    await request(app).get('/contacts').set('x-org-id', 'org-1');
+    await request(app).post(`/contacts/${CONTACT_ID}/merge`).set('x-org-id', 'org-1');
+    await request(app).post('/contacts/preview').set('x-org-id', 'org-1');
+    await request(app).post('/contacts');
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('reports failed writes to Sentry without failing the request', async () => {
+    insert.mockResolvedValue({ error: { message: 'connection lost' } });
+
+    const response = await request(app).post('/contacts').set('x-org-id', 'org-1');
+
+    expect(response.status).toBe(201);
+    await vi.waitFor(() => expect(Sentry.captureException).toHaveBeenCalled());
+    expect(Sentry.captureException.mock.calls[0][1]).toMatchObject({
+      tags: { component: 'audit' },
+      extra: { action: 'create', resourceType: 'contacts', resourceId: CONTACT_ID },
+    });
+  });
+});
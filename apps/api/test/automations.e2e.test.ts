@@ -2,12 +2,16 @@ import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import request from 'supertest';
 import app from '../src/index';
 import { PrismaClient } from '@prisma/client';
+import { readSandboxOutbox } from '../src/services/messaging';
 
 const prisma = new PrismaClient();
 const ORG_ID = '00000000-0000-0000-0000-000000000000';
 
 describe('Automation API Endpoints', () => {
   beforeAll(async () => {
+    // Record sends in the local sandbox outbox so the suite never reaches Twilio or SendGrid
+    process.env.MESSAGING_SANDBOX = 'true';
+
     // Create test organization if it doesn't exist
     await prisma.organization.upsert({
       where: { id: ORG_ID },
@@ -54,6 +58,13 @@ describe('Automation API Endpoints', () => {
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
       expect(response.body.messageId).toBeDefined();
+      expect(response.body.sandbox).toBe(true);
+
+      const outbox = await readSandboxOutbox('sms', ORG_ID);
+      expect(outbox.find(sent => sent.messageId === response.body.messageId)).toMatchObject({
+        to: '+15555550123',
+        body: 'Test SMS message',
+      });
     });
 
     it('should send email message successfully', async () => {
@@ -71,6 +82,7 @@ describe('Automation API Endpoints', () => {
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
       expect(response.body.messageId).toBeDefined();
+      expect(response.body.sandbox).toBe(true);
     });
 
     it('should return 400 for invalid channel', async () => {
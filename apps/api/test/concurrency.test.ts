@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { assertVersion, etag, expectedVersion, withVersionGuard } from '../src/utils/concurrency';
+import { ValidationError, VersionConflictError } from '../src/utils/errors';
+
+const notFound = () => new Prisma.PrismaClientKnownRequestError('Record to update not found.', { code: 'P2025', clientVersion: '5.22.0' });
+
+describe('expectedVersion', () => {
+  it('reads weak and strong ETags from If-Match', () => {
+    expect(expectedVersion(etag(4))).toBe(4);
+    expect(expectedVersion('"7"')).toBe(7);
+  });
+
+  it('prefers If-Match over the body version and falls back to it for a wildcard', () => {
+    expect(expectedVersion('W/"3"', 9)).toBe(3);
+    expect(expectedVersion('*', 9)).toBe(9);
+    expect(expectedVersion(undefined, 9)).toBe(9);
+    expect(expectedVersion(undefined)).toBeUndefined();
+  });
+
+  it('rejects If-Match values this API never issued', () => {
+    expect(() => expectedVersion('"abc"')).toThrow(ValidationError);
+    expect(() => expectedVersion('W/"1", W/"2"')).toThrow('If-Match must be an ETag returned by this API');
+  });
+});
+
+describe('assertVersion', () => {
+  it('passes matching or unspecified versions and conflicts on stale ones', () => {
+    const current = { id: 'c1', version: 3 };
+
+    expect(() => assertVersion('Contact', current, 3)).not.toThrow();
+    expect(() => assertVersion('Contact', current, undefined)).not.toThrow();
+
+    expect(() => assertVersion('Contact', current, 2)).toThrow(VersionConflictError);
+    expect(() => assertVersion('Contact', current, 4)).toThrow('Contact was changed by someone else');
+  });
+});
+
+describe('withVersionGuard', () => {
+  it('returns the update result', async () => {
+    expect(await withVersionGuard('Deal', async () => 'updated', vi.fn())).toBe('updated');
+  });
+
+  it('turns a lost race into a conflict carrying the current record', async () => {
+    const reload = vi.fn().mockResolvedValue({ id: 'd1', version: 5 });
+
+    await expect(withVersionGuard('Deal', () => Promise.reject(notFound()), reload)).rejects.toMatchObject({
+      message: 'Deal was changed by someone else. Review the latest version and try again.',
+      details: { current: { id: 'd1', version: 5 } },
+    });
+    expect(reload).toHaveBeenCalledTimes(1);
+  });
+
+  it('rethrows other errors untouched', async () => {
+    const failure = new Error('connection lost');
+    const reload = vi.fn();
+
+    await expect(withVersionGuard('Deal', () => Promise.reject(failure), reload)).rejects.toBe(failure);
+    expect(reload).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { prisma, messaging, supabase } = vi.hoisted(() => ({
+  prisma: {
+    consentEvent: { findFirst: vi.fn(), create: vi.fn() },
+    messageSuppression: { create: vi.fn() },
+    contact: { findFirst: vi.fn() },
+  },
+  messaging: { sendSms: vi.fn() },
+  supabase: { from: vi.fn() },
+}));
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+vi.mock('../src/services/messaging', () => messaging);
+vi.mock('../src/config/supabase', () => ({ supabase }));
+
+import { ConsentService, normalizeAddress, parseKeyword } from '../src/services/consent';
+import { BrandingService } from '../src/services/branding';
+import { ExternalServiceError, MessageSuppressedError } from '../src/utils/errors';
+
+const since = new Date('2024-06-01T00:00:00Z');
+
+const event = (fields: Record<string, unknown>) => ({
+  id: 'event-1',
+  orgId: 'org-1',
+  contactId: 'contact-1',
+  channel: 'sms',
+  address: '+15551234567',
+  createdAt: since,
+  ...fields,
+});
+
+describe('parseKeyword', () => {
+  it('recognizes carrier keywords regardless of case, spacing and punctuation', () => {
+    expect(parseKeyword('STOP')).toBe('stop');
+    expect(parseKeyword('  stop! ')).toBe('stop');
+    expect(parseKeyword('Opt-Out')).toBe('stop');
+    expect(parseKeyword('unstop')).toBe('start');
+    expect(parseKeyword('Help?')).toBe('help');
+  });
+
+  it('ignores messages that merely contain a keyword', () => {
+    expect(parseKeyword('Please stop by tomorrow')).toBeNull();
+    expect(parseKeyword('')).toBeNull();
+    expect(parseKeyword(null)).toBeNull();
+  });
+});
+
+describe('normalizeAddress', () => {
+  it('normalizes phones for sms and whatsapp and lowercases emails', () => {
+    expect(normalizeAddress('sms', '(555) 123-4567')).toBe('+15551234567');
+    expect(normalizeAddress('whatsapp', '1 555 123 4567')).toBe('+15551234567');
+    expect(normalizeAddress('email', ' Ann@Example.COM ')).toBe('ann@example.com');
+  });
+});
+
+describe('ConsentService.check', () => {
+  const send = { channel: 'sms' as const, to: '555-123-4567', source: 'messages.outbound' };
+
+  beforeEach(() => {
+    prisma.messageSuppression.create.mockClear();
+  });
+
+  it('allows addresses never recorded or opted in', async () => {
+    prisma.consentEvent.findFirst.mockResolvedValueOnce(null).mockResolvedValueOnce(event({ status: 'opted_in' }));
+
+    expect(await ConsentService.check('org-1', send)).toEqual({ allowed: true });
+    expect(await ConsentService.check('org-1', send)).toEqual({ allowed: true });
+    expect(prisma.consentEvent.findFirst).toHaveBeenLastCalledWith({
+      where: { orgId: 'org-1', channel: 'sms', address: '+15551234567' },
+      orderBy: { createdAt: 'desc' },
+    });
+    expect(prisma.messageSuppression.create).not.toHaveBeenCalled();
+  });
+
+  it('blocks opted-out and bounced addresses and logs the suppression', async () => {
+    prisma.consentEvent.findFirst.mockResolvedValue(event({ status: 'opted_out', source: 'bounce' }));
+
+    expect(await ConsentService.check('org-1', send)).toEqual({ allowed: false, reason: 'hard_bounce', since });
+    expect(prisma.messageSuppression.create).toHaveBeenCalledWith({
+      data: {
+        orgId: 'org-1',
+        contactId: 'contact-1',
+        channel: 'sms',
+        toAddr: '555-123-4567',
+        reason: 'hard_bounce',
+        source: 'messages.outbound',
+      },
+    });
+  });
+
+  it('throws for send paths that assert', async () => {
+    prisma.consentEvent.findFirst.mockResolvedValue(event({ status: 'opted_out', source: 'keyword' }));
+
+    await expect(ConsentService.assertCanSend('org-1', send)).rejects.toThrow(MessageSuppressedError);
+  });
+});
+
+describe('ConsentService.handleInboundKeyword', () => {
+  beforeEach(() => {
+    vi.spyOn(BrandingService, 'get').mockResolvedValue({ name: 'Acme Plumbing', phone: '555-0100' } as any);
+    prisma.contact.findFirst.mockResolvedValue({ id: 'contact-1' });
+    prisma.consentEvent.create.mockImplementation(async ({ data }) => data);
+    messaging.sendSms.mockResolvedValue({ success: true });
+  });
+
+  it('records the opt-out and texts the confirmation', async () => {
+    const result = await ConsentService.handleInboundKeyword('org-1', 'sms', '(555) 123-4567', ' stop ');
+
+    expect(result).toEqual({
+      keyword: 'stop',
+      reply: 'Acme Plumbing: You have been unsubscribed and will receive no further messages. Reply START to resubscribe.',
+    });
+    expect(prisma.consentEvent.create.mock.calls.at(-1)![0].data).toMatchObject({
+      contactId: 'contact-1',
+      address: '+15551234567',
+      status: 'opted_out',
+      source: 'keyword',
+      keyword: 'STOP',
+    });
+    expect(messaging.sendSms).toHaveBeenCalledWith({ orgId: 'org-1', to: '(555) 123-4567', body: result!.reply });
+  });
+
+  it('answers HELP without touching the ledger and leaves other channels to reply', async () => {
+    prisma.consentEvent.create.mockClear();
+    messaging.sendSms.mockClear();
+
+    const result = await ConsentService.handleInboundKeyword('org-1', 'whatsapp', '+15551234567', 'HELP');
+
+    expect(result?.reply).toBe('Acme Plumbing: For help, contact 555-0100. Reply STOP to unsubscribe or START to resubscribe.');
+    expect(prisma.consentEvent.create).not.toHaveBeenCalled();
+    expect(messaging.sendSms).not.toHaveBeenCalled();
+  });
+
+  it('ignores ordinary messages', async () => {
+    expect(await ConsentService.handleInboundKeyword('org-1', 'sms', '+15551234567', 'See you at 3')).toBeNull();
+  });
+});
+
+describe('ConsentService.orgIdForBusiness', () => {
+  const lookup = (result: { data: unknown; error: unknown }) => {
+    const builder: any = { select: () => builder, eq: () => builder, maybeSingle: async () => result };
+    supabase.from.mockReturnValue(builder);
+  };
+
+  it('resolves the organization of a business', async () => {
+    lookup({ data: { organization_id: 'org-1' }, error: null });
+    expect(await ConsentService.orgIdForBusiness('biz-1')).toBe('org-1');
+
+    lookup({ data: null, error: null });
+    expect(await ConsentService.orgIdForBusiness('biz-2')).toBeNull();
+  });
+
+  it('fails closed when the lookup fails', async () => {
+    lookup({ data: null, error: new Error('timeout') });
+
+    await expect(ConsentService.orgIdForBusiness('biz-1')).rejects.toThrow(ExternalServiceError);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CustomFieldDefinition } from '@prisma/client';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    contactImport: { findFirst: vi.fn(), update: vi.fn() },
+    contact: { findMany: vi.fn() },
+    customFieldDefinition: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+
+import { ContactImportService, parseSpreadsheet, suggestMapping } from '../src/services/contactImport';
+import { ValidationError } from '../src/utils/errors';
+
+const budget = {
+  id: 'def-budget',
+  orgId: 'org-1',
+  entity: 'contact',
+  key: 'budget',
+  label: 'Annual Budget',
+  type: 'number',
+  options: [],
+  required: false,
+  position: 0,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+} as CustomFieldDefinition;
+
+const csv = (text: string) => Buffer.from(text, 'utf8');
+
+describe('parseSpreadsheet', () => {
+  it('reads headers and trimmed rows, keeping inner blank rows for row numbers', () => {
+    const { headers, rows } = parseSpreadsheet(csv('First Name,Email\n Ann ,ann@example.com\n,\nBob,bob@example.com\n,\n'));
+
+    expect(headers).toEqual(['First Name', 'Email']);
+    expect(rows).toEqual([
+      ['Ann', 'ann@example.com'],
+      ['', ''],
+      ['Bob', 'bob@example.com'],
+    ]);
+  });
+
+  it('rejects duplicate headers and files without data', () => {
+    expect(() => parseSpreadsheet(csv('Email,Email\na@example.com,b@example.com\n'))).toThrow('Invalid column headers');
+    expect(() => parseSpreadsheet(csv('First Name,Email\n'))).toThrow(ValidationError);
+  });
+});
+
+describe('suggestMapping', () => {
+  it('matches contact fields by alias and custom fields by key or label', () => {
+    const mapping = suggestMapping(['Given Name', 'Surname', 'E-mail Address', 'Mobile', 'annual budget', 'Notes'], [budget]);
+
+    expect(mapping).toEqual({
+      columns: [
+        { column: 'Given Name', field: 'firstName' },
+        { column: 'Surname', field: 'lastName' },
+        { column: 'E-mail Address', field: 'email' },
+        { column: 'Mobile', field: 'phone' },
+        { column: 'annual budget', field: 'customFields.budget' },
+      ],
+      defaultTags: [],
+    });
+  });
+
+  it('maps each field from the first matching column only', () => {
+    expect(suggestMapping(['Email', 'Mail'], []).columns).toEqual([{ column: 'Email', field: 'email' }]);
+  });
+});
+
+describe('ContactImportService.dryRun', () => {
+  const headers = ['First', 'Email', 'Phone', 'Budget'];
+  const mapping = {
+    columns: [
+      { column: 'First', field: 'firstName' },
+      { column: 'Email', field: 'email' },
+      { column: 'Phone', field: 'phone' },
+      { column: 'Budget', field: 'customFields.budget' },
+    ],
+  };
+
+  beforeEach(() => {
+    prisma.customFieldDefinition.findMany.mockResolvedValue([budget]);
+    prisma.contactImport.update.mockResolvedValue({});
+    prisma.contactImport.findFirst.mockResolvedValue({
+      id: 'import-1',
+      orgId: 'org-1',
+      headers,
+      rows: [
+        ['Ann', 'ann@example.com', '555 010 0001', '1,500'],
+        ['', 'nameless@example.com', '', ''],
+        ['Bob', 'not-an-email', '', ''],
+        ['Cara', 'existing@example.com', '', ''],
+        ['Ann again', 'ANN@example.com', '', ''],
+        ['Dee', '', '', 'lots'],
+      ],
+    });
+    prisma.contact.findMany.mockImplementation(async ({ where }) =>
+      where.email ? [{ id: 'contact-9', email: 'existing@example.com', phone: null }] : []
+    );
+  });
+
+  it('reports creates, updates, skips, invalid rows and conflicts without writing contacts', async () => {
+    const report = await ContactImportService.dryRun('org-1', 'import-1', mapping, 'update');
+
+    expect(report).toMatchObject({ totalRows: 6, toCreate: 1, toUpdate: 1, toSkip: 1, invalidRows: 3 });
+    expect(report.errors.map(error => [error.row, error.field])).toEqual([
+      [3, 'firstName'],
+      [4, 'email'],
+      [7, 'customFields.budget'],
+    ]);
+    expect(report.conflicts).toEqual([
+      { row: 6, field: 'email', value: 'ann@example.com', conflictRow: 2 },
+      { row: 5, field: 'email', value: 'existing@example.com', contactId: 'contact-9' },
+    ]);
+    expect(prisma.contactImport.update).toHaveBeenCalledWith({
+      where: { id: 'import-1' },
+      data: { mapping, onConflict: 'update' },
+    });
+  });
+
+  it('counts rows matching existing contacts as skips when conflicts are skipped', async () => {
+    const report = await ContactImportService.dryRun('org-1', 'import-1', mapping, 'skip');
+
+    expect(report).toMatchObject({ toCreate: 1, toUpdate: 0, toSkip: 2 });
+  });
+
+  it('rejects a mapping without a first name column', async () => {
+    await expect(
+      ContactImportService.dryRun('org-1', 'import-1', { columns: [{ column: 'Email', field: 'email' }] }, 'skip')
+    ).rejects.toThrow('Invalid column mapping');
+  });
+});
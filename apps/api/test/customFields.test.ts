@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CustomFieldDefinition } from '@prisma/client';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: { customFieldDefinition: { findMany: vi.fn() } },
+}));
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+
+import { CustomFieldService } from '../src/services/customFields';
+import { ValidationError } from '../src/utils/errors';
+
+function definition(overrides: Partial<CustomFieldDefinition>): CustomFieldDefinition {
+  return {
+    id: `def-${overrides.key}`,
+    orgId: 'org-1',
+    entity: 'contact',
+    key: 'field',
+    label: 'Field',
+    type: 'text',
+    options: [],
+    required: false,
+    position: 0,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+const definitions = [
+  definition({ key: 'budget', label: 'Budget', type: 'number' }),
+  definition({ key: 'region', label: 'Region', type: 'select', options: ['east', 'west'], required: true }),
+  definition({ key: 'tags', label: 'Tags', type: 'multi_select', options: ['vip', 'partner'] }),
+  definition({ key: 'renewal', label: 'Renewal', type: 'date' }),
+  definition({ key: 'active', label: 'Active', type: 'boolean' }),
+];
+
+describe('CustomFieldService.checkValues', () => {
+  it('accepts and normalizes valid values', () => {
+    const { values, errors } = CustomFieldService.checkValues(definitions, {
+      budget: 1500,
+      region: 'west',
+      tags: ['vip', 'vip', 'partner'],
+      renewal: '2024-06-01',
+      active: true,
+    });
+
+    expect(errors).toEqual([]);
+    expect(values).toEqual({
+      budget: 1500,
+      region: 'west',
+      tags: ['vip', 'partner'],
+      renewal: '2024-06-01T00:00:00.000Z',
+      active: true,
+    });
+  });
+
+  it('reports unknown keys, invalid values and missing required fields', () => {
+    const { errors } = CustomFieldService.checkValues(definitions, {
+      budget: 'a lot',
+      tags: ['gold'],
+      color: 'red',
+    });
+
+    expect(errors.map(error => error.field).sort()).toEqual([
+      'customFields.budget',
+      'customFields.color',
+      'customFields.region',
+      'customFields.tags',
+    ]);
+    expect(errors.find(error => error.field === 'customFields.color')?.message).toBe('Unknown custom field');
+    expect(errors.find(error => error.field === 'customFields.region')?.message).toBe('Region is required');
+  });
+
+  it('merges into existing values and only enforces required fields the update touches', () => {
+    const existing = { region: 'east', budget: 10, removed: 'stale' };
+
+    const { values, errors } = CustomFieldService.checkValues(definitions, { budget: null, active: false }, existing);
+
+    expect(errors).toEqual([]);
+    expect(values).toEqual({ region: 'east', active: false });
+  });
+
+  it('rejects clearing a required field on update', () => {
+    const { errors } = CustomFieldService.checkValues(definitions, { region: null }, { region: 'east' });
+
+    expect(errors).toEqual([{ field: 'customFields.region', message: 'Region is required' }]);
+  });
+});
+
+describe('CustomFieldService.buildFilters', () => {
+  beforeEach(() => {
+    prisma.customFieldDefinition.findMany.mockResolvedValue(definitions);
+  });
+
+  it('turns query filters into JSON path conditions with typed values', async () => {
+    const conditions = await CustomFieldService.buildFilters('org-1', 'contact', {
+      budget: { gte: '1000' },
+      region: 'west',
+      tags: { in: 'vip,partner' },
+      active: 'true',
+    });
+
+    expect(conditions).toEqual([
+      { customFields: { path: ['budget'], gte: 1000 } },
+      { customFields: { path: ['region'], equals: 'west' } },
+      {
+        OR: [
+          { customFields: { path: ['tags'], array_contains: ['vip'] } },
+          { customFields: { path: ['tags'], array_contains: ['partner'] } },
+        ],
+      },
+      { customFields: { path: ['active'], equals: true } },
+    ]);
+  });
+
+  it('rejects operators the field type does not support', async () => {
+    await expect(CustomFieldService.buildFilters('org-1', 'contact', { active: { gt: 'true' } })).rejects.toThrow(
+      ValidationError
+    );
+  });
+
+  it('rejects values that do not parse as the field type', async () => {
+    await expect(CustomFieldService.buildFilters('org-1', 'contact', { budget: 'lots' })).rejects.toThrow(
+      "Invalid number for custom field 'budget'"
+    );
+  });
+
+  it('skips the definition lookup when there are no filters', async () => {
+    prisma.customFieldDefinition.findMany.mockClear();
+
+    expect(await CustomFieldService.buildFilters('org-1', 'contact')).toEqual([]);
+    expect(prisma.customFieldDefinition.findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('CustomFieldService.orderIdsByValue', () => {
+  const rows = [
+    { id: 'a', customFields: { budget: 30 } },
+    { id: 'b', customFields: {} },
+    { id: 'c', customFields: { budget: 5 } },
+    { id: 'd', customFields: { budget: 120 } },
+  ];
+
+  it('sorts numbers numerically and keeps records without a value last', () => {
+    expect(CustomFieldService.orderIdsByValue(rows, 'budget', 'asc')).toEqual(['c', 'a', 'd', 'b']);
+    expect(CustomFieldService.orderIdsByValue(rows, 'budget', 'desc')).toEqual(['d', 'a', 'c', 'b']);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { prisma, supabase, tables } = vi.hoisted(() => {
+  const tables: Record<string, { data: unknown[] | null; error: unknown }> = {};
+
+  // Chainable stand-in for the Supabase query builder; awaiting it yields the table's rows
+  const query = (table: string) => {
+    const builder: any = {
+      select: () => builder,
+      eq: () => builder,
+      in: () => builder,
+      then: (resolve: (value: unknown) => unknown) => resolve(tables[table]),
+    };
+    return builder;
+  };
+
+  const prisma: any = {
+    deal: { findFirst: vi.fn(), update: vi.fn() },
+    dealLineItem: { deleteMany: vi.fn(), createMany: vi.fn(), findMany: vi.fn(), count: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  prisma.$transaction.mockImplementation((run: (tx: unknown) => unknown) => run(prisma));
+
+  return { prisma, supabase: { from: vi.fn(query) }, tables };
+});
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+vi.mock('../src/config/supabase', () => ({ supabase }));
+
+import { DealLineItemService, lineItemAmounts, sumLineItems } from '../src/services/dealLineItems';
+import { ExternalServiceError, NotFoundError, ValidationError } from '../src/utils/errors';
+
+describe('lineItemAmounts', () => {
+  it('applies the discount before tax and rounds each to the cent', () => {
+    expect(lineItemAmounts(3, 1999, 10, 8.25)).toEqual({ amountCents: 5397, taxCents: 445 });
+    expect(lineItemAmounts(1.5, 1000, 0, 0)).toEqual({ amountCents: 1500, taxCents: 0 });
+  });
+
+  it('sums amounts and tax into a total', () => {
+    expect(
+      sumLineItems([
+        { amountCents: 5397, taxCents: 445 },
+        { amountCents: 1500, taxCents: 0 },
+      ])
+    ).toEqual({ amountCents: 6897, taxCents: 445, totalCents: 7342 });
+  });
+});
+
+describe('DealLineItemService.replace', () => {
+  beforeEach(() => {
+    tables.businesses = { data: [{ id: 'biz-1' }], error: null };
+    tables.services = {
+      data: [
+        { id: 'svc-clean', name: 'Cleaning', price: '120.00', currency: 'usd', tax_rate: '10', is_active: true },
+        { id: 'svc-euro', name: 'Import', price: '50.00', currency: 'EUR', tax_rate: null, is_active: true },
+        { id: 'svc-old', name: 'Waxing', price: '30.00', currency: 'USD', tax_rate: '0', is_active: false },
+      ],
+      error: null,
+    };
+    prisma.deal.findFirst.mockResolvedValue({ id: 'deal-1', currency: 'USD' });
+    prisma.dealLineItem.createMany.mockClear();
+    prisma.dealLineItem.findMany.mockImplementation(async () =>
+      prisma.dealLineItem.createMany.mock.calls.at(-1)?.[0].data ?? []
+    );
+  });
+
+  it('prices service items from the catalog and sets the deal value to the net total', async () => {
+    const { totals } = await DealLineItemService.replace('org-1', 'deal-1', [
+      { serviceId: 'svc-clean', quantity: 2, discountPercent: 50 },
+      { name: ' Travel ', unitPriceCents: 2500 },
+    ]);
+
+    const [cleaning, travel] = prisma.dealLineItem.createMany.mock.calls.at(-1)![0].data;
+    expect(cleaning).toMatchObject({ orgId: 'org-1', dealId: 'deal-1', position: 0, name: 'Cleaning', unitPriceCents: 12000 });
+    expect(travel).toMatchObject({ position: 1, name: 'Travel', serviceId: null, amountCents: 2500 });
+    expect(totals).toEqual({ amountCents: 14500, taxCents: 1200, totalCents: 15700 });
+    expect(prisma.deal.update).toHaveBeenCalledWith({ where: { id: 'deal-1' }, data: { valueCents: 14500 } });
+  });
+
+  it('needs a unit price for catalog prices in another currency and for custom items', async () => {
+    await expect(DealLineItemService.replace('org-1', 'deal-1', [{ serviceId: 'svc-euro' }])).rejects.toThrow(
+      'Import is priced in EUR but the deal is in USD; give a unit price'
+    );
+    await expect(DealLineItemService.replace('org-1', 'deal-1', [{ name: 'Travel' }])).rejects.toThrow(ValidationError);
+    expect(prisma.dealLineItem.createMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects retired and unknown services', async () => {
+    await expect(DealLineItemService.replace('org-1', 'deal-1', [{ serviceId: 'svc-old' }])).rejects.toThrow(
+      'Waxing is no longer offered'
+    );
+    await expect(DealLineItemService.replace('org-1', 'deal-1', [{ serviceId: 'svc-none' }])).rejects.toThrow(NotFoundError);
+  });
+
+  it('raises when the catalog cannot be read', async () => {
+    tables.services = { data: null, error: new Error('timeout') };
+
+    await expect(DealLineItemService.replace('org-1', 'deal-1', [{ serviceId: 'svc-clean' }])).rejects.toThrow(
+      ExternalServiceError
+    );
+  });
+});
+
+describe('DealLineItemService.assertValueEditable', () => {
+  it('blocks value and currency edits on itemized deals only', async () => {
+    prisma.dealLineItem.count.mockResolvedValue(2);
+    await expect(DealLineItemService.assertValueEditable('deal-1', { valueCents: 100 }, { currency: 'USD' })).rejects.toThrow(
+      'The value of a deal with line items is derived from them'
+    );
+    await expect(DealLineItemService.assertValueEditable('deal-1', { currency: 'eur' }, { currency: 'USD' })).rejects.toThrow(
+      'Remove the line items before changing the deal currency'
+    );
+    await expect(DealLineItemService.assertValueEditable('deal-1', { currency: 'usd' }, { currency: 'USD' })).resolves.toBeUndefined();
+
+    prisma.dealLineItem.count.mockResolvedValue(0);
+    await expect(DealLineItemService.assertValueEditable('deal-1', { valueCents: 100 }, { currency: 'USD' })).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    message: { findFirst: vi.fn(), update: vi.fn(), groupBy: vi.fn() },
+    messageStatusEvent: { create: vi.fn() },
+  },
+}));
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+
+import { DeliveryService, sendGridDeliveryEvent, twilioDeliveryEvent } from '../src/services/delivery';
+import { ConsentService } from '../src/services/consent';
+import { verifySendGridSignature, verifyTwilioSignature } from '../src/services/messaging';
+
+describe('twilioDeliveryEvent', () => {
+  it('maps Twilio statuses and treats permanent error codes as bounces', () => {
+    expect(twilioDeliveryEvent({ MessageSid: 'SM1', MessageStatus: 'delivered' })).toMatchObject({
+      provider: 'twilio',
+      providerMessageId: 'SM1',
+      status: 'delivered',
+      hardBounce: false,
+    });
+    expect(twilioDeliveryEvent({ MessageSid: 'SM1', MessageStatus: 'undelivered', ErrorCode: 30003 })).toMatchObject({
+      status: 'failed',
+      errorCode: '30003',
+      hardBounce: false,
+    });
+    expect(
+      twilioDeliveryEvent({ MessageSid: 'SM1', SmsStatus: 'Undelivered', ErrorCode: '30006', ErrorMessage: 'Landline' })
+    ).toMatchObject({ providerStatus: 'undelivered', status: 'bounced', reason: 'Landline', hardBounce: true });
+  });
+
+  it('ignores callbacks that are not delivery updates', () => {
+    expect(twilioDeliveryEvent({ MessageSid: 'SM1', SmsStatus: 'received' })).toBeNull();
+    expect(twilioDeliveryEvent({ MessageStatus: 'delivered' })).toBeNull();
+  });
+});
+
+describe('sendGridDeliveryEvent', () => {
+  it('strips the filter suffix from the message ID and reads the event details', () => {
+    expect(
+      sendGridDeliveryEvent({
+        event: 'bounce',
+        type: 'bounce',
+        sg_message_id: 'abc123.filterdrecv-1.0',
+        sg_event_id: 'evt-1',
+        status: '5.1.1',
+        reason: 'No such user',
+        timestamp: 1717243200,
+      })
+    ).toEqual({
+      provider: 'sendgrid',
+      providerMessageId: 'abc123',
+      providerStatus: 'bounce',
+      status: 'bounced',
+      providerEventId: 'evt-1',
+      errorCode: '5.1.1',
+      reason: 'No such user',
+      hardBounce: true,
+      occurredAt: new Date('2024-06-01T12:00:00Z'),
+    });
+  });
+
+  it('treats blocked bounces as temporary failures', () => {
+    expect(sendGridDeliveryEvent({ event: 'bounce', type: 'blocked', sg_message_id: 'abc123', response: '421 Try later' })).toMatchObject({
+      providerStatus: 'blocked',
+      status: 'failed',
+      reason: '421 Try later',
+      hardBounce: false,
+    });
+  });
+
+  it('ignores events that say nothing about delivery', () => {
+    expect(sendGridDeliveryEvent({ event: 'unsubscribe', sg_message_id: 'abc123' })).toBeNull();
+    expect(sendGridDeliveryEvent({ event: 'delivered' })).toBeNull();
+  });
+});
+
+describe('DeliveryService.apply', () => {
+  const message = {
+    id: 'msg-1',
+    orgId: 'org-1',
+    channel: 'sms',
+    toAddr: '+15551234567',
+    contactId: 'contact-1',
+    deliveryStatus: 'sent',
+  };
+  const at = new Date('2024-06-01T12:00:00Z');
+
+  beforeEach(() => {
+    prisma.message.findFirst.mockResolvedValue(message);
+    prisma.message.update.mockReset().mockImplementation(async ({ data }) => ({ ...message, ...data }));
+    prisma.messageStatusEvent.create.mockReset().mockResolvedValue({});
+    vi.spyOn(ConsentService, 'recordHardBounce').mockReset().mockResolvedValue(undefined as any);
+  });
+
+  it('records the event and moves the delivery status forward', async () => {
+    const updated = await DeliveryService.apply({
+      provider: 'twilio',
+      providerMessageId: 'SM1',
+      providerStatus: 'delivered',
+      status: 'delivered',
+      occurredAt: at,
+    });
+
+    expect(prisma.messageStatusEvent.create.mock.calls[0][0].data).toMatchObject({
+      orgId: 'org-1',
+      messageId: 'msg-1',
+      status: 'delivered',
+      occurredAt: at,
+    });
+    expect(updated).toMatchObject({ deliveryStatus: 'delivered', deliveryStatusAt: at });
+    expect(ConsentService.recordHardBounce).not.toHaveBeenCalled();
+  });
+
+  it('keeps late callbacks for earlier states in the history only', async () => {
+    prisma.message.findFirst.mockResolvedValue({ ...message, deliveryStatus: 'delivered' });
+
+    await DeliveryService.apply({ provider: 'twilio', providerMessageId: 'SM1', providerStatus: 'sent', status: 'sent' });
+
+    expect(prisma.messageStatusEvent.create).toHaveBeenCalledTimes(1);
+    expect(prisma.message.update).not.toHaveBeenCalled();
+  });
+
+  it('suppresses the address after a hard bounce', async () => {
+    await DeliveryService.apply({
+      provider: 'twilio',
+      providerMessageId: 'SM1',
+      providerStatus: 'undelivered',
+      status: 'bounced',
+      reason: 'Landline',
+      hardBounce: true,
+    });
+
+    expect(ConsentService.recordHardBounce).toHaveBeenCalledWith('org-1', {
+      channel: 'sms',
+      address: '+15551234567',
+      contactId: 'contact-1',
+      reason: 'Landline',
+    });
+  });
+
+  it('ignores repeated events and messages it did not send', async () => {
+    prisma.messageStatusEvent.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: '5.22.0' })
+    );
+    const event = { provider: 'sendgrid' as const, providerMessageId: 'abc123', providerStatus: 'bounce', status: 'bounced' as const, hardBounce: true };
+
+    expect(await DeliveryService.apply(event)).toBe(message);
+    expect(prisma.message.update).not.toHaveBeenCalled();
+    expect(ConsentService.recordHardBounce).not.toHaveBeenCalled();
+
+    prisma.message.findFirst.mockResolvedValue(null);
+    expect(await DeliveryService.apply(event)).toBeNull();
+  });
+});
+
+describe('DeliveryService.rates', () => {
+  it('computes rates per channel from tracked messages', async () => {
+    prisma.message.groupBy.mockResolvedValue([
+      { channel: 'email', deliveryStatus: 'delivered', _count: { _all: 5 } },
+      { channel: 'email', deliveryStatus: 'opened', _count: { _all: 3 } },
+      { channel: 'email', deliveryStatus: 'bounced', _count: { _all: 1 } },
+      { channel: 'email', deliveryStatus: 'sent', _count: { _all: 1 } },
+      { channel: 'sms', deliveryStatus: 'failed', _count: { _all: 2 } },
+    ]);
+
+    const rates = await DeliveryService.rates('org-1', { from: new Date(0), to: new Date() });
+
+    expect(rates).toEqual([
+      {
+        channel: 'email',
+        tracked: 10,
+        pending: 1,
+        delivered: 8,
+        opened: 3,
+        failed: 0,
+        bounced: 1,
+        deliveryRate: 0.8,
+        bounceRate: 0.1,
+        openRate: 0.375,
+      },
+      expect.objectContaining({ channel: 'sms', tracked: 2, failed: 2, deliveryRate: 0, openRate: 0 }),
+    ]);
+  });
+});
+
+describe('webhook signature verification', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('rejects Twilio callbacks when no auth token is configured', () => {
+    delete process.env.TWILIO_AUTH_TOKEN;
+
+    expect(verifyTwilioSignature('signature', '/api/webhooks/twilio-status', { MessageSid: 'SM1' })).toBe(false);
+  });
+
+  it('rejects SendGrid events without a verification key, even with an API key', () => {
+    process.env.SENDGRID_API_KEY = 'SG.test';
+    delete process.env.SENDGRID_PUBLIC_KEY;
+
+    expect(verifySendGridSignature('[]', 'signature', '1717243200')).toBe(false);
+  });
+
+  it('accepts SendGrid events signed with the configured key', () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    process.env.SENDGRID_PUBLIC_KEY = publicKey.export({ format: 'der', type: 'spki' }).toString('base64');
+    const payload = '[{"event":"delivered","sg_message_id":"abc123"}]';
+    const signature = crypto.createSign('sha256').update('1717243200' + payload).sign(privateKey, 'base64');
+
+    expect(verifySendGridSignature(payload, signature, '1717243200')).toBe(true);
+    expect(verifySendGridSignature(payload.replace('delivered', 'bounce'), signature, '1717243200')).toBe(false);
+  });
+});
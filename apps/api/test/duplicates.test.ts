@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { prisma } = vi.hoisted(() => {
+  const updateMany = () => vi.fn().mockResolvedValue({ count: 1 });
+  const prisma: any = {
+    contact: { findMany: vi.fn(), deleteMany: vi.fn(), update: vi.fn() },
+    deal: { updateMany: updateMany() },
+    activity: { updateMany: updateMany(), create: vi.fn() },
+    appointment: { updateMany: updateMany() },
+    task: { updateMany: updateMany() },
+    message: { updateMany: updateMany() },
+    conversation: { updateMany: updateMany() },
+    scheduledMessage: { updateMany: updateMany() },
+    consentEvent: { updateMany: updateMany() },
+    messageSuppression: { updateMany: updateMany() },
+    contactMerge: { createMany: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  prisma.$transaction.mockImplementation((run: (tx: unknown) => unknown) => run(prisma));
+  return { prisma };
+});
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+
+import { DuplicateService, findDuplicatePairs, nameSimilarity, scoreContactPair } from '../src/services/duplicates';
+import { NotFoundError } from '../src/utils/errors';
+
+function contact(id: string, fields: { firstName: string; lastName?: string | null; email?: string | null; phone?: string | null }) {
+  return { id, lastName: null, email: null, phone: null, ...fields };
+}
+
+describe('nameSimilarity', () => {
+  it('matches the reference Jaro-Winkler scores', () => {
+    expect(nameSimilarity('martha', 'marhta')).toBeCloseTo(0.961, 3);
+    expect(nameSimilarity('dixon', 'dicksonx')).toBeCloseTo(0.813, 3);
+  });
+
+  it('is 1 for identical names and 0 for empty or unrelated ones', () => {
+    expect(nameSimilarity('jon smith', 'jon smith')).toBe(1);
+    expect(nameSimilarity('', '')).toBe(0);
+    expect(nameSimilarity('abc', '')).toBe(0);
+    expect(nameSimilarity('abc', 'xyz')).toBe(0);
+  });
+
+  it('favours names that share a prefix', () => {
+    expect(nameSimilarity('jon smith', 'john smith')).toBeGreaterThan(0.85);
+  });
+});
+
+describe('scoreContactPair', () => {
+  it('matches phones and emails after normalization', () => {
+    const result = scoreContactPair(
+      contact('a', { firstName: 'Ann', phone: '(555) 123-4567', email: 'Ann@Example.com ' }),
+      contact('b', { firstName: 'Zed', phone: '+1 555 123 4567', email: 'ann@example.com' })
+    );
+
+    expect(result).toEqual({ score: 1, reasons: ['phone', 'email'] });
+  });
+
+  it('weighs a fuzzy name match by its similarity', () => {
+    const result = scoreContactPair(
+      contact('a', { firstName: 'Jon', lastName: 'Smith' }),
+      contact('b', { firstName: 'John', lastName: 'Smith' })
+    );
+
+    expect(result.reasons).toEqual(['name']);
+    expect(result.score).toBeGreaterThan(0.4);
+    expect(result.score).toBeLessThan(0.5);
+  });
+
+  it('ignores the placeholder names of auto-created contacts', () => {
+    const result = scoreContactPair(
+      contact('a', { firstName: 'SMS', lastName: 'Contact' }),
+      contact('b', { firstName: 'SMS', lastName: 'Contact' })
+    );
+
+    expect(result).toEqual({ score: 0, reasons: [] });
+  });
+});
+
+describe('findDuplicatePairs', () => {
+  it('returns each qualifying pair once, ordered by id and then by score', () => {
+    const contacts = [
+      contact('c3', { firstName: 'Maria', lastName: 'Lopez', email: 'maria@example.com' }),
+      contact('c1', { firstName: 'Maria', lastName: 'Lopez', email: 'MARIA@example.com' }),
+      contact('c2', { firstName: 'Mario', lastName: 'Lopes' }),
+      contact('c4', { firstName: 'Peter', lastName: 'Wong', phone: '5550001111' }),
+    ];
+
+    const pairs = findDuplicatePairs(contacts);
+
+    expect(pairs[0]).toEqual({ contactId: 'c1', duplicateId: 'c3', score: 1, reasons: ['email', 'name'] });
+    expect(pairs.every(pair => pair.contactId < pair.duplicateId)).toBe(true);
+    expect(new Set(pairs.map(pair => `${pair.contactId}:${pair.duplicateId}`)).size).toBe(pairs.length);
+    expect(pairs.some(pair => pair.contactId === 'c4' || pair.duplicateId === 'c4')).toBe(false);
+  });
+
+  it('drops pairs below the minimum score', () => {
+    const contacts = [
+      contact('a', { firstName: 'Jon', lastName: 'Smith' }),
+      contact('b', { firstName: 'John', lastName: 'Smith' }),
+    ];
+
+    expect(findDuplicatePairs(contacts, 0.4)).toHaveLength(1);
+    expect(findDuplicatePairs(contacts, 0.5)).toEqual([]);
+  });
+});
+
+describe('DuplicateService.merge', () => {
+  const survivor = { ...contact('keep', { firstName: 'Ann', email: 'ann@example.com' }), tags: ['vip'], customFields: {} };
+  const duplicate = { ...contact('drop', { firstName: 'Ann', phone: '+15551234567' }), tags: [], customFields: {} };
+
+  beforeEach(() => {
+    prisma.contact.findMany.mockResolvedValue([survivor, duplicate]);
+    prisma.contact.update.mockImplementation(async ({ data }) => ({ ...survivor, ...data }));
+  });
+
+  it('moves live records and send suppressions to the survivor', async () => {
+    const result = await DuplicateService.merge('org-1', 'keep', ['drop'], 'user-1');
+
+    const live = { where: { orgId: 'org-1', contactId: { in: ['drop'] }, deletedAt: null }, data: { contactId: 'keep' } };
+    expect(prisma.deal.updateMany).toHaveBeenCalledWith(live);
+    expect(prisma.task.updateMany).toHaveBeenCalledWith(live);
+    expect(prisma.messageSuppression.updateMany).toHaveBeenCalledWith({
+      where: { orgId: 'org-1', contactId: { in: ['drop'] } },
+      data: { contactId: 'keep' },
+    });
+    expect(prisma.contact.deleteMany).toHaveBeenCalledWith({ where: { orgId: 'org-1', id: { in: ['drop'] } } });
+    expect(result.survivor).toMatchObject({ email: 'ann@example.com', phone: '+15551234567' });
+  });
+
+  it('does not merge trashed contacts', async () => {
+    prisma.contact.findMany.mockResolvedValue([survivor]);
+
+    await expect(DuplicateService.merge('org-1', 'keep', ['drop'])).rejects.toThrow(NotFoundError);
+    expect(prisma.contact.findMany.mock.calls.at(-1)![0].where).toMatchObject({ deletedAt: null });
+  });
+});
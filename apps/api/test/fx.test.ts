@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+const { prisma } = vi.hoisted(() => {
+  const prisma: any = {
+    organization: { findUnique: vi.fn(), update: vi.fn() },
+    fxRate: { count: vi.fn(), upsert: vi.fn(), findMany: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  prisma.$transaction.mockImplementation((operations: unknown[]) => Promise.all(operations));
+  return { prisma };
+});
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+
+import { FxConverter, FxService } from '../src/services/fx';
+import { ConflictError, ValidationError } from '../src/utils/errors';
+
+const day = (value: string) => new Date(`${value}T00:00:00Z`);
+
+const converter = new FxConverter('USD', [
+  { currency: 'EUR', effectiveDate: day('2024-01-01'), rate: new Prisma.Decimal('1.10') },
+  { currency: 'EUR', effectiveDate: day('2024-03-01'), rate: new Prisma.Decimal('1.08') },
+  { currency: 'GBP', effectiveDate: day('2024-02-01'), rate: new Prisma.Decimal('1.25') },
+]);
+
+describe('FxConverter', () => {
+  it('uses the latest rate effective on or before the date', () => {
+    expect(converter.rateOn('eur', new Date('2024-02-29T23:30:00Z'))).toBe(1.1);
+    expect(converter.rateOn('EUR', day('2024-03-01'))).toBe(1.08);
+    expect(converter.rateOn('USD', day('2000-01-01'))).toBe(1);
+  });
+
+  it('has no rate before the first one was effective', () => {
+    expect(converter.rateOn('GBP', day('2024-01-31'))).toBeNull();
+    expect(converter.convert(1000, 'JPY', day('2024-06-01'))).toBeNull();
+  });
+
+  it('sums won revenue at won-date rates and keeps unconvertible amounts apart', () => {
+    const totals = converter.sumRevenue([
+      { valueCents: 10000, currency: 'USD', closedAt: day('2024-04-01') },
+      { valueCents: 10000, currency: 'eur', closedAt: day('2024-02-15') },
+      { valueCents: 10000, currency: 'EUR', closedAt: day('2024-04-01') },
+      { valueCents: 5000, currency: 'GBP', closedAt: day('2024-01-15') },
+      { valueCents: 7000, currency: 'GBP', closedAt: null },
+    ]);
+
+    expect(totals).toEqual({
+      currency: 'USD',
+      revenueCents: 10000 + 11000 + 10800,
+      byCurrency: { USD: 10000, EUR: 20000, GBP: 12000 },
+      unconverted: { GBP: 12000 },
+    });
+  });
+});
+
+describe('FxService', () => {
+  beforeEach(() => {
+    prisma.organization.findUnique.mockResolvedValue({ baseCurrency: 'USD' });
+    prisma.fxRate.upsert.mockImplementation(async (args: unknown) => args);
+  });
+
+  it('changes the base currency only while the org has no rates', async () => {
+    prisma.fxRate.count.mockResolvedValue(2);
+    await expect(FxService.setBaseCurrency('org-1', 'eur')).rejects.toThrow(ConflictError);
+
+    prisma.fxRate.count.mockResolvedValue(0);
+    expect(await FxService.setBaseCurrency('org-1', 'eur')).toBe('EUR');
+    expect(prisma.organization.update).toHaveBeenCalledWith({ where: { id: 'org-1' }, data: { baseCurrency: 'EUR' } });
+  });
+
+  it('rejects rates for the base currency and non-positive rates', async () => {
+    await expect(FxService.upsertRate('org-1', { currency: 'usd', rate: 1, effectiveDate: day('2024-01-01') })).rejects.toThrow(
+      'USD is the base currency'
+    );
+    await expect(FxService.upsertRate('org-1', { currency: 'EUR', rate: 0, effectiveDate: day('2024-01-01') })).rejects.toThrow(
+      'Rate must be a positive number'
+    );
+  });
+
+  it('imports every row or none, reporting bad and duplicate rows', async () => {
+    const file = Buffer.from('Currency,Rate,Date\nEUR,1.1,2024-01-01\nXX,1,2024-01-01\nEUR,1.2,2024-01-01\n');
+
+    const error = await FxService.importRates('org-1', file).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.details).toEqual([
+      { row: 3, field: 'currency', message: 'Currency must be a three-letter ISO 4217 code' },
+      { row: 4, message: 'Duplicates the rate on row 2' },
+    ]);
+    expect(prisma.fxRate.upsert).not.toHaveBeenCalled();
+  });
+
+  it('upserts imported rates in one transaction', async () => {
+    const file = Buffer.from('Code,Exchange Rate,Effective Date\ngbp,1.25,2024-02-01\nEUR,1.1,2024-01-01\n');
+
+    expect(await FxService.importRates('org-1', file)).toEqual({ imported: 2, currencies: ['EUR', 'GBP'] });
+    expect(prisma.fxRate.upsert.mock.calls[0][0]).toMatchObject({
+      where: { orgId_currency_effectiveDate: { orgId: 'org-1', currency: 'GBP', effectiveDate: day('2024-02-01') } },
+      create: { orgId: 'org-1', currency: 'GBP', source: 'import' },
+    });
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+  });
+});
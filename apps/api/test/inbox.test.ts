@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { prisma, messaging } = vi.hoisted(() => {
+  const prisma: any = {
+    conversation: { findUnique: vi.fn(), findFirst: vi.fn(), upsert: vi.fn(), findMany: vi.fn(), count: vi.fn() },
+    contact: { findFirst: vi.fn() },
+    message: { create: vi.fn() },
+    consentEvent: { findFirst: vi.fn() },
+    messageSuppression: { create: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  prisma.$transaction.mockImplementation((run: (tx: unknown) => unknown) => run(prisma));
+  return { prisma, messaging: { sendSms: vi.fn(), sendEmail: vi.fn() } };
+});
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+vi.mock('../src/services/messaging', () => messaging);
+
+import { InboxService } from '../src/services/inbox';
+import { MessageSuppressedError, ValidationError } from '../src/utils/errors';
+
+const at = new Date('2024-06-01T12:00:00Z');
+
+const sms = {
+  channel: 'sms' as const,
+  fromAddr: '(555) 123-4567',
+  toAddr: '+15550000000',
+  body: 'Is Friday free?',
+  createdAt: at,
+};
+
+describe('InboxService.recordMessage', () => {
+  beforeEach(() => {
+    prisma.conversation.findUnique.mockResolvedValue(null);
+    prisma.conversation.upsert.mockResolvedValue({ id: 'conv-1' });
+    prisma.contact.findFirst.mockResolvedValue({ id: 'contact-1' });
+    prisma.message.create.mockImplementation(async ({ data }) => data);
+  });
+
+  it('opens an unread conversation keyed by the sender on first contact', async () => {
+    const message = await InboxService.recordMessage('org-1', { ...sms, direction: 'inbound' });
+
+    const { where, create, update } = prisma.conversation.upsert.mock.calls.at(-1)![0];
+    expect(where).toEqual({ conversation_address_per_org: { orgId: 'org-1', channel: 'sms', address: '+15551234567' } });
+    expect(create).toMatchObject({ contactId: 'contact-1', unreadCount: 1, lastMessageAt: at, lastInboundAt: at });
+    expect(update).toMatchObject({ unreadCount: { increment: 1 }, status: 'active' });
+    expect(message).toMatchObject({ conversationId: 'conv-1', contactId: 'contact-1', direction: 'inbound' });
+  });
+
+  it('files replies under the recipient, clears unread and starts delivery tracking', async () => {
+    prisma.conversation.findUnique.mockResolvedValue({ contactId: 'contact-2' });
+    prisma.contact.findFirst.mockClear();
+
+    const message = await InboxService.recordMessage('org-1', {
+      ...sms,
+      direction: 'outbound',
+      fromAddr: '+15550000000',
+      toAddr: '555-123-4567',
+      providerMessageId: 'SM123',
+    });
+
+    const { where, update } = prisma.conversation.upsert.mock.calls.at(-1)![0];
+    expect(where.conversation_address_per_org.address).toBe('+15551234567');
+    expect(update).toEqual({ contactId: 'contact-2', lastMessageAt: at, lastOutboundAt: at, unreadCount: 0 });
+    expect(message).toMatchObject({ contactId: 'contact-2', deliveryStatus: 'sent', deliveryStatusAt: at });
+    expect(prisma.contact.findFirst).not.toHaveBeenCalled();
+  });
+
+  it('stores messages without an address outside any conversation', async () => {
+    prisma.conversation.upsert.mockClear();
+
+    const message = await InboxService.recordMessage('org-1', { ...sms, direction: 'inbound', fromAddr: '' });
+
+    expect(prisma.conversation.upsert).not.toHaveBeenCalled();
+    expect(message).not.toHaveProperty('conversationId');
+  });
+});
+
+describe('InboxService.list', () => {
+  it('filters unassigned and unread conversations', async () => {
+    prisma.conversation.findMany.mockResolvedValue([]);
+    prisma.conversation.count.mockResolvedValue(0);
+
+    await InboxService.list('org-1', { assignedTo: null, unread: true, status: 'active', page: 1, limit: 25 });
+
+    expect(prisma.conversation.findMany.mock.calls.at(-1)![0].where).toEqual({
+      orgId: 'org-1',
+      status: 'active',
+      assignedTo: null,
+      unreadCount: { gt: 0 },
+    });
+  });
+});
+
+describe('InboxService.reply', () => {
+  const conversation = { id: 'conv-1', orgId: 'org-1', channel: 'sms', address: '+15551234567', contactId: 'contact-1' };
+
+  beforeEach(() => {
+    prisma.conversation.findFirst.mockResolvedValue(conversation);
+    prisma.consentEvent.findFirst.mockResolvedValue(null);
+    messaging.sendSms.mockResolvedValue({ success: true, provider: 'twilio', from: '+15550000000', messageId: 'SM9' });
+    messaging.sendSms.mockClear();
+  });
+
+  it('sends over the conversation channel and records the reply', async () => {
+    const message = await InboxService.reply('org-1', 'conv-1', { body: 'Friday works' }, 'user-1');
+
+    expect(messaging.sendSms).toHaveBeenCalledWith({ orgId: 'org-1', to: '+15551234567', body: 'Friday works' });
+    expect(message).toMatchObject({
+      direction: 'outbound',
+      conversationId: 'conv-1',
+      providerMessageId: 'SM9',
+      meta: { messageId: 'SM9', sandbox: false, sentBy: 'user-1' },
+    });
+  });
+
+  it('does not send to opted-out addresses or over WhatsApp', async () => {
+    prisma.consentEvent.findFirst.mockResolvedValue({ status: 'opted_out', source: 'keyword', createdAt: at });
+    await expect(InboxService.reply('org-1', 'conv-1', { body: 'Hi' })).rejects.toThrow(MessageSuppressedError);
+
+    prisma.conversation.findFirst.mockResolvedValue({ ...conversation, channel: 'whatsapp' });
+    await expect(InboxService.reply('org-1', 'conv-1', { body: 'Hi' })).rejects.toThrow(ValidationError);
+
+    expect(messaging.sendSms).not.toHaveBeenCalled();
+  });
+});
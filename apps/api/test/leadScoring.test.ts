@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LeadScoreRule, LeadScoreRuleType } from '@prisma/client';
+
+const { prisma, enqueue } = vi.hoisted(() => ({
+  prisma: {
+    leadScoreRule: { findMany: vi.fn(), create: vi.fn() },
+    contact: { findMany: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    message: { groupBy: vi.fn() },
+    activity: { groupBy: vi.fn() },
+    appointment: { groupBy: vi.fn() },
+    deal: { groupBy: vi.fn() },
+    automation: { findMany: vi.fn() },
+  },
+  enqueue: { enqueueReminder: vi.fn(), enqueueNurture: vi.fn(), enqueueDunning: vi.fn() },
+}));
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+vi.mock('../src/workers/enqueue', () => enqueue);
+
+import { LeadScoreFacts, LeadScoringService, scoreContact } from '../src/services/leadScoring';
+import { ValidationError } from '../src/utils/errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2024-06-30T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS);
+
+function rule(type: LeadScoreRuleType, points: number, config: Record<string, unknown> = {}, isEnabled = true): LeadScoreRule {
+  return { id: `rule-${type}`, orgId: 'org-1', type, points, config, isEnabled, createdAt: now, updatedAt: now };
+}
+
+const facts = (overrides: Partial<LeadScoreFacts> = {}): LeadScoreFacts => ({
+  tags: [],
+  hasEmail: false,
+  hasPhone: false,
+  createdAt: daysAgo(100),
+  lastInboundAt: null,
+  inboundCounts: { 0: 0 },
+  completedAppointments: 0,
+  dealValueCents: 0,
+  lastEngagedAt: null,
+  ...overrides,
+});
+
+describe('scoreContact', () => {
+  it('adds up matching rules with a per-rule breakdown', () => {
+    const result = scoreContact(
+      [
+        rule('tag', 20, { tag: 'VIP' }),
+        rule('has_email', 5),
+        rule('has_phone', 5),
+        rule('inbound_recency', 15, { withinDays: 7 }),
+        rule('deal_value', 1, { perCents: 10000, maxPoints: 30 }),
+      ],
+      facts({ tags: ['vip'], hasEmail: true, lastInboundAt: daysAgo(3), lastEngagedAt: daysAgo(3), dealValueCents: 550000 }),
+      now
+    );
+
+    expect(result).toEqual({
+      score: 70,
+      breakdown: [
+        { ruleId: 'rule-tag', type: 'tag', points: 20 },
+        { ruleId: 'rule-has_email', type: 'has_email', points: 5 },
+        { ruleId: 'rule-inbound_recency', type: 'inbound_recency', points: 15 },
+        { ruleId: 'rule-deal_value', type: 'deal_value', points: 30 },
+      ],
+    });
+  });
+
+  it('counts inbound messages in the rule window and caps per-unit points', () => {
+    const rules = [rule('inbound_count', 4, { withinDays: 30, maxPoints: 10 }), rule('appointment_completed', 10)];
+
+    expect(scoreContact(rules, facts({ inboundCounts: { 0: 9, 30: 2 }, completedAppointments: 2 }), now).score).toBe(28);
+    expect(scoreContact(rules, facts({ inboundCounts: { 0: 9, 30: 5 } }), now).score).toBe(10);
+  });
+
+  it('decays from the last engagement, or from creation without one, but never below zero', () => {
+    const rules = [rule('has_email', 10), rule('decay', -3, { everyDays: 14 })];
+
+    expect(scoreContact(rules, facts({ hasEmail: true, lastEngagedAt: daysAgo(30) }), now).score).toBe(4);
+    expect(scoreContact(rules, facts({ hasEmail: true }), now)).toMatchObject({
+      score: 0,
+      breakdown: [{ points: 10 }, { type: 'decay', points: -21 }],
+    });
+  });
+
+  it('skips disabled rules', () => {
+    expect(scoreContact([rule('has_email', 10, {}, false)], facts({ hasEmail: true }), now)).toEqual({ score: 0, breakdown: [] });
+  });
+});
+
+describe('LeadScoringService.createRule', () => {
+  it('requires negative points for decay and a valid config for the type', async () => {
+    await expect(LeadScoringService.createRule('org-1', { type: 'decay', points: 5, config: { everyDays: 7 } })).rejects.toThrow(
+      'Decay rules must have negative points'
+    );
+    await expect(LeadScoringService.createRule('org-1', { type: 'tag', points: 5, config: { tag: '' } })).rejects.toThrow(
+      ValidationError
+    );
+    await expect(LeadScoringService.createRule('org-1', { type: 'has_email', points: 5, config: { extra: 1 } })).rejects.toThrow(
+      "Invalid config for 'has_email' rule"
+    );
+    expect(prisma.leadScoreRule.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('LeadScoringService.recompute', () => {
+  beforeEach(() => {
+    prisma.leadScoreRule.findMany.mockResolvedValue([rule('has_email', 30), rule('has_phone', 30)]);
+    // One batch of contacts, their facts, then the end of the batches
+    prisma.contact.findMany
+      .mockResolvedValueOnce([
+        { id: 'c1', leadScore: 30 },
+        { id: 'c2', leadScore: 0 },
+      ])
+      .mockResolvedValueOnce([
+        { id: 'c1', tags: [], email: 'a@example.com', phone: '555', createdAt: now },
+        { id: 'c2', tags: [], email: null, phone: null, createdAt: now },
+      ])
+      .mockResolvedValueOnce([]);
+    for (const model of [prisma.message, prisma.activity, prisma.appointment, prisma.deal]) {
+      model.groupBy.mockResolvedValue([]);
+    }
+    prisma.automation.findMany.mockResolvedValue([
+      { id: 'auto-hot', type: 'nurture', config: { trigger: 'lead_score_reached', threshold: 50 } },
+      { id: 'auto-warm', type: 'nurture', config: { trigger: 'lead_score_reached', threshold: 20 } },
+    ]);
+  });
+
+  it('stores changed scores and queues automations whose threshold was crossed on the way up', async () => {
+    const counts = await LeadScoringService.recompute('org-1', undefined, now);
+
+    expect(counts).toEqual({ scored: 2, changed: 1, triggered: 1 });
+    expect(prisma.contact.update).toHaveBeenCalledWith({ where: { id: 'c1' }, data: { leadScore: 60, leadScoredAt: now } });
+    expect(prisma.contact.updateMany).toHaveBeenCalledWith({ where: { id: { in: ['c2'] } }, data: { leadScoredAt: now } });
+    expect(enqueue.enqueueNurture).toHaveBeenCalledTimes(1);
+    expect(enqueue.enqueueNurture).toHaveBeenCalledWith({
+      orgId: 'org-1',
+      contactId: 'c1',
+      payload: { automationId: 'auto-hot', trigger: 'lead_score_reached', score: 60 },
+    });
+  });
+});
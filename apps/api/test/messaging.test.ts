@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    organization: { findUnique: vi.fn(), update: vi.fn() },
+  },
+}));
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+
+import { MessagingService, readSandboxOutbox, registerSmsProvider, sendEmail, sendSms } from '../src/services/messaging';
+import { ValidationError } from '../src/utils/errors';
+
+const env = { ...process.env };
+let dir: string;
+
+const providers = (smsProvider: string | null = null, emailProvider: string | null = null) =>
+  prisma.organization.findUnique.mockResolvedValue({ smsProvider, emailProvider });
+
+beforeEach(async () => {
+  for (const name of [
+    'MESSAGING_SANDBOX',
+    'SMS_PROVIDER',
+    'EMAIL_PROVIDER',
+    'TWILIO_ACCOUNT_SID',
+    'TWILIO_AUTH_TOKEN',
+    'SENDGRID_API_KEY',
+  ]) {
+    delete process.env[name];
+  }
+  // Sandbox sends never land in the shared outbox
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+  process.env.MESSAGING_SANDBOX_DIR = dir;
+  prisma.organization.findUnique.mockReset();
+  prisma.organization.update.mockReset().mockResolvedValue({});
+});
+
+afterEach(async () => {
+  process.env = { ...env };
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('provider selection', () => {
+  it("uses the organization's own pick", async () => {
+    process.env.TWILIO_ACCOUNT_SID = 'AC123';
+    process.env.TWILIO_AUTH_TOKEN = 'token';
+    providers('sandbox');
+
+    const settings = await MessagingService.getSettings('org-1');
+
+    expect(settings.sms).toMatchObject({ provider: 'sandbox', active: 'sandbox' });
+    expect(settings.email).toMatchObject({ provider: null, active: 'sandbox' });
+  });
+
+  it('falls back to Twilio and SendGrid once their credentials are present', async () => {
+    process.env.TWILIO_ACCOUNT_SID = 'AC123';
+    process.env.TWILIO_AUTH_TOKEN = 'token';
+    process.env.SENDGRID_API_KEY = 'SG.test';
+    providers();
+
+    const settings = await MessagingService.getSettings('org-1');
+
+    expect(settings.sms.active).toBe('twilio');
+    expect(settings.email.active).toBe('sendgrid');
+  });
+
+  it('prefers SMS_PROVIDER and EMAIL_PROVIDER, ignoring unknown ones', async () => {
+    process.env.TWILIO_ACCOUNT_SID = 'AC123';
+    process.env.TWILIO_AUTH_TOKEN = 'token';
+    process.env.SMS_PROVIDER = 'sandbox';
+    process.env.EMAIL_PROVIDER = 'mailgun';
+    providers('carrier-pigeon');
+
+    const settings = await MessagingService.getSettings('org-1');
+
+    expect(settings.sms.active).toBe('sandbox');
+    expect(settings.email.active).toBe('sandbox');
+  });
+
+  it('sends everything to the sandbox when MESSAGING_SANDBOX is on', async () => {
+    process.env.TWILIO_ACCOUNT_SID = 'AC123';
+    process.env.TWILIO_AUTH_TOKEN = 'token';
+    process.env.MESSAGING_SANDBOX = 'true';
+    providers('twilio');
+
+    const settings = await MessagingService.getSettings('org-1');
+
+    expect(settings).toMatchObject({ sandboxForced: true, sms: { provider: 'twilio', active: 'sandbox' } });
+  });
+
+  it('makes registered providers selectable', async () => {
+    const send = vi.fn().mockResolvedValue({ success: true, provider: 'test-sms', messageId: 'T1' });
+    registerSmsProvider({ id: 'test-sms', name: 'Test SMS', isConfigured: () => true, sendSms: send });
+    providers('test-sms');
+
+    const result = await sendSms({ orgId: 'org-1', to: '+15551234567', body: 'Hello' });
+
+    expect(result.messageId).toBe('T1');
+    expect(send).toHaveBeenCalledWith({ orgId: 'org-1', to: '+15551234567', body: 'Hello' });
+    expect((await MessagingService.getSettings('org-1')).sms.available).toContainEqual({
+      id: 'test-sms',
+      name: 'Test SMS',
+      configured: true,
+    });
+  });
+
+  it('uses the default provider for senders outside any organization', async () => {
+    const result = await sendSms({ orgId: null, to: '+15551234567', body: 'Hello' });
+
+    expect(result).toMatchObject({ success: true, provider: 'sandbox' });
+    expect(prisma.organization.findUnique).not.toHaveBeenCalled();
+  });
+});
+
+describe('MessagingService.updateSettings', () => {
+  beforeEach(() => {
+    providers();
+  });
+
+  it('rejects unknown providers', async () => {
+    await expect(MessagingService.updateSettings('org-1', { smsProvider: 'carrier-pigeon' })).rejects.toThrow(
+      "Unknown sms provider 'carrier-pigeon'"
+    );
+    expect(prisma.organization.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects providers that are not configured on this server', async () => {
+    await expect(MessagingService.updateSettings('org-1', { smsProvider: 'twilio' })).rejects.toThrow(
+      'Twilio is not configured on this server'
+    );
+    await expect(MessagingService.updateSettings('org-1', { emailProvider: 'sendgrid' })).rejects.toThrow(ValidationError);
+    expect(prisma.organization.update).not.toHaveBeenCalled();
+  });
+
+  it('saves configured providers and null back to the default', async () => {
+    await MessagingService.updateSettings('org-1', { smsProvider: 'sandbox', emailProvider: null });
+
+    expect(prisma.organization.update).toHaveBeenCalledWith({
+      where: { id: 'org-1' },
+      data: { smsProvider: 'sandbox', emailProvider: null },
+    });
+  });
+});
+
+describe('sandbox outbox', () => {
+  beforeEach(() => {
+    process.env.MESSAGING_SANDBOX = 'true';
+    process.env.TWILIO_FROM = '+15550001111';
+  });
+
+  it('is empty before the first send', async () => {
+    expect(await readSandboxOutbox('sms')).toEqual([]);
+  });
+
+  it('records sends per channel and filters them by organization', async () => {
+    providers();
+
+    const sent = await sendSms({ orgId: 'org-1', to: '+15551234567', body: 'Hello' });
+    await sendSms({ orgId: 'org-2', to: '+15557654321', body: 'Hi' });
+    await sendEmail({
+      orgId: 'org-1',
+      to: 'ada@example.com',
+      subject: 'Invoice',
+      html: '<p>Attached</p>',
+      attachments: [{ filename: 'invoice.pdf', content: '', type: 'application/pdf' }],
+    });
+
+    expect(sent).toMatchObject({ success: true, provider: 'sandbox', sandbox: true, from: '+15550001111' });
+    expect(await readSandboxOutbox('sms', 'org-1')).toEqual([
+      expect.objectContaining({
+        messageId: sent.messageId,
+        channel: 'sms',
+        orgId: 'org-1',
+        to: '+15551234567',
+        from: '+15550001111',
+        body: 'Hello',
+      }),
+    ]);
+    expect(await readSandboxOutbox('sms')).toHaveLength(2);
+    expect(await readSandboxOutbox('email', 'org-1')).toEqual([
+      expect.objectContaining({ subject: 'Invoice', body: '<p>Attached</p>', attachments: ['invoice.pdf'] }),
+    ]);
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    pipeline: { findMany: vi.fn() },
+    deal: { findMany: vi.fn() },
+    user: { findMany: vi.fn() },
+    organization: { findUnique: vi.fn() },
+    fxRate: { findMany: vi.fn() },
+    dealStageChange: { createMany: vi.fn() },
+  },
+}));
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+
+import { PipelineAnalyticsService } from '../src/services/pipelineAnalytics';
+import { DealStageHistoryService } from '../src/services/dealStageHistory';
+import { NotFoundError } from '../src/utils/errors';
+
+const day = (date: number) => new Date(Date.UTC(2024, 0, date));
+
+const stage = (id: string, type: string, position: number) => ({ id, name: id, type, position, pipelineId: 'pipeline-1' });
+
+const pipeline = {
+  id: 'pipeline-1',
+  name: 'Sales',
+  stages: [stage('lead', 'open', 0), stage('proposal', 'open', 1), stage('won', 'won', 2), stage('lost', 'lost', 3)],
+};
+
+const deal = (id: string, fields: Record<string, unknown>) => ({
+  id,
+  pipelineId: 'pipeline-1',
+  ownerId: null,
+  valueCents: 0,
+  currency: 'USD',
+  closedAt: null,
+  stageChanges: [],
+  ...fields,
+});
+
+const deals = [
+  // Created before history was recorded, then moved twice and won
+  deal('d1', {
+    stageId: 'won',
+    stage: { type: 'won' },
+    ownerId: 'user-1',
+    valueCents: 10000,
+    createdAt: day(1),
+    closedAt: day(8),
+    stageChanges: [
+      { fromStageId: 'lead', toStageId: 'proposal', changedAt: day(3) },
+      { fromStageId: 'proposal', toStageId: 'won', changedAt: day(8) },
+    ],
+  }),
+  deal('d2', {
+    stageId: 'lost',
+    stage: { type: 'lost' },
+    createdAt: day(1),
+    closedAt: day(5),
+    stageChanges: [
+      { fromStageId: null, toStageId: 'lead', changedAt: day(1) },
+      { fromStageId: 'lead', toStageId: 'lost', changedAt: day(5) },
+    ],
+  }),
+  deal('d3', { stageId: 'lead', stage: { type: 'open' }, createdAt: day(2) }),
+];
+
+describe('PipelineAnalyticsService.getStageAnalytics', () => {
+  beforeEach(() => {
+    prisma.pipeline.findMany.mockResolvedValue([pipeline]);
+    prisma.deal.findMany.mockResolvedValue(deals);
+    prisma.user.findMany.mockResolvedValue([{ id: 'user-1', name: 'Ann', email: 'ann@example.com' }]);
+    prisma.organization.findUnique.mockResolvedValue({ baseCurrency: 'USD' });
+  });
+
+  it('reports time in stage, funnel conversion and sales velocity', async () => {
+    const result = await PipelineAnalyticsService.getStageAnalytics({ orgId: 'org-1', from: day(1), to: day(31) });
+    const [sales] = result.pipelines;
+
+    expect(result.currency).toBe('USD');
+    const stages = sales.stages.map(({ stageId, entered, current, averageDays }) => ({ stageId, entered, current, averageDays }));
+    const conversions = sales.conversions.map(({ fromStageId, toStageId, reached, converted, rate }) => ({
+      fromStageId,
+      toStageId,
+      reached,
+      converted,
+      rate,
+    }));
+
+    expect(stages).toEqual([
+      { stageId: 'lead', entered: 3, current: 1, averageDays: 3 },
+      { stageId: 'proposal', entered: 1, current: 0, averageDays: 5 },
+      { stageId: 'won', entered: 1, current: 1, averageDays: null },
+      { stageId: 'lost', entered: 1, current: 1, averageDays: null },
+    ]);
+    expect(conversions).toEqual([
+      { fromStageId: 'lead', toStageId: 'proposal', reached: 3, converted: 1, rate: 0.333 },
+      { fromStageId: 'proposal', toStageId: 'won', reached: 1, converted: 1, rate: 1 },
+    ]);
+    expect(sales.velocity).toEqual({
+      opportunities: 3,
+      won: 1,
+      lost: 1,
+      winRate: 0.5,
+      wonValueCents: 10000,
+      wonValueByCurrency: { USD: 10000 },
+      averageDealCents: 10000,
+      salesCycleDays: 7,
+      centsPerDay: 2143,
+    });
+    // Every deal is in the base currency, so no rates are loaded
+    expect(prisma.fxRate.findMany).not.toHaveBeenCalled();
+  });
+
+  it('breaks each pipeline down by deal owner', async () => {
+    const result = await PipelineAnalyticsService.getStageAnalytics({ orgId: 'org-1', from: day(1), to: day(31) });
+
+    expect(result.pipelines[0].owners.map(owner => [owner.ownerId, owner.owner?.name ?? null, owner.deals])).toEqual([
+      ['user-1', 'Ann', 1],
+      [null, null, 2],
+    ]);
+  });
+
+  it('fails for an unknown pipeline', async () => {
+    prisma.pipeline.findMany.mockResolvedValue([]);
+
+    await expect(
+      PipelineAnalyticsService.getStageAnalytics({ orgId: 'org-1', pipelineId: 'missing', from: day(1), to: day(31) })
+    ).rejects.toThrow(NotFoundError);
+  });
+});
+
+describe('DealStageHistoryService.record', () => {
+  it('records only transitions that change the stage', async () => {
+    prisma.dealStageChange.createMany.mockImplementation(async ({ data }) => ({ count: data.length }));
+    const base = { orgId: 'org-1', dealId: 'd1', pipelineId: 'pipeline-1' };
+
+    const count = await DealStageHistoryService.record(prisma as any, [
+      { ...base, fromStageId: 'lead', toStageId: 'proposal' },
+      { ...base, fromStageId: 'proposal', toStageId: 'proposal' },
+    ]);
+
+    expect(count).toBe(1);
+    expect(prisma.dealStageChange.createMany).toHaveBeenCalledWith({
+      data: [{ ...base, fromStageId: 'lead', toStageId: 'proposal' }],
+    });
+  });
+
+  it('skips the write when nothing moved', async () => {
+    prisma.dealStageChange.createMany.mockClear();
+
+    const count = await DealStageHistoryService.record(prisma as any, {
+      orgId: 'org-1',
+      dealId: 'd1',
+      pipelineId: 'pipeline-1',
+      fromStageId: 'lead',
+      toStageId: 'lead',
+    });
+
+    expect(count).toBe(0);
+    expect(prisma.dealStageChange.createMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PipelineStage } from '@prisma/client';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    pipeline: { count: vi.fn(), findFirst: vi.fn() },
+    pipelineStage: { findFirst: vi.fn() },
+  },
+}));
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+
+import { PipelineService, stagePlacement } from '../src/services/pipelines';
+import { BusinessLogicError, NotFoundError, ValidationError } from '../src/utils/errors';
+
+function stage(id: string, type: PipelineStage['type'], probability: number, pipelineId = 'pipeline-1'): PipelineStage {
+  return {
+    id,
+    orgId: 'org-1',
+    pipelineId,
+    name: id,
+    type,
+    probability,
+    position: 0,
+    color: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+const stages = [stage('lead', 'open', 10), stage('proposal', 'open', 50), stage('won', 'won', 100), stage('lost', 'lost', 0)];
+const pipeline = { id: 'pipeline-1', orgId: 'org-1', name: 'Sales', isDefault: true, position: 0, stages };
+
+describe('stagePlacement', () => {
+  it('takes the stage probability unless one is given and leaves open deals unclosed', () => {
+    expect(stagePlacement(stages[1])).toEqual({ pipelineId: 'pipeline-1', stageId: 'proposal', probability: 50, closedAt: null });
+    expect(stagePlacement(stages[1], undefined, 65).probability).toBe(65);
+  });
+
+  it('closes deals moved to a won or lost stage and keeps the close date of deals that stay', () => {
+    const closedAt = new Date('2024-03-01T00:00:00Z');
+
+    expect(stagePlacement(stages[2], { stageId: 'proposal', closedAt: null }).closedAt).toBeInstanceOf(Date);
+    expect(stagePlacement(stages[2], { stageId: 'won', closedAt }).closedAt).toBe(closedAt);
+    expect(stagePlacement(stages[1], { stageId: 'won', closedAt }).closedAt).toBeNull();
+  });
+});
+
+describe('PipelineService.create', () => {
+  it('rejects stage lists without open, won and lost stages', async () => {
+    await expect(
+      PipelineService.create('org-1', { name: 'Renewals', stages: [{ name: 'Open' }, { name: 'Won', type: 'won' }] })
+    ).rejects.toThrow('A pipeline needs at least one lost stage');
+  });
+
+  it('rejects duplicate stage names regardless of case', async () => {
+    await expect(
+      PipelineService.create('org-1', {
+        name: 'Renewals',
+        stages: [{ name: 'Open' }, { name: 'open ' }, { name: 'Won', type: 'won' }, { name: 'Lost', type: 'lost' }],
+      })
+    ).rejects.toThrow(ValidationError);
+    expect(prisma.pipeline.count).not.toHaveBeenCalled();
+  });
+});
+
+describe('PipelineService.update', () => {
+  it('refuses to unset the default pipeline directly', async () => {
+    prisma.pipeline.findFirst.mockResolvedValue(pipeline);
+
+    await expect(PipelineService.update('org-1', 'pipeline-1', { isDefault: false })).rejects.toThrow(BusinessLogicError);
+  });
+});
+
+describe('PipelineService.resolvePlacement', () => {
+  beforeEach(() => {
+    prisma.pipeline.findFirst.mockResolvedValue(pipeline);
+  });
+
+  it('places new deals in the first open stage of the default pipeline', async () => {
+    const placement = await PipelineService.resolvePlacement('org-1', {});
+
+    expect(placement).toMatchObject({ pipelineId: 'pipeline-1', stageId: 'lead', probability: 10, closedAt: null });
+  });
+
+  it('keeps a deal in its stage when only its own pipeline is given', async () => {
+    const placement = await PipelineService.resolvePlacement(
+      'org-1',
+      { pipelineId: 'pipeline-1' },
+      { pipelineId: 'pipeline-1', stageId: 'proposal', closedAt: null }
+    );
+
+    expect(placement.stageId).toBe('proposal');
+  });
+
+  it('rejects a stage from another pipeline or another org', async () => {
+    prisma.pipelineStage.findFirst.mockResolvedValueOnce(stage('other', 'open', 5, 'pipeline-2'));
+    await expect(
+      PipelineService.resolvePlacement('org-1', { pipelineId: 'pipeline-1', stageId: 'other' })
+    ).rejects.toThrow('Stage does not belong to the given pipeline');
+
+    prisma.pipelineStage.findFirst.mockResolvedValueOnce(null);
+    await expect(PipelineService.resolvePlacement('org-1', { stageId: 'missing' })).rejects.toThrow(NotFoundError);
+  });
+
+  it('fails when the pipeline has no open stage', async () => {
+    prisma.pipeline.findFirst.mockResolvedValue({ ...pipeline, stages: [stages[2], stages[3]] });
+
+    await expect(PipelineService.resolvePlacement('org-1', {})).rejects.toThrow("Pipeline 'Sales' has no open stage");
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import JSZip from 'jszip';
+
+const { prisma } = vi.hoisted(() => {
+  const model = () => ({
+    findFirst: vi.fn(),
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    count: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+    deleteMany: vi.fn(),
+  });
+  const prisma: any = {
+    $transaction: vi.fn(),
+  };
+  for (const name of [
+    'organization',
+    'account',
+    'contact',
+    'deal',
+    'activity',
+    'appointment',
+    'conversation',
+    'message',
+    'scheduledMessage',
+    'task',
+    'consentEvent',
+    'contactMerge',
+    'messageSuppression',
+    'duplicateCandidate',
+    'quote',
+    'privacyRequest',
+  ]) {
+    prisma[name] = model();
+  }
+  prisma.$transaction.mockImplementation((run: (tx: unknown) => unknown) => run(prisma));
+  return { prisma };
+});
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+
+import { PrivacyService } from '../src/services/privacy';
+import { NotFoundError, ValidationError } from '../src/utils/errors';
+
+// No phone or email, so nothing is looked up in Supabase
+const contact = {
+  id: 'contact-1',
+  orgId: 'org-1',
+  accountId: null,
+  firstName: 'Ann',
+  lastName: 'Lee',
+  email: null,
+  phone: null,
+  deletedAt: null,
+};
+
+const quote = { id: 'quote-1', version: 1, content: { number: 'Q-1001-1' }, pdf: Buffer.from('%PDF-1.4 quote') };
+
+describe('PrivacyService', () => {
+  beforeEach(() => {
+    for (const name of Object.keys(prisma)) {
+      if (name.startsWith('$')) continue;
+      prisma[name].findMany.mockResolvedValue([]);
+      prisma[name].count.mockResolvedValue(0);
+      prisma[name].deleteMany.mockResolvedValue({ count: 0 });
+      prisma[name].updateMany.mockResolvedValue({ count: 0 });
+    }
+    prisma.contact.findFirst.mockResolvedValue(contact);
+    prisma.organization.findUnique.mockResolvedValue({ id: 'org-1', name: 'Acme' });
+    prisma.privacyRequest.create.mockImplementation(async ({ data }) => ({ id: 'request-1', ...data }));
+  });
+
+  describe('export', () => {
+    it('zips the records with quote PDFs and stores a hashed manifest', async () => {
+      prisma.deal.findMany.mockResolvedValue([{ id: 'deal-1', title: 'Roof', lineItems: [], quotes: [quote] }]);
+      prisma.activity.findMany.mockResolvedValue([{ id: 'activity-1', content: 'Called' }]);
+
+      const { request, fileName, archive } = await PrivacyService.export('org-1', 'contact-1', { reference: 'DSR-7' });
+
+      const zip = await JSZip.loadAsync(archive);
+      const document = JSON.parse(await zip.file('export.json')!.async('string'));
+      expect(fileName).toBe('data-export-contact-1.zip');
+      expect(Object.keys(zip.files).filter(path => !zip.files[path].dir).sort()).toEqual([
+        'attachments/quotes/quote-Q-1001-1.pdf',
+        'export.json',
+      ]);
+      expect(document.crm.deals[0].quotes).toEqual([{ id: 'quote-1', version: 1, content: { number: 'Q-1001-1' } }]);
+      expect(request).toMatchObject({ type: 'export', status: 'completed', reference: 'DSR-7' });
+      expect(request.report).toMatchObject({ counts: { deals: 1, quotes: 1, activities: 1, attachments: 1 }, errors: [] });
+      expect(request.report.files.map((file: { path: string }) => file.path)).toEqual([
+        'export.json',
+        'attachments/quotes/quote-Q-1001-1.pdf',
+      ]);
+    });
+
+    it('fails for contacts outside the organization', async () => {
+      prisma.contact.findFirst.mockResolvedValue(null);
+
+      await expect(PrivacyService.export('org-1', 'contact-9')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('erase', () => {
+    it('requires the contact ID to be repeated', async () => {
+      await expect(PrivacyService.erase('org-1', 'contact-1', { confirm: 'contact-2' })).rejects.toThrow(ValidationError);
+      expect(prisma.contact.update).not.toHaveBeenCalled();
+    });
+
+    it('anonymizes the contact, deletes its history and verifies nothing is left', async () => {
+      prisma.message.deleteMany.mockResolvedValue({ count: 4 });
+      prisma.appointment.updateMany.mockResolvedValue({ count: 2 });
+      prisma.contact.findUnique.mockResolvedValue({ ...contact, firstName: 'Erased', lastName: null });
+
+      const request = await PrivacyService.erase('org-1', 'contact-1', { confirm: 'contact-1' });
+
+      expect(prisma.contact.update.mock.calls.at(-1)![0]).toMatchObject({
+        where: { id: 'contact-1' },
+        data: { firstName: 'Erased', lastName: null, email: null, phone: null, tags: [], deletedAt: expect.any(Date) },
+      });
+      expect(prisma.duplicateCandidate.deleteMany).toHaveBeenCalledWith({
+        where: { orgId: 'org-1', OR: [{ contactId: 'contact-1' }, { duplicateId: 'contact-1' }] },
+      });
+      expect(request.status).toBe('completed');
+      expect(request.report).toMatchObject({
+        crm: { anonymized: { contacts: 1, appointments: 2 }, deleted: { messages: 4 } },
+        verification: { passed: true },
+      });
+    });
+
+    it('reports a partial erasure when verification still finds records', async () => {
+      prisma.contact.findUnique.mockResolvedValue({ ...contact, lastName: null });
+      prisma.message.count.mockResolvedValue(1);
+
+      const request = await PrivacyService.erase('org-1', 'contact-1', { confirm: 'contact-1' });
+
+      expect(request.status).toBe('partial');
+      expect(request.report.verification).toMatchObject({ passed: false, checks: { messages: 1 } });
+    });
+  });
+
+  describe('get', () => {
+    it('flags reports that no longer match their stored hash', async () => {
+      const { request } = await PrivacyService.export('org-1', 'contact-1');
+      // Stored as jsonb, which does not keep key order
+      const stored = { ...request, report: Object.fromEntries(Object.entries(request.report).reverse()) };
+
+      prisma.privacyRequest.findFirst.mockResolvedValueOnce(stored);
+      expect((await PrivacyService.get('org-1', 'request-1')).verified).toBe(true);
+
+      prisma.privacyRequest.findFirst.mockResolvedValueOnce({ ...stored, report: { ...stored.report, contactId: 'contact-2' } });
+      expect((await PrivacyService.get('org-1', 'request-1')).verified).toBe(false);
+    });
+  });
+});
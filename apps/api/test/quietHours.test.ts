@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    organization: { findUnique: vi.fn(), update: vi.fn() },
+    contact: { findFirst: vi.fn() },
+  },
+}));
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+
+import { QuietHoursService, formatLocalTime, isQuietTime, nextAllowedTime } from '../src/services/quietHours';
+import { ValidationError } from '../src/utils/errors';
+
+const NEW_YORK = 'America/New_York';
+const overnight = { start: '21:00', end: '08:00' };
+
+describe('isQuietTime', () => {
+  it('handles overnight windows in local time', () => {
+    // 22:30 and 07:59 EDT are quiet, 08:00 is not
+    expect(isQuietTime(new Date('2024-06-04T02:30:00Z'), overnight, NEW_YORK)).toBe(true);
+    expect(isQuietTime(new Date('2024-06-04T11:59:00Z'), overnight, NEW_YORK)).toBe(true);
+    expect(isQuietTime(new Date('2024-06-04T12:00:00Z'), overnight, NEW_YORK)).toBe(false);
+    // The same instant is mid-morning in London
+    expect(isQuietTime(new Date('2024-06-04T11:59:00Z'), overnight, 'Europe/London')).toBe(false);
+  });
+
+  it('handles same-day windows and treats an empty window as never quiet', () => {
+    const lunch = { start: '12:00', end: '13:00' };
+
+    expect(isQuietTime(new Date('2024-06-04T12:30:00Z'), lunch, 'UTC')).toBe(true);
+    expect(isQuietTime(new Date('2024-06-04T13:00:00Z'), lunch, 'UTC')).toBe(false);
+    expect(isQuietTime(new Date('2024-06-04T12:30:00Z'), { start: '12:00', end: '12:00' }, 'UTC')).toBe(false);
+  });
+});
+
+describe('nextAllowedTime', () => {
+  it('returns the requested time outside quiet hours', () => {
+    const at = new Date('2024-06-04T15:00:00Z');
+
+    expect(nextAllowedTime(at, overnight, NEW_YORK)).toBe(at);
+  });
+
+  it('waits until the window ends, on the minute', () => {
+    expect(nextAllowedTime(new Date('2024-06-04T02:30:45Z'), overnight, NEW_YORK)).toEqual(new Date('2024-06-04T12:00:00Z'));
+  });
+
+  it('lands on the local end of the window across the spring DST change', () => {
+    // 23:00 EST on March 9; clocks skip from 02:00 to 03:00 overnight, so 08:00 EDT is 12:00 UTC
+    expect(nextAllowedTime(new Date('2024-03-10T04:00:00Z'), overnight, NEW_YORK)).toEqual(new Date('2024-03-10T12:00:00Z'));
+  });
+
+  it('lands on the local end of the window across the autumn DST change', () => {
+    // 23:00 EDT on November 2; clocks go back from 02:00 to 01:00 overnight, so 08:00 EST is 13:00 UTC
+    expect(nextAllowedTime(new Date('2024-11-03T03:00:00Z'), overnight, NEW_YORK)).toEqual(new Date('2024-11-03T13:00:00Z'));
+  });
+
+  it('is unaffected by DST changes outside the wait', () => {
+    // 06:00 EDT on the morning after the spring change
+    expect(nextAllowedTime(new Date('2024-03-11T10:00:00Z'), overnight, NEW_YORK)).toEqual(new Date('2024-03-11T12:00:00Z'));
+  });
+});
+
+describe('formatLocalTime', () => {
+  it("writes the time in the recipient's zone", () => {
+    expect(formatLocalTime(new Date('2024-03-10T12:00:00Z'), NEW_YORK)).toBe('Sun, Mar 10, 8:00 AM');
+  });
+});
+
+describe('QuietHoursService', () => {
+  beforeEach(() => {
+    prisma.organization.findUnique.mockResolvedValue({ timezone: NEW_YORK, quietHoursStart: '21:00', quietHoursEnd: '08:00' });
+    prisma.organization.update.mockImplementation(async ({ data }) => data);
+    prisma.contact.findFirst.mockReset();
+  });
+
+  it('sets both ends of the window together and checks the time zone', async () => {
+    await expect(QuietHoursService.update('org-1', { quietHoursStart: null })).rejects.toThrow(
+      'Quiet hours need both a start and an end'
+    );
+    await expect(QuietHoursService.update('org-1', { timezone: 'Mars/Olympus' })).rejects.toThrow(ValidationError);
+    expect(await QuietHoursService.update('org-1', { quietHoursStart: null, quietHoursEnd: null })).toEqual({
+      quietHoursStart: null,
+      quietHoursEnd: null,
+    });
+  });
+
+  it("evaluates quiet hours in the contact's zone, matched by address", async () => {
+    prisma.contact.findFirst.mockResolvedValue({ id: 'contact-1', timezone: 'Europe/London' });
+
+    // 07:00 in New York but noon in London
+    const at = new Date('2024-06-04T11:00:00Z');
+    expect(await QuietHoursService.nextSendTime('org-1', { channel: 'sms', to: '(555) 123-4567' }, at)).toBe(at);
+    expect(prisma.contact.findFirst.mock.calls[0][0].where).toMatchObject({ orgId: 'org-1', phone: '+15551234567' });
+  });
+
+  it("falls back to the organization's zone and sends at once without quiet hours", async () => {
+    prisma.contact.findFirst.mockResolvedValue(null);
+    const at = new Date('2024-06-04T11:00:00Z');
+
+    expect(await QuietHoursService.nextSendTime('org-1', { contactId: 'contact-9' }, at)).toEqual(new Date('2024-06-04T12:00:00Z'));
+
+    prisma.organization.findUnique.mockResolvedValue({ timezone: NEW_YORK, quietHoursStart: null, quietHoursEnd: null });
+    expect(await QuietHoursService.nextSendTime('org-1', { contactId: 'contact-9' }, at)).toBe(at);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import jwt from 'jsonwebtoken';
+
+const { prisma } = vi.hoisted(() => {
+  const prisma: any = {
+    quote: { findUnique: vi.fn(), findUniqueOrThrow: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    deal: { findFirst: vi.fn(), update: vi.fn() },
+    dealStageChange: { createMany: vi.fn() },
+    activity: { create: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  prisma.$transaction.mockImplementation((run: (tx: unknown) => unknown) => run(prisma));
+  return { prisma };
+});
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+
+import { QuoteService } from '../src/services/quotes';
+import { LeadScoringService } from '../src/services/leadScoring';
+import { BusinessLogicError, ConflictError, NotFoundError } from '../src/utils/errors';
+
+process.env.QUOTE_LINK_SECRET = 'test-secret';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const quote = (fields: Record<string, unknown> = {}) => ({
+  id: 'quote-1',
+  orgId: 'org-1',
+  dealId: 'deal-1',
+  version: 2,
+  status: 'sent',
+  validUntil: new Date(Date.now() + 7 * DAY_MS),
+  viewedAt: null,
+  respondedAt: null,
+  responderName: null,
+  content: { number: 'Q-1001-2', contact: { name: 'Ann Lee' } },
+  ...fields,
+});
+
+const stage = (id: string, type: string) => ({ id, name: id, type });
+
+const deal = {
+  id: 'deal-1',
+  orgId: 'org-1',
+  contactId: 'contact-1',
+  pipelineId: 'pipeline-1',
+  stageId: 'proposal',
+  ownerId: 'user-1',
+  closedAt: null,
+  pipeline: { name: 'Sales', stages: [stage('proposal', 'open'), stage('won', 'won'), stage('lost', 'lost')] },
+};
+
+describe('QuoteService public links', () => {
+  beforeEach(() => {
+    prisma.quote.findUnique.mockImplementation(async ({ where }) => (where.id === 'quote-1' ? quote() : null));
+  });
+
+  it('signs links that resolve to the quote and marks its first view', async () => {
+    const token = QuoteService.signToken(quote());
+
+    const view = await QuoteService.viewPublic(token);
+
+    expect(view).toMatchObject({ id: 'quote-1', version: 2, status: 'sent', expired: false });
+    expect(view).not.toHaveProperty('orgId');
+    expect(prisma.quote.update).toHaveBeenCalledWith({ where: { id: 'quote-1' }, data: { viewedAt: expect.any(Date) } });
+  });
+
+  it('keeps links working for a grace period after the quote expires', () => {
+    const token = QuoteService.signToken(quote({ validUntil: new Date(Date.now() - DAY_MS) }));
+    const { exp } = jwt.decode(token) as jwt.JwtPayload;
+
+    expect(exp! * 1000 - Date.now()).toBeGreaterThan(28 * DAY_MS);
+  });
+
+  it('reads tampered, foreign and unknown links as not found', async () => {
+    const token = QuoteService.signToken(quote());
+    const foreign = jwt.sign({}, 'another-secret', { subject: 'quote-1', audience: 'quote' });
+    const wrongAudience = jwt.sign({}, 'test-secret', { subject: 'quote-1', audience: 'invite' });
+    const unknown = QuoteService.signToken(quote({ id: 'quote-9' }));
+
+    for (const link of [`${token}x`, foreign, wrongAudience, unknown]) {
+      await expect(QuoteService.viewPublic(link)).rejects.toThrow(NotFoundError);
+    }
+  });
+});
+
+describe('QuoteService.respond', () => {
+  const respond = (fields: Record<string, unknown> = {}, decision: 'accepted' | 'declined' = 'accepted') => {
+    prisma.quote.findUnique.mockResolvedValue(quote(fields));
+    return QuoteService.respond(QuoteService.signToken(quote(fields)), decision, { name: ' Ann ', note: 'Go ahead' });
+  };
+
+  beforeEach(() => {
+    vi.spyOn(LeadScoringService, 'queueRecompute').mockResolvedValue();
+    prisma.deal.findFirst.mockResolvedValue(deal);
+    prisma.deal.update.mockImplementation(async ({ data }) => ({ ...deal, ...data }));
+    prisma.dealStageChange.createMany.mockResolvedValue({ count: 1 });
+    prisma.quote.updateMany.mockResolvedValue({ count: 1 });
+    prisma.quote.findUniqueOrThrow.mockResolvedValue(quote({ status: 'accepted' }));
+    prisma.deal.update.mockClear();
+  });
+
+  it('moves the deal to the won stage and logs the answer on accept', async () => {
+    const view = await respond();
+
+    expect(view.status).toBe('accepted');
+    expect(prisma.quote.updateMany.mock.calls.at(-1)![0]).toMatchObject({
+      where: { id: 'quote-1', status: 'sent' },
+      data: { status: 'accepted', responderName: 'Ann', responseNote: 'Go ahead' },
+    });
+    expect(prisma.deal.update.mock.calls[0][0].data).toMatchObject({ stageId: 'won', closedAt: expect.any(Date) });
+    expect(prisma.dealStageChange.createMany.mock.calls.at(-1)![0].data).toEqual([
+      expect.objectContaining({ dealId: 'deal-1', fromStageId: 'proposal', toStageId: 'won' }),
+    ]);
+    expect(prisma.activity.create.mock.calls.at(-1)![0].data.content).toBe('Quote Q-1001-2 accepted by Ann: Go ahead');
+    expect(LeadScoringService.queueRecompute).toHaveBeenCalledWith('org-1', 'contact-1');
+  });
+
+  it('leaves the deal where it is on decline', async () => {
+    prisma.quote.findUniqueOrThrow.mockResolvedValue(quote({ status: 'declined' }));
+
+    expect((await respond({}, 'declined')).status).toBe('declined');
+    expect(prisma.deal.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects answers to superseded, answered and expired quotes', async () => {
+    await expect(respond({ status: 'superseded' })).rejects.toThrow('This quote was replaced by a newer version');
+    await expect(respond({ status: 'declined' })).rejects.toThrow(ConflictError);
+    await expect(respond({ validUntil: new Date(Date.now() - DAY_MS) })).rejects.toThrow(BusinessLogicError);
+  });
+
+  it('returns the recorded answer when the same decision arrives twice', async () => {
+    prisma.quote.updateMany.mockClear();
+
+    expect((await respond({ status: 'accepted' })).status).toBe('accepted');
+    expect(prisma.quote.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('loses the race against a concurrent answer', async () => {
+    prisma.quote.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(respond()).rejects.toThrow('Quote was already answered');
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: { $queryRaw: vi.fn() },
+}));
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+
+import { SearchService, toPrefixQuery } from '../src/services/search';
+
+const result = (type: string, id: string, rank: unknown, createdAt: string) => ({
+  type,
+  id,
+  title: id,
+  subtitle: null,
+  snippet: id,
+  rank,
+  contactId: null,
+  dealId: null,
+  createdAt: new Date(createdAt),
+});
+
+describe('toPrefixQuery', () => {
+  it('turns each word into a lowercase prefix term', () => {
+    expect(toPrefixQuery('Jo Smi')).toBe('jo:* & smi:*');
+    expect(toPrefixQuery('José Müller')).toBe('josé:* & müller:*');
+  });
+
+  it('drops tsquery operators and punctuation', () => {
+    expect(toPrefixQuery("o'brien & (acme) | !x")).toBe('o:* & brien:* & acme:* & x:*');
+    expect(toPrefixQuery('ann@example.com')).toBe('ann:* & example:* & com:*');
+  });
+
+  it('returns null when nothing searchable is left and keeps at most eight terms', () => {
+    expect(toPrefixQuery('  &|!() ')).toBeNull();
+    expect(toPrefixQuery('a b c d e f g h i j').split(' & ')).toHaveLength(8);
+  });
+});
+
+describe('SearchService.search', () => {
+  beforeEach(() => {
+    prisma.$queryRaw.mockReset();
+  });
+
+  it('skips the database for queries without searchable text', async () => {
+    expect(await SearchService.search({ orgId: 'org-1', q: '***', limit: 10 })).toEqual([]);
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('queries only the requested types with the prefix query', async () => {
+    prisma.$queryRaw.mockResolvedValue([]);
+
+    await SearchService.search({ orgId: 'org-1', q: 'Ann', types: ['contact', 'deal'], limit: 5 });
+
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(2);
+    const [contactQuery] = prisma.$queryRaw.mock.calls[0] as [Prisma.Sql];
+    expect(contactQuery.sql).toContain('FROM contacts c');
+    expect(contactQuery.values).toEqual(expect.arrayContaining(['org-1', 'ann:*', 5]));
+  });
+
+  it('merges all types by rank, newest first on ties, up to the limit', async () => {
+    prisma.$queryRaw.mockImplementation(async (query: Prisma.Sql) => {
+      if (query.sql.includes('FROM contacts c')) {
+        return [result('contact', 'c1', 0.2, '2024-01-01'), result('contact', 'c2', 0.5, '2024-01-01')];
+      }
+      if (query.sql.includes('FROM deals d')) {
+        return [result('deal', 'd1', '0.5', '2024-02-01')];
+      }
+      return [];
+    });
+
+    const results = await SearchService.search({ orgId: 'org-1', q: 'ann', limit: 2 });
+
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(5);
+    expect(results.map(({ id, rank }) => [id, rank])).toEqual([
+      ['d1', 0.5],
+      ['c2', 0.5],
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: { customFieldDefinition: { findMany: vi.fn() } },
+}));
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+
+import { SegmentFilter, SegmentService } from '../src/services/segments';
+import { ValidationError } from '../src/utils/errors';
+
+const now = new Date('2024-06-30T12:00:00Z');
+const scope = { orgId: 'org-1', deletedAt: null };
+
+const build = (filter: SegmentFilter) => SegmentService.buildWhere('org-1', filter, now);
+
+describe('SegmentService.buildWhere', () => {
+  beforeEach(() => {
+    prisma.customFieldDefinition.findMany.mockResolvedValue([
+      { key: 'budget', label: 'Budget', type: 'number', options: [], required: false },
+    ]);
+  });
+
+  it('scopes every filter to the org and leaves out deleted contacts', async () => {
+    expect(await build({ field: 'firstName', op: 'eq', value: 'Ann' })).toEqual({
+      AND: [scope, { firstName: { equals: 'Ann', mode: 'insensitive' } }],
+    });
+  });
+
+  it('compiles nested AND/OR groups', async () => {
+    const where = await build({
+      and: [
+        { field: 'tags', op: 'has_any', value: ['vip'] },
+        {
+          or: [
+            { field: 'leadScore', op: 'gte', value: 50 },
+            { field: 'email', op: 'is_not_set' },
+          ],
+        },
+      ],
+    });
+
+    expect(where).toEqual({
+      AND: [
+        scope,
+        {
+          AND: [
+            { tags: { hasSome: ['vip'] } },
+            { OR: [{ leadScore: { gte: 50 } }, { OR: [{ email: null }, { email: '' }] }] },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('resolves day windows against the given time', async () => {
+    const since = new Date('2024-06-23T12:00:00Z');
+
+    expect(await build({ field: 'createdAt', op: 'within_last_days', value: 7 })).toEqual({
+      AND: [scope, { createdAt: { gte: since } }],
+    });
+    expect(await build({ field: 'message.lastInboundAt', op: 'not_within_last_days', value: 7 })).toEqual({
+      AND: [scope, { messages: { none: { direction: 'inbound', createdAt: { gte: since } } } }],
+    });
+  });
+
+  it('treats "last activity before" as having activity but none since', async () => {
+    const date = new Date('2024-01-01T00:00:00Z');
+
+    expect(await build({ field: 'activity.lastAt', op: 'before', value: '2024-01-01T00:00:00Z' })).toEqual({
+      AND: [scope, { AND: [{ activities: { some: {} } }, { activities: { none: { createdAt: { gte: date } } } }] }],
+    });
+  });
+
+  it('compiles deal and appointment relations', async () => {
+    expect(await build({ field: 'deal.status', op: 'not_in', value: ['won'] })).toEqual({
+      AND: [scope, { deals: { none: { stage: { type: { in: ['won'] } } } } }],
+    });
+    expect(await build({ field: 'appointment.status', op: 'in', value: ['confirmed'] })).toEqual({
+      AND: [scope, { appointments: { some: { status: { in: ['confirmed'] } } } }],
+    });
+  });
+
+  it('delegates custom fields to the custom field filters', async () => {
+    expect(await build({ field: 'customFields.budget', op: 'gt', value: 1000 })).toEqual({
+      AND: [scope, { AND: [{ customFields: { path: ['budget'], gt: 1000 } }] }],
+    });
+  });
+
+  it('rejects unknown fields, unsupported operators and bad values', async () => {
+    await expect(build({ field: 'nickname', op: 'eq', value: 'x' })).rejects.toThrow("Filter on 'nickname': unknown field");
+    await expect(build({ field: 'tags', op: 'eq', value: 'vip' })).rejects.toThrow("operator 'eq' is not supported");
+    await expect(build({ field: 'leadScore', op: 'gt', value: '50' })).rejects.toThrow("'gt' needs a number");
+    await expect(build({ field: 'deal.status', op: 'in', value: ['pending'] })).rejects.toThrow("unknown value 'pending'");
+    await expect(build({ field: 'createdAt', op: 'within_last_days', value: 0.5 })).rejects.toThrow(ValidationError);
+  });
+
+  it('rejects malformed filters and nesting deeper than five levels', async () => {
+    await expect(build({ and: [] })).rejects.toThrow('Invalid segment filter');
+
+    let deep: SegmentFilter = { field: 'firstName', op: 'eq', value: 'Ann' };
+    for (let level = 0; level < 5; level++) {
+      deep = { and: [deep] };
+    }
+    await expect(build(deep)).rejects.toThrow('Filters can be nested at most 5 levels deep');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    task: { findMany: vi.fn(), count: vi.fn(), findFirst: vi.fn(), create: vi.fn(), update: vi.fn() },
+    deal: { findFirst: vi.fn() },
+    contact: { findFirst: vi.fn() },
+    membership: { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+
+import { TASK_REMINDER_LEAD_MS, TaskService } from '../src/services/tasks';
+import { NotFoundError, ValidationError } from '../src/utils/errors';
+
+const now = new Date('2024-06-30T12:00:00Z');
+
+const task = {
+  id: 'task-1',
+  orgId: 'org-1',
+  title: 'Call back',
+  contactId: null,
+  dealId: null,
+  assigneeId: 'user-1',
+  dueAt: new Date('2024-07-01T09:00:00Z'),
+  remindAt: null,
+  completedAt: null,
+};
+
+describe('TaskService.list', () => {
+  beforeEach(() => {
+    prisma.task.findMany.mockResolvedValue([]);
+    prisma.task.count.mockResolvedValue(0);
+  });
+
+  it("narrows 'mine' to the caller's open tasks", async () => {
+    await TaskService.list('org-1', 'user-1', { view: 'mine', page: 2, limit: 20 }, now);
+
+    const { where, skip, take } = prisma.task.findMany.mock.calls[0][0];
+    expect(where).toMatchObject({ orgId: 'org-1', deletedAt: null, completedAt: null, assigneeId: 'user-1' });
+    expect(where.AND).toEqual([]);
+    expect({ skip, take }).toEqual({ skip: 20, take: 20 });
+  });
+
+  it("limits 'overdue' to open tasks due before now", async () => {
+    prisma.task.findMany.mockClear();
+
+    await TaskService.list('org-1', 'user-1', { view: 'overdue', dueAfter: new Date('2024-06-01'), page: 1, limit: 20 }, now);
+
+    const { where } = prisma.task.findMany.mock.calls[0][0];
+    expect(where.AND).toEqual([{ dueAt: { gte: new Date('2024-06-01') } }, { dueAt: { lt: now } }, { completedAt: null }]);
+  });
+
+  it('lists open and completed tasks alike by default', async () => {
+    prisma.task.findMany.mockClear();
+
+    await TaskService.list('org-1', 'user-1', { page: 1, limit: 20 }, now);
+
+    expect(prisma.task.findMany.mock.calls[0][0].where).not.toHaveProperty('completedAt');
+  });
+});
+
+describe('TaskService.create', () => {
+  beforeEach(() => {
+    prisma.task.create.mockImplementation(async ({ data }) => data);
+    prisma.membership.findUnique.mockResolvedValue({ userId: 'user-1', orgId: 'org-1' });
+  });
+
+  it('assigns the creator unless told otherwise', async () => {
+    expect(await TaskService.create('org-1', 'user-1', { title: 'Call back' })).toMatchObject({ assigneeId: 'user-1', createdBy: 'user-1' });
+    expect(await TaskService.create('org-1', 'user-1', { title: 'Call back', assigneeId: null })).toMatchObject({ assigneeId: null });
+  });
+
+  it("links the deal's contact when only a deal is given", async () => {
+    prisma.deal.findFirst.mockResolvedValue({ contactId: 'contact-1' });
+    prisma.contact.findFirst.mockResolvedValue({ id: 'contact-1' });
+
+    expect(await TaskService.create('org-1', 'user-1', { title: 'Send quote', dealId: 'deal-1' })).toMatchObject({
+      contactId: 'contact-1',
+      dealId: 'deal-1',
+    });
+  });
+
+  it('rejects unknown links and assignees outside the organization', async () => {
+    prisma.deal.findFirst.mockResolvedValue(null);
+    await expect(TaskService.create('org-1', 'user-1', { title: 'x', dealId: 'missing' })).rejects.toThrow(NotFoundError);
+
+    prisma.membership.findUnique.mockResolvedValue(null);
+    await expect(TaskService.create('org-1', 'user-1', { title: 'x', assigneeId: 'user-9' })).rejects.toThrow(ValidationError);
+  });
+});
+
+describe('TaskService.update', () => {
+  beforeEach(() => {
+    prisma.task.findFirst.mockResolvedValue(task);
+    prisma.task.update.mockImplementation(async ({ data }) => data);
+  });
+
+  it('clears the sent reminder when the task is rescheduled', async () => {
+    expect(await TaskService.update('org-1', 'task-1', { dueAt: new Date('2024-07-02T09:00:00Z') })).toHaveProperty(
+      'reminderSentAt',
+      null
+    );
+  });
+
+  it('keeps the sent reminder for edits that leave the schedule alone', async () => {
+    expect(await TaskService.update('org-1', 'task-1', { title: 'Call back soon', dueAt: task.dueAt })).not.toHaveProperty(
+      'reminderSentAt'
+    );
+  });
+});
+
+describe('TaskService.pendingReminders', () => {
+  it('includes undated reminders for tasks due within the lead time', async () => {
+    prisma.task.findMany.mockClear();
+
+    await TaskService.pendingReminders('org-1', now);
+
+    expect(prisma.task.findMany.mock.calls[0][0].where.OR).toEqual([
+      { remindAt: { lte: now } },
+      { remindAt: null, dueAt: { lte: new Date(now.getTime() + TASK_REMINDER_LEAD_MS) } },
+    ]);
+  });
+});
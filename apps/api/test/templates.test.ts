@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    messageTemplate: { findFirst: vi.fn(), create: vi.fn(), update: vi.fn() },
+    messageTemplateVersion: { findUnique: vi.fn(), findMany: vi.fn() },
+    organization: { findUnique: vi.fn() },
+    contact: { findFirst: vi.fn() },
+    appointment: { findFirst: vi.fn() },
+    deal: { findFirst: vi.fn() },
+  },
+}));
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+
+import { TemplateService, templateVariables } from '../src/services/templates';
+import { BrandingService } from '../src/services/branding';
+import { ValidationError } from '../src/utils/errors';
+
+const template = {
+  id: 'tpl-1',
+  orgId: 'org-1',
+  name: 'Reminder',
+  channel: 'email',
+  currentVersion: 2,
+  archivedAt: null,
+};
+
+const version = {
+  templateId: 'tpl-1',
+  version: 2,
+  subject: 'See you {{ appointment.date }}',
+  text: 'Hi {{contact.firstName}}, {{appointment.time}} at {{appointment.location}}. {{vars.link}}',
+  html: '<p>Hi {{contact.fullName}}</p>',
+  variables: ['appointment.date', 'contact.firstName', 'appointment.time', 'appointment.location', 'vars.link', 'contact.fullName'],
+};
+
+describe('templateVariables', () => {
+  it('lists each placeholder once in order of first use', () => {
+    expect(templateVariables(version)).toEqual(version.variables);
+    expect(templateVariables({ text: null })).toEqual([]);
+  });
+});
+
+describe('TemplateService.create', () => {
+  it('checks the content the channel needs and the placeholders it uses', async () => {
+    await expect(TemplateService.create('org-1', 'user-1', { name: 'x', channel: 'email', text: 'Hi' })).rejects.toThrow(
+      'Email templates need a subject'
+    );
+    await expect(TemplateService.create('org-1', 'user-1', { name: 'x', channel: 'sms', html: '<p>Hi</p>' })).rejects.toThrow(
+      'SMS templates need a text body'
+    );
+    await expect(
+      TemplateService.create('org-1', 'user-1', { name: 'x', channel: 'sms', text: 'Hi {{contact.nickname}} {{vars.}}' })
+    ).rejects.toThrow('Unknown template variables: contact.nickname, vars.');
+    expect(prisma.messageTemplate.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('TemplateService.update', () => {
+  beforeEach(() => {
+    prisma.messageTemplate.findFirst.mockResolvedValue(template);
+    prisma.messageTemplateVersion.findMany.mockResolvedValue([version]);
+    prisma.messageTemplate.update.mockClear();
+  });
+
+  it('saves a new version when the content changes', async () => {
+    await TemplateService.update('org-1', 'tpl-1', 'user-1', { text: 'Hello {{contact.firstName}}' });
+
+    expect(prisma.messageTemplate.update.mock.calls[0][0].data).toMatchObject({
+      currentVersion: 3,
+      versions: { create: { version: 3, text: 'Hello {{contact.firstName}}', variables: expect.any(Array), createdBy: 'user-1' } },
+    });
+  });
+
+  it('only renames when the content is the same', async () => {
+    await TemplateService.update('org-1', 'tpl-1', 'user-1', { name: 'Visit reminder', text: version.text });
+
+    expect(prisma.messageTemplate.update.mock.calls[0][0].data).toEqual({ name: 'Visit reminder' });
+  });
+
+  it('refuses to edit archived templates', async () => {
+    prisma.messageTemplate.findFirst.mockResolvedValue({ ...template, archivedAt: new Date() });
+
+    await expect(TemplateService.update('org-1', 'tpl-1', 'user-1', { name: 'x' })).rejects.toThrow(ValidationError);
+  });
+});
+
+describe('TemplateService.render', () => {
+  beforeEach(() => {
+    vi.spyOn(BrandingService, 'get').mockResolvedValue({ name: 'Acme', email: null, phone: null, website: null } as any);
+    prisma.messageTemplate.findFirst.mockResolvedValue(template);
+    prisma.messageTemplateVersion.findUnique.mockResolvedValue(version);
+    prisma.organization.findUnique.mockResolvedValue({ timezone: 'America/New_York' });
+    prisma.contact.findFirst.mockResolvedValue({ firstName: 'Jo', lastName: '<Lee>', email: null, phone: null, timezone: null });
+    prisma.appointment.findFirst.mockResolvedValue({
+      startsAt: new Date('2024-03-04T19:30:00Z'),
+      location: null,
+      status: 'confirmed',
+    });
+  });
+
+  it("fills values in the organization's time zone and escapes them in HTML only", async () => {
+    const rendered = await TemplateService.render('org-1', 'tpl-1', {
+      contactId: 'contact-1',
+      appointmentId: 'appt-1',
+      variables: { link: 'https://acme.test/r/1' },
+    });
+
+    expect(rendered).toMatchObject({
+      version: 2,
+      subject: 'See you Monday, March 4',
+      text: 'Hi Jo, 2:30 PM at . https://acme.test/r/1',
+      html: '<p>Hi Jo &lt;Lee&gt;</p>',
+      missing: ['appointment.location'],
+    });
+  });
+
+  it('uses the requested time zone and renders older versions on request', async () => {
+    const rendered = await TemplateService.render('org-1', 'tpl-1', {
+      appointmentId: 'appt-1',
+      timeZone: 'Asia/Tokyo',
+      version: 1,
+    });
+
+    expect(prisma.messageTemplateVersion.findUnique).toHaveBeenLastCalledWith({
+      where: { templateId_version: { templateId: 'tpl-1', version: 1 } },
+    });
+    expect(rendered.subject).toBe('See you Tuesday, March 5');
+  });
+
+  it('fills the catalog examples into a preview', async () => {
+    const preview = await TemplateService.preview('org-1', 'tpl-1');
+
+    expect(preview.text).toBe('Hi Jamie, 2:30 PM at 12 Main St. [vars.link]');
+    expect(preview.missing).toEqual(version.variables);
+  });
+
+  it('refuses to send from archived templates', async () => {
+    prisma.messageTemplate.findFirst.mockResolvedValue({ ...template, archivedAt: new Date() });
+
+    await expect(TemplateService.render('org-1', 'tpl-1')).rejects.toThrow("Template 'Reminder' is archived");
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    contact: { findFirst: vi.fn() },
+    activity: { findMany: vi.fn() },
+    message: { findMany: vi.fn() },
+    appointment: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+
+import { TimelineService, decodeCursor, encodeCursor } from '../src/services/timeline';
+import { NotFoundError, ValidationError } from '../src/utils/errors';
+
+const at = (hour: number) => new Date(Date.UTC(2024, 5, 1, hour));
+
+const contact = {
+  id: 'contact-1',
+  orgId: 'org-1',
+  firstName: 'Ann',
+  lastName: 'Lee',
+  email: 'Ann@Example.com',
+  phone: '(555) 123-4567',
+  deletedAt: null,
+};
+
+const activity = (id: string, hour: number) => ({ id, content: `Note ${id}`, createdAt: at(hour) });
+const message = (id: string, hour: number) => ({ id, direction: 'inbound', channel: 'sms', body: 'Hi', createdAt: at(hour) });
+
+const types = ['activity', 'message', 'appointment'] as const;
+
+describe('timeline cursors', () => {
+  it('round-trips the position of an item', () => {
+    const cursor = encodeCursor({ type: 'message', id: 'm1', occurredAt: at(9), summary: '', data: null });
+
+    expect(decodeCursor(cursor)).toEqual({ at: at(9), key: 'message:m1' });
+  });
+
+  it('rejects cursors it did not issue', () => {
+    expect(() => decodeCursor('not-a-cursor')).toThrow(ValidationError);
+    expect(() => decodeCursor(Buffer.from('{"at":"soon","key":"x"}').toString('base64url'))).toThrow('Invalid cursor');
+  });
+});
+
+describe('TimelineService.list', () => {
+  beforeEach(() => {
+    prisma.contact.findFirst.mockResolvedValue(contact);
+    prisma.activity.findMany.mockResolvedValue([activity('a2', 10), activity('a1', 8)]);
+    prisma.message.findMany.mockResolvedValue([message('m1', 9), message('m0', 8)]);
+    prisma.appointment.findMany.mockResolvedValue([]);
+  });
+
+  it('merges sources newest first and breaks ties by type and id', async () => {
+    const { contact: summary, items, nextCursor } = await TimelineService.list('org-1', 'contact-1', { types: [...types], limit: 10 });
+
+    expect(summary).toEqual({ id: 'contact-1', name: 'Ann Lee', email: 'Ann@Example.com', phone: '(555) 123-4567' });
+    expect(items.map(item => `${item.type}:${item.id}`)).toEqual(['activity:a2', 'message:m1', 'message:m0', 'activity:a1']);
+    expect(items[1].summary).toBe('Received sms: Hi');
+    expect(nextCursor).toBeNull();
+  });
+
+  it('matches unlinked messages on the raw and normalized phone and email', async () => {
+    await TimelineService.list('org-1', 'contact-1', { types: ['message'], limit: 10 });
+
+    const { where } = prisma.message.findMany.mock.calls.at(-1)![0];
+    const addresses: string[] = where.OR[1].OR[0].fromAddr.in;
+    expect(where.OR[0]).toEqual({ contactId: 'contact-1' });
+    expect(addresses).toEqual(expect.arrayContaining(['(555) 123-4567', 'Ann@Example.com', 'ann@example.com']));
+  });
+
+  it('continues after the cursor without repeating items that share its time', async () => {
+    const first = await TimelineService.list('org-1', 'contact-1', { types: [...types], limit: 3 });
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await TimelineService.list('org-1', 'contact-1', { types: [...types], cursor: first.nextCursor!, limit: 3 });
+
+    expect(second.items.map(item => item.id)).toEqual(['a1']);
+    expect(second.nextCursor).toBeNull();
+    expect(prisma.activity.findMany.mock.calls.at(-1)![0].where.createdAt).toEqual({ lte: at(8) });
+  });
+
+  it('fails for contacts outside the organization', async () => {
+    prisma.contact.findFirst.mockResolvedValue(null);
+
+    await expect(TimelineService.list('org-1', 'contact-9', { limit: 10 })).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { prisma } = vi.hoisted(() => {
+  const model = () => ({
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    count: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+    deleteMany: vi.fn(),
+  });
+  const prisma: any = {
+    contact: model(),
+    deal: model(),
+    activity: model(),
+    task: model(),
+    appointment: model(),
+    $transaction: vi.fn(),
+  };
+  prisma.$transaction.mockImplementation((arg: any) => (typeof arg === 'function' ? arg(prisma) : Promise.all(arg)));
+  return { prisma };
+});
+
+vi.mock('../src/lib/prisma', () => ({ prisma }));
+
+import { TrashService, retentionDays } from '../src/services/trash';
+import { ConflictError, NotFoundError } from '../src/utils/errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const deletedAt = new Date('2024-06-01T00:00:00Z');
+
+describe('retentionDays', () => {
+  afterEach(() => {
+    delete process.env.TRASH_RETENTION_DAYS;
+  });
+
+  it('reads TRASH_RETENTION_DAYS and falls back to 30 days', () => {
+    expect(retentionDays()).toBe(30);
+    process.env.TRASH_RETENTION_DAYS = '7';
+    expect(retentionDays()).toBe(7);
+    process.env.TRASH_RETENTION_DAYS = '-1';
+    expect(retentionDays()).toBe(30);
+  });
+});
+
+describe('TrashService', () => {
+  beforeEach(() => {
+    for (const model of [prisma.contact, prisma.deal, prisma.activity, prisma.task, prisma.appointment]) {
+      model.updateMany.mockReset().mockResolvedValue({ count: 1 });
+      model.update.mockReset().mockImplementation(async ({ where, data }: any) => ({ id: where.id, ...data }));
+      model.deleteMany.mockReset().mockResolvedValue({ count: 0 });
+    }
+  });
+
+  it('stamps a contact and its live children with one deletion time', async () => {
+    prisma.contact.findFirst.mockResolvedValue({ id: 'contact-1' });
+    prisma.deal.findMany.mockResolvedValue([{ id: 'deal-1' }]);
+
+    const { deletedAt: stamped, purgeAt } = await TrashService.trashContact('org-1', 'contact-1');
+
+    expect(purgeAt.getTime() - stamped.getTime()).toBe(30 * DAY_MS);
+    expect(prisma.contact.update).toHaveBeenCalledWith({ where: { id: 'contact-1' }, data: { deletedAt: stamped } });
+    expect(prisma.deal.updateMany).toHaveBeenCalledWith({
+      where: { orgId: 'org-1', deletedAt: null, id: { in: ['deal-1'] } },
+      data: { deletedAt: stamped },
+    });
+    expect(prisma.activity.updateMany).toHaveBeenCalledWith({
+      where: { orgId: 'org-1', deletedAt: null, OR: [{ contactId: 'contact-1' }, { dealId: { in: ['deal-1'] } }] },
+      data: { deletedAt: stamped },
+    });
+  });
+
+  it('restores only the children trashed together with the contact', async () => {
+    prisma.contact.findFirst.mockResolvedValue({ id: 'contact-1', deletedAt });
+    prisma.deal.findMany.mockResolvedValue([{ id: 'deal-1' }]);
+
+    const { restored } = await TrashService.restore('org-1', 'contact', 'contact-1');
+
+    expect(restored).toEqual({ deals: 1, activities: 1, tasks: 1, appointments: 1 });
+    expect(prisma.deal.findMany).toHaveBeenLastCalledWith({
+      where: { orgId: 'org-1', deletedAt, contactId: 'contact-1' },
+      select: { id: true },
+    });
+    expect(prisma.appointment.updateMany).toHaveBeenCalledWith({
+      where: { orgId: 'org-1', deletedAt, contactId: 'contact-1' },
+      data: { deletedAt: null },
+    });
+  });
+
+  it('refuses to restore a deal whose contact is still in the trash', async () => {
+    prisma.deal.findFirst.mockResolvedValue({ id: 'deal-1', contactId: 'contact-1', deletedAt, contact: { deletedAt } });
+
+    await expect(TrashService.restore('org-1', 'deal', 'deal-1')).rejects.toThrow(ConflictError);
+
+    prisma.deal.findFirst.mockResolvedValue(null);
+    await expect(TrashService.restore('org-1', 'deal', 'deal-9')).rejects.toThrow(NotFoundError);
+  });
+
+  it('lists trashed contacts and deals together, most recently deleted first', async () => {
+    const at = (date: number) => new Date(Date.UTC(2024, 5, date));
+    prisma.contact.findMany.mockResolvedValue([
+      { id: 'contact-1', firstName: 'Ann', lastName: null, email: null, phone: '555', deletedAt: at(1) },
+    ]);
+    prisma.deal.findMany.mockResolvedValue([
+      { id: 'deal-1', title: 'Roof', contact: { firstName: 'Bob', lastName: 'Ray' }, deletedAt: at(3) },
+      { id: 'deal-2', title: 'Gutters', contact: { firstName: 'Bob', lastName: 'Ray' }, deletedAt: at(2) },
+    ]);
+    prisma.contact.count.mockResolvedValue(1);
+    prisma.deal.count.mockResolvedValue(2);
+
+    const first = await TrashService.list('org-1', { page: 1, limit: 2 });
+    const second = await TrashService.list('org-1', { page: 2, limit: 2 });
+
+    expect(first.items.map(item => [item.entity, item.id, item.subtitle])).toEqual([
+      ['deal', 'deal-1', 'Bob Ray'],
+      ['deal', 'deal-2', 'Bob Ray'],
+    ]);
+    expect(second.items.map(item => item.id)).toEqual(['contact-1']);
+    expect(first).toMatchObject({ total: 3, retentionDays: 30 });
+  });
+
+  it('purges records trashed before the retention cutoff', async () => {
+    const now = new Date('2024-07-31T00:00:00Z');
+    prisma.contact.deleteMany.mockResolvedValue({ count: 2 });
+
+    const result = await TrashService.purge('org-1', now);
+
+    const expired = { orgId: 'org-1', deletedAt: { lt: new Date('2024-07-01T00:00:00Z') } };
+    expect(prisma.contact.deleteMany).toHaveBeenCalledWith({ where: expired });
+    expect(prisma.task.deleteMany).toHaveBeenCalledWith({ where: expired });
+    expect(result).toEqual({ contacts: 2, deals: 0, activities: 0, appointments: 0, tasks: 0 });
+  });
+});
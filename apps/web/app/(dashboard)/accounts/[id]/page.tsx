@@ -0,0 +1,212 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowLeft, Building2, Globe, Phone, Trash2 } from 'lucide-react';
+import { useOrg } from '@/components/org/org-provider';
+import { apiClient, AccountDetail } from '@/lib/api';
+
+const STAGE_STYLES: Record<string, string> = {
+  open: 'bg-blue-100 text-blue-700',
+  won: 'bg-green-100 text-green-700',
+  lost: 'bg-gray-100 text-gray-700',
+};
+
+export default function AccountDetailPage() {
+  // useParams returns null when rendered outside the App Router
+  const id = useParams<{ id: string }>()?.id;
+  const router = useRouter();
+  const { currentOrg } = useOrg();
+  const [account, setAccount] = useState<AccountDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (currentOrg && id) {
+      loadAccount();
+    }
+  }, [currentOrg, id]);
+
+  const loadAccount = async () => {
+    if (!id) return;
+
+    try {
+      setLoading(true);
+      const response = await apiClient.getAccount(id);
+      setAccount(response.data || null);
+    } catch (error) {
+      console.error('Failed to load account:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!account || !confirm(`Delete ${account.name}? Its contacts and deals are kept.`)) return;
+
+    try {
+      await apiClient.deleteAccount(account.id);
+      router.push('/accounts');
+    } catch (error) {
+      console.error('Failed to delete account:', error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-9 w-64" />
+        <div className="grid gap-4 md:grid-cols-4">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={i} className="h-24" />
+          ))}
+        </div>
+        <Skeleton className="h-64" />
+      </div>
+    );
+  }
+
+  if (!account) {
+    return (
+      <div className="space-y-4">
+        <Link href="/accounts" className="flex items-center text-sm text-muted-foreground">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Accounts
+        </Link>
+        <p className="text-muted-foreground">Account not found.</p>
+      </div>
+    );
+  }
+
+  const rollups = [
+    { label: 'Contacts', value: account.contactsCount.toString() },
+    { label: 'Open deals', value: account.openDealsCount.toString() },
+    { label: 'Open deal value', value: `$${(account.openDealValueCents / 100).toLocaleString()}` },
+    {
+      label: 'Last activity',
+      value: account.lastActivityAt ? new Date(account.lastActivityAt).toLocaleDateString() : 'None',
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-2">
+        <Link href="/accounts" className="flex items-center text-sm text-muted-foreground">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Accounts
+        </Link>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Building2 className="h-8 w-8 text-muted-foreground" />
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">{account.name}</h1>
+              <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                {account.industry && <span>{account.industry}</span>}
+                {account.domain && (
+                  <span className="flex items-center gap-1">
+                    <Globe className="h-3 w-3" />
+                    {account.domain}
+                  </span>
+                )}
+                {account.phone && (
+                  <span className="flex items-center gap-1">
+                    <Phone className="h-3 w-3" />
+                    {account.phone}
+                  </span>
+                )}
+              </div>
+            </div>
+          </div>
+          <Button variant="outline" onClick={handleDelete}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </Button>
+        </div>
+      </div>
+
+      {/* Rollups */}
+      <div className="grid gap-4 md:grid-cols-4">
+        {rollups.map(({ label, value }) => (
+          <Card key={label}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">{label}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {account.notes && (
+        <Card>
+          <CardContent className="whitespace-pre-wrap pt-6 text-sm">{account.notes}</CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Contacts */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Contacts</CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y p-0">
+            {account.contacts.length === 0 ? (
+              <p className="p-6 text-center text-sm text-muted-foreground">No contacts linked.</p>
+            ) : (
+              account.contacts.map((contact) => (
+                <div key={contact.id} className="flex items-center justify-between px-6 py-3">
+                  <div>
+                    <p className="font-medium">
+                      {contact.firstName} {contact.lastName}
+                    </p>
+                    <p className="text-sm text-muted-foreground">{contact.email || contact.phone}</p>
+                  </div>
+                  <span className="text-xs text-muted-foreground">Score {contact.leadScore}</span>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Deals */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Deals</CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y p-0">
+            {account.deals.length === 0 ? (
+              <p className="p-6 text-center text-sm text-muted-foreground">No deals yet.</p>
+            ) : (
+              account.deals.map((deal) => (
+                <div key={deal.id} className="flex items-center justify-between px-6 py-3">
+                  <div>
+                    <p className="font-medium">{deal.title}</p>
+                    {deal.contact && (
+                      <p className="text-sm text-muted-foreground">
+                        {deal.contact.firstName} {deal.contact.lastName}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm">${(deal.valueCents / 100).toLocaleString()}</span>
+                    {deal.stage && (
+                      <Badge variant="secondary" className={STAGE_STYLES[deal.stage.type]}>
+                        {deal.stage.name}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
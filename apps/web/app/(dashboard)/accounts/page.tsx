@@ -0,0 +1,209 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Plus, Search, Building2, Users, DollarSign, Clock } from 'lucide-react';
+import { useOrg } from '@/components/org/org-provider';
+import { apiClient, Account } from '@/lib/api';
+import { trackEvent } from '@/lib/posthog';
+
+const EMPTY_FORM = {
+  name: '',
+  domain: '',
+  phone: '',
+  industry: '',
+};
+
+export default function AccountsPage() {
+  const { currentOrg } = useOrg();
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    if (currentOrg) {
+      loadAccounts();
+    }
+  }, [currentOrg, searchQuery]);
+
+  const loadAccounts = async () => {
+    try {
+      setLoading(true);
+      const response = await apiClient.getAccounts({
+        search: searchQuery || undefined,
+        limit: 100,
+      });
+      setAccounts(response.data || []);
+    } catch (error) {
+      console.error('Failed to load accounts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreateAccount = async () => {
+    if (!formData.name.trim()) return;
+
+    try {
+      const response = await apiClient.createAccount({
+        name: formData.name.trim(),
+        domain: formData.domain || null,
+        phone: formData.phone || null,
+        industry: formData.industry || null,
+      });
+      if (!response.success) {
+        throw new Error(response.message || response.error);
+      }
+
+      trackEvent('account_created', { orgId: currentOrg?.id });
+      setIsCreateDialogOpen(false);
+      setFormData(EMPTY_FORM);
+      loadAccounts();
+    } catch (error) {
+      console.error('Failed to create account:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Accounts</h1>
+          <p className="text-muted-foreground">
+            Companies your contacts and deals belong to
+          </p>
+        </div>
+        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Account
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Create Account</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Acme Plumbing"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="domain">Domain</Label>
+                  <Input
+                    id="domain"
+                    value={formData.domain}
+                    onChange={(e) => setFormData(prev => ({ ...prev, domain: e.target.value }))}
+                    placeholder="acme.com"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="phone">Phone</Label>
+                  <Input
+                    id="phone"
+                    value={formData.phone}
+                    onChange={(e) => setFormData(prev => ({ ...prev, phone: e.target.value }))}
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="industry">Industry</Label>
+                <Input
+                  id="industry"
+                  value={formData.industry}
+                  onChange={(e) => setFormData(prev => ({ ...prev, industry: e.target.value }))}
+                />
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleCreateAccount} disabled={!formData.name.trim()}>
+                  Create Account
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Search */}
+      <div className="relative max-w-sm">
+        <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search accounts..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="pl-8"
+        />
+      </div>
+
+      {/* Account List */}
+      <Card>
+        <CardContent className="divide-y p-0">
+          {loading ? (
+            Array.from({ length: 5 }).map((_, i) => (
+              <div key={i} className="p-4">
+                <Skeleton className="h-5 w-1/2" />
+              </div>
+            ))
+          ) : accounts.length === 0 ? (
+            <p className="p-8 text-center text-sm text-muted-foreground">No accounts yet.</p>
+          ) : (
+            accounts.map((account) => (
+              <Link
+                key={account.id}
+                href={`/accounts/${account.id}`}
+                className="flex items-center gap-4 p-4 hover:bg-muted/50"
+              >
+                <Building2 className="h-5 w-5 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium">{account.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {[account.domain, account.industry].filter(Boolean).join(' · ') || 'No details'}
+                  </p>
+                </div>
+                <div className="hidden gap-6 text-sm text-muted-foreground md:flex">
+                  <span className="flex items-center gap-1">
+                    <Users className="h-4 w-4" />
+                    {account.contactsCount}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <DollarSign className="h-4 w-4" />
+                    {(account.openDealValueCents / 100).toLocaleString()} open
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Clock className="h-4 w-4" />
+                    {account.lastActivityAt ? new Date(account.lastActivityAt).toLocaleDateString() : 'No activity'}
+                  </span>
+                </div>
+              </Link>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
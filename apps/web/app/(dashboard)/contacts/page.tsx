@@ -16,7 +16,11 @@ import {
 } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { apiClient, Contact } from '@/lib/api';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ContactTimeline } from '@/components/contacts/contact-timeline';
+import { VersionConflictDialog } from '@/components/conflicts/version-conflict-dialog';
+import { apiClient, Account, Contact } from '@/lib/api';
 import { 
   Plus, 
   Search, 
@@ -33,11 +37,16 @@ import {
 
 export default function ContactsPage() {
   const [contacts, setContacts] = useState<Contact[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
+  const [sortBy, setSortBy] = useState<'createdAt' | 'leadScore'>('createdAt');
+  const [ownerFilter, setOwnerFilter] = useState<'all' | 'me' | 'unassigned'>('all');
   const [selectedContact, setSelectedContact] = useState<Contact | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  // Latest copy of the contact being edited, when someone else saved it first
+  const [conflict, setConflict] = useState<Contact | null>(null);
   const [pagination, setPagination] = useState({
     page: 1,
     limit: 20,
@@ -51,12 +60,33 @@ export default function ContactsPage() {
     lastName: '',
     email: '',
     phone: '',
+    accountId: '',
     tags: [] as string[],
   });
 
   useEffect(() => {
     loadContacts();
-  }, [pagination.page, searchTerm]);
+  }, [pagination.page, searchTerm, sortBy, ownerFilter]);
+
+  useEffect(() => {
+    apiClient.getAccounts({ limit: 100 }).then(response => {
+      if (response.success) {
+        setAccounts(response.data || []);
+      }
+    });
+  }, []);
+
+  // Opened from search with ?contactId=
+  useEffect(() => {
+    const contactId = new URLSearchParams(window.location.search).get('contactId');
+    if (!contactId) return;
+
+    apiClient.getContact(contactId).then(response => {
+      if (response.success && response.data) {
+        openEditDialog(response.data);
+      }
+    });
+  }, []);
 
   const loadContacts = async () => {
     try {
@@ -65,6 +95,9 @@ export default function ContactsPage() {
         page: pagination.page,
         limit: pagination.limit,
         search: searchTerm || undefined,
+        ownerId: ownerFilter === 'all' ? undefined : ownerFilter,
+        sortBy,
+        sortOrder: 'desc',
       });
 
       if (response.success) {
@@ -84,7 +117,7 @@ export default function ContactsPage() {
 
   const handleCreateContact = async () => {
     try {
-      const response = await apiClient.createContact(formData);
+      const response = await apiClient.createContact({ ...formData, accountId: formData.accountId || null });
       if (response.success) {
         setIsCreateDialogOpen(false);
         resetForm();
@@ -95,11 +128,18 @@ export default function ContactsPage() {
     }
   };
 
-  const handleUpdateContact = async () => {
+  const handleUpdateContact = async (version = selectedContact?.version) => {
     if (!selectedContact) return;
     
     try {
-      const response = await apiClient.updateContact(selectedContact.id, formData);
+      const response = await apiClient.updateContact(selectedContact.id, {
+        ...formData,
+        accountId: formData.accountId || null,
+      }, version);
+      if (response.conflict) {
+        setConflict(response.conflict);
+        return;
+      }
       if (response.success) {
         setIsEditDialogOpen(false);
         setSelectedContact(null);
@@ -111,8 +151,25 @@ export default function ContactsPage() {
     }
   };
 
+  const keepMyChanges = () => {
+    if (!conflict) return;
+    const { version } = conflict;
+    setConflict(null);
+    handleUpdateContact(version);
+  };
+
+  // Reloads the form with the saved contact so the edit can be redone on top of it
+  const useLatestContact = () => {
+    if (!conflict) return;
+    openEditDialog(conflict);
+    setConflict(null);
+  };
+
+  const accountName = (accountId?: string | null) =>
+    accountId ? accounts.find(account => account.id === accountId)?.name ?? accountId : null;
+
   const handleDeleteContact = async (contactId: string) => {
-    if (!confirm('Are you sure you want to delete this contact?')) return;
+    if (!confirm('Move this contact and its deals, activities and appointments to the trash?')) return;
     
     try {
       const response = await apiClient.deleteContact(contactId);
@@ -130,6 +187,7 @@ export default function ContactsPage() {
       lastName: '',
       email: '',
       phone: '',
+      accountId: '',
       tags: [],
     });
   };
@@ -141,11 +199,34 @@ export default function ContactsPage() {
       lastName: contact.lastName || '',
       email: contact.email || '',
       phone: contact.phone || '',
+      accountId: contact.accountId || '',
       tags: contact.tags || [],
     });
     setIsEditDialogOpen(true);
   };
 
+  const renderAccountSelect = () => (
+    <div>
+      <Label>Account</Label>
+      <Select
+        value={formData.accountId || 'none'}
+        onValueChange={(value) => setFormData(prev => ({ ...prev, accountId: value === 'none' ? '' : value }))}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">No account</SelectItem>
+          {accounts.map(account => (
+            <SelectItem key={account.id} value={account.id}>
+              {account.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
   const getInitials = (firstName: string, lastName?: string) => {
     return `${firstName[0]}${lastName?.[0] || ''}`.toUpperCase();
   };
@@ -217,6 +298,7 @@ export default function ContactsPage() {
                     placeholder="+1 (555) 123-4567"
                   />
                 </div>
+                {renderAccountSelect()}
                 <div className="flex justify-end space-x-2">
                   <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
                     Cancel
@@ -241,6 +323,25 @@ export default function ContactsPage() {
               className="pl-10"
             />
           </div>
+          <Select value={sortBy} onValueChange={(value) => setSortBy(value as 'createdAt' | 'leadScore')}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="createdAt">Newest first</SelectItem>
+              <SelectItem value="leadScore">Highest lead score</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={ownerFilter} onValueChange={(value) => setOwnerFilter(value as 'all' | 'me' | 'unassigned')}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All owners</SelectItem>
+              <SelectItem value="me">My contacts</SelectItem>
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+            </SelectContent>
+          </Select>
           <Button variant="outline">
             <Filter className="h-4 w-4 mr-2" />
             Filter
@@ -325,8 +426,11 @@ export default function ContactsPage() {
                   {/* Quick Actions */}
                   <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-200">
                     <div className="flex items-center space-x-4 text-sm text-gray-500">
+                      {contact.account && <span>{contact.account.name}</span>}
+                      <span>{contact.owner ? contact.owner.name || contact.owner.email : 'Unassigned'}</span>
                       <span>{contact.deals?.length || 0} deals</span>
                       <span>{contact.appointments?.length || 0} appointments</span>
+                      <span title="Lead score">Score {contact.leadScore ?? 0}</span>
                     </div>
                     <div className="flex items-center space-x-2">
                       <Button variant="outline" size="sm">
@@ -376,57 +480,86 @@ export default function ContactsPage() {
 
         {/* Edit Dialog */}
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-          <DialogContent>
+          <DialogContent className="max-w-2xl">
             <DialogHeader>
               <DialogTitle>Edit Contact</DialogTitle>
             </DialogHeader>
-            <div className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
+            <Tabs defaultValue="details">
+              <TabsList>
+                <TabsTrigger value="details">Details</TabsTrigger>
+                <TabsTrigger value="timeline">Timeline</TabsTrigger>
+              </TabsList>
+              <TabsContent value="details" className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="editFirstName">First Name</Label>
+                    <Input
+                      id="editFirstName"
+                      value={formData.firstName}
+                      onChange={(e) => setFormData(prev => ({ ...prev, firstName: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="editLastName">Last Name</Label>
+                    <Input
+                      id="editLastName"
+                      value={formData.lastName}
+                      onChange={(e) => setFormData(prev => ({ ...prev, lastName: e.target.value }))}
+                    />
+                  </div>
+                </div>
                 <div>
-                  <Label htmlFor="editFirstName">First Name</Label>
+                  <Label htmlFor="editEmail">Email</Label>
                   <Input
-                    id="editFirstName"
-                    value={formData.firstName}
-                    onChange={(e) => setFormData(prev => ({ ...prev, firstName: e.target.value }))}
+                    id="editEmail"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="editLastName">Last Name</Label>
+                  <Label htmlFor="editPhone">Phone</Label>
                   <Input
-                    id="editLastName"
-                    value={formData.lastName}
-                    onChange={(e) => setFormData(prev => ({ ...prev, lastName: e.target.value }))}
+                    id="editPhone"
+                    value={formData.phone}
+                    onChange={(e) => setFormData(prev => ({ ...prev, phone: e.target.value }))}
                   />
                 </div>
-              </div>
-              <div>
-                <Label htmlFor="editEmail">Email</Label>
-                <Input
-                  id="editEmail"
-                  type="email"
-                  value={formData.email}
-                  onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
-                />
-              </div>
-              <div>
-                <Label htmlFor="editPhone">Phone</Label>
-                <Input
-                  id="editPhone"
-                  value={formData.phone}
-                  onChange={(e) => setFormData(prev => ({ ...prev, phone: e.target.value }))}
-                />
-              </div>
-              <div className="flex justify-end space-x-2">
-                <Button variant="outline" onClick={() => setIsEditDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button onClick={handleUpdateContact}>
-                  Update Contact
-                </Button>
-              </div>
-            </div>
+                {renderAccountSelect()}
+                <div className="flex justify-end space-x-2">
+                  <Button variant="outline" onClick={() => setIsEditDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={() => handleUpdateContact()}>
+                    Update Contact
+                  </Button>
+                </div>
+              </TabsContent>
+              <TabsContent value="timeline">
+                {selectedContact && <ContactTimeline contactId={selectedContact.id} />}
+              </TabsContent>
+            </Tabs>
           </DialogContent>
         </Dialog>
+
+        <VersionConflictDialog
+          open={conflict !== null}
+          resource="contact"
+          fields={
+            conflict
+              ? [
+                  { label: 'First name', mine: formData.firstName, theirs: conflict.firstName },
+                  { label: 'Last name', mine: formData.lastName, theirs: conflict.lastName },
+                  { label: 'Email', mine: formData.email, theirs: conflict.email },
+                  { label: 'Phone', mine: formData.phone, theirs: conflict.phone },
+                  { label: 'Account', mine: accountName(formData.accountId), theirs: accountName(conflict.accountId) },
+                  { label: 'Tags', mine: formData.tags, theirs: conflict.tags },
+                ]
+              : []
+          }
+          onKeepMine={keepMyChanges}
+          onUseTheirs={useLatestContact}
+        />
       </div>
     </DashboardLayout>
   );
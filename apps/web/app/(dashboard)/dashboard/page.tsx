@@ -54,7 +54,7 @@ export default function DashboardPage() {
         
         // Calculate revenue
         const revenue = dealsRes.data?.reduce((sum, deal) => {
-          return deal.stage === 'won' ? sum + deal.valueCents : sum;
+          return deal.stage?.type === 'won' ? sum + deal.valueCents : sum;
         }, 0) || 0;
         setStats(prev => ({ ...prev, totalRevenue: revenue }));
       }
@@ -69,13 +69,11 @@ export default function DashboardPage() {
     }
   };
 
-  const getStageColor = (stage: string) => {
-    switch (stage) {
+  const getStageColor = (type?: string) => {
+    switch (type) {
       case 'won': return 'bg-green-100 text-green-800';
       case 'lost': return 'bg-red-100 text-red-800';
-      case 'proposal': return 'bg-blue-100 text-blue-800';
-      case 'qualified': return 'bg-yellow-100 text-yellow-800';
-      default: return 'bg-gray-100 text-gray-800';
+      default: return 'bg-blue-100 text-blue-800';
     }
   };
 
@@ -245,8 +243,8 @@ export default function DashboardPage() {
                       </p>
                     </div>
                     <div className="flex items-center space-x-2">
-                      <Badge className={getStageColor(deal.stage)}>
-                        {deal.stage}
+                      <Badge className={getStageColor(deal.stage?.type)}>
+                        {deal.stage?.name}
                       </Badge>
                       <span className="text-sm font-medium">
                         ${(deal.valueCents / 100).toLocaleString()}
@@ -8,6 +8,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Plus, 
   DollarSign, 
@@ -18,15 +19,23 @@ import {
   TrendingDown
 } from 'lucide-react';
 import { useOrg } from '@/components/org/org-provider';
-import { api } from '@/lib/api';
+import { api, Pipeline } from '@/lib/api';
 import { trackEvent } from '@/lib/posthog';
 import { DealCard } from '@/components/deals/deal-card';
 import { DealColumn } from '@/components/deals/deal-column';
+import { VersionConflictDialog } from '@/components/conflicts/version-conflict-dialog';
 
 interface Deal {
   id: string;
   title: string;
-  stage: 'lead' | 'qualified' | 'proposal' | 'won' | 'lost';
+  pipelineId: string;
+  stageId: string;
+  stage?: {
+    id: string;
+    name: string;
+    type: 'open' | 'won' | 'lost';
+    color?: string;
+  };
   valueCents: number;
   currency: string;
   contact: {
@@ -34,37 +43,65 @@ interface Deal {
     firstName: string;
     lastName?: string;
   };
+  version: number;
   createdAt: string;
   updatedAt: string;
 }
 
-const STAGES = [
-  { id: 'lead', name: 'Lead', color: 'bg-gray-100' },
-  { id: 'qualified', name: 'Qualified', color: 'bg-blue-100' },
-  { id: 'proposal', name: 'Proposal', color: 'bg-yellow-100' },
-  { id: 'won', name: 'Won', color: 'bg-green-100' },
-  { id: 'lost', name: 'Lost', color: 'bg-red-100' },
-] as const;
+// A stage move the server refused because the deal changed since the board loaded
+interface StageConflict {
+  latest: Deal;
+  stageId: string;
+}
 
 export default function DealsPage() {
   const { currentOrg } = useOrg();
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+  const [pipelineId, setPipelineId] = useState<string | null>(null);
   const [deals, setDeals] = useState<Deal[]>([]);
   const [loading, setLoading] = useState(true);
   const [activeDeal, setActiveDeal] = useState<Deal | null>(null);
+  const [conflict, setConflict] = useState<StageConflict | null>(null);
+
+  const pipeline = pipelines.find(p => p.id === pipelineId);
+  const stages = pipeline?.stages ?? [];
 
   useEffect(() => {
     if (currentOrg) {
-      loadDeals();
+      loadPipelines();
     }
   }, [currentOrg]);
 
-  const loadDeals = async () => {
+  useEffect(() => {
+    if (pipelineId) {
+      loadDeals();
+    }
+  }, [pipelineId]);
+
+  const loadPipelines = async () => {
     if (!currentOrg) return;
 
     try {
       setLoading(true);
-      const response = await api.getDeals({ orgId: currentOrg.id });
-      setDeals(response.data);
+      const response = await api.getPipelines();
+      const data = response.data || [];
+      setPipelines(data);
+      setPipelineId(current =>
+        data.some((p: Pipeline) => p.id === current) ? current : (data.find((p: Pipeline) => p.isDefault) ?? data[0])?.id ?? null
+      );
+    } catch (error) {
+      console.error('Failed to load pipelines:', error);
+      setLoading(false);
+    }
+  };
+
+  const loadDeals = async () => {
+    if (!currentOrg || !pipelineId) return;
+
+    try {
+      setLoading(true);
+      const response = await api.getDeals({ pipelineId, limit: 100 });
+      setDeals((response.data || []) as Deal[]);
     } catch (error) {
       console.error('Failed to load deals:', error);
     } finally {
@@ -86,29 +123,46 @@ export default function DealsPage() {
     }
 
     const dealId = active.id as string;
-    const newStage = over.id as string;
+    // Dropped on a column, or on a card inside one
+    const newStage =
+      stages.find(stage => stage.id === over.id) ??
+      stages.find(stage => stage.id === deals.find(d => d.id === over.id)?.stageId);
+    const deal = deals.find(d => d.id === dealId);
+
+    if (!newStage || !deal || deal.stageId === newStage.id) {
+      setActiveDeal(null);
+      return;
+    }
 
     // Optimistic update
     setDeals(prev => 
-      prev.map(deal => 
-        deal.id === dealId ? { ...deal, stage: newStage as any } : deal
+      prev.map(d => 
+        d.id === dealId ? { ...d, stageId: newStage.id, stage: newStage } : d
       )
     );
 
     try {
-      // Update deal stage
-      await api.updateDeal(dealId, { stage: newStage });
+      // Update deal stage, refused if someone else changed the deal first
+      const response = await api.updateDeal(dealId, { stageId: newStage.id }, deal.version);
+      if (response.conflict) {
+        setConflict({ latest: response.conflict as Deal, stageId: newStage.id });
+        setActiveDeal(null);
+        return;
+      }
+      if (!response.success) {
+        throw new Error(response.message || response.error);
+      }
+      // Picks up the new version for the next move
+      replaceDeal(response.data as Deal);
       
       // Track event
-      const deal = deals.find(d => d.id === dealId);
-      if (deal) {
-        trackEvent('deal_stage_changed', {
-          dealId,
-          fromStage: deal.stage,
-          toStage: newStage,
-          orgId: currentOrg?.id
-        });
-      }
+      trackEvent('deal_stage_changed', {
+        dealId,
+        pipelineId,
+        fromStage: deal.stage?.name,
+        toStage: newStage.name,
+        orgId: currentOrg?.id
+      });
     } catch (error) {
       console.error('Failed to update deal stage:', error);
       // Revert optimistic update
@@ -118,8 +172,36 @@ export default function DealsPage() {
     setActiveDeal(null);
   };
 
-  const getDealsByStage = (stage: string) => {
-    return deals.filter(deal => deal.stage === stage);
+  const replaceDeal = (updated: Deal) => {
+    setDeals(prev => prev.map(d => (d.id === updated.id ? updated : d)));
+  };
+
+  const keepMyMove = async () => {
+    if (!conflict) return;
+    const { latest, stageId } = conflict;
+    setConflict(null);
+
+    const response = await api.updateDeal(latest.id, { stageId }, latest.version);
+    if (response.conflict) {
+      setConflict({ latest: response.conflict as Deal, stageId });
+    } else if (response.success) {
+      replaceDeal(response.data as Deal);
+    } else {
+      console.error('Failed to update deal stage:', response.message || response.error);
+      loadDeals();
+    }
+  };
+
+  const useLatestDeal = () => {
+    if (!conflict) return;
+    replaceDeal(conflict.latest);
+    setConflict(null);
+  };
+
+  const stageName = (stageId: string) => stages.find(stage => stage.id === stageId)?.name ?? stageId;
+
+  const getDealsByStage = (stageId: string) => {
+    return deals.filter(deal => deal.stageId === stageId);
   };
 
   const getTotalValue = (stage: string) => {
@@ -174,16 +256,32 @@ export default function DealsPage() {
             Track your sales pipeline
           </p>
         </div>
-        <Button onClick={() => trackEvent('deal_created', { orgId: currentOrg?.id })}>
-          <Plus className="mr-2 h-4 w-4" />
-          New Deal
-        </Button>
+        <div className="flex items-center space-x-2">
+          {pipelines.length > 1 && (
+            <Select value={pipelineId ?? undefined} onValueChange={setPipelineId}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Select pipeline" />
+              </SelectTrigger>
+              <SelectContent>
+                {pipelines.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button onClick={() => trackEvent('deal_created', { orgId: currentOrg?.id, pipelineId })}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Deal
+          </Button>
+        </div>
       </div>
 
       {/* Pipeline Stats */}
-      <div className="grid gap-4 md:grid-cols-5">
-        {STAGES.map((stage) => (
-          <Card key={stage.id}>
+      <div className="flex gap-4 overflow-x-auto">
+        {stages.map((stage) => (
+          <Card key={stage.id} className="min-w-[12rem] flex-1">
             <CardContent className="p-4">
               <div className="flex items-center justify-between">
                 <div>
@@ -211,7 +309,7 @@ export default function DealsPage() {
       {/* Kanban Board */}
       <DndContext onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
         <div className="flex space-x-6 overflow-x-auto pb-4">
-          {STAGES.map((stage) => (
+          {stages.map((stage) => (
             <DealColumn
               key={stage.id}
               stage={stage}
@@ -228,6 +326,26 @@ export default function DealsPage() {
           {activeDeal ? <DealCard deal={activeDeal} isDragging /> : null}
         </DragOverlay>
       </DndContext>
+
+      <VersionConflictDialog
+        open={conflict !== null}
+        resource="deal"
+        fields={
+          conflict
+            ? [
+                { label: 'Stage', mine: stageName(conflict.stageId), theirs: stageName(conflict.latest.stageId) },
+                { label: 'Title', mine: deals.find(d => d.id === conflict.latest.id)?.title, theirs: conflict.latest.title },
+                {
+                  label: 'Value',
+                  mine: ((deals.find(d => d.id === conflict.latest.id)?.valueCents ?? 0) / 100).toLocaleString(),
+                  theirs: (conflict.latest.valueCents / 100).toLocaleString(),
+                },
+              ]
+            : []
+        }
+        onKeepMine={keepMyMove}
+        onUseTheirs={useLatestDeal}
+      />
     </div>
   );
 }
@@ -7,108 +7,143 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { 
-  Search, 
-  Send, 
-  Mail, 
-  MessageSquare, 
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Send,
+  Mail,
+  MessageSquare,
   Phone,
-  Filter,
-  MoreHorizontal,
-  Reply,
   Archive,
-  Flag
+  ArchiveRestore,
 } from 'lucide-react';
 import { useOrg } from '@/components/org/org-provider';
-import { api } from '@/lib/api';
+import { api, Conversation, ConversationPriority, ConversationStatus } from '@/lib/api';
 import { trackEvent } from '@/lib/posthog';
 
-interface Message {
-  id: string;
-  direction: 'inbound' | 'outbound';
-  channel: 'sms' | 'email' | 'whatsapp';
-  toAddr: string;
-  fromAddr: string;
-  body: string;
-  meta?: any;
-  createdAt: string;
-}
+type AssigneeFilter = 'all' | 'me' | 'unassigned';
+
+const PRIORITY_STYLES: Record<ConversationPriority, string> = {
+  low: 'bg-gray-100 text-gray-700',
+  normal: 'bg-blue-100 text-blue-700',
+  high: 'bg-orange-100 text-orange-700',
+  urgent: 'bg-red-100 text-red-700',
+};
 
 export default function InboxPage() {
   const { currentOrg } = useOrg();
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedMessage, setSelectedMessage] = useState<Message | null>(null);
+  const [selected, setSelected] = useState<Conversation | null>(null);
   const [replyText, setReplyText] = useState('');
+  const [replySubject, setReplySubject] = useState('');
   const [sending, setSending] = useState(false);
   const [activeTab, setActiveTab] = useState('all');
+  const [status, setStatus] = useState<ConversationStatus>('active');
+  const [assignee, setAssignee] = useState<AssigneeFilter>('all');
 
   useEffect(() => {
     if (currentOrg) {
-      loadMessages();
+      loadConversations();
     }
-  }, [currentOrg, activeTab]);
+  }, [currentOrg, activeTab, status, assignee]);
 
-  const loadMessages = async () => {
+  const loadConversations = async () => {
     if (!currentOrg) return;
 
     try {
       setLoading(true);
-      const response = await api.getMessages({ 
-        orgId: currentOrg.id,
-        channel: activeTab === 'all' ? undefined : activeTab as any
+      const response = await api.getConversations({
+        status,
+        channel: activeTab === 'all' ? undefined : (activeTab as Conversation['channel']),
+        assignedTo: assignee === 'all' ? undefined : assignee,
+        limit: 50,
       });
-      setMessages(response.data);
+      setConversations(response.data || []);
     } catch (error) {
-      console.error('Failed to load messages:', error);
+      console.error('Failed to load conversations:', error);
     } finally {
       setLoading(false);
     }
   };
 
+  const replaceConversation = (conversation: Conversation) => {
+    setConversations(prev => prev.map(c => (c.id === conversation.id ? { ...c, ...conversation, messages: c.messages } : c)));
+  };
+
+  const openConversation = async (conversation: Conversation) => {
+    setSelected(conversation);
+    setReplyText('');
+    setReplySubject('');
+
+    try {
+      const response = await api.getConversation(conversation.id);
+      if (response.success && response.data) {
+        setSelected(response.data);
+      }
+
+      if (conversation.unreadCount > 0) {
+        const read = await api.markConversationRead(conversation.id);
+        if (read.success && read.data) {
+          replaceConversation(read.data);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load conversation:', error);
+    }
+  };
+
   const handleSendReply = async () => {
-    if (!selectedMessage || !replyText.trim() || !currentOrg) return;
+    if (!selected || !replyText.trim() || !currentOrg) return;
 
     try {
       setSending(true);
-      
-      // Determine channel based on original message
-      const channel = selectedMessage.channel === 'whatsapp' ? 'sms' : selectedMessage.channel;
-      
-      await api.sendMessage({
-        to: selectedMessage.fromAddr,
+
+      const response = await api.replyToConversation(selected.id, {
         body: replyText,
-        channel: channel as 'sms' | 'email',
-        orgId: currentOrg.id,
+        subject: selected.channel === 'email' ? replySubject || undefined : undefined,
       });
+      if (!response.success) {
+        throw new Error(response.message || response.error);
+      }
 
-      // Track event
-      trackEvent('message_sent', { 
-        channel: channel, 
-        orgId: currentOrg.id 
+      trackEvent('message_sent', {
+        channel: selected.channel,
+        orgId: currentOrg.id,
       });
 
-      // Clear reply and refresh messages
       setReplyText('');
-      loadMessages();
-      
-      // Show success message
-      console.log('Message sent successfully');
+      setReplySubject('');
+      openConversation({ ...selected, unreadCount: 0 });
+      loadConversations();
     } catch (error) {
-      console.error('Failed to send message:', error);
-      // In sandbox mode, just log to console
-      console.log('Sandbox mode: Message would be sent:', {
-        to: selectedMessage.fromAddr,
-        body: replyText,
-        channel: selectedMessage.channel,
-      });
-      setReplyText('');
+      console.error('Failed to send reply:', error);
     } finally {
       setSending(false);
     }
   };
 
+  const handleUpdate = async (data: { status?: ConversationStatus; priority?: ConversationPriority }) => {
+    if (!selected) return;
+
+    try {
+      const response = await api.updateConversation(selected.id, data);
+      if (!response.success || !response.data) {
+        throw new Error(response.message || response.error);
+      }
+
+      setSelected({ ...selected, ...response.data, messages: selected.messages });
+      if (data.status && data.status !== status) {
+        // Closed or reopened conversations move to the other list
+        setConversations(prev => prev.filter(c => c.id !== selected.id));
+      } else {
+        replaceConversation(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to update conversation:', error);
+    }
+  };
+
   const getChannelIcon = (channel: string) => {
     switch (channel) {
       case 'email':
@@ -135,15 +170,21 @@ export default function InboxPage() {
     }
   };
 
-  const getInitials = (address: string) => {
-    return address.substring(0, 2).toUpperCase();
+  const displayName = (conversation: Conversation) => {
+    const name = [conversation.contact?.firstName, conversation.contact?.lastName].filter(Boolean).join(' ');
+    return name || conversation.address || 'Unknown';
   };
 
-  const formatTime = (dateString: string) => {
+  const getInitials = (name: string) => {
+    return name.substring(0, 2).toUpperCase();
+  };
+
+  const formatTime = (dateString?: string | null) => {
+    if (!dateString) return '';
     const date = new Date(dateString);
     const now = new Date();
     const diffInHours = (now.getTime() - date.getTime()) / (1000 * 60 * 60);
-    
+
     if (diffInHours < 1) {
       return 'Just now';
     } else if (diffInHours < 24) {
@@ -165,13 +206,13 @@ export default function InboxPage() {
           </div>
           <Skeleton className="h-10 w-32" />
         </div>
-        
+
         <div className="flex space-x-2">
           <Skeleton className="h-10 w-20" />
           <Skeleton className="h-10 w-20" />
           <Skeleton className="h-10 w-20" />
         </div>
-        
+
         <div className="grid gap-4 md:grid-cols-2">
           <div className="space-y-4">
             {Array.from({ length: 5 }).map((_, i) => (
@@ -206,12 +247,25 @@ export default function InboxPage() {
           </p>
         </div>
         <div className="flex items-center space-x-2">
-          <Button variant="outline" size="icon">
-            <Filter className="h-4 w-4" />
-          </Button>
-          <Button variant="outline" size="icon">
-            <Search className="h-4 w-4" />
-          </Button>
+          <Select value={assignee} onValueChange={value => setAssignee(value as AssigneeFilter)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Everyone</SelectItem>
+              <SelectItem value="me">Assigned to me</SelectItem>
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={status} onValueChange={value => setStatus(value as ConversationStatus)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">Open</SelectItem>
+              <SelectItem value="closed">Closed</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
       </div>
 
@@ -226,62 +280,72 @@ export default function InboxPage() {
       </Tabs>
 
       <div className="grid gap-6 md:grid-cols-2">
-        {/* Messages List */}
+        {/* Conversation List */}
         <div className="space-y-4">
-          {messages.map((message) => (
-            <Card 
-              key={message.id}
-              className={`cursor-pointer transition-colors hover:bg-muted/50 ${
-                selectedMessage?.id === message.id ? 'ring-2 ring-primary' : ''
-              }`}
-              onClick={() => setSelectedMessage(message)}
-            >
-              <CardContent className="p-4">
-                <div className="flex items-start space-x-4">
-                  <Avatar className="h-10 w-10">
-                    <AvatarFallback>
-                      {getInitials(message.fromAddr)}
-                    </AvatarFallback>
-                  </Avatar>
-                  
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center justify-between mb-1">
-                      <div className="flex items-center space-x-2">
-                        <span className="font-medium text-sm">
-                          {message.fromAddr}
-                        </span>
-                        <Badge 
-                          variant="secondary" 
-                          className={`text-xs ${getChannelColor(message.channel)}`}
-                        >
-                          {getChannelIcon(message.channel)}
-                          <span className="ml-1 capitalize">{message.channel}</span>
-                        </Badge>
-                      </div>
-                      <div className="flex items-center space-x-1">
-                        <span className="text-xs text-muted-foreground">
-                          {formatTime(message.createdAt)}
-                        </span>
-                        <Button variant="ghost" size="icon" className="h-6 w-6">
-                          <MoreHorizontal className="h-3 w-3" />
-                        </Button>
+          {conversations.map((conversation) => {
+            const latest = conversation.messages?.[0];
+            return (
+              <Card
+                key={conversation.id}
+                className={`cursor-pointer transition-colors hover:bg-muted/50 ${
+                  selected?.id === conversation.id ? 'ring-2 ring-primary' : ''
+                }`}
+                onClick={() => openConversation(conversation)}
+              >
+                <CardContent className="p-4">
+                  <div className="flex items-start space-x-4">
+                    <Avatar className="h-10 w-10">
+                      <AvatarFallback>
+                        {getInitials(displayName(conversation))}
+                      </AvatarFallback>
+                    </Avatar>
+
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between mb-1">
+                        <div className="flex items-center space-x-2">
+                          <span className={`text-sm ${conversation.unreadCount > 0 ? 'font-semibold' : 'font-medium'}`}>
+                            {displayName(conversation)}
+                          </span>
+                          <Badge
+                            variant="secondary"
+                            className={`text-xs ${getChannelColor(conversation.channel)}`}
+                          >
+                            {getChannelIcon(conversation.channel)}
+                            <span className="ml-1 capitalize">{conversation.channel}</span>
+                          </Badge>
+                          {conversation.priority !== 'normal' && (
+                            <Badge variant="secondary" className={`text-xs capitalize ${PRIORITY_STYLES[conversation.priority]}`}>
+                              {conversation.priority}
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <span className="text-xs text-muted-foreground">
+                            {formatTime(conversation.lastMessageAt)}
+                          </span>
+                          {conversation.unreadCount > 0 && (
+                            <Badge className="h-5 min-w-5 justify-center px-1.5 text-xs">
+                              {conversation.unreadCount}
+                            </Badge>
+                          )}
+                        </div>
                       </div>
+
+                      <p className="text-sm text-muted-foreground line-clamp-2">
+                        {latest ? `${latest.direction === 'outbound' ? 'You: ' : ''}${latest.body}` : 'No messages yet'}
+                      </p>
                     </div>
-                    
-                    <p className="text-sm text-muted-foreground line-clamp-2">
-                      {message.body}
-                    </p>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                </CardContent>
+              </Card>
+            );
+          })}
 
-          {messages.length === 0 && (
+          {conversations.length === 0 && (
             <Card>
               <CardContent className="flex flex-col items-center justify-center py-12">
                 <MessageSquare className="h-12 w-12 text-muted-foreground mb-4" />
-                <h3 className="text-lg font-semibold mb-2">No messages found</h3>
+                <h3 className="text-lg font-semibold mb-2">No conversations found</h3>
                 <p className="text-muted-foreground text-center">
                   Messages from your contacts will appear here
                 </p>
@@ -290,86 +354,133 @@ export default function InboxPage() {
           )}
         </div>
 
-        {/* Message Detail & Reply */}
-        {selectedMessage ? (
+        {/* Conversation Thread & Reply */}
+        {selected ? (
           <Card>
             <CardHeader>
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-3">
                   <Avatar className="h-10 w-10">
                     <AvatarFallback>
-                      {getInitials(selectedMessage.fromAddr)}
+                      {getInitials(displayName(selected))}
                     </AvatarFallback>
                   </Avatar>
                   <div>
-                    <CardTitle className="text-lg">{selectedMessage.fromAddr}</CardTitle>
+                    <CardTitle className="text-lg">{displayName(selected)}</CardTitle>
                     <CardDescription className="flex items-center space-x-2">
-                      {getChannelIcon(selectedMessage.channel)}
-                      <span className="capitalize">{selectedMessage.channel}</span>
-                      <span>•</span>
-                      <span>{formatTime(selectedMessage.createdAt)}</span>
+                      {getChannelIcon(selected.channel)}
+                      <span>{selected.address}</span>
+                      {selected.assignee && (
+                        <>
+                          <span>•</span>
+                          <span>{selected.assignee.name || selected.assignee.email}</span>
+                        </>
+                      )}
                     </CardDescription>
                   </div>
                 </div>
                 <div className="flex items-center space-x-1">
-                  <Button variant="ghost" size="icon">
-                    <Flag className="h-4 w-4" />
-                  </Button>
-                  <Button variant="ghost" size="icon">
-                    <Archive className="h-4 w-4" />
+                  <Select
+                    value={selected.priority}
+                    onValueChange={value => handleUpdate({ priority: value as ConversationPriority })}
+                  >
+                    <SelectTrigger className="h-8 w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="low">Low</SelectItem>
+                      <SelectItem value="normal">Normal</SelectItem>
+                      <SelectItem value="high">High</SelectItem>
+                      <SelectItem value="urgent">Urgent</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title={selected.status === 'active' ? 'Close conversation' : 'Reopen conversation'}
+                    onClick={() => handleUpdate({ status: selected.status === 'active' ? 'closed' : 'active' })}
+                  >
+                    {selected.status === 'active' ? <Archive className="h-4 w-4" /> : <ArchiveRestore className="h-4 w-4" />}
                   </Button>
                 </div>
               </div>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="bg-muted/50 rounded-lg p-4">
-                <p className="text-sm whitespace-pre-wrap">{selectedMessage.body}</p>
+              <div className="max-h-96 space-y-3 overflow-y-auto">
+                {(selected.messages || []).map(message => (
+                  <div
+                    key={message.id}
+                    className={`flex ${message.direction === 'outbound' ? 'justify-end' : 'justify-start'}`}
+                  >
+                    <div
+                      className={`max-w-[80%] rounded-lg p-3 ${
+                        message.direction === 'outbound' ? 'bg-primary text-primary-foreground' : 'bg-muted/50'
+                      }`}
+                    >
+                      {message.meta?.subject && <p className="mb-1 text-xs font-medium">{message.meta.subject}</p>}
+                      <p className="text-sm whitespace-pre-wrap">{message.body}</p>
+                      <p className="mt-1 text-xs opacity-70">
+                        {formatTime(message.createdAt)}
+                        {message.deliveryStatus && ` · ${message.deliveryStatus}`}
+                      </p>
+                    </div>
+                  </div>
+                ))}
               </div>
 
-              <div className="space-y-3">
-                <h4 className="font-medium">Reply</h4>
-                <div className="space-y-2">
-                  <Input
-                    placeholder="Type your reply..."
-                    value={replyText}
-                    onChange={(e) => setReplyText(e.target.value)}
-                    onKeyPress={(e) => {
-                      if (e.key === 'Enter' && !e.shiftKey) {
-                        e.preventDefault();
-                        handleSendReply();
-                      }
-                    }}
-                  />
-                  <div className="flex items-center justify-between">
-                    <p className="text-xs text-muted-foreground">
-                      Press Enter to send, Shift+Enter for new line
-                    </p>
-                    <Button 
-                      onClick={handleSendReply}
-                      disabled={!replyText.trim() || sending}
-                      size="sm"
-                    >
-                      {sending ? (
-                        <div className="h-4 w-4 animate-spin rounded-full border-2 border-background border-t-transparent" />
-                      ) : (
-                        <>
-                          <Send className="mr-2 h-4 w-4" />
-                          Send
-                        </>
-                      )}
-                    </Button>
+              {selected.address && selected.channel !== 'whatsapp' && (
+                <div className="space-y-3">
+                  <h4 className="font-medium">Reply</h4>
+                  <div className="space-y-2">
+                    {selected.channel === 'email' && (
+                      <Input
+                        placeholder="Subject"
+                        value={replySubject}
+                        onChange={(e) => setReplySubject(e.target.value)}
+                      />
+                    )}
+                    <Input
+                      placeholder="Type your reply..."
+                      value={replyText}
+                      onChange={(e) => setReplyText(e.target.value)}
+                      onKeyPress={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          handleSendReply();
+                        }
+                      }}
+                    />
+                    <div className="flex items-center justify-between">
+                      <p className="text-xs text-muted-foreground">
+                        Press Enter to send
+                      </p>
+                      <Button
+                        onClick={handleSendReply}
+                        disabled={!replyText.trim() || sending}
+                        size="sm"
+                      >
+                        {sending ? (
+                          <div className="h-4 w-4 animate-spin rounded-full border-2 border-background border-t-transparent" />
+                        ) : (
+                          <>
+                            <Send className="mr-2 h-4 w-4" />
+                            Send
+                          </>
+                        )}
+                      </Button>
+                    </div>
                   </div>
                 </div>
-              </div>
+              )}
             </CardContent>
           </Card>
         ) : (
           <Card>
             <CardContent className="flex flex-col items-center justify-center py-12">
               <MessageSquare className="h-12 w-12 text-muted-foreground mb-4" />
-              <h3 className="text-lg font-semibold mb-2">Select a message</h3>
+              <h3 className="text-lg font-semibold mb-2">Select a conversation</h3>
               <p className="text-muted-foreground text-center">
-                Choose a message from the list to view details and reply
+                Choose a conversation from the list to read the thread and reply
               </p>
             </CardContent>
           </Card>
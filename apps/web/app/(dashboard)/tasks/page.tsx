@@ -0,0 +1,296 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Plus, Calendar, User, DollarSign, Trash2 } from 'lucide-react';
+import { useOrg } from '@/components/org/org-provider';
+import { apiClient, Task, TaskPriority } from '@/lib/api';
+import { trackEvent } from '@/lib/posthog';
+
+type TaskView = 'mine' | 'overdue' | 'all';
+
+const PRIORITY_STYLES: Record<TaskPriority, string> = {
+  low: 'bg-gray-100 text-gray-700',
+  normal: 'bg-blue-100 text-blue-700',
+  high: 'bg-orange-100 text-orange-700',
+  urgent: 'bg-red-100 text-red-700',
+};
+
+const EMPTY_FORM = {
+  title: '',
+  description: '',
+  priority: 'normal' as TaskPriority,
+  dueAt: '',
+};
+
+export default function TasksPage() {
+  const { currentOrg } = useOrg();
+  const [view, setView] = useState<TaskView>('mine');
+  const [showCompleted, setShowCompleted] = useState(false);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    if (currentOrg) {
+      loadTasks();
+    }
+  }, [currentOrg, view, showCompleted]);
+
+  const loadTasks = async () => {
+    try {
+      setLoading(true);
+      const response = await apiClient.getTasks({
+        view,
+        // Overdue only ever lists open tasks
+        status: view === 'overdue' ? 'open' : showCompleted ? 'all' : 'open',
+        limit: 100,
+      });
+      setTasks(response.data || []);
+    } catch (error) {
+      console.error('Failed to load tasks:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreateTask = async () => {
+    if (!formData.title.trim()) return;
+
+    try {
+      const response = await apiClient.createTask({
+        title: formData.title.trim(),
+        description: formData.description || undefined,
+        priority: formData.priority,
+        dueAt: formData.dueAt ? new Date(formData.dueAt).toISOString() : undefined,
+      });
+      if (!response.success) {
+        throw new Error(response.message || response.error);
+      }
+
+      trackEvent('task_created', { orgId: currentOrg?.id, priority: formData.priority });
+      setIsCreateDialogOpen(false);
+      setFormData(EMPTY_FORM);
+      loadTasks();
+    } catch (error) {
+      console.error('Failed to create task:', error);
+    }
+  };
+
+  const handleToggle = async (task: Task) => {
+    const completing = !task.completedAt;
+
+    // Optimistic update
+    setTasks(prev =>
+      prev.map(t => (t.id === task.id ? { ...t, completedAt: completing ? new Date().toISOString() : null } : t))
+    );
+
+    try {
+      const response = completing ? await apiClient.completeTask(task.id) : await apiClient.reopenTask(task.id);
+      if (!response.success) {
+        throw new Error(response.message || response.error);
+      }
+      if (completing) {
+        trackEvent('task_completed', { orgId: currentOrg?.id, taskId: task.id });
+      }
+    } catch (error) {
+      console.error('Failed to update task:', error);
+    } finally {
+      loadTasks();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await apiClient.deleteTask(id);
+      setTasks(prev => prev.filter(t => t.id !== id));
+    } catch (error) {
+      console.error('Failed to delete task:', error);
+    }
+  };
+
+  const isOverdue = (task: Task) => !task.completedAt && !!task.dueAt && new Date(task.dueAt) < new Date();
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Tasks</h1>
+          <p className="text-muted-foreground">
+            Follow-ups and to-dos for your team
+          </p>
+        </div>
+        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              New Task
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Create Task</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="title">Title</Label>
+                <Input
+                  id="title"
+                  value={formData.title}
+                  onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+                  placeholder="Call back about the quote"
+                />
+              </div>
+              <div>
+                <Label htmlFor="description">Description</Label>
+                <Textarea
+                  id="description"
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="dueAt">Due</Label>
+                  <Input
+                    id="dueAt"
+                    type="datetime-local"
+                    value={formData.dueAt}
+                    onChange={(e) => setFormData(prev => ({ ...prev, dueAt: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <Label>Priority</Label>
+                  <Select
+                    value={formData.priority}
+                    onValueChange={(priority) => setFormData(prev => ({ ...prev, priority: priority as TaskPriority }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(PRIORITY_STYLES) as TaskPriority[]).map(priority => (
+                        <SelectItem key={priority} value={priority} className="capitalize">
+                          {priority}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleCreateTask} disabled={!formData.title.trim()}>
+                  Create Task
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Views */}
+      <div className="flex items-center justify-between">
+        <Tabs value={view} onValueChange={(value) => setView(value as TaskView)}>
+          <TabsList>
+            <TabsTrigger value="mine">My Tasks</TabsTrigger>
+            <TabsTrigger value="overdue">Overdue</TabsTrigger>
+            <TabsTrigger value="all">All</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        {view !== 'overdue' && (
+          <label className="flex items-center space-x-2 text-sm text-muted-foreground">
+            <Checkbox checked={showCompleted} onCheckedChange={(checked) => setShowCompleted(checked === true)} />
+            <span>Show completed</span>
+          </label>
+        )}
+      </div>
+
+      {/* Task List */}
+      <Card>
+        <CardContent className="divide-y p-0">
+          {loading ? (
+            Array.from({ length: 5 }).map((_, i) => (
+              <div key={i} className="p-4">
+                <Skeleton className="h-5 w-2/3" />
+              </div>
+            ))
+          ) : tasks.length === 0 ? (
+            <p className="p-8 text-center text-sm text-muted-foreground">
+              {view === 'overdue' ? 'Nothing overdue.' : 'No tasks yet.'}
+            </p>
+          ) : (
+            tasks.map((task) => (
+              <div key={task.id} className="flex items-start gap-3 p-4">
+                <Checkbox
+                  className="mt-1"
+                  checked={!!task.completedAt}
+                  onCheckedChange={() => handleToggle(task)}
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className={task.completedAt ? 'text-muted-foreground line-through' : 'font-medium'}>
+                      {task.title}
+                    </span>
+                    <Badge variant="secondary" className={`capitalize ${PRIORITY_STYLES[task.priority]}`}>
+                      {task.priority}
+                    </Badge>
+                  </div>
+                  {task.description && (
+                    <p className="mt-1 text-sm text-muted-foreground line-clamp-2">{task.description}</p>
+                  )}
+                  <div className="mt-2 flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+                    {task.dueAt && (
+                      <span className={`flex items-center gap-1 ${isOverdue(task) ? 'font-medium text-red-600' : ''}`}>
+                        <Calendar className="h-3 w-3" />
+                        {new Date(task.dueAt).toLocaleString()}
+                      </span>
+                    )}
+                    {task.contact && (
+                      <span className="flex items-center gap-1">
+                        <User className="h-3 w-3" />
+                        {task.contact.firstName} {task.contact.lastName}
+                      </span>
+                    )}
+                    {task.deal && (
+                      <span className="flex items-center gap-1">
+                        <DollarSign className="h-3 w-3" />
+                        {task.deal.title}
+                      </span>
+                    )}
+                    {view !== 'mine' && task.assignee && (
+                      <span>Assigned to {task.assignee.name || task.assignee.email}</span>
+                    )}
+                  </div>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(task.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { RotateCcw } from 'lucide-react';
+import { useOrg } from '@/components/org/org-provider';
+import { apiClient, TrashEntity, TrashItem } from '@/lib/api';
+import { trackEvent } from '@/lib/posthog';
+
+type TrashView = 'all' | TrashEntity;
+
+export default function TrashPage() {
+  const { currentOrg } = useOrg();
+  const [view, setView] = useState<TrashView>('all');
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (currentOrg) {
+      loadTrash();
+    }
+  }, [currentOrg, view]);
+
+  const loadTrash = async () => {
+    try {
+      setLoading(true);
+      const response = await apiClient.getTrash({
+        entity: view === 'all' ? undefined : view,
+        limit: 100,
+      });
+      setItems(response.data || []);
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    setRestoring(item.id);
+    setError(null);
+
+    try {
+      const response = await apiClient.restoreFromTrash(item.entity, item.id);
+      if (!response.success) {
+        // e.g. a deal whose contact is still in the trash
+        setError(response.message || response.error || 'Failed to restore');
+        return;
+      }
+
+      trackEvent('record_restored', { orgId: currentOrg?.id, entity: item.entity });
+      setItems(prev => prev.filter(i => i.id !== item.id));
+    } catch (error) {
+      console.error('Failed to restore record:', error);
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Trash</h1>
+        <p className="text-muted-foreground">
+          Deleted contacts and deals are kept here until they are purged. Restoring a contact brings back its
+          deals, activities, appointments and tasks.
+        </p>
+      </div>
+
+      <Tabs value={view} onValueChange={(value) => setView(value as TrashView)}>
+        <TabsList>
+          <TabsTrigger value="all">All</TabsTrigger>
+          <TabsTrigger value="contact">Contacts</TabsTrigger>
+          <TabsTrigger value="deal">Deals</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <Card>
+        <CardContent className="divide-y p-0">
+          {loading ? (
+            Array.from({ length: 5 }).map((_, i) => (
+              <div key={i} className="p-4">
+                <Skeleton className="h-5 w-1/2" />
+              </div>
+            ))
+          ) : items.length === 0 ? (
+            <p className="p-8 text-center text-sm text-muted-foreground">The trash is empty.</p>
+          ) : (
+            items.map((item) => (
+              <div key={`${item.entity}:${item.id}`} className="flex items-center gap-4 p-4">
+                <Badge variant="outline" className="capitalize">
+                  {item.entity}
+                </Badge>
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium">{item.title}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {item.subtitle ? `${item.subtitle} · ` : ''}
+                    Deleted {new Date(item.deletedAt).toLocaleDateString()}, purged{' '}
+                    {new Date(item.purgeAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={restoring === item.id}
+                  onClick={() => handleRestore(item)}
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Restore
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
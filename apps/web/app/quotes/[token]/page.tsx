@@ -0,0 +1,207 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { CheckCircle2, Download, XCircle } from 'lucide-react';
+import { apiClient, PublicQuote } from '@/lib/api';
+
+const formatMoney = (cents: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(cents / 100);
+
+// Signed quote link opened by the client; no sign-in required
+export default function PublicQuotePage() {
+  // useParams returns null when rendered outside the App Router
+  const token = useParams<{ token: string }>()?.token;
+  const [quote, setQuote] = useState<PublicQuote | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (token) {
+      loadQuote();
+    } else {
+      setLoading(false);
+    }
+  }, [token]);
+
+  const loadQuote = async () => {
+    if (!token) return;
+
+    try {
+      setLoading(true);
+      const response = await apiClient.getPublicQuote(token);
+      setQuote(response.data || null);
+      if (response.data) {
+        setName(response.data.content.contact.name);
+      }
+    } catch (error) {
+      console.error('Failed to load quote:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const respond = async (decision: 'accept' | 'decline') => {
+    if (!token) return;
+
+    setSubmitting(true);
+    setError(null);
+
+    const response = await apiClient.respondToQuote(token, decision, {
+      name: name.trim() || undefined,
+      note: note.trim() || undefined,
+    });
+    if (response.success && response.data) {
+      setQuote(response.data);
+    } else {
+      setError(response.message || response.error || 'Something went wrong');
+    }
+
+    setSubmitting(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="mx-auto max-w-3xl space-y-4 p-6">
+        <Skeleton className="h-12 w-64" />
+        <Skeleton className="h-96" />
+      </div>
+    );
+  }
+
+  if (!token || !quote) {
+    return (
+      <div className="mx-auto max-w-3xl p-6">
+        <p className="text-muted-foreground">This quote link is invalid or has expired.</p>
+      </div>
+    );
+  }
+
+  const { content } = quote;
+  const canRespond = quote.status === 'sent' && !quote.expired;
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-6 p-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          {content.branding.logoUrl && <img src={content.branding.logoUrl} alt="" className="h-10 w-auto" />}
+          <h1 className="text-2xl font-bold" style={{ color: content.branding.accentColor ?? undefined }}>
+            {content.branding.name}
+          </h1>
+        </div>
+        <Button variant="outline" asChild>
+          <a href={apiClient.publicQuotePdfUrl(token)} target="_blank" rel="noreferrer">
+            <Download className="mr-2 h-4 w-4" />
+            PDF
+          </a>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{content.deal.title}</CardTitle>
+          <CardDescription>
+            Quote {content.number} for {content.contact.name}, valid until{' '}
+            {new Date(content.validUntil).toLocaleDateString()}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2">Item</th>
+                <th className="py-2 text-right">Qty</th>
+                <th className="py-2 text-right">Unit price</th>
+                <th className="py-2 text-right">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {content.items.map((item, index) => (
+                <tr key={index} className="border-b">
+                  <td className="py-2">
+                    {item.name}
+                    {item.discountPercent > 0 && (
+                      <span className="ml-2 text-xs text-muted-foreground">-{item.discountPercent}%</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-right">{item.quantity}</td>
+                  <td className="py-2 text-right">{formatMoney(item.unitPriceCents, content.currency)}</td>
+                  <td className="py-2 text-right">{formatMoney(item.amountCents, content.currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="ml-auto w-64 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span>Subtotal</span>
+              <span>{formatMoney(content.totals.amountCents, content.currency)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Tax</span>
+              <span>{formatMoney(content.totals.taxCents, content.currency)}</span>
+            </div>
+            <div className="flex justify-between text-base font-semibold">
+              <span>Total</span>
+              <span>{formatMoney(content.totals.totalCents, content.currency)}</span>
+            </div>
+          </div>
+
+          {content.notes && <p className="whitespace-pre-line text-sm">{content.notes}</p>}
+          {content.branding.quoteTerms && (
+            <p className="whitespace-pre-line text-xs text-muted-foreground">{content.branding.quoteTerms}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {quote.status === 'accepted' || quote.status === 'declined' ? (
+        <Card>
+          <CardContent className="flex items-center gap-3 p-6">
+            {quote.status === 'accepted' ? (
+              <CheckCircle2 className="h-6 w-6 text-green-600" />
+            ) : (
+              <XCircle className="h-6 w-6 text-muted-foreground" />
+            )}
+            <p>
+              {quote.status === 'accepted' ? 'Accepted' : 'Declined'}
+              {quote.responderName && ` by ${quote.responderName}`}
+              {quote.respondedAt && ` on ${new Date(quote.respondedAt).toLocaleDateString()}`}.
+            </p>
+          </CardContent>
+        </Card>
+      ) : canRespond ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Your response</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Input value={name} onChange={e => setName(e.target.value)} placeholder="Your name" />
+            <Textarea value={note} onChange={e => setNote(e.target.value)} placeholder="Note (optional)" />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex gap-2">
+              <Button onClick={() => respond('accept')} disabled={submitting}>
+                Accept quote
+              </Button>
+              <Button variant="outline" onClick={() => respond('decline')} disabled={submitting}>
+                Decline
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Badge variant="secondary">
+          {quote.status === 'superseded' ? 'This quote was replaced by a newer version' : 'This quote has expired'}
+        </Badge>
+      )}
+    </div>
+  );
+}
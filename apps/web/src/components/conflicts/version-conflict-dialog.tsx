@@ -0,0 +1,74 @@
+'use client';
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+export interface ConflictField {
+  label: string;
+  mine: unknown;
+  theirs: unknown;
+}
+
+interface VersionConflictDialogProps {
+  open: boolean;
+  // e.g. "deal" or "contact"
+  resource: string;
+  fields: ConflictField[];
+  onKeepMine: () => void;
+  onUseTheirs: () => void;
+}
+
+const display = (value: unknown) =>
+  value === undefined || value === null || value === '' ? '—' : Array.isArray(value) ? value.join(', ') : String(value);
+
+// Shown when an update is rejected because someone else saved the record first
+export function VersionConflictDialog({ open, resource, fields, onKeepMine, onUseTheirs }: VersionConflictDialogProps) {
+  const changed = fields.filter(field => display(field.mine) !== display(field.theirs));
+
+  return (
+    <AlertDialog open={open}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>This {resource} was changed by someone else</AlertDialogTitle>
+          <AlertDialogDescription>
+            Your changes were not saved. Keep yours to overwrite their edit, or use the latest version.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {changed.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2">Field</th>
+                <th className="py-2">Yours</th>
+                <th className="py-2">Latest</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changed.map(field => (
+                <tr key={field.label} className="border-b">
+                  <td className="py-2 font-medium">{field.label}</td>
+                  <td className="py-2">{display(field.mine)}</td>
+                  <td className="py-2">{display(field.theirs)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onUseTheirs}>Use latest</AlertDialogCancel>
+          <AlertDialogAction onClick={onKeepMine}>Keep mine</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Calendar, DollarSign, MessageSquare, Phone, Star, StickyNote } from 'lucide-react';
+import { apiClient, TimelineItem, TimelineItemType } from '@/lib/api';
+
+interface ContactTimelineProps {
+  contactId: string;
+}
+
+const TYPES: { type: TimelineItemType; label: string; icon: typeof StickyNote }[] = [
+  { type: 'activity', label: 'Activities', icon: StickyNote },
+  { type: 'message', label: 'Messages', icon: MessageSquare },
+  { type: 'appointment', label: 'Appointments', icon: Calendar },
+  { type: 'deal_change', label: 'Deals', icon: DollarSign },
+  { type: 'call', label: 'Calls', icon: Phone },
+  { type: 'review', label: 'Reviews', icon: Star },
+];
+
+const ICONS = Object.fromEntries(TYPES.map(({ type, icon }) => [type, icon])) as Record<TimelineItemType, typeof StickyNote>;
+
+const PAGE_SIZE = 20;
+
+export function ContactTimeline({ contactId }: ContactTimelineProps) {
+  const [filter, setFilter] = useState<TimelineItemType | null>(null);
+  const [items, setItems] = useState<TimelineItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    setItems([]);
+    setNextCursor(null);
+    loadPage();
+  }, [contactId, filter]);
+
+  const loadPage = async (cursor?: string) => {
+    const requestId = ++latestRequest.current;
+    if (cursor) {
+      setLoadingMore(true);
+    } else {
+      setLoading(true);
+    }
+
+    try {
+      const response = await apiClient.getContactTimeline(contactId, {
+        types: filter ? [filter] : undefined,
+        cursor,
+        limit: PAGE_SIZE,
+      });
+      // Ignore pages for a contact or filter that is no longer shown
+      if (requestId !== latestRequest.current) return;
+      if (response.success) {
+        setItems(prev => (cursor ? [...prev, ...(response.data || [])] : response.data || []));
+        setNextCursor(response.nextCursor);
+      }
+    } catch (error) {
+      console.error('Failed to load timeline:', error);
+    } finally {
+      if (requestId === latestRequest.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1">
+        <Button size="sm" variant={filter === null ? 'secondary' : 'ghost'} onClick={() => setFilter(null)}>
+          All
+        </Button>
+        {TYPES.map(({ type, label }) => (
+          <Button
+            key={type}
+            size="sm"
+            variant={filter === type ? 'secondary' : 'ghost'}
+            onClick={() => setFilter(type)}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="max-h-[360px] space-y-3 overflow-y-auto pr-1">
+        {loading ? (
+          Array.from({ length: 4 }).map((_, i) => <Skeleton key={i} className="h-10 w-full" />)
+        ) : items.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No history yet.</p>
+        ) : (
+          items.map(item => {
+            const Icon = ICONS[item.type];
+            return (
+              <div key={`${item.type}:${item.id}`} className="flex items-start gap-3">
+                <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm">{item.summary}</p>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span>{new Date(item.occurredAt).toLocaleString()}</span>
+                    {item.type === 'activity' && (
+                      <Badge variant="outline" className="capitalize">
+                        {item.data.type}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {nextCursor && !loading && (
+        <Button variant="outline" size="sm" className="w-full" disabled={loadingMore} onClick={() => loadPage(nextCursor)}>
+          {loadingMore ? 'Loading...' : 'Load more'}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -18,7 +18,13 @@ import {
 interface Deal {
   id: string;
   title: string;
-  stage: 'lead' | 'qualified' | 'proposal' | 'won' | 'lost';
+  stageId: string;
+  stage?: {
+    id: string;
+    name: string;
+    type: 'open' | 'won' | 'lost';
+    color?: string;
+  };
   valueCents: number;
   currency: string;
   contact: {
@@ -66,18 +72,18 @@ export function DealCard({ deal, isDragging, onClick }: DealCardProps) {
     }).format(cents / 100);
   };
 
-  const getStageColor = (stage: string) => {
+  const getStageColor = (stage: Deal['stage']) => {
     const colors = {
-      lead: 'bg-gray-100 text-gray-800',
-      qualified: 'bg-blue-100 text-blue-800',
-      proposal: 'bg-yellow-100 text-yellow-800',
       won: 'bg-green-100 text-green-800',
       lost: 'bg-red-100 text-red-800',
     };
-    return colors[stage as keyof typeof colors] || 'bg-gray-100 text-gray-800';
+    if (stage?.type === 'won' || stage?.type === 'lost') {
+      return colors[stage.type];
+    }
+    return stage?.color ? `${stage.color} text-gray-800` : 'bg-gray-100 text-gray-800';
   };
 
-  const isWonOrLost = deal.stage === 'won' || deal.stage === 'lost';
+  const isWonOrLost = deal.stage?.type === 'won' || deal.stage?.type === 'lost';
 
   return (
     <Card
@@ -108,7 +114,7 @@ export function DealCard({ deal, isDragging, onClick }: DealCardProps) {
             </span>
             {isWonOrLost && (
               <div className="flex items-center">
-                {deal.stage === 'won' ? (
+                {deal.stage?.type === 'won' ? (
                   <TrendingUp className="h-3 w-3 text-green-600" />
                 ) : (
                   <TrendingDown className="h-3 w-3 text-red-600" />
@@ -135,7 +141,7 @@ export function DealCard({ deal, isDragging, onClick }: DealCardProps) {
               variant="secondary" 
               className={`text-xs ${getStageColor(deal.stage)}`}
             >
-              {deal.stage.charAt(0).toUpperCase() + deal.stage.slice(1)}
+              {deal.stage?.name}
             </Badge>
             
             <div className="flex items-center text-xs text-muted-foreground">
@@ -1,5 +1,6 @@
 'use client';
 
+import { useDroppable } from '@dnd-kit/core';
 import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -9,7 +10,13 @@ import { DealCard } from './deal-card';
 interface Deal {
   id: string;
   title: string;
-  stage: 'lead' | 'qualified' | 'proposal' | 'won' | 'lost';
+  stageId: string;
+  stage?: {
+    id: string;
+    name: string;
+    type: 'open' | 'won' | 'lost';
+    color?: string;
+  };
   valueCents: number;
   currency: string;
   contact: {
@@ -24,7 +31,9 @@ interface Deal {
 interface Stage {
   id: string;
   name: string;
-  color: string;
+  type: 'open' | 'won' | 'lost';
+  probability: number;
+  color?: string;
 }
 
 interface DealColumnProps {
@@ -35,16 +44,18 @@ interface DealColumnProps {
 
 export function DealColumn({ stage, deals, onDealClick }: DealColumnProps) {
   const dealIds = deals.map(deal => deal.id);
+  const { setNodeRef, isOver } = useDroppable({ id: stage.id });
 
   return (
-    <div className="flex-shrink-0 w-80">
-      <Card>
+    <div ref={setNodeRef} className="flex-shrink-0 w-80">
+      <Card className={isOver ? 'ring-2 ring-primary' : ''}>
         <CardHeader className="pb-3">
           <div className="flex items-center justify-between">
             <div>
               <CardTitle className="text-sm font-medium">{stage.name}</CardTitle>
               <CardDescription>
                 {deals.length} deal{deals.length !== 1 ? 's' : ''}
+                {stage.type === 'open' && ` · ${stage.probability}%`}
               </CardDescription>
             </div>
             <Button variant="ghost" size="icon" className="h-6 w-6">
@@ -0,0 +1,165 @@
+'use client';
+
+import { Fragment, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Calendar, DollarSign, MessageSquare, StickyNote, User } from 'lucide-react';
+import { apiClient, SearchResult, SearchResultType } from '@/lib/api';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const GROUPS: { type: SearchResultType; heading: string; icon: typeof User }[] = [
+  { type: 'contact', heading: 'Contacts', icon: User },
+  { type: 'deal', heading: 'Deals', icon: DollarSign },
+  { type: 'message', heading: 'Messages', icon: MessageSquare },
+  { type: 'activity', heading: 'Activities', icon: StickyNote },
+  { type: 'appointment', heading: 'Appointments', icon: Calendar },
+];
+
+const DEBOUNCE_MS = 200;
+
+// There are no detail pages yet, so results open the list they belong to
+const hrefFor = (result: SearchResult) => {
+  switch (result.type) {
+    case 'deal':
+      return '/deals';
+    case 'message':
+      return '/inbox';
+    case 'appointment':
+      return '/calendar';
+    default:
+      return result.contactId ? `/contacts?contactId=${result.contactId}` : '/deals';
+  }
+};
+
+// Renders the server's <mark> highlights as elements; the rest stays plain text
+function Snippet({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/(<mark>[\s\S]*?<\/mark>)/g).map((part, index) =>
+        part.startsWith('<mark>') ? (
+          <mark key={index} className="rounded-sm bg-yellow-100 px-0.5 text-foreground">
+            {part.slice(6, -7)}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const router = useRouter();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      const requestId = ++latestRequest.current;
+      try {
+        const response = await apiClient.search(q, { limit: 25 });
+        // Ignore responses that arrive after a newer query was sent
+        if (requestId !== latestRequest.current) return;
+        setResults(response.success ? response.data || [] : []);
+      } catch (error) {
+        console.error('Search failed:', error);
+      } finally {
+        if (requestId === latestRequest.current) {
+          setLoading(false);
+        }
+      }
+    }, DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  useEffect(() => {
+    if (!open) {
+      setQuery('');
+      setResults([]);
+    }
+  }, [open]);
+
+  const handleSelect = (result: SearchResult) => {
+    onOpenChange(false);
+    router.push(hrefFor(result));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        {/* Results are ranked by the API, so cmdk's own filtering is turned off */}
+        <Command
+          shouldFilter={false}
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3"
+        >
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder="Search contacts, deals, messages..."
+          />
+          <CommandList className="max-h-[420px]">
+            {query.trim() && !loading && <CommandEmpty>No results found.</CommandEmpty>}
+            {loading && results.length === 0 && (
+              <div className="py-6 text-center text-sm text-muted-foreground">Searching...</div>
+            )}
+            {GROUPS.map(({ type, heading, icon: Icon }) => {
+              const items = results.filter(result => result.type === type);
+              if (items.length === 0) return null;
+
+              return (
+                <CommandGroup key={type} heading={heading}>
+                  {items.map(result => (
+                    <CommandItem
+                      key={`${result.type}:${result.id}`}
+                      value={`${result.type}:${result.id}`}
+                      onSelect={() => handleSelect(result)}
+                      className="items-start"
+                    >
+                      <Icon className="mr-2 mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="truncate font-medium">{result.title}</span>
+                          {result.subtitle && (
+                            <span className="shrink-0 text-xs text-muted-foreground">{result.subtitle}</span>
+                          )}
+                        </div>
+                        {result.snippet && (
+                          <p className="line-clamp-2 text-xs text-muted-foreground">
+                            <Snippet text={result.snippet} />
+                          </p>
+                        )}
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              );
+            })}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
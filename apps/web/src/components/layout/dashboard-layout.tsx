@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useAuth } from '@/components/auth/auth-provider';
 import { OrganizationSelector } from '@/components/layout/organization-selector';
 import { Button } from '@/components/ui/button';
@@ -13,6 +13,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Sidebar } from '@/components/layout/sidebar';
+import { CommandPalette } from '@/components/layout/command-palette';
 import { 
   Menu, 
   X, 
@@ -30,6 +31,20 @@ interface DashboardLayoutProps {
 export function DashboardLayout({ children }: DashboardLayoutProps) {
   const { user, signOut } = useAuth();
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
+
+  // Cmd/Ctrl+K opens the search palette from anywhere in the dashboard
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setSearchOpen(open => !open);
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
 
   const handleSignOut = async () => {
     await signOut();
@@ -85,14 +100,18 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
 
               {/* Center - Search */}
               <div className="flex-1 max-w-lg mx-4">
-                <div className="relative">
+                <button
+                  type="button"
+                  onClick={() => setSearchOpen(true)}
+                  className="relative w-full pl-10 pr-4 py-2 text-left text-gray-400 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-                  <input
-                    type="text"
-                    placeholder="Search contacts, deals, messages..."
-                    className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  />
-                </div>
+                  Search contacts, deals, messages...
+                  <kbd className="absolute right-3 top-1/2 -translate-y-1/2 hidden sm:inline-block rounded border border-gray-200 px-1.5 text-xs text-gray-400">
+                    ⌘K
+                  </kbd>
+                </button>
+                <CommandPalette open={searchOpen} onOpenChange={setSearchOpen} />
               </div>
 
               {/* Right side */}
@@ -15,6 +15,8 @@ import {
   Zap,
   X,
   Building2,
+  CheckSquare,
+  Trash2,
 } from 'lucide-react';
 
 interface SidebarProps {
@@ -24,9 +26,12 @@ interface SidebarProps {
 const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
   { name: 'Contacts', href: '/dashboard/contacts', icon: Users },
+  { name: 'Accounts', href: '/accounts', icon: Building2 },
   { name: 'Deals', href: '/dashboard/deals', icon: TrendingUp },
   { name: 'Inbox', href: '/dashboard/inbox', icon: MessageSquare },
+  { name: 'Tasks', href: '/tasks', icon: CheckSquare },
   { name: 'Calendar', href: '/dashboard/calendar', icon: Calendar },
+  { name: 'Trash', href: '/trash', icon: Trash2 },
   { name: 'Automations', href: '/dashboard/automations', icon: Zap },
   { name: 'Billing', href: '/dashboard/billing', icon: CreditCard },
   { name: 'Settings', href: '/dashboard/settings', icon: Settings },
@@ -14,6 +14,8 @@ export interface ApiResponse<T = any> {
   data?: T;
   error?: string;
   message?: string;
+  // The server's copy when an update was rejected because someone else changed the record
+  conflict?: T;
   pagination?: {
     page: number;
     limit: number;
@@ -29,24 +31,618 @@ export interface Contact {
   lastName?: string;
   email?: string;
   phone?: string;
+  accountId?: string | null;
+  account?: Pick<Account, 'id' | 'name'> | null;
+  ownerId?: string | null;
+  owner?: { id: string; name?: string; email: string } | null;
   tags: string[];
+  customFields: Record<string, any>;
+  leadScore: number;
+  leadScoredAt?: string | null;
+  // IANA zone; the organization's timezone applies when empty
+  timezone?: string | null;
+  // Sent back on updates so edits based on an older copy are rejected
+  version: number;
   createdAt: string;
   updatedAt: string;
   deals?: Deal[];
   appointments?: Appointment[];
 }
 
+export interface Account {
+  id: string;
+  orgId: string;
+  name: string;
+  domain?: string | null;
+  phone?: string | null;
+  website?: string | null;
+  industry?: string | null;
+  address?: string | null;
+  notes?: string | null;
+  contactsCount: number;
+  openDealsCount: number;
+  openDealValueCents: number;
+  lastActivityAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AccountDetail extends Account {
+  contacts: Pick<Contact, 'id' | 'firstName' | 'lastName' | 'email' | 'phone' | 'tags' | 'leadScore'>[];
+  deals: (Deal & {
+    contact?: Pick<Contact, 'id' | 'firstName' | 'lastName'>;
+    stage?: Pick<PipelineStage, 'id' | 'name' | 'type'>;
+  })[];
+}
+
+export type AccountInput = Pick<Account, 'name' | 'domain' | 'phone' | 'website' | 'industry' | 'address' | 'notes'>;
+
+export type TrashEntity = 'contact' | 'deal';
+
+export interface TrashItem {
+  entity: TrashEntity;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+export type AssignmentStrategy = 'round_robin' | 'load_balanced';
+
+export type LeadSource = 'sms' | 'email' | 'api';
+
+export interface AssignmentRule {
+  id: string;
+  orgId: string;
+  name: string;
+  strategy: AssignmentStrategy;
+  tags: string[];
+  sources: LeadSource[];
+  assigneeIds: string[];
+  position: number;
+  isEnabled: boolean;
+  lastAssigneeId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AssignmentRuleInput = Pick<AssignmentRule, 'name' | 'assigneeIds'> &
+  Partial<Pick<AssignmentRule, 'strategy' | 'tags' | 'sources' | 'position' | 'isEnabled'>>;
+
+export type SegmentOperator =
+  | 'eq'
+  | 'neq'
+  | 'contains'
+  | 'starts_with'
+  | 'in'
+  | 'not_in'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'before'
+  | 'after'
+  | 'within_last_days'
+  | 'not_within_last_days'
+  | 'has_any'
+  | 'has_all'
+  | 'has_none'
+  | 'is_set'
+  | 'is_not_set';
+
+export type SegmentFilter =
+  | { field: string; op: SegmentOperator; value?: unknown }
+  | { and: SegmentFilter[] }
+  | { or: SegmentFilter[] };
+
+export interface Segment {
+  id: string;
+  orgId: string;
+  name: string;
+  description?: string | null;
+  filter: SegmentFilter;
+  isShared: boolean;
+  createdBy?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface Deal {
   id: string;
   orgId: string;
   contactId: string;
+  accountId?: string | null;
+  pipelineId: string;
+  stageId: string;
+  ownerId?: string | null;
   title: string;
-  stage: 'lead' | 'qualified' | 'proposal' | 'won' | 'lost';
   valueCents: number;
   currency: string;
+  probability: number;
+  customFields: Record<string, any>;
+  closedAt?: string;
+  version: number;
   createdAt: string;
   updatedAt: string;
   contact?: Contact;
+  account?: Pick<Account, 'id' | 'name'> | null;
+  pipeline?: Pick<Pipeline, 'id' | 'name'>;
+  stage?: Pick<PipelineStage, 'id' | 'name' | 'type' | 'position' | 'color'>;
+  owner?: { id: string; name?: string; email: string } | null;
+  lineItems?: DealLineItem[];
+}
+
+export interface DealLineItem {
+  id: string;
+  orgId: string;
+  dealId: string;
+  // Services catalog entry the item was priced from, if any
+  serviceId: string | null;
+  name: string;
+  quantity: string;
+  unitPriceCents: number;
+  discountPercent: string;
+  taxRate: string;
+  // Quantity x unit price less the discount
+  amountCents: number;
+  taxCents: number;
+  position: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DealLineItemInput {
+  serviceId?: string | null;
+  name?: string;
+  quantity?: number;
+  unitPriceCents?: number;
+  discountPercent?: number;
+  taxRate?: number;
+}
+
+export interface DealLineItems {
+  items: DealLineItem[];
+  totals: { amountCents: number; taxCents: number; totalCents: number };
+}
+
+export interface ServiceRevenue {
+  period: { from: string; to: string };
+  currency: string;
+  revenueCents: number;
+  services: {
+    // null groups items not linked to a service
+    serviceId: string | null;
+    name: string | null;
+    deals: number;
+    quantity: number;
+    revenueCents: number;
+    byCurrency: Record<string, number>;
+    unconverted: Record<string, number>;
+  }[];
+  // Won deals without line items
+  unitemized: {
+    deals: number;
+    revenueCents: number;
+    byCurrency: Record<string, number>;
+    unconverted: Record<string, number>;
+  };
+}
+
+export interface OrgBranding {
+  // Organization name unless displayName is set
+  name: string;
+  displayName: string | null;
+  logoUrl: string | null;
+  accentColor: string | null;
+  email: string | null;
+  phone: string | null;
+  website: string | null;
+  address: string | null;
+  quoteTerms: string | null;
+  quoteFooter: string | null;
+}
+
+export interface QuietHoursSettings {
+  timezone: string;
+  // Local HH:MM; both null when quiet hours are off
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+}
+
+export interface MessagingProviderOption {
+  id: string;
+  name: string;
+  configured: boolean;
+}
+
+export interface ChannelProviderSettings {
+  // null follows the server default
+  provider: string | null;
+  active: string;
+  available: MessagingProviderOption[];
+}
+
+export interface MessagingProviderSettings {
+  // The server records every send in its sandbox outbox
+  sandboxForced: boolean;
+  sms: ChannelProviderSettings;
+  email: ChannelProviderSettings;
+}
+
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'declined' | 'superseded';
+
+// What a quote version was rendered from, frozen at generation
+export interface QuoteContent {
+  number: string;
+  version: number;
+  issuedAt: string;
+  validUntil: string;
+  currency: string;
+  branding: OrgBranding;
+  deal: { id: string; title: string };
+  contact: { id: string; name: string; email: string | null; phone: string | null; accountName: string | null };
+  items: {
+    name: string;
+    quantity: number;
+    unitPriceCents: number;
+    discountPercent: number;
+    taxRate: number;
+    amountCents: number;
+    taxCents: number;
+  }[];
+  totals: { amountCents: number; taxCents: number; totalCents: number };
+  notes: string | null;
+}
+
+export interface Quote {
+  id: string;
+  orgId: string;
+  dealId: string;
+  version: number;
+  status: QuoteStatus;
+  currency: string;
+  amountCents: number;
+  taxCents: number;
+  totalCents: number;
+  validUntil: string;
+  content: QuoteContent;
+  sentTo: string | null;
+  sentAt: string | null;
+  viewedAt: string | null;
+  respondedAt: string | null;
+  responderName: string | null;
+  responseNote: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What the client sees through a signed quote link
+export interface PublicQuote {
+  id: string;
+  version: number;
+  status: QuoteStatus;
+  expired: boolean;
+  validUntil: string;
+  respondedAt: string | null;
+  responderName: string | null;
+  content: QuoteContent;
+}
+
+export interface DealStageChange {
+  id: string;
+  dealId: string;
+  pipelineId: string;
+  fromStageId: string | null;
+  toStageId: string;
+  ownerId: string | null;
+  changedBy: string | null;
+  changedAt: string;
+  fromStage: Pick<PipelineStage, 'id' | 'name' | 'type'> | null;
+  toStage: Pick<PipelineStage, 'id' | 'name' | 'type'> | null;
+  durationMs: number | null;
+}
+
+export interface PipelineStage {
+  id: string;
+  orgId: string;
+  pipelineId: string;
+  name: string;
+  type: 'open' | 'won' | 'lost';
+  probability: number;
+  position: number;
+  color?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Pipeline {
+  id: string;
+  orgId: string;
+  name: string;
+  isDefault: boolean;
+  position: number;
+  stages: PipelineStage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PipelineStageMetrics {
+  deals: number;
+  stages: {
+    stageId: string;
+    name: string;
+    type: PipelineStage['type'];
+    position: number;
+    entered: number;
+    current: number;
+    averageDays: number | null;
+  }[];
+  conversions: {
+    fromStageId: string;
+    fromStage: string;
+    toStageId: string;
+    toStage: string;
+    reached: number;
+    converted: number;
+    rate: number;
+  }[];
+  velocity: {
+    opportunities: number;
+    won: number;
+    lost: number;
+    winRate: number;
+    // Won value in the base currency, and the original amounts per deal currency
+    wonValueCents: number;
+    wonValueByCurrency: Record<string, number>;
+    averageDealCents: number;
+    salesCycleDays: number;
+    centsPerDay: number;
+  };
+}
+
+export interface PipelineAnalytics {
+  period: { from: string; to: string };
+  currency: string;
+  pipelines: (PipelineStageMetrics & {
+    pipelineId: string;
+    name: string;
+    owners: (PipelineStageMetrics & {
+      ownerId: string | null;
+      owner: { id: string; name?: string; email: string } | null;
+    })[];
+  })[];
+}
+
+export interface FxRate {
+  id: string;
+  orgId: string;
+  currency: string;
+  // Value of one unit of `currency` in the base currency
+  rate: string;
+  effectiveDate: string;
+  source: 'manual' | 'import';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ConsentChannel = 'sms' | 'email' | 'whatsapp';
+export type ConsentStatus = 'opted_in' | 'opted_out';
+export type ConsentSource = 'keyword' | 'manual' | 'api' | 'import' | 'webform' | 'bounce';
+
+export interface ConsentEvent {
+  id: string;
+  orgId: string;
+  contactId?: string | null;
+  channel: ConsentChannel;
+  address: string;
+  status: ConsentStatus;
+  source: ConsentSource;
+  keyword?: string | null;
+  note?: string | null;
+  actorId?: string | null;
+  createdAt: string;
+}
+
+export interface ContactConsent {
+  channels: {
+    channel: ConsentChannel;
+    address: string | null;
+    // Null when nothing has been recorded; the address may be messaged
+    status: ConsentStatus | null;
+    source: ConsentSource | null;
+    updatedAt: string | null;
+    canSend: boolean;
+  }[];
+  history: ConsentEvent[];
+}
+
+export interface MessageTemplate {
+  id: string;
+  orgId: string;
+  name: string;
+  description?: string | null;
+  channel: ConsentChannel;
+  currentVersion: number;
+  archivedAt?: string | null;
+  createdBy?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  // Content of the current version
+  subject: string | null;
+  text: string | null;
+  html: string | null;
+  variables: string[];
+}
+
+export interface MessageTemplateVersion {
+  id: string;
+  templateId: string;
+  version: number;
+  subject: string | null;
+  text: string | null;
+  html: string | null;
+  variables: string[];
+  createdBy?: string | null;
+  createdAt: string;
+}
+
+export type MessageTemplateInput = Pick<MessageTemplate, 'name' | 'channel'> &
+  Partial<Pick<MessageTemplate, 'description' | 'subject' | 'text' | 'html'>>;
+
+export interface TemplateVariable {
+  // e.g. contact.firstName, used as {{contact.firstName}}
+  name: string;
+  label: string;
+  example: string;
+}
+
+export interface TemplatePreview {
+  templateId: string;
+  name: string;
+  channel: ConsentChannel;
+  version: number;
+  subject: string | null;
+  text: string | null;
+  html: string | null;
+  // Variables with no value, shown with their example
+  missing: string[];
+}
+
+export type ScheduledMessageStatus = 'pending' | 'sent' | 'canceled' | 'failed';
+
+export interface ScheduledMessage {
+  id: string;
+  orgId: string;
+  contactId: string | null;
+  contact?: Pick<Contact, 'id' | 'firstName' | 'lastName' | 'email' | 'phone' | 'timezone'> | null;
+  channel: 'sms' | 'email';
+  toAddr: string;
+  fromAddr: string | null;
+  subject: string | null;
+  body: string | null;
+  templateId: string | null;
+  // The time asked for
+  sendAt: string;
+  // When it goes out, after quiet hours
+  scheduledFor: string;
+  status: ScheduledMessageStatus;
+  messageId: string | null;
+  error: string | null;
+  createdBy: string | null;
+  sentAt: string | null;
+  canceledAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MessageSuppression {
+  id: string;
+  orgId: string;
+  contactId?: string | null;
+  channel: ConsentChannel;
+  toAddr: string;
+  reason: 'opted_out' | 'hard_bounce';
+  source: string;
+  createdAt: string;
+}
+
+export interface PrivacyRequest {
+  id: string;
+  orgId: string;
+  contactId: string;
+  type: 'export' | 'erasure';
+  // partial when a source could not be reached or did not verify
+  status: 'completed' | 'partial';
+  reference?: string | null;
+  requestedBy?: string | null;
+  report: Record<string, any>;
+  reportHash: string;
+  createdAt: string;
+  // Set when fetched singly: whether the report still matches its hash
+  verified?: boolean;
+}
+
+export interface AuditLog {
+  id: string;
+  business_id: string | null;
+  organization_id: string | null;
+  user_id: string | null;
+  // create, update, delete or a named route action such as merge or line_items.delete
+  action: string;
+  resource_type: string;
+  resource_id: string | null;
+  // Only the fields that changed for updates
+  old_values: Record<string, any> | null;
+  new_values: Record<string, any> | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  metadata: Record<string, any> | null;
+  created_at: string;
+}
+
+export interface AuditLogFilters {
+  resourceType?: string;
+  resourceId?: string;
+  userId?: string;
+  action?: string;
+  from?: string;
+  to?: string;
+}
+
+export type TaskPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+export interface Task {
+  id: string;
+  orgId: string;
+  title: string;
+  description?: string | null;
+  priority: TaskPriority;
+  dueAt?: string | null;
+  remindAt?: string | null;
+  reminderSentAt?: string | null;
+  assigneeId?: string | null;
+  contactId?: string | null;
+  dealId?: string | null;
+  completedAt?: string | null;
+  completedBy?: string | null;
+  createdBy?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  assignee?: { id: string; name?: string; email: string } | null;
+  contact?: Pick<Contact, 'id' | 'firstName' | 'lastName' | 'email' | 'phone'> | null;
+  deal?: Pick<Deal, 'id' | 'title' | 'valueCents' | 'currency'> | null;
+}
+
+export type TaskInput = Partial<
+  Pick<Task, 'description' | 'priority' | 'dueAt' | 'remindAt' | 'assigneeId' | 'contactId' | 'dealId'>
+> & { title: string };
+
+export type SearchResultType = 'contact' | 'deal' | 'activity' | 'message' | 'appointment';
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  // Record text with matches wrapped in <mark></mark>; everything else is unescaped text
+  snippet: string;
+  rank: number;
+  contactId: string | null;
+  dealId: string | null;
+  createdAt: string;
+}
+
+export type TimelineItemType = 'activity' | 'message' | 'appointment' | 'deal_change' | 'call' | 'review';
+
+export interface TimelineItem {
+  type: TimelineItemType;
+  id: string;
+  occurredAt: string;
+  summary: string;
+  // The underlying record; its shape depends on `type`
+  data: Record<string, any>;
 }
 
 export interface Appointment {
@@ -57,6 +653,7 @@ export interface Appointment {
   endsAt: string;
   status: 'pending' | 'confirmed' | 'completed' | 'no_show' | 'canceled';
   location?: string;
+  version: number;
   createdAt: string;
   contact?: Contact;
 }
@@ -64,13 +661,88 @@ export interface Appointment {
 export interface Message {
   id: string;
   orgId: string;
+  contactId?: string | null;
+  conversationId?: string | null;
   direction: 'inbound' | 'outbound';
   channel: 'sms' | 'email' | 'whatsapp';
   toAddr: string;
   fromAddr: string;
   body: string;
   meta?: Record<string, any>;
+  providerMessageId?: string | null;
+  // Outbound messages with a provider ID only
+  deliveryStatus?: MessageDeliveryStatus | null;
+  deliveryStatusAt?: string | null;
+  createdAt: string;
+}
+
+export type MessageDeliveryStatus = 'queued' | 'sent' | 'delivered' | 'opened' | 'failed' | 'bounced';
+
+export interface MessageStatusEvent {
+  id: string;
+  messageId: string;
+  status: MessageDeliveryStatus;
+  provider: 'twilio' | 'sendgrid';
+  // e.g. undelivered or bounce
+  providerStatus: string;
+  providerEventId: string | null;
+  errorCode: string | null;
+  reason: string | null;
+  occurredAt: string;
+  createdAt: string;
+}
+
+export interface MessageDelivery extends Pick<
+  Message,
+  'id' | 'channel' | 'direction' | 'toAddr' | 'providerMessageId' | 'deliveryStatus' | 'deliveryStatusAt' | 'createdAt'
+> {
+  statusEvents: MessageStatusEvent[];
+}
+
+export interface ChannelDelivery {
+  channel: Message['channel'];
+  tracked: number;
+  pending: number;
+  // Includes opened
+  delivered: number;
+  opened: number;
+  failed: number;
+  bounced: number;
+  deliveryRate: number;
+  bounceRate: number;
+  openRate: number;
+}
+
+export interface MessageDeliveryAnalytics {
+  from: string;
+  to: string;
+  channels: ChannelDelivery[];
+}
+
+export type ConversationStatus = 'active' | 'closed';
+
+export type ConversationPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+export interface Conversation {
+  id: string;
+  orgId: string;
+  contactId?: string | null;
+  channel: Message['channel'];
+  // Phone number or email of the other party
+  address?: string | null;
+  status: ConversationStatus;
+  assignedTo?: string | null;
+  priority: ConversationPriority;
+  unreadCount: number;
+  lastMessageAt?: string | null;
+  lastInboundAt?: string | null;
+  lastOutboundAt?: string | null;
   createdAt: string;
+  updatedAt: string;
+  contact?: Pick<Contact, 'id' | 'firstName' | 'lastName' | 'email' | 'phone'> | null;
+  assignee?: { id: string; name?: string; email: string } | null;
+  // The latest message when listed, the whole thread when fetched by id
+  messages?: Message[];
 }
 
 export interface Activity {
@@ -78,12 +750,86 @@ export interface Activity {
   orgId: string;
   contactId?: string;
   dealId?: string;
-  type: 'note' | 'call' | 'sms' | 'email' | 'task';
+  type: 'note' | 'call' | 'sms' | 'email' | 'task' | 'assignment';
   content: string;
   meta?: Record<string, any>;
   createdAt: string;
 }
 
+export interface CustomField {
+  id: string;
+  orgId: string;
+  entity: 'contact' | 'deal';
+  key: string;
+  label: string;
+  type: 'text' | 'number' | 'date' | 'select' | 'multi_select' | 'boolean';
+  options: string[];
+  required: boolean;
+  position: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DuplicateCandidate {
+  id: string;
+  orgId: string;
+  contactId: string;
+  duplicateId: string;
+  score: string;
+  reasons: Array<'phone' | 'email' | 'name'>;
+  status: 'open' | 'dismissed';
+  detectedAt: string;
+  contact: Contact;
+  duplicate: Contact;
+}
+
+export interface ContactImportMapping {
+  columns: Array<{ column: string; field: string }>;
+  defaultTags?: string[];
+}
+
+export interface ContactImport {
+  id: string;
+  orgId: string;
+  createdBy?: string;
+  fileName: string;
+  status: 'uploaded' | 'queued' | 'processing' | 'completed' | 'failed';
+  headers: string[];
+  mapping?: ContactImportMapping;
+  onConflict: 'skip' | 'update';
+  totalRows: number;
+  processedRows: number;
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  errorCount: number;
+  progress: number;
+  startedAt?: string;
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ContactImportDryRun {
+  totalRows: number;
+  toCreate: number;
+  toUpdate: number;
+  toSkip: number;
+  invalidRows: number;
+  errors: Array<{ row: number; field?: string; message: string }>;
+  conflicts: Array<{
+    row: number;
+    field: 'email' | 'phone';
+    value: string;
+    contactId?: string;
+    conflictRow?: number;
+  }>;
+}
+
+// ETag form of a record version, matching what the API sends back
+const ifMatch = (version?: number): Record<string, string> | undefined =>
+  version === undefined ? undefined : { 'If-Match': `W/"${version}"` };
+
 // API client class
 class ApiClient {
   private baseUrl: string;
@@ -122,10 +868,15 @@ class ApiClient {
     options: RequestInit = {}
   ): Promise<ApiResponse<T>> {
     const url = `${this.baseUrl}${endpoint}`;
+    const headers = this.getHeaders() as Record<string, string>;
+    // Let the browser set the multipart boundary for uploads
+    if (options.body instanceof FormData) {
+      delete headers['Content-Type'];
+    }
     const config: RequestInit = {
       ...options,
       headers: {
-        ...this.getHeaders(),
+        ...headers,
         ...options.headers,
       },
     };
@@ -139,6 +890,7 @@ class ApiClient {
           success: false,
           error: data.error || 'Request failed',
           message: data.message,
+          ...(response.status === 409 && data.details?.current && { conflict: data.details.current }),
         };
       }
 
@@ -175,6 +927,12 @@ class ApiClient {
     limit?: number;
     search?: string;
     tags?: string;
+    segmentId?: string;
+    accountId?: string;
+    ownerId?: string;
+    minLeadScore?: number;
+    sortBy?: string;
+    sortOrder?: 'asc' | 'desc';
   }): Promise<ApiResponse<Contact[]>> {
     const searchParams = new URLSearchParams();
     if (params) {
@@ -197,7 +955,10 @@ class ApiClient {
     lastName?: string;
     email?: string;
     phone?: string;
+    accountId?: string | null;
+    ownerId?: string | null;
     tags?: string[];
+    customFields?: Record<string, any>;
   }): Promise<ApiResponse<Contact>> {
     return this.request('/api/crm/contacts', {
       method: 'POST',
@@ -205,9 +966,11 @@ class ApiClient {
     });
   }
 
-  async updateContact(id: string, data: Partial<Contact>): Promise<ApiResponse<Contact>> {
+  // Pass the version that was edited to have the update refused if the contact changed since
+  async updateContact(id: string, data: Partial<Contact>, version?: number): Promise<ApiResponse<Contact>> {
     return this.request(`/api/crm/contacts/${id}`, {
       method: 'PUT',
+      headers: ifMatch(version),
       body: JSON.stringify(data),
     });
   }
@@ -218,13 +981,12 @@ class ApiClient {
     });
   }
 
-  // Deal endpoints
-  async getDeals(params?: {
+  async getDuplicateCandidates(params?: {
     page?: number;
     limit?: number;
-    stage?: string;
-    contactId?: string;
-  }): Promise<ApiResponse<Deal[]>> {
+    status?: 'open' | 'dismissed';
+    minScore?: number;
+  }): Promise<ApiResponse<DuplicateCandidate[]>> {
     const searchParams = new URLSearchParams();
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
@@ -234,42 +996,41 @@ class ApiClient {
       });
     }
     const query = searchParams.toString();
-    return this.request(`/api/crm/deals${query ? `?${query}` : ''}`);
+    return this.request(`/api/crm/contacts/duplicates${query ? `?${query}` : ''}`);
   }
 
-  async createDeal(data: {
-    contactId: string;
-    title: string;
-    stage?: 'lead' | 'qualified' | 'proposal' | 'won' | 'lost';
-    valueCents: number;
-    currency?: string;
-  }): Promise<ApiResponse<Deal>> {
-    return this.request('/api/crm/deals', {
+  async dismissDuplicateCandidate(id: string): Promise<ApiResponse<DuplicateCandidate>> {
+    return this.request(`/api/crm/contacts/duplicates/${id}/dismiss`, {
       method: 'POST',
-      body: JSON.stringify(data),
     });
   }
 
-  async updateDeal(id: string, data: Partial<Deal>): Promise<ApiResponse<Deal>> {
-    return this.request(`/api/crm/deals/${id}`, {
-      method: 'PUT',
-      body: JSON.stringify(data),
+  async mergeContacts(survivorId: string, duplicateIds: string[]): Promise<ApiResponse<{
+    survivor: Contact;
+    mergedContactIds: string[];
+    moved: { deals: number; activities: number; appointments: number; messages: number; conversations: number; scheduledMessages: number; tasks: number };
+  }>> {
+    return this.request(`/api/crm/contacts/${survivorId}/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ duplicateIds }),
     });
   }
 
-  async deleteDeal(id: string): Promise<ApiResponse> {
-    return this.request(`/api/crm/deals/${id}`, {
-      method: 'DELETE',
+  // Contact import endpoints
+  async uploadContactImport(file: File): Promise<ApiResponse<{
+    import: ContactImport;
+    preview: string[][];
+    suggestedMapping: ContactImportMapping;
+  }>> {
+    const body = new FormData();
+    body.append('file', file);
+    return this.request('/api/crm/contacts/imports', {
+      method: 'POST',
+      body,
     });
   }
 
-  // Message endpoints
-  async getMessages(params?: {
-    page?: number;
-    limit?: number;
-    contactId?: string;
-    channel?: string;
-  }): Promise<ApiResponse<Message[]>> {
+  async getContactImports(params?: { page?: number; limit?: number }): Promise<ApiResponse<ContactImport[]>> {
     const searchParams = new URLSearchParams();
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
@@ -279,16 +1040,979 @@ class ApiClient {
       });
     }
     const query = searchParams.toString();
-    return this.request(`/api/crm/messages${query ? `?${query}` : ''}`);
+    return this.request(`/api/crm/contacts/imports${query ? `?${query}` : ''}`);
   }
 
-  async sendMessage(data: {
-    contactId: string;
-    channel: 'sms' | 'email';
-    body: string;
-    subject?: string;
-  }): Promise<ApiResponse<Message>> {
-    return this.request('/api/crm/messages/outbound', {
+  async getContactImport(id: string): Promise<ApiResponse<ContactImport>> {
+    return this.request(`/api/crm/contacts/imports/${id}`);
+  }
+
+  async dryRunContactImport(
+    id: string,
+    data: { mapping: ContactImportMapping; onConflict?: 'skip' | 'update' }
+  ): Promise<ApiResponse<ContactImportDryRun>> {
+    return this.request(`/api/crm/contacts/imports/${id}/dry-run`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async startContactImport(
+    id: string,
+    data: { mapping: ContactImportMapping; onConflict?: 'skip' | 'update' }
+  ): Promise<ApiResponse<ContactImport & { jobId: string }>> {
+    return this.request(`/api/crm/contacts/imports/${id}/start`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async downloadContactImportErrors(id: string): Promise<Blob> {
+    const response = await fetch(`${this.baseUrl}/api/crm/contacts/imports/${id}/errors`, {
+      headers: this.getHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to download error report');
+    }
+    return response.blob();
+  }
+
+  async exportContacts(segmentId?: string): Promise<Blob> {
+    const query = segmentId ? `?segmentId=${segmentId}` : '';
+    const response = await fetch(`${this.baseUrl}/api/crm/contacts/export${query}`, {
+      headers: this.getHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to export contacts');
+    }
+    return response.blob();
+  }
+
+  // Privacy request endpoints
+  async exportContactData(id: string, reference?: string): Promise<Blob> {
+    const response = await fetch(`${this.baseUrl}/api/crm/contacts/${id}/privacy/export`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ reference }),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to export contact data');
+    }
+    return response.blob();
+  }
+
+  async eraseContactData(id: string, data: { confirm: string; reference?: string }): Promise<ApiResponse<PrivacyRequest>> {
+    return this.request(`/api/crm/contacts/${id}/privacy/erase`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async getPrivacyRequests(params?: {
+    contactId?: string;
+    type?: PrivacyRequest['type'];
+    page?: number;
+    limit?: number;
+  }): Promise<ApiResponse<PrivacyRequest[]>> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+    const query = searchParams.toString();
+    return this.request(`/api/crm/privacy/requests${query ? `?${query}` : ''}`);
+  }
+
+  async getPrivacyRequest(id: string): Promise<ApiResponse<PrivacyRequest>> {
+    return this.request(`/api/crm/privacy/requests/${id}`);
+  }
+
+  // Audit log endpoints
+  async getAuditLogs(params?: AuditLogFilters & { page?: number; limit?: number }): Promise<ApiResponse<AuditLog[]>> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+    const query = searchParams.toString();
+    return this.request(`/api/audit-logs${query ? `?${query}` : ''}`);
+  }
+
+  async exportAuditLogs(filters?: AuditLogFilters): Promise<Blob> {
+    const searchParams = new URLSearchParams({ format: 'csv' });
+    Object.entries(filters || {}).forEach(([key, value]) => {
+      if (value !== undefined) {
+        searchParams.append(key, value);
+      }
+    });
+    const response = await fetch(`${this.baseUrl}/api/audit-logs?${searchParams}`, {
+      headers: this.getHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to export audit logs');
+    }
+    return response.blob();
+  }
+
+  // Account endpoints
+  async getAccounts(params?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+    sortBy?: 'name' | 'createdAt';
+    sortOrder?: 'asc' | 'desc';
+  }): Promise<ApiResponse<Account[]>> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+    const query = searchParams.toString();
+    return this.request(`/api/crm/accounts${query ? `?${query}` : ''}`);
+  }
+
+  async getAccount(id: string): Promise<ApiResponse<AccountDetail>> {
+    return this.request(`/api/crm/accounts/${id}`);
+  }
+
+  async createAccount(data: AccountInput): Promise<ApiResponse<Account>> {
+    return this.request('/api/crm/accounts', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateAccount(id: string, data: Partial<AccountInput>): Promise<ApiResponse<Account>> {
+    return this.request(`/api/crm/accounts/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteAccount(id: string): Promise<ApiResponse> {
+    return this.request(`/api/crm/accounts/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Trash endpoints
+  async getTrash(params?: {
+    entity?: TrashEntity;
+    page?: number;
+    limit?: number;
+  }): Promise<ApiResponse<TrashItem[]>> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+    const query = searchParams.toString();
+    return this.request(`/api/crm/trash${query ? `?${query}` : ''}`);
+  }
+
+  async restoreFromTrash(entity: TrashEntity, id: string): Promise<ApiResponse<{
+    record: Contact | Deal;
+    restored: Record<string, number>;
+  }>> {
+    return this.request(`/api/crm/trash/${entity}/${id}/restore`, {
+      method: 'POST',
+    });
+  }
+
+  // Branding endpoints
+  async getBranding(): Promise<ApiResponse<OrgBranding>> {
+    return this.request('/api/crm/branding');
+  }
+
+  async updateBranding(data: Partial<Omit<OrgBranding, 'name'>>): Promise<ApiResponse<OrgBranding>> {
+    return this.request('/api/crm/branding', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Quiet hours endpoints
+  async getQuietHours(): Promise<ApiResponse<QuietHoursSettings>> {
+    return this.request('/api/crm/quiet-hours');
+  }
+
+  async updateQuietHours(data: Partial<QuietHoursSettings>): Promise<ApiResponse<QuietHoursSettings>> {
+    return this.request('/api/crm/quiet-hours', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Messaging provider endpoints
+  async getMessagingProviders(): Promise<ApiResponse<MessagingProviderSettings>> {
+    return this.request('/api/crm/messaging/providers');
+  }
+
+  async updateMessagingProviders(data: {
+    smsProvider?: string | null;
+    emailProvider?: string | null;
+  }): Promise<ApiResponse<MessagingProviderSettings>> {
+    return this.request('/api/crm/messaging/providers', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Currency endpoints
+  async getBaseCurrency(): Promise<ApiResponse<{ baseCurrency: string }>> {
+    return this.request('/api/crm/currency');
+  }
+
+  async updateBaseCurrency(baseCurrency: string): Promise<ApiResponse<{ baseCurrency: string }>> {
+    return this.request('/api/crm/currency', {
+      method: 'PUT',
+      body: JSON.stringify({ baseCurrency }),
+    });
+  }
+
+  async getFxRates(params?: {
+    currency?: string;
+    page?: number;
+    limit?: number;
+  }): Promise<ApiResponse<FxRate[]>> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+    const query = searchParams.toString();
+    return this.request(`/api/crm/fx-rates${query ? `?${query}` : ''}`);
+  }
+
+  async saveFxRate(data: { currency: string; rate: number; effectiveDate: string }): Promise<ApiResponse<FxRate>> {
+    return this.request('/api/crm/fx-rates', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async importFxRates(file: File): Promise<ApiResponse<{ imported: number; currencies: string[] }>> {
+    const body = new FormData();
+    body.append('file', file);
+    return this.request('/api/crm/fx-rates/import', {
+      method: 'POST',
+      body,
+    });
+  }
+
+  async deleteFxRate(id: string): Promise<ApiResponse> {
+    return this.request(`/api/crm/fx-rates/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Assignment rule endpoints
+  async getAssignmentRules(): Promise<ApiResponse<AssignmentRule[]>> {
+    return this.request('/api/crm/assignment/rules');
+  }
+
+  async createAssignmentRule(data: AssignmentRuleInput): Promise<ApiResponse<AssignmentRule>> {
+    return this.request('/api/crm/assignment/rules', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateAssignmentRule(id: string, data: Partial<AssignmentRuleInput>): Promise<ApiResponse<AssignmentRule>> {
+    return this.request(`/api/crm/assignment/rules/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteAssignmentRule(id: string): Promise<ApiResponse> {
+    return this.request(`/api/crm/assignment/rules/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Segment endpoints
+  async getSegments(): Promise<ApiResponse<Segment[]>> {
+    return this.request('/api/crm/segments');
+  }
+
+  async getSegmentFields(): Promise<ApiResponse<Record<string, SegmentOperator[]>>> {
+    return this.request('/api/crm/segments/fields');
+  }
+
+  async previewSegment(filter: SegmentFilter, page = 1, limit = 20): Promise<ApiResponse<Contact[]>> {
+    return this.request('/api/crm/segments/preview', {
+      method: 'POST',
+      body: JSON.stringify({ filter, page, limit }),
+    });
+  }
+
+  async getSegment(id: string): Promise<ApiResponse<Segment>> {
+    return this.request(`/api/crm/segments/${id}`);
+  }
+
+  async getSegmentContacts(id: string, page = 1, limit = 20): Promise<ApiResponse<Contact[]>> {
+    return this.request(`/api/crm/segments/${id}/contacts?page=${page}&limit=${limit}`);
+  }
+
+  async createSegment(data: {
+    name: string;
+    description?: string | null;
+    filter: SegmentFilter;
+    isShared?: boolean;
+  }): Promise<ApiResponse<Segment>> {
+    return this.request('/api/crm/segments', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateSegment(id: string, data: Partial<Pick<Segment, 'name' | 'description' | 'filter' | 'isShared'>>): Promise<ApiResponse<Segment>> {
+    return this.request(`/api/crm/segments/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteSegment(id: string): Promise<ApiResponse> {
+    return this.request(`/api/crm/segments/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async createBroadcast(data: {
+    segmentId: string;
+    channel: 'sms' | 'email';
+    subject?: string;
+    body: string;
+  }): Promise<ApiResponse<{ jobId: string; segmentId: string; channel: 'sms' | 'email'; recipients: number }>> {
+    return this.request('/api/crm/broadcasts', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Deal endpoints
+  async getDeals(params?: {
+    page?: number;
+    limit?: number;
+    pipelineId?: string;
+    stageId?: string;
+    status?: PipelineStage['type'];
+    contactId?: string;
+    accountId?: string;
+    ownerId?: string;
+    sortBy?: string;
+    sortOrder?: 'asc' | 'desc';
+  }): Promise<ApiResponse<Deal[]>> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+    const query = searchParams.toString();
+    return this.request(`/api/crm/deals${query ? `?${query}` : ''}`);
+  }
+
+  async createDeal(data: {
+    contactId: string;
+    accountId?: string | null;
+    title: string;
+    pipelineId?: string;
+    stageId?: string;
+    probability?: number;
+    ownerId?: string | null;
+    // Required unless lineItems are given
+    valueCents?: number;
+    currency?: string;
+    customFields?: Record<string, any>;
+    lineItems?: DealLineItemInput[];
+  }): Promise<ApiResponse<Deal>> {
+    return this.request('/api/crm/deals', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateDeal(id: string, data: Partial<Deal>, version?: number): Promise<ApiResponse<Deal>> {
+    return this.request(`/api/crm/deals/${id}`, {
+      method: 'PUT',
+      headers: ifMatch(version),
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteDeal(id: string): Promise<ApiResponse> {
+    return this.request(`/api/crm/deals/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getDealStageHistory(id: string): Promise<ApiResponse<DealStageChange[]>> {
+    return this.request(`/api/crm/deals/${id}/stage-history`);
+  }
+
+  async getDealQuotes(id: string): Promise<ApiResponse<Quote[]>> {
+    return this.request(`/api/crm/deals/${id}/quotes`);
+  }
+
+  async generateQuote(dealId: string, data?: { validDays?: number; notes?: string | null }): Promise<ApiResponse<Quote>> {
+    return this.request(`/api/crm/deals/${dealId}/quotes`, {
+      method: 'POST',
+      body: JSON.stringify(data || {}),
+    });
+  }
+
+  async sendQuote(id: string, data?: { to?: string; subject?: string; message?: string }): Promise<ApiResponse<Quote & { link: string }>> {
+    return this.request(`/api/crm/quotes/${id}/send`, {
+      method: 'POST',
+      body: JSON.stringify(data || {}),
+    });
+  }
+
+  quotePdfUrl(id: string) {
+    return `${this.baseUrl}/api/crm/quotes/${id}/pdf`;
+  }
+
+  // Public quote links; the token is the only credential
+  async getPublicQuote(token: string): Promise<ApiResponse<PublicQuote>> {
+    return this.request(`/api/public/quotes/${encodeURIComponent(token)}`);
+  }
+
+  async respondToQuote(
+    token: string,
+    decision: 'accept' | 'decline',
+    data?: { name?: string; note?: string }
+  ): Promise<ApiResponse<PublicQuote>> {
+    return this.request(`/api/public/quotes/${encodeURIComponent(token)}/${decision}`, {
+      method: 'POST',
+      body: JSON.stringify(data || {}),
+    });
+  }
+
+  publicQuotePdfUrl(token: string) {
+    return `${this.baseUrl}/api/public/quotes/${encodeURIComponent(token)}/pdf`;
+  }
+
+  async getDealLineItems(id: string): Promise<ApiResponse<DealLineItems>> {
+    return this.request(`/api/crm/deals/${id}/line-items`);
+  }
+
+  async replaceDealLineItems(id: string, items: DealLineItemInput[]): Promise<ApiResponse<DealLineItems>> {
+    return this.request(`/api/crm/deals/${id}/line-items`, {
+      method: 'PUT',
+      body: JSON.stringify({ items }),
+    });
+  }
+
+  async addDealLineItem(id: string, data: DealLineItemInput): Promise<ApiResponse<DealLineItem>> {
+    return this.request(`/api/crm/deals/${id}/line-items`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateDealLineItem(id: string, itemId: string, data: DealLineItemInput): Promise<ApiResponse<DealLineItem>> {
+    return this.request(`/api/crm/deals/${id}/line-items/${itemId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteDealLineItem(id: string, itemId: string): Promise<ApiResponse> {
+    return this.request(`/api/crm/deals/${id}/line-items/${itemId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getPipelineAnalytics(params?: {
+    pipelineId?: string;
+    ownerId?: string;
+    from?: string;
+    to?: string;
+  }): Promise<ApiResponse<PipelineAnalytics>> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+
+    const query = searchParams.toString();
+    return this.request(`/api/crm/analytics/pipelines${query ? `?${query}` : ''}`);
+  }
+
+  async getRevenueByService(params?: { from?: string; to?: string }): Promise<ApiResponse<ServiceRevenue>> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+
+    const query = searchParams.toString();
+    return this.request(`/api/crm/analytics/revenue/services${query ? `?${query}` : ''}`);
+  }
+
+  async getMessageDeliveryAnalytics(params?: { from?: string; to?: string }): Promise<ApiResponse<MessageDeliveryAnalytics>> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+
+    const query = searchParams.toString();
+    return this.request(`/api/crm/analytics/messages/delivery${query ? `?${query}` : ''}`);
+  }
+
+  // Task endpoints
+  async getTasks(params?: {
+    page?: number;
+    limit?: number;
+    view?: 'all' | 'mine' | 'overdue';
+    status?: 'open' | 'completed' | 'all';
+    assigneeId?: string;
+    contactId?: string;
+    dealId?: string;
+    priority?: TaskPriority;
+    dueBefore?: string;
+    dueAfter?: string;
+  }): Promise<ApiResponse<Task[]>> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+    const query = searchParams.toString();
+    return this.request(`/api/crm/tasks${query ? `?${query}` : ''}`);
+  }
+
+  async getTask(id: string): Promise<ApiResponse<Task>> {
+    return this.request(`/api/crm/tasks/${id}`);
+  }
+
+  async createTask(data: TaskInput): Promise<ApiResponse<Task>> {
+    return this.request('/api/crm/tasks', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateTask(id: string, data: Partial<TaskInput>): Promise<ApiResponse<Task>> {
+    return this.request(`/api/crm/tasks/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async completeTask(id: string): Promise<ApiResponse<Task>> {
+    return this.request(`/api/crm/tasks/${id}/complete`, {
+      method: 'POST',
+    });
+  }
+
+  async reopenTask(id: string): Promise<ApiResponse<Task>> {
+    return this.request(`/api/crm/tasks/${id}/reopen`, {
+      method: 'POST',
+    });
+  }
+
+  async deleteTask(id: string): Promise<ApiResponse> {
+    return this.request(`/api/crm/tasks/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Message template endpoints
+  async getMessageTemplates(params?: {
+    channel?: ConsentChannel;
+    includeArchived?: boolean;
+  }): Promise<ApiResponse<MessageTemplate[]>> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+    const query = searchParams.toString();
+    return this.request(`/api/crm/templates${query ? `?${query}` : ''}`);
+  }
+
+  async getTemplateVariables(): Promise<ApiResponse<TemplateVariable[]>> {
+    return this.request('/api/crm/templates/variables');
+  }
+
+  async getMessageTemplate(id: string): Promise<ApiResponse<MessageTemplate>> {
+    return this.request(`/api/crm/templates/${id}`);
+  }
+
+  async getMessageTemplateVersions(id: string): Promise<ApiResponse<MessageTemplateVersion[]>> {
+    return this.request(`/api/crm/templates/${id}/versions`);
+  }
+
+  async createMessageTemplate(data: MessageTemplateInput): Promise<ApiResponse<MessageTemplate>> {
+    return this.request('/api/crm/templates', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateMessageTemplate(
+    id: string,
+    data: Partial<Omit<MessageTemplateInput, 'channel'>>
+  ): Promise<ApiResponse<MessageTemplate>> {
+    return this.request(`/api/crm/templates/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async previewMessageTemplate(
+    id: string,
+    data: {
+      contactId?: string;
+      appointmentId?: string;
+      dealId?: string;
+      variables?: Record<string, string | number>;
+      version?: number;
+    } = {}
+  ): Promise<ApiResponse<TemplatePreview>> {
+    return this.request(`/api/crm/templates/${id}/preview`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async restoreMessageTemplate(id: string): Promise<ApiResponse<MessageTemplate>> {
+    return this.request(`/api/crm/templates/${id}/restore`, {
+      method: 'POST',
+    });
+  }
+
+  async archiveMessageTemplate(id: string): Promise<ApiResponse> {
+    return this.request(`/api/crm/templates/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Scheduled message endpoints
+  async getScheduledMessages(params?: {
+    page?: number;
+    limit?: number;
+    status?: ScheduledMessageStatus;
+    channel?: ScheduledMessage['channel'];
+    contactId?: string;
+    from?: string;
+    to?: string;
+  }): Promise<ApiResponse<ScheduledMessage[]>> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+    const query = searchParams.toString();
+    return this.request(`/api/crm/scheduled-messages${query ? `?${query}` : ''}`);
+  }
+
+  async getScheduledMessage(id: string): Promise<ApiResponse<ScheduledMessage>> {
+    return this.request(`/api/crm/scheduled-messages/${id}`);
+  }
+
+  async cancelScheduledMessage(id: string): Promise<ApiResponse<ScheduledMessage>> {
+    return this.request(`/api/crm/scheduled-messages/${id}/cancel`, {
+      method: 'POST',
+    });
+  }
+
+  // Consent endpoints
+  async getContactConsent(id: string): Promise<ApiResponse<ContactConsent>> {
+    return this.request(`/api/crm/contacts/${id}/consent`);
+  }
+
+  async recordContactConsent(
+    id: string,
+    data: { channel: ConsentChannel; status: ConsentStatus; source?: Exclude<ConsentSource, 'keyword' | 'bounce'>; note?: string }
+  ): Promise<ApiResponse<ConsentEvent>> {
+    return this.request(`/api/crm/contacts/${id}/consent`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async getMessageSuppressions(params?: {
+    channel?: ConsentChannel;
+    contactId?: string;
+    page?: number;
+    limit?: number;
+  }): Promise<ApiResponse<MessageSuppression[]>> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+    const query = searchParams.toString();
+    return this.request(`/api/crm/consent/suppressions${query ? `?${query}` : ''}`);
+  }
+
+  // Search endpoints
+  async getContactTimeline(
+    id: string,
+    params?: { types?: TimelineItemType[]; cursor?: string; limit?: number }
+  ): Promise<ApiResponse<TimelineItem[]> & { nextCursor: string | null }> {
+    const searchParams = new URLSearchParams();
+    if (params?.types?.length) {
+      searchParams.append('types', params.types.join(','));
+    }
+    if (params?.cursor) {
+      searchParams.append('cursor', params.cursor);
+    }
+    if (params?.limit) {
+      searchParams.append('limit', params.limit.toString());
+    }
+
+    const response = await this.request<TimelineItem[]>(`/api/crm/contacts/${id}/timeline?${searchParams.toString()}`);
+    // The timeline is cursor paginated, so its pagination block carries nextCursor instead of pages
+    const pagination = response.pagination as { nextCursor?: string | null } | undefined;
+    return { ...response, nextCursor: pagination?.nextCursor ?? null };
+  }
+
+  async search(
+    q: string,
+    params?: { types?: SearchResultType[]; limit?: number }
+  ): Promise<ApiResponse<SearchResult[]>> {
+    const searchParams = new URLSearchParams({ q });
+    if (params?.types?.length) {
+      searchParams.append('types', params.types.join(','));
+    }
+    if (params?.limit) {
+      searchParams.append('limit', params.limit.toString());
+    }
+
+    return this.request(`/api/crm/search?${searchParams.toString()}`);
+  }
+
+  // Pipeline endpoints
+  async getPipelines(): Promise<ApiResponse<Pipeline[]>> {
+    return this.request('/api/crm/pipelines');
+  }
+
+  async createPipeline(data: {
+    name: string;
+    isDefault?: boolean;
+    position?: number;
+    stages?: Array<Pick<PipelineStage, 'name'> & Partial<Pick<PipelineStage, 'type' | 'probability' | 'color'>>>;
+  }): Promise<ApiResponse<Pipeline>> {
+    return this.request('/api/crm/pipelines', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updatePipeline(
+    id: string,
+    data: Partial<Pick<Pipeline, 'name' | 'isDefault' | 'position'>>
+  ): Promise<ApiResponse<Pipeline>> {
+    return this.request(`/api/crm/pipelines/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deletePipeline(id: string): Promise<ApiResponse> {
+    return this.request(`/api/crm/pipelines/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async createPipelineStage(
+    pipelineId: string,
+    data: Pick<PipelineStage, 'name'> & Partial<Pick<PipelineStage, 'type' | 'probability' | 'color' | 'position'>>
+  ): Promise<ApiResponse<PipelineStage>> {
+    return this.request(`/api/crm/pipelines/${pipelineId}/stages`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updatePipelineStage(
+    pipelineId: string,
+    stageId: string,
+    data: Partial<Pick<PipelineStage, 'name' | 'type' | 'probability' | 'color'>>
+  ): Promise<ApiResponse<PipelineStage>> {
+    return this.request(`/api/crm/pipelines/${pipelineId}/stages/${stageId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deletePipelineStage(pipelineId: string, stageId: string, moveToStageId?: string): Promise<ApiResponse> {
+    const query = moveToStageId ? `?moveToStageId=${moveToStageId}` : '';
+    return this.request(`/api/crm/pipelines/${pipelineId}/stages/${stageId}${query}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async reorderPipelineStages(pipelineId: string, stageIds: string[]): Promise<ApiResponse<Pipeline>> {
+    return this.request(`/api/crm/pipelines/${pipelineId}/stages/reorder`, {
+      method: 'POST',
+      body: JSON.stringify({ stageIds }),
+    });
+  }
+
+  // Custom field endpoints
+  async getCustomFields(entity?: 'contact' | 'deal'): Promise<ApiResponse<CustomField[]>> {
+    return this.request(`/api/crm/custom-fields${entity ? `?entity=${entity}` : ''}`);
+  }
+
+  async createCustomField(data: {
+    entity: 'contact' | 'deal';
+    key: string;
+    label: string;
+    type: CustomField['type'];
+    options?: string[];
+    required?: boolean;
+    position?: number;
+  }): Promise<ApiResponse<CustomField>> {
+    return this.request('/api/crm/custom-fields', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateCustomField(
+    id: string,
+    data: Partial<Pick<CustomField, 'label' | 'options' | 'required' | 'position'>>
+  ): Promise<ApiResponse<CustomField>> {
+    return this.request(`/api/crm/custom-fields/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteCustomField(id: string): Promise<ApiResponse> {
+    return this.request(`/api/crm/custom-fields/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Message endpoints
+  async getMessages(params?: {
+    page?: number;
+    limit?: number;
+    contactId?: string;
+    channel?: string;
+  }): Promise<ApiResponse<Message[]>> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+    const query = searchParams.toString();
+    return this.request(`/api/crm/messages${query ? `?${query}` : ''}`);
+  }
+
+  async sendMessage(data: {
+    contactId: string;
+    channel: 'sms' | 'email';
+    body: string;
+    subject?: string;
+    // ISO time to send at; quiet hours may move it later
+    sendAt?: string;
+  }): Promise<ApiResponse<Message>> {
+    return this.request('/api/crm/messages/outbound', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Conversation endpoints
+  async getConversations(params?: {
+    page?: number;
+    limit?: number;
+    status?: ConversationStatus;
+    channel?: Message['channel'];
+    // A user id, 'me' or 'unassigned'
+    assignedTo?: string;
+    contactId?: string;
+    unread?: boolean;
+  }): Promise<ApiResponse<Conversation[]>> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+    const query = searchParams.toString();
+    return this.request(`/api/crm/conversations${query ? `?${query}` : ''}`);
+  }
+
+  async getMessageDelivery(id: string): Promise<ApiResponse<MessageDelivery>> {
+    return this.request(`/api/crm/messages/${id}/delivery`);
+  }
+
+  async getConversation(id: string): Promise<ApiResponse<Conversation>> {
+    return this.request(`/api/crm/conversations/${id}`);
+  }
+
+  async updateConversation(
+    id: string,
+    data: Partial<Pick<Conversation, 'status' | 'assignedTo' | 'priority'>>
+  ): Promise<ApiResponse<Conversation>> {
+    return this.request(`/api/crm/conversations/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async markConversationRead(id: string): Promise<ApiResponse<Conversation>> {
+    return this.request(`/api/crm/conversations/${id}/read`, {
+      method: 'POST',
+    });
+  }
+
+  async replyToConversation(id: string, data: { body: string; subject?: string }): Promise<ApiResponse<Message>> {
+    return this.request(`/api/crm/conversations/${id}/reply`, {
       method: 'POST',
       body: JSON.stringify(data),
     });
@@ -361,9 +2085,10 @@ class ApiClient {
     });
   }
 
-  async updateAppointment(id: string, data: Partial<Appointment>): Promise<ApiResponse<Appointment>> {
+  async updateAppointment(id: string, data: Partial<Appointment>, version?: number): Promise<ApiResponse<Appointment>> {
     return this.request(`/api/crm/appointments/${id}`, {
       method: 'PUT',
+      headers: ifMatch(version),
       body: JSON.stringify(data),
     });
   }
@@ -6,7 +6,8 @@ import { createWorkers } from './processors';
 import { logger } from './config/logger';
 import * as cron from 'node-cron';
 import { PrismaClient } from '@prisma/client';
-import { remindersQueue, snapshotsQueue } from '../api/src/queues';
+import { remindersQueue, snapshotsQueue, duplicatesQueue, tasksQueue, scoringQueue, retentionQueue } from './queues';
+import { formatLocalTime } from '@clientflow/api/services/quietHours';
 
 const prisma = new PrismaClient();
 
@@ -32,6 +33,7 @@ const setupScheduledJobs = () => {
             lte: tomorrow,
           },
           status: 'confirmed',
+          deletedAt: null,
         },
         include: {
           contact: true,
@@ -46,6 +48,7 @@ const setupScheduledJobs = () => {
             lte: threeHoursFromNow,
           },
           status: 'confirmed',
+          deletedAt: null,
         },
         include: {
           contact: true,
@@ -62,7 +65,7 @@ const setupScheduledJobs = () => {
             orgId: appointment.orgId,
             contactId: appointment.contactId,
             appointmentId: appointment.id,
-            message: `Reminder: You have an appointment tomorrow at ${appointment.startsAt.toLocaleString()}`,
+            message: `Reminder: You have an appointment tomorrow at ${formatLocalTime(appointment.startsAt, appointment.contact.timezone || appointment.org.timezone)}`,
             scheduledFor: appointment.startsAt,
             reminderType: '24h',
           }, {
@@ -85,7 +88,7 @@ const setupScheduledJobs = () => {
             orgId: appointment.orgId,
             contactId: appointment.contactId,
             appointmentId: appointment.id,
-            message: `Reminder: You have an appointment in 3 hours at ${appointment.startsAt.toLocaleString()}`,
+            message: `Reminder: You have an appointment in 3 hours at ${formatLocalTime(appointment.startsAt, appointment.contact.timezone || appointment.org.timezone)}`,
             scheduledFor: appointment.startsAt,
             reminderType: '3h',
           }, {
@@ -139,6 +142,134 @@ const setupScheduledJobs = () => {
     }
   });
   
+  // Every day at 02:00: enqueue duplicate contact scans per org
+  cron.schedule('0 2 * * *', async () => {
+    logger.info('Running daily duplicate contact scan');
+    
+    try {
+      const organizations = await prisma.organization.findMany({
+        select: { id: true },
+      });
+      
+      for (const org of organizations) {
+        await duplicatesQueue.add('process-duplicates', {
+          orgId: org.id,
+        }, {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 2000,
+          },
+        });
+      }
+      
+      logger.info('Duplicate scans queued', { orgCount: organizations.length });
+    } catch (error) {
+      logger.error('Failed to queue duplicate scans', { error });
+    }
+  });
+  
+  // Every 15 minutes: enqueue task due-date reminders per org
+  cron.schedule('*/15 * * * *', async () => {
+    logger.info('Running task reminder scan');
+    
+    try {
+      const organizations = await prisma.organization.findMany({
+        where: {
+          tasks: {
+            some: { completedAt: null, reminderSentAt: null, assigneeId: { not: null } },
+          },
+        },
+        select: { id: true },
+      });
+      
+      for (const org of organizations) {
+        await tasksQueue.add('process-task-reminders', {
+          orgId: org.id,
+        }, {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 2000,
+          },
+        });
+      }
+      
+      logger.info('Task reminder scans queued', { orgCount: organizations.length });
+    } catch (error) {
+      logger.error('Failed to queue task reminder scans', { error });
+    }
+  });
+  
+  // Every day at 03:00: rescore all contacts per org so score decay applies
+  cron.schedule('0 3 * * *', async () => {
+    logger.info('Running daily lead score recompute');
+    
+    try {
+      const organizations = await prisma.organization.findMany({
+        where: {
+          leadScoreRules: {
+            some: { isEnabled: true },
+          },
+        },
+        select: { id: true },
+      });
+      
+      for (const org of organizations) {
+        await scoringQueue.add('process-lead-scores', {
+          orgId: org.id,
+        }, {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 2000,
+          },
+        });
+      }
+      
+      logger.info('Lead score recomputes queued', { orgCount: organizations.length });
+    } catch (error) {
+      logger.error('Failed to queue lead score recomputes', { error });
+    }
+  });
+  
+  // Every day at 04:00: purge trashed records past the retention period (TRASH_RETENTION_DAYS)
+  cron.schedule('0 4 * * *', async () => {
+    logger.info('Running daily trash purge');
+    
+    try {
+      const trashed = { deletedAt: { not: null } };
+      const organizations = await prisma.organization.findMany({
+        where: {
+          OR: [
+            { contacts: { some: trashed } },
+            { deals: { some: trashed } },
+            { activities: { some: trashed } },
+            { appointments: { some: trashed } },
+            { tasks: { some: trashed } },
+          ],
+        },
+        select: { id: true },
+      });
+      
+      for (const org of organizations) {
+        await retentionQueue.add('process-trash-purge', {
+          orgId: org.id,
+        }, {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 2000,
+          },
+        });
+      }
+      
+      logger.info('Trash purges queued', { orgCount: organizations.length });
+    } catch (error) {
+      logger.error('Failed to queue trash purges', { error });
+    }
+  });
+  
   logger.info('Scheduled jobs configured');
 };
 
@@ -156,18 +287,28 @@ const startWorker = async () => {
     // Log worker status
     logger.info('Worker started successfully', {
       workers: workers.length,
-      queues: ['reminders', 'nurture', 'dunning', 'snapshots'],
+      queues: ['reminders', 'nurture', 'dunning', 'snapshots', 'duplicates', 'imports', 'broadcasts', 'tasks', 'scoring', 'retention'],
     });
     
     console.log('🚀 ClientFlow Worker started');
     console.log('📅 Scheduled jobs:');
     console.log('  - Hourly appointment reminder scan');
     console.log('  - Daily snapshots at 01:00');
+    console.log('  - Daily duplicate contact scan at 02:00');
+    console.log('  - Task reminder scan every 15 minutes');
+    console.log('  - Daily lead score recompute at 03:00');
+    console.log('  - Daily trash purge at 04:00');
     console.log('🔄 Active queues:');
     console.log('  - reminders');
     console.log('  - nurture');
     console.log('  - dunning');
     console.log('  - snapshots');
+    console.log('  - duplicates');
+    console.log('  - imports');
+    console.log('  - broadcasts');
+    console.log('  - tasks');
+    console.log('  - scoring');
+    console.log('  - retention');
     
   } catch (error) {
     logger.error('Failed to start worker', { error });
@@ -1,29 +1,146 @@
-import { Job, Worker } from 'bullmq';
-import { PrismaClient } from '@prisma/client';
+import { Job, Queue, Worker } from 'bullmq';
+import { Contact, MessageChannel, Organization, PrismaClient } from '@prisma/client';
+import { sendEmail, sendSms } from '@clientflow/api/services/messaging';
+import { DuplicateService } from '@clientflow/api/services/duplicates';
+import { ContactImportService } from '@clientflow/api/services/contactImport';
+import { SegmentService } from '@clientflow/api/services/segments';
+import { TaskService } from '@clientflow/api/services/tasks';
+import { LeadScoringService } from '@clientflow/api/services/leadScoring';
+import { TrashService } from '@clientflow/api/services/trash';
+import { FxService } from '@clientflow/api/services/fx';
+import { ConsentService } from '@clientflow/api/services/consent';
+import { InboxService } from '@clientflow/api/services/inbox';
+import { TemplateContext, TemplateService } from '@clientflow/api/services/templates';
+import { isQuietTime, nextAllowedTime } from '@clientflow/api/services/quietHours';
+import { ScheduledMessageService } from '@clientflow/api/services/scheduledMessages';
 import { createJobLogger } from '../config/logger';
-import { twilioService } from '../services/twilio';
-import { sendGridService } from '../services/sendgrid';
-import { googleCalendarService } from '../services/google-calendar';
-import { remindersQueue, nurtureQueue, dunningQueue, snapshotsQueue } from './queues';
+import { remindersQueue, nurtureQueue, dunningQueue, snapshotsQueue } from '../queues';
 
 const prisma = new PrismaClient();
 
+interface TemplatedSend {
+  sent: boolean;
+  channel: MessageChannel;
+  content: string;
+  templateVersion: number;
+}
+
+// Jobs that carry a templateId send that library template on its own channel
+// instead of building the message inline
+const sendTemplate = async (
+  logger: ReturnType<typeof createJobLogger>,
+  source: string,
+  contact: Contact,
+  templateId: string,
+  context: TemplateContext = {}
+): Promise<TemplatedSend> => {
+  const orgId = contact.orgId;
+  const rendered = await TemplateService.render(orgId, templateId, { ...context, contactId: contact.id });
+  const result: TemplatedSend = {
+    sent: false,
+    channel: rendered.channel,
+    content: rendered.text || rendered.html || '',
+    templateVersion: rendered.version,
+  };
+
+  if (rendered.missing.length > 0) {
+    logger.warn('Template rendered with blank variables', { templateId, missing: rendered.missing });
+  }
+
+  if (rendered.channel === 'whatsapp') {
+    logger.warn('WhatsApp templates cannot be sent from jobs', { templateId });
+    return result;
+  }
+
+  const to = rendered.channel === 'email' ? contact.email : contact.phone;
+  if (!to || !(await ConsentService.check(orgId, { channel: rendered.channel, to, source, contactId: contact.id })).allowed) {
+    return result;
+  }
+
+  const send = rendered.channel === 'sms'
+    ? await sendSms({ to, body: rendered.text!, orgId })
+    : await sendEmail({
+        to,
+        subject: rendered.subject!,
+        html: rendered.html || rendered.text!,
+        text: rendered.text ?? undefined,
+        orgId,
+      });
+
+  if (!send.success) {
+    logger.warn('Templated message failed', { contactId: contact.id, templateId, error: send.error });
+    return result;
+  }
+
+  await InboxService.recordMessage(orgId, {
+    contactId: contact.id,
+    direction: 'outbound',
+    channel: rendered.channel,
+    toAddr: to,
+    fromAddr: send.from || '',
+    body: rendered.channel === 'email' ? rendered.html || rendered.text! : rendered.text!,
+    providerMessageId: send.messageId,
+    meta: {
+      subject: rendered.subject,
+      messageId: send.messageId,
+      templateId,
+      templateVersion: rendered.version,
+      source,
+    },
+  });
+
+  logger.info('Templated message sent', { contactId: contact.id, templateId, channel: rendered.channel, messageId: send.messageId });
+  return { ...result, sent: true };
+};
+
+// Requeues a job that would message the contact during the organization's quiet
+// hours, evaluated in the contact's timezone, for the end of the window.
+// Returns when it will run again, or null when the job can send now.
+const deferForQuietHours = async (
+  logger: ReturnType<typeof createJobLogger>,
+  queue: Queue,
+  job: Job,
+  contact: Contact,
+  org: Organization
+) => {
+  if (!org.quietHoursStart || !org.quietHoursEnd) return null;
+
+  const window = { start: org.quietHoursStart, end: org.quietHoursEnd };
+  const timeZone = contact.timezone || org.timezone;
+  const now = new Date();
+  if (!isQuietTime(now, window, timeZone)) return null;
+
+  const sendAt = nextAllowedTime(now, window, timeZone);
+  await queue.add(job.name, job.data, {
+    delay: sendAt.getTime() - now.getTime(),
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 2000,
+    },
+  });
+
+  logger.info('Job deferred for quiet hours', { contactId: contact.id, timeZone, sendAt });
+  return sendAt;
+};
+
 // Reminder processor
 export const processReminder = async (job: Job) => {
   const logger = createJobLogger('reminder-processor', job.id!, job.data.orgId);
   
   try {
-    const { orgId, contactId, message, scheduledFor, reminderType } = job.data;
+    const { orgId, contactId, appointmentId, message, templateId, scheduledFor, reminderType } = job.data;
     
     logger.info('Processing reminder job', {
       contactId,
       reminderType,
       scheduledFor,
+      templateId,
     });
 
     // Get contact details
     const contact = await prisma.contact.findFirst({
-      where: { id: contactId, orgId },
+      where: { id: contactId, orgId, deletedAt: null },
     });
 
     if (!contact) {
@@ -39,11 +156,35 @@ export const processReminder = async (job: Job) => {
       throw new Error(`Organization ${orgId} not found`);
     }
 
-    // Send reminder based on contact preferences
+    const deferredUntil = await deferForQuietHours(logger, remindersQueue, job, contact, org);
+    if (deferredUntil) {
+      return { success: true, sent: false, deferredUntil };
+    }
+
+    if (templateId) {
+      const { sent, channel, content, templateVersion } = await sendTemplate(logger, 'worker.reminder', contact, templateId, {
+        appointmentId,
+      });
+
+      await prisma.activity.create({
+        data: {
+          orgId,
+          contactId,
+          type: channel === 'email' ? 'email' : 'sms',
+          content: `Reminder sent: ${content}`,
+          meta: { reminderType, scheduledFor, sent, templateId, templateVersion, jobId: job.id },
+        },
+      });
+
+      logger.info('Reminder processed successfully', { contactId, sent, channel });
+      return { success: true, sent, channel };
+    }
+
+    // Send reminder based on contact preferences, skipping channels the contact opted out of
     let sent = false;
     
-    if (contact.phone) {
-      const smsResult = await twilioService.sendSms({
+    if (contact.phone && (await ConsentService.check(orgId, { channel: 'sms', to: contact.phone, source: 'worker.reminder', contactId })).allowed) {
+      const smsResult = await sendSms({
         to: contact.phone,
         body: message,
         orgId,
@@ -55,8 +196,8 @@ export const processReminder = async (job: Job) => {
       }
     }
 
-    if (contact.email && !sent) {
-      const emailResult = await sendGridService.sendEmail({
+    if (contact.email && !sent && (await ConsentService.check(orgId, { channel: 'email', to: contact.email, source: 'worker.reminder', contactId })).allowed) {
+      const emailResult = await sendEmail({
         to: contact.email,
         subject: `Reminder from ${org.name}`,
         html: `<p>${message}</p>`,
@@ -98,17 +239,18 @@ export const processNurture = async (job: Job) => {
   const logger = createJobLogger('nurture-processor', job.id!, job.data.orgId);
   
   try {
-    const { orgId, contactId, sequenceStep, template, personalization } = job.data;
+    const { orgId, contactId, sequenceStep, template, templateId, personalization } = job.data;
     
     logger.info('Processing nurture job', {
       contactId,
       sequenceStep,
       template,
+      templateId,
     });
 
     // Get contact details
     const contact = await prisma.contact.findFirst({
-      where: { id: contactId, orgId },
+      where: { id: contactId, orgId, deletedAt: null },
     });
 
     if (!contact) {
@@ -124,6 +266,30 @@ export const processNurture = async (job: Job) => {
       throw new Error(`Organization ${orgId} not found`);
     }
 
+    const deferredUntil = await deferForQuietHours(logger, nurtureQueue, job, contact, org);
+    if (deferredUntil) {
+      return { success: true, sent: false, deferredUntil };
+    }
+
+    if (templateId) {
+      const { sent, channel, content, templateVersion } = await sendTemplate(logger, 'worker.nurture', contact, templateId, {
+        dealId: job.data.dealId,
+      });
+
+      await prisma.activity.create({
+        data: {
+          orgId,
+          contactId,
+          type: channel === 'email' ? 'email' : 'sms',
+          content: `Nurture message sent: ${content}`,
+          meta: { sequenceStep, sent, templateId, templateVersion, jobId: job.id },
+        },
+      });
+
+      logger.info('Nurture processed successfully', { contactId, sent, channel });
+      return { success: true, sent, channel };
+    }
+
     // Personalize message
     let personalizedMessage = template;
     if (personalization) {
@@ -134,12 +300,12 @@ export const processNurture = async (job: Job) => {
         .replace(/{contact_phone}/g, contact.phone || '');
     }
 
-    // Send nurture message
+    // Send nurture message, skipping channels the contact opted out of
     let sent = false;
     let channel = 'email';
     
-    if (contact.email) {
-      const emailResult = await sendGridService.sendEmail({
+    if (contact.email && (await ConsentService.check(orgId, { channel: 'email', to: contact.email, source: 'worker.nurture', contactId })).allowed) {
+      const emailResult = await sendEmail({
         to: contact.email,
         subject: `Message from ${org.name}`,
         html: `<p>${personalizedMessage}</p>`,
@@ -152,8 +318,8 @@ export const processNurture = async (job: Job) => {
       }
     }
 
-    if (contact.phone && !sent) {
-      const smsResult = await twilioService.sendSms({
+    if (contact.phone && !sent && (await ConsentService.check(orgId, { channel: 'sms', to: contact.phone, source: 'worker.nurture', contactId })).allowed) {
+      const smsResult = await sendSms({
         to: contact.phone,
         body: personalizedMessage,
         orgId,
@@ -196,7 +362,7 @@ export const processDunning = async (job: Job) => {
   const logger = createJobLogger('dunning-processor', job.id!, job.data.orgId);
   
   try {
-    const { orgId, contactId, amount, daysOverdue, paymentLink } = job.data;
+    const { orgId, contactId, amount, daysOverdue, paymentLink, templateId } = job.data;
     
     logger.info('Processing dunning job', {
       contactId,
@@ -206,7 +372,7 @@ export const processDunning = async (job: Job) => {
 
     // Get contact details
     const contact = await prisma.contact.findFirst({
-      where: { id: contactId, orgId },
+      where: { id: contactId, orgId, deletedAt: null },
     });
 
     if (!contact) {
@@ -222,15 +388,41 @@ export const processDunning = async (job: Job) => {
       throw new Error(`Organization ${orgId} not found`);
     }
 
+    const deferredUntil = await deferForQuietHours(logger, dunningQueue, job, contact, org);
+    if (deferredUntil) {
+      return { success: true, sent: false, deferredUntil };
+    }
+
+    if (templateId) {
+      const { sent, channel, content, templateVersion } = await sendTemplate(logger, 'worker.dunning', contact, templateId, {
+        dealId: job.data.dealId,
+        // {{vars.amount}}, {{vars.daysOverdue}} and {{vars.paymentLink}}
+        variables: { amount: `$${(amount / 100).toFixed(2)}`, daysOverdue, paymentLink },
+      });
+
+      await prisma.activity.create({
+        data: {
+          orgId,
+          contactId,
+          type: channel === 'email' ? 'email' : 'sms',
+          content: `Dunning message sent: ${content}`,
+          meta: { amount, daysOverdue, paymentLink, sent, templateId, templateVersion, jobId: job.id },
+        },
+      });
+
+      logger.info('Dunning processed successfully', { contactId, sent, channel });
+      return { success: true, sent, channel };
+    }
+
     // Create dunning message
     const dunningMessage = `Hi ${contact.firstName}, your payment of $${(amount / 100).toFixed(2)} is ${daysOverdue} days overdue. Please pay now: ${paymentLink}`;
 
-    // Send dunning message
+    // Send dunning message, skipping channels the contact opted out of
     let sent = false;
     let channel = 'email';
     
-    if (contact.email) {
-      const emailResult = await sendGridService.sendEmail({
+    if (contact.email && (await ConsentService.check(orgId, { channel: 'email', to: contact.email, source: 'worker.dunning', contactId })).allowed) {
+      const emailResult = await sendEmail({
         to: contact.email,
         subject: `Payment Overdue - ${org.name}`,
         html: `<p>${dunningMessage}</p><p>Payment Link: <a href="${paymentLink}">Pay Now</a></p>`,
@@ -243,8 +435,8 @@ export const processDunning = async (job: Job) => {
       }
     }
 
-    if (contact.phone && !sent) {
-      const smsResult = await twilioService.sendSms({
+    if (contact.phone && !sent && (await ConsentService.check(orgId, { channel: 'sms', to: contact.phone, source: 'worker.dunning', contactId })).allowed) {
+      const smsResult = await sendSms({
         to: contact.phone,
         body: dunningMessage,
         orgId,
@@ -302,6 +494,7 @@ export const processSnapshots = async (job: Job) => {
     const leads = await prisma.contact.count({
       where: {
         orgId,
+        deletedAt: null,
         createdAt: {
           gte: startOfDay,
           lte: endOfDay,
@@ -313,20 +506,25 @@ export const processSnapshots = async (job: Job) => {
     const dealsWon = await prisma.deal.findMany({
       where: {
         orgId,
-        stage: 'won',
-        updatedAt: {
+        deletedAt: null,
+        stage: { type: 'won' },
+        closedAt: {
           gte: startOfDay,
           lte: endOfDay,
         },
       },
     });
 
-    const revenueCents = dealsWon.reduce((sum, deal) => sum + deal.valueCents, 0);
+    // Converted to the org's base currency at each deal's won-date rate
+    const revenue = await FxService.sumRevenue(orgId, dealsWon);
+    const revenueCents = revenue.revenueCents;
+    const revenueByCurrency = revenue.byCurrency;
 
     // Get appointments for show rate calculation
     const appointments = await prisma.appointment.findMany({
       where: {
         orgId,
+        deletedAt: null,
         startsAt: {
           gte: startOfDay,
           lte: endOfDay,
@@ -350,6 +548,7 @@ export const processSnapshots = async (job: Job) => {
         leads,
         dealsWon: dealsWon.length,
         revenueCents,
+        revenueByCurrency,
         showRate,
       },
       create: {
@@ -358,6 +557,7 @@ export const processSnapshots = async (job: Job) => {
         leads,
         dealsWon: dealsWon.length,
         revenueCents,
+        revenueByCurrency,
         showRate,
       },
     });
@@ -368,6 +568,7 @@ export const processSnapshots = async (job: Job) => {
       leads,
       dealsWon: dealsWon.length,
       revenueCents,
+      revenueByCurrency,
       showRate,
     });
 
@@ -377,6 +578,7 @@ export const processSnapshots = async (job: Job) => {
         leads,
         dealsWon: dealsWon.length,
         revenueCents,
+        revenueByCurrency,
         showRate,
       },
     };
@@ -386,6 +588,256 @@ export const processSnapshots = async (job: Job) => {
   }
 };
 
+// Duplicate scan processor
+export const processDuplicateScan = async (job: Job) => {
+  const logger = createJobLogger('duplicates-processor', job.id!, job.data.orgId);
+  
+  try {
+    const { orgId } = job.data;
+    
+    logger.info('Processing duplicate scan job', { orgId });
+
+    const result = await DuplicateService.scanOrg(orgId);
+
+    logger.info('Duplicate scan processed successfully', { orgId, ...result });
+
+    return {
+      success: true,
+      ...result,
+    };
+  } catch (error) {
+    logger.error('Failed to process duplicate scan', { error });
+    throw error;
+  }
+};
+
+// Contact import processor
+export const processContactImport = async (job: Job) => {
+  const logger = createJobLogger('imports-processor', job.id!, job.data.orgId);
+  
+  try {
+    const { orgId, payload } = job.data;
+    
+    logger.info('Processing contact import job', { orgId, importId: payload.importId });
+
+    const result = await ContactImportService.run(payload.importId, (progress) => job.updateProgress(progress));
+
+    logger.info('Contact import processed successfully', {
+      orgId,
+      importId: payload.importId,
+      created: result.createdCount,
+      updated: result.updatedCount,
+      skipped: result.skippedCount,
+      errors: result.errorCount,
+    });
+
+    return {
+      success: true,
+      importId: result.id,
+      createdCount: result.createdCount,
+      updatedCount: result.updatedCount,
+      skippedCount: result.skippedCount,
+      errorCount: result.errorCount,
+    };
+  } catch (error) {
+    logger.error('Failed to process contact import', { error });
+    throw error;
+  }
+};
+
+// Segment broadcast processor
+const BROADCAST_BATCH_SIZE = 200;
+
+export const processBroadcast = async (job: Job) => {
+  const logger = createJobLogger('broadcasts-processor', job.id!, job.data.orgId);
+  
+  try {
+    const { orgId, payload } = job.data;
+    const { segmentId, channel, subject, body, requestedBy } = payload;
+    
+    logger.info('Processing broadcast job', { orgId, segmentId, channel });
+
+    // Membership is resolved when the job runs, not when it was queued
+    const where = await SegmentService.whereFor(orgId, segmentId);
+    const total = await prisma.contact.count({ where });
+    const counts = { sent: 0, skipped: 0, suppressed: 0, failed: 0 };
+    let cursor: string | undefined;
+
+    for (;;) {
+      const contacts = await prisma.contact.findMany({
+        where,
+        select: { id: true, email: true, phone: true },
+        orderBy: { id: 'asc' },
+        take: BROADCAST_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      if (contacts.length === 0) {
+        break;
+      }
+
+      for (const contact of contacts) {
+        const to = channel === 'sms' ? contact.phone : contact.email;
+        if (!to) {
+          counts.skipped++;
+          continue;
+        }
+
+        const consent = await ConsentService.check(orgId, { channel, to, source: 'worker.broadcast', contactId: contact.id });
+        if (!consent.allowed) {
+          counts.suppressed++;
+          continue;
+        }
+
+        const result = channel === 'sms'
+          ? await sendSms({ to, body, orgId })
+          : await sendEmail({ to, subject, html: body, orgId });
+
+        if (!result.success) {
+          counts.failed++;
+          logger.warn('Broadcast message failed', { contactId: contact.id, error: result.error });
+          continue;
+        }
+
+        counts.sent++;
+        await InboxService.recordMessage(orgId, {
+          contactId: contact.id,
+          direction: 'outbound',
+          channel,
+          toAddr: to,
+          fromAddr: result.from || '',
+          body,
+          providerMessageId: result.messageId,
+          meta: {
+            subject,
+            messageId: result.messageId,
+            broadcastJobId: job.id,
+            segmentId,
+            requestedBy,
+          },
+        });
+      }
+
+      cursor = contacts[contacts.length - 1].id;
+      await job.updateProgress({ total, processed: counts.sent + counts.skipped + counts.suppressed + counts.failed });
+    }
+
+    logger.info('Broadcast processed successfully', { orgId, segmentId, channel, total, ...counts });
+    return { success: true, segmentId, channel, total, ...counts };
+  } catch (error) {
+    logger.error('Failed to process broadcast', { error });
+    throw error;
+  }
+};
+
+// Task reminder processor
+export const processTaskReminders = async (job: Job) => {
+  const logger = createJobLogger('tasks-processor', job.id!, job.data.orgId);
+  
+  try {
+    const { orgId } = job.data;
+    
+    logger.info('Processing task reminders job', { orgId });
+
+    const tasks = await TaskService.pendingReminders(orgId);
+    const reminded: string[] = [];
+
+    for (const task of tasks) {
+      if (!task.assignee?.email) continue;
+
+      const due = task.dueAt ? `due ${task.dueAt.toLocaleString()}` : 'with no due date';
+      const overdue = task.dueAt && task.dueAt < new Date();
+      const related = [
+        task.contact && `Contact: ${`${task.contact.firstName} ${task.contact.lastName || ''}`.trim()}`,
+        task.deal && `Deal: ${task.deal.title}`,
+      ].filter(Boolean);
+
+      const result = await sendEmail({
+        to: task.assignee.email,
+        subject: `${overdue ? 'Overdue' : 'Task reminder'}: ${task.title}`,
+        html: [
+          `<p>${task.title} is ${overdue ? 'overdue' : due}.</p>`,
+          task.description ? `<p>${task.description}</p>` : '',
+          ...related.map(line => `<p>${line}</p>`),
+          `<p><a href="${process.env.FRONTEND_URL || ''}/tasks">Open your tasks</a></p>`,
+        ].join(''),
+        orgId,
+      });
+
+      if (result.success) {
+        reminded.push(task.id);
+      } else {
+        logger.warn('Task reminder failed', { taskId: task.id, error: result.error });
+      }
+    }
+
+    await TaskService.markReminded(reminded);
+
+    logger.info('Task reminders processed successfully', { orgId, due: tasks.length, sent: reminded.length });
+    return { success: true, due: tasks.length, sent: reminded.length };
+  } catch (error) {
+    logger.error('Failed to process task reminders', { error });
+    throw error;
+  }
+};
+
+// Lead score processor
+export const processLeadScores = async (job: Job) => {
+  const logger = createJobLogger('scoring-processor', job.id!, job.data.orgId);
+  
+  try {
+    const { orgId, contactId } = job.data;
+    
+    logger.info('Processing lead score job', { orgId, contactId });
+
+    const result = await LeadScoringService.recompute(orgId, contactId ? [contactId] : undefined);
+
+    logger.info('Lead scores processed successfully', { orgId, ...result });
+    return { success: true, ...result };
+  } catch (error) {
+    logger.error('Failed to process lead scores', { error });
+    throw error;
+  }
+};
+
+// Trash retention processor
+export const processTrashPurge = async (job: Job) => {
+  const logger = createJobLogger('retention-processor', job.id!, job.data.orgId);
+  
+  try {
+    const { orgId } = job.data;
+    
+    logger.info('Processing trash purge job', { orgId });
+
+    const result = await TrashService.purge(orgId);
+
+    logger.info('Trash purged successfully', { orgId, ...result });
+    return { success: true, ...result };
+  } catch (error) {
+    logger.error('Failed to purge trash', { error });
+    throw error;
+  }
+};
+
+// Scheduled message processor
+export const processScheduledMessage = async (job: Job) => {
+  const logger = createJobLogger('scheduled-message-processor', job.id!, job.data.orgId);
+
+  try {
+    const { orgId, scheduledMessageId } = job.data;
+
+    logger.info('Processing scheduled message job', { scheduledMessageId });
+
+    const message = await ScheduledMessageService.dispatch(orgId, scheduledMessageId);
+
+    logger.info('Scheduled message processed', { scheduledMessageId, status: message?.status ?? 'skipped' });
+    return { success: true, status: message?.status ?? 'skipped' };
+  } catch (error) {
+    logger.error('Failed to process scheduled message', { error });
+    throw error;
+  }
+};
+
 // Create workers
 export const createWorkers = () => {
   const workers = [];
@@ -478,5 +930,159 @@ export const createWorkers = () => {
 
   workers.push(snapshotsWorker);
 
+  // Duplicates worker
+  const duplicatesWorker = new Worker('duplicates', processDuplicateScan, {
+    connection: {
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD,
+    },
+    concurrency: 1,
+    removeOnComplete: { count: 50 },
+    removeOnFail: { count: 25 },
+  });
+
+  duplicatesWorker.on('completed', (job) => {
+    console.log(`Duplicates job ${job.id} completed`);
+  });
+
+  duplicatesWorker.on('failed', (job, err) => {
+    console.error(`Duplicates job ${job?.id} failed:`, err);
+  });
+
+  workers.push(duplicatesWorker);
+
+  // Imports worker
+  const importsWorker = new Worker('imports', processContactImport, {
+    connection: {
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD,
+    },
+    concurrency: 1,
+    removeOnComplete: { count: 50 },
+    removeOnFail: { count: 25 },
+  });
+
+  importsWorker.on('completed', (job) => {
+    console.log(`Imports job ${job.id} completed`);
+  });
+
+  importsWorker.on('failed', (job, err) => {
+    console.error(`Imports job ${job?.id} failed:`, err);
+  });
+
+  workers.push(importsWorker);
+
+  // Broadcasts worker
+  const broadcastsWorker = new Worker('broadcasts', processBroadcast, {
+    connection: {
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD,
+    },
+    concurrency: 1,
+    removeOnComplete: { count: 50 },
+    removeOnFail: { count: 25 },
+  });
+
+  broadcastsWorker.on('completed', (job) => {
+    console.log(`Broadcasts job ${job.id} completed`);
+  });
+
+  broadcastsWorker.on('failed', (job, err) => {
+    console.error(`Broadcasts job ${job?.id} failed:`, err);
+  });
+
+  workers.push(broadcastsWorker);
+
+  // Tasks worker
+  const tasksWorker = new Worker('tasks', processTaskReminders, {
+    connection: {
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD,
+    },
+    concurrency: 1,
+    removeOnComplete: { count: 50 },
+    removeOnFail: { count: 25 },
+  });
+
+  tasksWorker.on('completed', (job) => {
+    console.log(`Tasks job ${job.id} completed`);
+  });
+
+  tasksWorker.on('failed', (job, err) => {
+    console.error(`Tasks job ${job?.id} failed:`, err);
+  });
+
+  workers.push(tasksWorker);
+
+  // Scoring worker
+  const scoringWorker = new Worker('scoring', processLeadScores, {
+    connection: {
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD,
+    },
+    concurrency: 2,
+    removeOnComplete: { count: 50 },
+    removeOnFail: { count: 25 },
+  });
+
+  scoringWorker.on('completed', (job) => {
+    console.log(`Scoring job ${job.id} completed`);
+  });
+
+  scoringWorker.on('failed', (job, err) => {
+    console.error(`Scoring job ${job?.id} failed:`, err);
+  });
+
+  workers.push(scoringWorker);
+
+  // Retention worker
+  const retentionWorker = new Worker('retention', processTrashPurge, {
+    connection: {
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD,
+    },
+    concurrency: 1,
+    removeOnComplete: { count: 50 },
+    removeOnFail: { count: 25 },
+  });
+
+  retentionWorker.on('completed', (job) => {
+    console.log(`Retention job ${job.id} completed`);
+  });
+
+  retentionWorker.on('failed', (job, err) => {
+    console.error(`Retention job ${job?.id} failed:`, err);
+  });
+
+  workers.push(retentionWorker);
+
+  // Scheduled message worker
+  const scheduledMessageWorker = new Worker('scheduled-messages', processScheduledMessage, {
+    connection: {
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD,
+    },
+    concurrency: 5,
+    removeOnComplete: { count: 100 },
+    removeOnFail: { count: 50 },
+  });
+
+  scheduledMessageWorker.on('completed', (job) => {
+    console.log(`Scheduled message job ${job.id} completed`);
+  });
+
+  scheduledMessageWorker.on('failed', (job, err) => {
+    console.error(`Scheduled message job ${job?.id} failed:`, err);
+  });
+
+  workers.push(scheduledMessageWorker);
+
   return workers;
 };
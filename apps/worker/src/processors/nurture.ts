@@ -1,7 +1,7 @@
 import { Worker, Job } from 'bullmq';
 import IORedis from 'ioredis';
-import { sendSms } from '../services/comms/twilio';
-import { sendEmail } from '../services/comms/sendgrid';
+import { sendEmail, sendSms } from '@clientflow/api/services/messaging';
+import { ConsentService } from '@clientflow/api/services/consent';
 import { createJobLogger } from '../config/logger';
 
 const connection = new IORedis(process.env.REDIS_URL || 'redis://localhost:6379');
@@ -14,8 +14,10 @@ export const nurtureWorker = new Worker('nurture', async (job: Job) => {
     
     logger.info('Processing nurture job', { orgId, payload });
 
-    // Send nurture message via SMS or email
-    if (payload.contact?.phone) {
+    const contactId = payload.contact?.id;
+
+    // Send nurture message via SMS or email, skipping channels the contact opted out of
+    if (payload.contact?.phone && (await ConsentService.check(orgId, { channel: 'sms', to: payload.contact.phone, source: 'worker.nurture', contactId })).allowed) {
       const result = await sendSms({
         orgId,
         to: payload.contact.phone,
@@ -29,7 +31,7 @@ export const nurtureWorker = new Worker('nurture', async (job: Job) => {
       }
     }
 
-    if (payload.contact?.email && !payload.contact?.phone) {
+    if (payload.contact?.email && !payload.contact?.phone && (await ConsentService.check(orgId, { channel: 'email', to: payload.contact.email, source: 'worker.nurture', contactId })).allowed) {
       const result = await sendEmail({
         orgId,
         to: payload.contact.email,
@@ -2,6 +2,7 @@ import { Worker, Job } from 'bullmq';
 import IORedis from 'ioredis';
 import { createJobLogger } from '../config/logger';
 import { PrismaClient } from '@prisma/client';
+import { FxService } from '@clientflow/api/services/fx';
 
 const connection = new IORedis(process.env.REDIS_URL || 'redis://localhost:6379');
 const prisma = new PrismaClient();
@@ -26,6 +27,7 @@ export const snapshotsWorker = new Worker('snapshots', async (job: Job) => {
     const leads = await prisma.contact.count({
       where: {
         orgId,
+        deletedAt: null,
         createdAt: {
           gte: startOfDay,
           lte: endOfDay,
@@ -37,20 +39,25 @@ export const snapshotsWorker = new Worker('snapshots', async (job: Job) => {
     const dealsWon = await prisma.deal.findMany({
       where: {
         orgId,
-        stage: 'won',
-        updatedAt: {
+        deletedAt: null,
+        stage: { type: 'won' },
+        closedAt: {
           gte: startOfDay,
           lte: endOfDay,
         },
       },
     });
 
-    const revenueCents = dealsWon.reduce((sum, deal) => sum + deal.valueCents, 0);
+    // Converted to the org's base currency at each deal's won-date rate
+    const revenue = await FxService.sumRevenue(orgId, dealsWon);
+    const revenueCents = revenue.revenueCents;
+    const revenueByCurrency = revenue.byCurrency;
 
     // Get appointments for show rate calculation
     const appointments = await prisma.appointment.findMany({
       where: {
         orgId,
+        deletedAt: null,
         startsAt: {
           gte: startOfDay,
           lte: endOfDay,
@@ -74,6 +81,7 @@ export const snapshotsWorker = new Worker('snapshots', async (job: Job) => {
         leads,
         dealsWon: dealsWon.length,
         revenueCents,
+        revenueByCurrency,
         showRate,
       },
       create: {
@@ -82,6 +90,7 @@ export const snapshotsWorker = new Worker('snapshots', async (job: Job) => {
         leads,
         dealsWon: dealsWon.length,
         revenueCents,
+        revenueByCurrency,
         showRate,
       },
     });
@@ -92,6 +101,7 @@ export const snapshotsWorker = new Worker('snapshots', async (job: Job) => {
       leads,
       dealsWon: dealsWon.length,
       revenueCents,
+      revenueByCurrency,
       showRate,
     });
 
@@ -101,6 +111,7 @@ export const snapshotsWorker = new Worker('snapshots', async (job: Job) => {
         leads,
         dealsWon: dealsWon.length,
         revenueCents,
+        revenueByCurrency,
         showRate,
       },
     };
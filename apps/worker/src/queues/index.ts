@@ -9,6 +9,13 @@ export const QUEUE_NAMES = {
   NURTURE: 'nurture',
   DUNNING: 'dunning',
   SNAPSHOTS: 'snapshots',
+  DUPLICATES: 'duplicates',
+  IMPORTS: 'imports',
+  BROADCASTS: 'broadcasts',
+  TASKS: 'tasks',
+  SCORING: 'scoring',
+  RETENTION: 'retention',
+  SCHEDULED_MESSAGES: 'scheduled-messages',
 } as const;
 
 // Job types
@@ -27,6 +34,27 @@ export const JOB_TYPES = {
   
   // Snapshots
   DAILY_METRICS: 'daily_metrics',
+  
+  // Duplicates
+  DUPLICATE_SCAN: 'duplicate_scan',
+  
+  // Imports
+  CONTACT_IMPORT: 'contact_import',
+  
+  // Broadcasts
+  SEGMENT_BROADCAST: 'segment_broadcast',
+  
+  // Tasks
+  TASK_REMINDERS: 'task_reminders',
+  
+  // Scoring
+  LEAD_SCORE: 'lead_score',
+  
+  // Retention
+  TRASH_PURGE: 'trash_purge',
+
+  // Scheduled messages
+  SCHEDULED_MESSAGE: 'scheduled-message',
 } as const;
 
 // Queue configurations
@@ -48,6 +76,22 @@ export const remindersQueue = new Queue(QUEUE_NAMES.REMINDERS, queueConfig);
 export const nurtureQueue = new Queue(QUEUE_NAMES.NURTURE, queueConfig);
 export const dunningQueue = new Queue(QUEUE_NAMES.DUNNING, queueConfig);
 export const snapshotsQueue = new Queue(QUEUE_NAMES.SNAPSHOTS, queueConfig);
+export const duplicatesQueue = new Queue(QUEUE_NAMES.DUPLICATES, queueConfig);
+export const importsQueue = new Queue(QUEUE_NAMES.IMPORTS, {
+  ...queueConfig,
+  defaultJobOptions: { ...queueConfig.defaultJobOptions, attempts: 1 },
+});
+export const broadcastsQueue = new Queue(QUEUE_NAMES.BROADCASTS, {
+  ...queueConfig,
+  defaultJobOptions: { ...queueConfig.defaultJobOptions, attempts: 1 },
+});
+export const tasksQueue = new Queue(QUEUE_NAMES.TASKS, queueConfig);
+export const scoringQueue = new Queue(QUEUE_NAMES.SCORING, queueConfig);
+export const retentionQueue = new Queue(QUEUE_NAMES.RETENTION, queueConfig);
+export const scheduledMessagesQueue = new Queue(QUEUE_NAMES.SCHEDULED_MESSAGES, {
+  ...queueConfig,
+  defaultJobOptions: { ...queueConfig.defaultJobOptions, attempts: 1 },
+});
 
 // Queue event handlers
 const setupQueueEvents = (queue: Queue, queueName: string) => {
@@ -94,11 +138,18 @@ setupQueueEvents(remindersQueue, QUEUE_NAMES.REMINDERS);
 setupQueueEvents(nurtureQueue, QUEUE_NAMES.NURTURE);
 setupQueueEvents(dunningQueue, QUEUE_NAMES.DUNNING);
 setupQueueEvents(snapshotsQueue, QUEUE_NAMES.SNAPSHOTS);
+setupQueueEvents(duplicatesQueue, QUEUE_NAMES.DUPLICATES);
+setupQueueEvents(importsQueue, QUEUE_NAMES.IMPORTS);
+setupQueueEvents(broadcastsQueue, QUEUE_NAMES.BROADCASTS);
+setupQueueEvents(tasksQueue, QUEUE_NAMES.TASKS);
+setupQueueEvents(scoringQueue, QUEUE_NAMES.SCORING);
+setupQueueEvents(retentionQueue, QUEUE_NAMES.RETENTION);
+setupQueueEvents(scheduledMessagesQueue, QUEUE_NAMES.SCHEDULED_MESSAGES);
 
 // Health check function
 export const checkQueuesHealth = async () => {
   try {
-    const queues = [remindersQueue, nurtureQueue, dunningQueue, snapshotsQueue];
+    const queues = [remindersQueue, nurtureQueue, dunningQueue, snapshotsQueue, duplicatesQueue, importsQueue, broadcastsQueue, tasksQueue, scoringQueue, retentionQueue, scheduledMessagesQueue];
     const health = await Promise.all(
       queues.map(async (queue) => {
         const waiting = await queue.getWaiting();
@@ -134,6 +185,13 @@ export const closeQueues = async () => {
     nurtureQueue.close(),
     dunningQueue.close(),
     snapshotsQueue.close(),
+    duplicatesQueue.close(),
+    importsQueue.close(),
+    broadcastsQueue.close(),
+    tasksQueue.close(),
+    scoringQueue.close(),
+    retentionQueue.close(),
+    scheduledMessagesQueue.close(),
   ]);
   
   logger.info('All queues closed');